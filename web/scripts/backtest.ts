@@ -0,0 +1,100 @@
+/**
+ * Backtest forecast scores against realized sales
+ * Usage: npm run backtest -- [--fixture=scripts/fixtures/backtest.json] [--profiles=default,lender]
+ *                            [--horizon=180] [--tolerance=60] [--source=fixture|db] [--json]
+ */
+
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { backtestRunner } from '../src/lib/backtesting'
+import type { BacktestDataset, BacktestMetrics, BacktestReport } from '../src/lib/backtesting'
+import { listWeightProfiles } from '../src/lib/weight-profiles'
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`))
+  return arg ? arg.split('=')[1] : undefined
+}
+
+function getNumberArg(name: string): number | undefined {
+  const value = getArg(name)
+  return value ? parseInt(value) : undefined
+}
+
+function formatRow(label: string, metrics: BacktestMetrics): string {
+  return [
+    label.padEnd(24),
+    String(metrics.count).padStart(5),
+    `${(metrics.hitRate * 100).toFixed(1)}%`.padStart(8),
+    `$${metrics.maeUsd.toFixed(0)}`.padStart(10),
+    metrics.maeScore.toFixed(1).padStart(8),
+    `${(metrics.bandCoverage * 100).toFixed(1)}%`.padStart(9)
+  ].join('  ')
+}
+
+function printReport(report: BacktestReport) {
+  const header = ['group'.padEnd(24), 'n'.padStart(5), 'hit'.padStart(8), 'MAE $'.padStart(10), 'MAE pts'.padStart(8), 'in band'.padStart(9)].join('  ')
+
+  console.log(`Horizon ${report.horizonDays}d ±${report.toleranceDays}d: ${report.matched}/${report.predictions} predictions matched a sale\n`)
+  console.log(header)
+  console.log(formatRow('overall', report.overall))
+
+  console.log('\nBy profile')
+  for (const [profile, metrics] of Object.entries(report.byProfile)) {
+    console.log(formatRow(profile, metrics))
+  }
+
+  console.log('\nBy TLD')
+  for (const [tld, metrics] of Object.entries(report.byTld)) {
+    console.log(formatRow(`.${tld}`, metrics))
+  }
+
+  console.log('\nBy profile and TLD')
+  for (const [profile, groups] of Object.entries(report.byProfileTld)) {
+    for (const [tld, metrics] of Object.entries(groups)) {
+      console.log(formatRow(`${profile} .${tld}`, metrics))
+    }
+  }
+
+  console.log('\nCalibration (forecast bucket: mean forecast vs mean realized, band coverage)')
+  for (const [profile, metrics] of Object.entries(report.byProfile)) {
+    for (const bucket of metrics.calibration) {
+      console.log(`${profile.padEnd(14)} ${bucket.bucket.padEnd(7)} n=${String(bucket.count).padEnd(4)} ${bucket.meanForecast.toFixed(1)} vs ${bucket.meanRealized.toFixed(1)}  ${(bucket.bandCoverage * 100).toFixed(0)}%`)
+    }
+  }
+}
+
+async function main() {
+  const options = {
+    horizonDays: getNumberArg('horizon'),
+    toleranceDays: getNumberArg('tolerance')
+  }
+
+  let report: BacktestReport
+  if (getArg('source') === 'db') {
+    // Stored Score rows, grouped by the weights version they were scored with
+    const { prisma } = await import('../src/lib/prisma')
+    try {
+      const predictions = await backtestRunner.loadStoredPredictions()
+      const sales = await backtestRunner.loadSales(Array.from(new Set(predictions.map(p => p.tokenId))))
+      report = backtestRunner.evaluate(predictions, sales, options)
+    } finally {
+      await prisma.$disconnect()
+    }
+  } else {
+    const fixturePath = resolve(getArg('fixture') || 'scripts/fixtures/backtest.json')
+    const dataset: BacktestDataset = JSON.parse(readFileSync(fixturePath, 'utf8'))
+    const profiles = getArg('profiles')?.split(',') || listWeightProfiles().map(p => p.name)
+    report = backtestRunner.run(dataset, profiles, options)
+  }
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printReport(report)
+  }
+}
+
+main().catch(error => {
+  console.error('Backtest failed:', error)
+  process.exitCode = 1
+})
@@ -0,0 +1,249 @@
+/**
+ * Check the webhook and email alert channels against local receivers
+ * Usage: npm run check:channels
+ *
+ * Starts an HTTP receiver and an SMTP sink on 127.0.0.1, then sends through
+ * the real senders: webhook signatures are verified the way a receiver would,
+ * failed deliveries follow the engine's backoff schedule until the receiver
+ * recovers, a replay arrives under the same delivery id, and a digest goes
+ * through the SMTP transport. No database or network access needed.
+ */
+
+import { createServer as createHttpServer } from 'http'
+import type { IncomingHttpHeaders, Server } from 'http'
+import { createServer as createTcpServer } from 'net'
+import type { AddressInfo } from 'net'
+import {
+  WebhookSender,
+  verifySignature,
+  signPayload,
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS
+} from '../src/lib/webhook-channel'
+import { SmtpTransport, groupByDomain, renderDigest } from '../src/lib/email-channel'
+import { getNextAttemptAt } from '../src/lib/alert-engine'
+import type { AlertEventRecord, AlertRule } from '../src/lib/alert-engine'
+
+const SECRET = 'whsec_local_channel_check'
+const MINUTE_MS = 60 * 1000
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+  valid: boolean
+}
+
+let failures = 0
+
+function check(label: string, passed: boolean, detail?: string) {
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${label}${!passed && detail ? ` (${detail})` : ''}`)
+  if (!passed) failures++
+}
+
+function listen(server: Server | ReturnType<typeof createTcpServer>): Promise<number> {
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)))
+}
+
+function close(server: Server | ReturnType<typeof createTcpServer>): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()))
+}
+
+function makeRule(overrides: Partial<AlertRule> = {}): AlertRule {
+  const now = new Date().toISOString()
+  return {
+    id: 'rule_check',
+    userAddress: '0x0000000000000000000000000000000000000001',
+    name: 'Channel check',
+    type: 'ANALYTICS',
+    conditions: { metric: 'risk', operator: 'gt', value: 70 },
+    channels: ['WEBHOOK', 'EMAIL'],
+    frequency: 'IMMEDIATE',
+    status: 'ACTIVE',
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    lastEvaluatedAt: null,
+    lastFiredAt: null,
+    webhookUrl: null,
+    webhookSecret: SECRET,
+    email: 'alerts@example.com',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  }
+}
+
+function makeEvent(id: string): AlertEventRecord {
+  return {
+    id,
+    ruleId: 'rule_check',
+    ruleName: 'Channel check',
+    dedupeKey: `metric:${id}`,
+    payload: {
+      title: 'Channel check',
+      message: 'Risk score rose above 70 (now 74)',
+      severity: 'high',
+      tokenId: '1001',
+      domainName: 'crypto.ai'
+    },
+    fired: true,
+    occurredAt: new Date().toISOString()
+  }
+}
+
+async function checkWebhooks() {
+  console.log('Webhooks')
+  const received: ReceivedRequest[] = []
+  // Status codes the receiver answers with, in order; 200 once they run out
+  const responses: number[] = []
+
+  const server = createHttpServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      const timestamp = parseInt(String(request.headers[TIMESTAMP_HEADER.toLowerCase()]))
+      const signature = String(request.headers[SIGNATURE_HEADER.toLowerCase()] || '')
+      received.push({ headers: request.headers, body, valid: verifySignature(SECRET, signature, timestamp, body) })
+      response.statusCode = responses.shift() ?? 200
+      if (request.url === '/redirect') {
+        response.statusCode = 302
+        response.setHeader('Location', '/hook')
+      }
+      response.end()
+    })
+  })
+  const port = await listen(server)
+  const sender = new WebhookSender({ allowPrivateNetworks: true })
+  const rule = makeRule({ webhookUrl: `http://127.0.0.1:${port}/hook` })
+
+  try {
+    // Signature
+    const delivered = await sender.send(rule, [makeEvent('evt_signed')])
+    const first = received[0]
+    check('delivers a signed POST', delivered['evt_signed'] === null && received.length === 1, delivered['evt_signed'] || undefined)
+    check('signature verifies with the rule secret', first?.valid === true)
+    check('delivery id header carries the event id', first?.headers[DELIVERY_HEADER.toLowerCase()] === 'evt_signed')
+    const timestamp = parseInt(String(first?.headers[TIMESTAMP_HEADER.toLowerCase()]))
+    check('tampered body is rejected', !verifySignature(SECRET, String(first?.headers[SIGNATURE_HEADER.toLowerCase()]), timestamp, `${first?.body} `))
+    check('wrong secret is rejected', !verifySignature('whsec_other', `sha256=${signPayload(SECRET, timestamp, first?.body || '')}`, timestamp, first?.body || ''))
+    const stale = timestamp - SIGNATURE_TOLERANCE_SECONDS - 1
+    check('stale timestamp is rejected', !verifySignature(SECRET, `sha256=${signPayload(SECRET, stale, first?.body || '')}`, stale, first?.body || ''))
+
+    // Backoff: the receiver fails twice, then recovers
+    received.length = 0
+    responses.push(503, 500)
+    const start = new Date('2026-01-01T00:00:00Z')
+    const waits: number[] = []
+    let now = start
+    let attempts = 0
+    let error: string | null = 'not sent'
+    while (error) {
+      attempts++
+      error = (await sender.send(rule, [makeEvent('evt_retry')]))['evt_retry']
+      if (!error) break
+      const next = getNextAttemptAt(attempts, now)
+      if (!next) break
+      waits.push((next.getTime() - now.getTime()) / MINUTE_MS)
+      now = next
+    }
+    check('non-2xx responses fail the delivery', waits.length === 2, `waits ${waits.join(', ')}`)
+    check('retries back off 15m then 30m', waits[0] === 15 && waits[1] === 30, `waits ${waits.join(', ')}`)
+    check('delivered once the receiver recovers', error === null && attempts === 3, error || `${attempts} attempts`)
+    check('retries reuse the delivery id', received.every(r => r.headers[DELIVERY_HEADER.toLowerCase()] === 'evt_retry'))
+    const schedule: number[] = []
+    for (let n = 1, at = start; ; n++) {
+      const next = getNextAttemptAt(n, at)
+      if (!next) break
+      schedule.push((next.getTime() - at.getTime()) / MINUTE_MS)
+      at = next
+    }
+    check('gives up after 15m, 30m, 1h, 2h, 4h', schedule.join(',') === '15,30,60,120,240', schedule.join(','))
+
+    // Replay: the same event goes out again under its delivery id with a fresh signature
+    received.length = 0
+    const replayed = await sender.send(rule, [makeEvent('evt_signed')])
+    check('replay is delivered', replayed['evt_signed'] === null)
+    check('replay keeps the delivery id so receivers can dedupe', received[0]?.headers[DELIVERY_HEADER.toLowerCase()] === 'evt_signed')
+    check('replay is signed', received[0]?.valid === true)
+
+    // Redirects are not followed
+    received.length = 0
+    const redirected = await sender.send({ ...rule, webhookUrl: `http://127.0.0.1:${port}/redirect` }, [makeEvent('evt_redirect')])
+    check('redirect fails instead of being followed', Boolean(redirected['evt_redirect']) && received.length === 1)
+
+    // Private hosts stay blocked without the development override
+    const blocked = await new WebhookSender({ allowPrivateNetworks: false }).send(rule, [makeEvent('evt_private')])
+    check('local receiver is refused by default', Boolean(blocked['evt_private']))
+  } finally {
+    await close(server)
+  }
+}
+
+async function checkEmail() {
+  console.log('\nEmail')
+  const envelope: string[] = []
+  let data = ''
+
+  // Minimal SMTP sink: accepts one message per connection and keeps it
+  const sink = createTcpServer(socket => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 sink ESMTP\r\n')
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end < 0) return
+        data = buffer.slice(0, end)
+        buffer = buffer.slice(end + 5)
+        inData = false
+        socket.write('250 queued\r\n')
+      }
+      let index
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        const verb = line.slice(0, 4).toUpperCase()
+        if (verb === 'EHLO' || verb === 'HELO') socket.write('250-sink\r\n250 8BITMIME\r\n')
+        else if (verb === 'MAIL' || verb === 'RCPT') {
+          envelope.push(line)
+          socket.write('250 ok\r\n')
+        } else if (verb === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  const port = await listen(sink)
+
+  try {
+    const rule = makeRule({ frequency: 'DAILY' })
+    const digest = renderDigest(rule, groupByDomain([makeEvent('evt_mail_1'), makeEvent('evt_mail_2')], []))
+    await new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 5000 })
+      .send({ from: 'Dometrics Alerts <alerts@dometrics.app>', to: rule.email!, ...digest })
+
+    check('envelope sender and recipient', envelope.some(l => l.includes('<alerts@dometrics.app>')) && envelope.some(l => l.includes('<alerts@example.com>')), envelope.join(' | '))
+    // nodemailer may Q-encode the subject, which turns spaces into underscores
+    check('digest subject', /^Subject: (=\?UTF-8\?Q\?)?Your[_ ]daily[_ ]Dometrics[_ ]digest/im.test(data), data.split('\r\n').find(l => l.startsWith('Subject:')))
+    check('plaintext and HTML parts', /multipart\/alternative/i.test(data) && /text\/plain/i.test(data) && /text\/html/i.test(data))
+  } catch (error) {
+    check('digest reaches the SMTP sink', false, error instanceof Error ? error.message : String(error))
+  } finally {
+    await close(sink)
+  }
+}
+
+async function main() {
+  await checkWebhooks()
+  await checkEmail()
+  console.log(failures === 0 ? '\nAll channel checks passed' : `\n${failures} channel check(s) failed`)
+  if (failures > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Channel check failed:', error)
+  process.exitCode = 1
+})
@@ -0,0 +1,29 @@
+/**
+ * Run the Poll API ingestion worker once from the command line
+ * Usage: npm run ingest -- [--pages=20] [--page-size=100]
+ */
+
+import { ingestionWorker } from '../src/lib/ingestion'
+import { prisma } from '../src/lib/prisma'
+
+function getArg(name: string): number | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`))
+  return arg ? parseInt(arg.split('=')[1]) : undefined
+}
+
+async function main() {
+  const result = await ingestionWorker.run({
+    maxPages: getArg('pages'),
+    pageSize: getArg('page-size')
+  })
+  console.log(`Ingested ${result.events} events in ${result.pages} pages (${result.inserted} new)`)
+  console.log(`Refreshed stats for ${result.statsRefreshed} domains, ${result.unknownTokens} unknown tokens`)
+  console.log(`Cursor: ${result.lastEventId ?? 'none'}`)
+}
+
+main()
+  .catch(error => {
+    console.error('Ingestion failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
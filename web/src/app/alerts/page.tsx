@@ -12,16 +12,50 @@ import {
   AlertTriangle,
   Settings,
   X,
-  Check
+  Check,
+  Server,
+  Trash2,
+  Upload,
+  Plus,
+  Search
 } from 'lucide-react'
 import { domaClient } from '@/lib/doma-client'
-import { ScoringEngine } from '@/lib/scoring'
-
-const scoringEngine = new ScoringEngine()
+import {
+  fetchScoredDomains,
+  fetchAlertRules,
+  fetchAlertFeed,
+  fetchMarketEvents,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getSavedUserAddress,
+  setSavedUserAddress,
+  fetchSessionAddress,
+  signInWithWallet
+} from '@/lib/domains-api'
+import type {
+  AlertEventRecord,
+  AlertRule as ServerAlertRule,
+  CompositeCondition,
+  EventCondition,
+  MarketEvent,
+  MarketEventKind,
+  MetricCondition,
+  SavedFilterCondition
+} from '@/lib/domains-api'
+import {
+  checkAlertExpression,
+  evaluateAlertExpression,
+  formatAlertExpression,
+  parseAlertExpression,
+  toExpressionDomain
+} from '@/lib/alert-dsl'
+import type { AlertExpression, ExpressionEvent } from '@/lib/alert-dsl'
+import { describeSearch } from '@/lib/saved-searches'
 
 interface Alert {
   id: string
-  type: 'expiry' | 'risk' | 'momentum' | 'value' | 'offer'
+  type: 'expiry' | 'risk' | 'momentum' | 'value' | 'offer' | 'market' | 'composite' | 'search'
   title: string
   message: string
   severity: 'low' | 'medium' | 'high'
@@ -38,11 +72,13 @@ interface Alert {
 interface AlertRule {
   id: string
   name: string
-  type: 'expiry' | 'risk' | 'momentum' | 'value' | 'offer'
+  type: 'expiry' | 'risk' | 'momentum' | 'value' | 'offer' | 'market' | 'composite'
   condition: string
   threshold: number
   enabled: boolean
   notificationMethod: 'browser' | 'email' | 'both'
+  // Composite rules only, in alert-dsl syntax
+  expression?: string
 }
 
 interface TrackedDomain {
@@ -53,6 +89,70 @@ interface TrackedDomain {
   lastOfferCount?: number
 }
 
+// Market event kinds behind the "market" browser rule; "offer" rules take offers
+const MARKET_RULE_KINDS: MarketEventKind[] = ['listing', 'listing_cancelled', 'purchase', 'transfer', 'renewal']
+const EVENTS_SINCE_KEY = 'dometrics-events-since'
+
+function marketEventSeverity(kind: string): Alert['severity'] {
+  if (kind === 'purchase' || kind === 'transfer') return 'high'
+  if (kind === 'offer_cancelled' || kind === 'listing_cancelled' || kind === 'renewal') return 'low'
+  return 'medium'
+}
+
+// Alert shape the list renders, from an event fired by a server-side rule
+function toServerAlert(event: AlertEventRecord): Alert {
+  const { payload } = event
+  const type: Alert['type'] = payload.searchChange ? 'search'
+    : payload.eventKind
+    ? (payload.eventKind === 'renewal' ? 'expiry'
+      : payload.eventKind === 'offer' || payload.eventKind === 'offer_cancelled' ? 'offer'
+      : 'market')
+    : payload.metric === 'daysUntilExpiry' ? 'expiry'
+    : payload.metric === 'risk' ? 'risk'
+    : payload.metric === 'momentum' || payload.metric === 'forecast' ? 'momentum'
+    : 'value'
+  return {
+    id: `server-${event.id}`,
+    type,
+    title: payload.title,
+    message: payload.message,
+    severity: payload.severity,
+    domainName: payload.domainName || `Token ${payload.tokenId}`,
+    tokenId: payload.tokenId || undefined,
+    timestamp: new Date(event.occurredAt),
+    read: false,
+    actionRequired: payload.severity === 'high'
+  }
+}
+
+function describeServerRule(rule: ServerAlertRule): string {
+  // Every condition type carries the same scope fields
+  const { tokenIds, ownedOnly } = rule.conditions
+  const scope = tokenIds
+    ? ` on ${tokenIds.length} domain${tokenIds.length === 1 ? '' : 's'}`
+    : ownedOnly ? ' on your domains' : ''
+  switch (rule.type) {
+    case 'COMPOSITE': {
+      const conditions = rule.conditions as CompositeCondition
+      return `Alert when ${conditions.expression}${scope}`
+    }
+    case 'SAVED_FILTER': {
+      const conditions = rule.conditions as SavedFilterCondition
+      const changes = conditions.notifyOn.length === 2 ? 'start or stop' : conditions.notifyOn[0] === 'enter' ? 'start' : 'stop'
+      return `Alert when domains ${changes} matching ${describeSearch(conditions)}${scope}`
+    }
+    case 'EVENT': {
+      const conditions = rule.conditions as EventCondition
+      return `Alert on ${conditions.events.join(', ')} events${scope}`
+    }
+    default: {
+      const conditions = rule.conditions as MetricCondition
+      const operators: Record<MetricCondition['operator'], string> = { lt: '<', lte: '≤', gt: '>', gte: '≥' }
+      return `Alert when ${conditions.metric} ${operators[conditions.operator]} ${conditions.value}${scope}`
+    }
+  }
+}
+
 export default function AlertsPage() {
   const [alerts, setAlerts] = useState<Alert[]>([])
   const [alertRules, setAlertRules] = useState<AlertRule[]>([])
@@ -60,6 +160,13 @@ export default function AlertsPage() {
   const [showNewRuleModal, setShowNewRuleModal] = useState(false)
   const [activeTab, setActiveTab] = useState<'alerts' | 'rules'>('alerts')
   const [isLoading, setIsLoading] = useState(true)
+  const [userAddress, setUserAddress] = useState('')
+  const [serverRules, setServerRules] = useState<ServerAlertRule[]>([])
+  const [serverError, setServerError] = useState<string | null>(null)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [email, setEmail] = useState('')
+  const [digestFrequency, setDigestFrequency] = useState<ServerAlertRule['frequency']>('IMMEDIATE')
+  const [newRule, setNewRule] = useState({ name: '', expression: '', notificationMethod: 'browser' as AlertRule['notificationMethod'] })
 
   useEffect(() => {
     loadAlertsAndRules()
@@ -73,7 +180,12 @@ export default function AlertsPage() {
       console.log('[Alerts] Starting to load alerts and rules...')
       // Load existing alert rules from localStorage
       const savedRules = localStorage.getItem('dometrics-alert-rules')
-      const rules = savedRules ? JSON.parse(savedRules) : getDefaultAlertRules()
+      const defaultRules = getDefaultAlertRules()
+      const rules: AlertRule[] = savedRules ? JSON.parse(savedRules) : defaultRules
+      // Rules saved before the market activity rule existed get it too
+      if (!rules.some(rule => rule.type === 'market')) {
+        rules.push(...defaultRules.filter(rule => rule.type === 'market'))
+      }
       setAlertRules(rules)
 
       // Load tracked domains
@@ -97,125 +209,195 @@ export default function AlertsPage() {
           }))
         : []
 
-      // Fetch offer counts for all tracked domains upfront
+      // Poll API events for tracked domains ingested since the last visit. Without
+      // a database to read them from, fall back to comparing offer counts.
+      let marketEvents: MarketEvent[] | null = null
       const offerCounts = new Map<string, number>()
-      await Promise.all(
-        tracked.map(async (trackedDomain) => {
-          try {
-            const offers = await domaClient.getTokenOffers(trackedDomain.tokenId, 10)
-            offerCounts.set(trackedDomain.tokenId, offers?.length || 0)
-          } catch (error) {
-            console.error(`Error fetching offers for ${trackedDomain.tokenId}:`, error)
-            offerCounts.set(trackedDomain.tokenId, 0)
-          }
-        })
-      )
+      if (tracked.length > 0) {
+        const eventsSince = localStorage.getItem(EVENTS_SINCE_KEY)
+        try {
+          marketEvents = eventsSince
+            ? await fetchMarketEvents({ tokenIds: tracked.map(d => d.tokenId), since: eventsSince, limit: 200 })
+            : []
+          const newest = marketEvents.reduce((max, e) => (e.ingestedAt > max ? e.ingestedAt : max), eventsSince || '')
+          localStorage.setItem(EVENTS_SINCE_KEY, newest || new Date().toISOString())
+        } catch (error) {
+          console.error('[Alerts] Market events unavailable, comparing offer counts instead:', error)
+          await Promise.all(
+            tracked.map(async (trackedDomain) => {
+              try {
+                const offers = await domaClient.getTokenOffers(trackedDomain.tokenId, 10)
+                offerCounts.set(trackedDomain.tokenId, offers?.length || 0)
+              } catch (error) {
+                console.error(`Error fetching offers for ${trackedDomain.tokenId}:`, error)
+                offerCounts.set(trackedDomain.tokenId, 0)
+              }
+            })
+          )
+        }
+      }
 
-      // Generate new alerts based on real domain data
-      const names = await domaClient.getAllNames(50)
+      // Generate new alerts from the same scores the dashboard shows
+      const scoredDomains = await fetchScoredDomains()
       const generatedAlerts: Alert[] = []
 
-      for (const name of names) {
-        if (!name.tokens || name.tokens.length === 0) continue
-        
-        for (const token of name.tokens) {
-          const parts = name.name.split('.')
-          const namePart = parts[0]
-          const tld = parts.slice(1).join('.') || 'com'
-          
-          const daysUntilExpiry = Math.floor(
-            (new Date(token.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-          )
+      // Composite rules see market events on tracked domains (or new offers). Score
+      // history and watchlists aren't loaded here, so changes and watchlist
+      // predicates only match in server rules.
+      const expressions = new Map<string, AlertExpression>()
+      rules.forEach((rule: AlertRule) => {
+        const parsed = rule.type === 'composite' && rule.expression ? parseAlertExpression(rule.expression) : null
+        if (parsed?.success) expressions.set(rule.id, parsed.expression)
+      })
+      const previousOfferCounts = new Map(tracked.map(d => [d.tokenId, d.lastOfferCount]))
+      const ownAddress = (getSavedUserAddress() || '').split(':').pop()!.toLowerCase()
+      const trackedEvents = (tokenId: string): ExpressionEvent[] => {
+        if (marketEvents) {
+          return marketEvents
+            .filter(e => e.tokenId === tokenId)
+            .map(e => ({ id: e.eventId, kind: e.kind as ExpressionEvent['kind'], priceUsd: e.priceUsd, counterparty: e.counterparty }))
+        }
+        const previous = previousOfferCounts.get(tokenId)
+        const current = offerCounts.get(tokenId) || 0
+        return previous !== undefined && current > previous
+          ? [{ id: `offer-${tokenId}-${current}`, kind: 'offer', priceUsd: null }]
+          : []
+      }
 
-          const scores = scoringEngine.calculateScoresSync({
-            name: namePart,
-            tld,
-            expiresAt: new Date(token.expiresAt),
-            lockStatus: name.transferLock || false,
-            registrarId: name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1,
-            renewalCount: 0, // Real renewal count not available from API
-            offerCount: 0, // Real offer count would come from API
-            activity7d: 0, // Real activity would come from API
-            activity30d: 0, // Real activity would come from API
-          })
-
-          // Check against alert rules
-          rules.forEach((rule: AlertRule) => {
-            if (!rule.enabled) return
-
-            let shouldAlert = false
-            let alertMessage = ''
-            let severity: 'low' | 'medium' | 'high' = 'low'
-
-            switch (rule.type) {
-              case 'expiry':
-                if (daysUntilExpiry <= rule.threshold) {
-                  shouldAlert = true
-                  alertMessage = `Domain expires in ${daysUntilExpiry} days`
-                  severity = daysUntilExpiry <= 7 ? 'high' : daysUntilExpiry <= 30 ? 'medium' : 'low'
-                }
-                break
-              case 'risk':
-                if (scores.risk >= rule.threshold) {
-                  shouldAlert = true
-                  alertMessage = `High risk score detected: ${scores.risk}/100`
-                  severity = scores.risk >= 80 ? 'high' : 'medium'
-                }
-                break
-              case 'momentum':
-                if (scores.momentum >= rule.threshold) {
+      for (const domain of scoredDomains) {
+        const { scores, daysUntilExpiry } = domain
+
+        // Check against alert rules
+        rules.forEach((rule: AlertRule) => {
+          if (!rule.enabled) return
+
+          let shouldAlert = false
+          let alertMessage = ''
+          let severity: 'low' | 'medium' | 'high' = 'low'
+
+          switch (rule.type) {
+            case 'expiry':
+              if (daysUntilExpiry <= rule.threshold) {
+                shouldAlert = true
+                alertMessage = `Domain expires in ${daysUntilExpiry} days`
+                severity = daysUntilExpiry <= 7 ? 'high' : daysUntilExpiry <= 30 ? 'medium' : 'low'
+              }
+              break
+            case 'risk':
+              if (scores.risk >= rule.threshold) {
+                shouldAlert = true
+                alertMessage = `High risk score detected: ${scores.risk}/100`
+                severity = scores.risk >= 80 ? 'high' : 'medium'
+              }
+              break
+            case 'momentum':
+              if (scores.momentum >= rule.threshold) {
+                shouldAlert = true
+                alertMessage = `High momentum detected: ${scores.momentum}/100`
+                severity = 'medium'
+              }
+              break
+            case 'value':
+              const estimatedValue = domain.price
+              if (estimatedValue >= rule.threshold) {
+                shouldAlert = true
+                alertMessage = `Value milestone reached: $${estimatedValue.toLocaleString()}`
+                severity = 'low'
+              }
+              break
+            case 'offer':
+              // Fallback only: with market events each offer alerts on its own below
+              const trackedDomain = tracked.find(d => d.tokenId === domain.tokenId)
+              if (!marketEvents && trackedDomain && rule.enabled) {
+                const currentOfferCount = offerCounts.get(domain.tokenId) || 0
+
+                if (trackedDomain.lastOfferCount !== undefined && currentOfferCount > trackedDomain.lastOfferCount) {
+                  const newOffersCount = currentOfferCount - trackedDomain.lastOfferCount
                   shouldAlert = true
-                  alertMessage = `High momentum detected: ${scores.momentum}/100`
+                  alertMessage = `${newOffersCount} new offer${newOffersCount > 1 ? 's' : ''} received`
                   severity = 'medium'
-                }
-                break
-              case 'value':
-                const estimatedValue = Math.round(scores.currentValue || 1000)
-                if (estimatedValue >= rule.threshold) {
-                  shouldAlert = true
-                  alertMessage = `Value milestone reached: $${estimatedValue.toLocaleString()}`
-                  severity = 'low'
-                }
-                break
-              case 'offer':
-                // Check if this domain is tracked and has new offers
-                const trackedDomain = tracked.find(d => d.tokenId === token.tokenId)
-                if (trackedDomain && rule.enabled) {
-                  const currentOfferCount = offerCounts.get(token.tokenId) || 0
-
-                  if (trackedDomain.lastOfferCount !== undefined && currentOfferCount > trackedDomain.lastOfferCount) {
-                    const newOffersCount = currentOfferCount - trackedDomain.lastOfferCount
-                    shouldAlert = true
-                    alertMessage = `${newOffersCount} new offer${newOffersCount > 1 ? 's' : ''} received`
-                    severity = 'medium'
-
-                    // Update tracked domain's last offer count
-                    trackedDomain.lastOfferCount = currentOfferCount
-                    trackedDomain.lastChecked = new Date()
-                  } else if (trackedDomain.lastOfferCount === undefined) {
-                    // First time checking, just store the count
-                    trackedDomain.lastOfferCount = currentOfferCount
-                    trackedDomain.lastChecked = new Date()
-                  }
-                }
-                break
-            }
 
-            if (shouldAlert) { // Show all alerts that meet criteria
-              generatedAlerts.push({
-                id: `alert-${token.tokenId}-${rule.type}`,
-                type: rule.type,
-                title: rule.name,
-                message: alertMessage,
-                severity,
-                domainName: name.name,
-                tokenId: token.tokenId,
-                timestamp: new Date(), // Current time for new alerts
-                read: false, // New alerts are unread
-                actionRequired: severity === 'high'
+                  // Update tracked domain's last offer count
+                  trackedDomain.lastOfferCount = currentOfferCount
+                  trackedDomain.lastChecked = new Date()
+                } else if (trackedDomain.lastOfferCount === undefined) {
+                  // First time checking, just store the count
+                  trackedDomain.lastOfferCount = currentOfferCount
+                  trackedDomain.lastChecked = new Date()
+                }
+              }
+              break
+            case 'composite': {
+              const expression = expressions.get(rule.id)
+              if (!expression) break
+              const owned = !!ownAddress && domain.owner.split(':').pop()!.toLowerCase() === ownAddress
+              const result = evaluateAlertExpression(expression, {
+                domain: toExpressionDomain(domain, owned),
+                events: trackedEvents(domain.tokenId)
               })
+              if (result.matched) {
+                shouldAlert = true
+                alertMessage = result.reasons.join('; ') || `Matched ${rule.expression}`
+                severity = result.reasons.length > 1 ? 'high' : 'medium'
+              }
+              break
             }
-          })
+          }
+
+          if (shouldAlert) { // Show all alerts that meet criteria
+            generatedAlerts.push({
+              id: `alert-${domain.tokenId}-${rule.type === 'composite' ? rule.id : rule.type}`,
+              type: rule.type,
+              title: rule.name,
+              message: alertMessage,
+              severity,
+              domainName: domain.name,
+              tokenId: domain.tokenId,
+              timestamp: new Date(), // Current time for new alerts
+              read: false, // New alerts are unread
+              actionRequired: severity === 'high'
+            })
+          }
+        })
+      }
+
+      // One alert per market event, carrying price and counterparty
+      for (const event of marketEvents || []) {
+        const rule = rules.find(r =>
+          r.enabled &&
+          ((r.type === 'offer' && (event.kind === 'offer' || event.kind === 'offer_cancelled')) ||
+            (r.type === 'market' && MARKET_RULE_KINDS.includes(event.kind as MarketEventKind)))
+        )
+        if (!rule) continue
+        const trackedDomain = tracked.find(d => d.tokenId === event.tokenId)
+        const severity = marketEventSeverity(event.kind)
+        generatedAlerts.push({
+          id: `event-${event.eventId}`,
+          type: rule.type,
+          title: rule.name,
+          message: `New ${event.summary}`,
+          severity,
+          domainName: trackedDomain?.domainName || `Token ${event.tokenId}`,
+          tokenId: event.tokenId,
+          timestamp: new Date(event.occurredAt),
+          read: false,
+          actionRequired: severity === 'high'
+        })
+      }
+
+      // Alerts fired by server-side rules, evaluated on the cron even when no tab is open.
+      // Only the signed-in wallet can read them.
+      const sessionAddress = await fetchSessionAddress().catch(() => null)
+      setUserAddress(sessionAddress || '')
+      if (sessionAddress) {
+        try {
+          const [feed, rules] = await Promise.all([fetchAlertFeed(sessionAddress), fetchAlertRules(sessionAddress)])
+          generatedAlerts.push(...feed.map(toServerAlert))
+          setServerRules(rules)
+          setServerError(null)
+        } catch (error) {
+          console.error('[Alerts] Error loading server alerts:', error)
+          setServerError(error instanceof Error ? error.message : 'Failed to load server alerts')
         }
       }
 
@@ -305,6 +487,15 @@ export default function AlertsPage() {
       threshold: 1,
       enabled: true,
       notificationMethod: 'both'
+    },
+    {
+      id: 'market-activity',
+      name: 'Market Activity on Tracked Domain',
+      type: 'market',
+      condition: 'market_event',
+      threshold: 0,
+      enabled: true,
+      notificationMethod: 'browser'
     }
   ]
 
@@ -342,6 +533,132 @@ export default function AlertsPage() {
     localStorage.setItem('dometrics-alert-rules', JSON.stringify(updatedRules))
   }
 
+  const newRuleCheck = newRule.expression.trim() ? checkAlertExpression(newRule.expression) : null
+
+  const addCompositeRule = () => {
+    if (!newRuleCheck?.expression || !newRule.name.trim()) return
+    const rule: AlertRule = {
+      id: `composite-${Date.now()}`,
+      name: newRule.name.trim(),
+      type: 'composite',
+      condition: 'expression',
+      threshold: 0,
+      enabled: true,
+      notificationMethod: newRule.notificationMethod,
+      expression: formatAlertExpression(newRuleCheck.expression)
+    }
+    const updatedRules = [...alertRules, rule]
+    setAlertRules(updatedRules)
+    localStorage.setItem('dometrics-alert-rules', JSON.stringify(updatedRules))
+    setNewRule({ name: '', expression: '', notificationMethod: 'browser' })
+    setShowNewRuleModal(false)
+  }
+
+  const removeAlertRule = (ruleId: string) => {
+    const updatedRules = alertRules.filter(rule => rule.id !== ruleId)
+    setAlertRules(updatedRules)
+    localStorage.setItem('dometrics-alert-rules', JSON.stringify(updatedRules))
+  }
+
+  const loadServerRules = async () => {
+    try {
+      const address = userAddress || await signInWithWallet()
+      setUserAddress(address)
+      setServerRules(await fetchAlertRules(address))
+      setServerError(null)
+    } catch (error) {
+      console.error('[Alerts] Error loading server rules:', error)
+      setServerError(error instanceof Error ? error.message : 'Failed to load server rules')
+    }
+  }
+
+  // Copy the enabled browser rules to the server so they keep running with no tab open
+  const syncRulesToServer = async () => {
+    if (!userAddress) return
+    const enabled = alertRules.filter(r => r.enabled)
+    if (!email && enabled.some(r => r.notificationMethod !== 'browser')) {
+      setServerError('Enter an email address for rules that notify by email')
+      return
+    }
+    setIsSyncing(true)
+    setServerError(null)
+    try {
+      const trackedIds = trackedDomains.map(d => d.tokenId)
+      const metrics: Record<string, 'daysUntilExpiry' | 'risk' | 'momentum' | 'value'> = {
+        expiry: 'daysUntilExpiry',
+        risk: 'risk',
+        momentum: 'momentum',
+        value: 'value'
+      }
+      const created: ServerAlertRule[] = []
+      for (const rule of enabled) {
+        const delivery = {
+          channels: rule.notificationMethod === 'both' ? ['IN_APP' as const, 'EMAIL' as const]
+            : rule.notificationMethod === 'email' ? ['EMAIL' as const]
+            : ['IN_APP' as const],
+          frequency: digestFrequency,
+          email: rule.notificationMethod === 'browser' ? null : email
+        }
+        if (rule.type === 'composite') {
+          created.push(await createAlertRule({
+            userAddress,
+            name: rule.name,
+            type: 'COMPOSITE',
+            conditions: { expression: rule.expression || '' },
+            ...delivery
+          }))
+        } else if (rule.type === 'offer' || rule.type === 'market') {
+          if (trackedIds.length === 0) continue
+          created.push(await createAlertRule({
+            userAddress,
+            name: rule.name,
+            type: 'EVENT',
+            conditions: { events: rule.type === 'offer' ? ['offer'] : MARKET_RULE_KINDS, tokenIds: trackedIds },
+            ...delivery
+          }))
+        } else {
+          created.push(await createAlertRule({
+            userAddress,
+            name: rule.name,
+            type: 'ANALYTICS',
+            conditions: {
+              metric: metrics[rule.type],
+              operator: rule.type === 'expiry' ? 'lte' : 'gte',
+              value: rule.threshold,
+              ...(trackedIds.length > 0 ? { tokenIds: trackedIds } : {})
+            },
+            ...delivery
+          }))
+        }
+      }
+      setServerRules([...created, ...serverRules])
+      setSavedUserAddress(userAddress)
+    } catch (error) {
+      console.error('[Alerts] Error saving rules to server:', error)
+      setServerError(error instanceof Error ? error.message : 'Failed to save rules to server')
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const toggleServerRule = async (rule: ServerAlertRule) => {
+    try {
+      const updated = await updateAlertRule(rule.id, { status: rule.status === 'ACTIVE' ? 'PAUSED' : 'ACTIVE' })
+      setServerRules(prev => prev.map(r => (r.id === rule.id ? updated : r)))
+    } catch (error) {
+      setServerError(error instanceof Error ? error.message : 'Failed to update rule')
+    }
+  }
+
+  const removeServerRule = async (ruleId: string) => {
+    try {
+      await deleteAlertRule(ruleId)
+      setServerRules(prev => prev.filter(r => r.id !== ruleId))
+    } catch (error) {
+      setServerError(error instanceof Error ? error.message : 'Failed to delete rule')
+    }
+  }
+
   const getAlertIcon = (type: string) => {
     switch (type) {
       case 'expiry': return <Clock className="w-4 h-4" />
@@ -349,6 +666,8 @@ export default function AlertsPage() {
       case 'momentum': return <TrendingUp className="w-4 h-4" />
       case 'value': return <Shield className="w-4 h-4" />
       case 'offer': return <span className="text-base">💰</span>
+      case 'market': return <span className="text-base">🏷️</span>
+      case 'search': return <Search className="w-4 h-4" />
       default: return <Bell className="w-4 h-4" />
     }
   }
@@ -570,10 +889,21 @@ export default function AlertsPage() {
         {activeTab === 'rules' && (
           <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
             <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Alert Rules</h3>
-              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                Configure when you want to be notified about domain events
-              </p>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Alert Rules</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Configure when you want to be notified about domain events
+                  </p>
+                </div>
+                <button
+                  onClick={() => setShowNewRuleModal(true)}
+                  className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  Composite rule
+                </button>
+              </div>
             </div>
             <div className="divide-y divide-gray-200 dark:divide-gray-700">
               {alertRules.map((rule) => (
@@ -590,8 +920,12 @@ export default function AlertsPage() {
                       </span>
                     </div>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {rule.type === 'offer'
-                        ? 'Alert when new offers are received on tracked domains'
+                      {rule.type === 'composite'
+                        ? `Alert when ${rule.expression}`
+                        : rule.type === 'offer'
+                        ? 'Alert when new offers are received on tracked domains, with price and offerer'
+                        : rule.type === 'market'
+                        ? 'Alert on listings, cancelled listings, sales, transfers and renewals of tracked domains'
                         : `Alert when ${rule.type} ${rule.condition.replace('_', ' ')} ${rule.threshold}${
                             rule.type === 'expiry' ? ' days' : rule.type === 'value' ? ' USD' : '%'
                           }`
@@ -615,12 +949,213 @@ export default function AlertsPage() {
                         }`}
                       />
                     </button>
+                    {rule.type === 'composite' && (
+                      <button
+                        onClick={() => removeAlertRule(rule.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
           </div>
         )}
+
+        {/* Server-side rules */}
+        {activeTab === 'rules' && (
+          <div className="mt-6 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-center gap-2">
+                <Server className="w-4 h-4 text-gray-500" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Server Rules</h3>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Evaluated every hour on the server, so alerts fire even when this page is closed
+              </p>
+              <div className="flex gap-3 mt-4">
+                <div className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white truncate">
+                  {userAddress || <span className="font-sans text-gray-500 dark:text-gray-400">Not signed in</span>}
+                </div>
+                <button
+                  onClick={loadServerRules}
+                  className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {userAddress ? 'Load' : 'Sign in with wallet'}
+                </button>
+                <button
+                  onClick={syncRulesToServer}
+                  disabled={!userAddress || isSyncing}
+                  className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Upload className="w-4 h-4" />
+                  Save browser rules to server
+                </button>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3 mt-3">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value.trim())}
+                  placeholder="Email for rules that notify by email"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <select
+                  value={digestFrequency}
+                  onChange={(e) => setDigestFrequency(e.target.value as ServerAlertRule['frequency'])}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="IMMEDIATE">Send immediately</option>
+                  <option value="HOURLY">Hourly digest</option>
+                  <option value="DAILY">Daily digest</option>
+                  <option value="WEEKLY">Weekly digest</option>
+                </select>
+              </div>
+              {serverError && (
+                <p className="mt-3 text-sm text-red-600 dark:text-red-400">{serverError}</p>
+              )}
+            </div>
+            {serverRules.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No server rules yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {serverRules.map((rule) => (
+                  <div key={rule.id} className="p-6 flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h4 className="font-medium text-gray-900 dark:text-white">{rule.name}</h4>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded ${
+                          rule.status === 'ACTIVE'
+                            ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-300'
+                            : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400'
+                        }`}>
+                          {rule.status === 'ACTIVE' ? 'Active' : 'Paused'}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{describeServerRule(rule)}</p>
+                      <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                        {rule.frequency.toLowerCase()}
+                        {rule.email && ` · email to ${rule.email}`}
+                        {rule.quietHoursStart !== null && ` · quiet ${rule.quietHoursStart}:00–${rule.quietHoursEnd}:00 UTC`}
+                        {rule.lastFiredAt && ` · last fired ${new Date(rule.lastFiredAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <button
+                        onClick={() => toggleServerRule(rule)}
+                        className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                          rule.status === 'ACTIVE' ? 'bg-blue-600' : 'bg-gray-200 dark:bg-gray-700'
+                        }`}
+                      >
+                        <span
+                          className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                            rule.status === 'ACTIVE' ? 'translate-x-5' : 'translate-x-0'
+                          }`}
+                        />
+                      </button>
+                      <button
+                        onClick={() => removeServerRule(rule.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Composite Rule Modal */}
+        {showNewRuleModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-900 rounded-xl p-6 w-full max-w-lg mx-4">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">New Composite Rule</h3>
+                <button
+                  onClick={() => setShowNewRuleModal(false)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={newRule.name}
+                    onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Condition</label>
+                  <textarea
+                    value={newRule.expression}
+                    onChange={(e) => setNewRule({ ...newRule, expression: e.target.value })}
+                    rows={3}
+                    placeholder="risk > 70 and (risk rose by 15 in 7d or new offer above $500) and tld in (ai, io)"
+                    className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  {newRuleCheck && newRuleCheck.issues.length > 0 ? (
+                    <div className="mt-2 space-y-1">
+                      {newRuleCheck.issues.map((issue, index) => (
+                        <p key={index} className="text-xs text-red-600 dark:text-red-400">
+                          {issue.message} (at character {issue.position + 1})
+                        </p>
+                      ))}
+                    </div>
+                  ) : newRuleCheck?.expression ? (
+                    <p className="mt-2 text-xs font-mono text-green-700 dark:text-green-400">
+                      {formatAlertExpression(newRuleCheck.expression)}
+                    </p>
+                  ) : (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Combine risk, rarity, momentum, forecast, value and expiry with and/or/not; changes such as
+                      &quot;momentum fell by 10 in 30d&quot;; events such as &quot;new sale above $1k&quot;; and scopes: tld, watchlist, owned.
+                      Changes and watchlists are only evaluated once the rule is saved to the server.
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Notify by</label>
+                  <select
+                    value={newRule.notificationMethod}
+                    onChange={(e) => setNewRule({ ...newRule, notificationMethod: e.target.value as AlertRule['notificationMethod'] })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="browser">Browser</option>
+                    <option value="email">Email</option>
+                    <option value="both">Browser + Email</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={addCompositeRule}
+                  disabled={!newRule.name.trim() || !newRuleCheck?.expression}
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  Create Rule
+                </button>
+                <button
+                  onClick={() => setShowNewRuleModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </main>
     </div>
   )
@@ -5,8 +5,7 @@ import Link from 'next/link'
 import { TrendingUp, TrendingDown, ArrowLeft, BarChart3, PieChart, Activity, Filter, Download } from 'lucide-react'
 import Highcharts from 'highcharts'
 import HighchartsReact from 'highcharts-react-official'
-import { ScoringEngine } from '@/lib/scoring'
-import { domaClient } from '@/lib/doma-client'
+import { fetchScoredDomains } from '@/lib/domains-api'
 
 // Configure Highcharts theme
 if (typeof Highcharts !== 'undefined') {
@@ -15,8 +14,6 @@ if (typeof Highcharts !== 'undefined') {
   })
 }
 
-const scoringEngine = new ScoringEngine()
-
 // TLD analytics data
 interface TLDStats {
   tld: string
@@ -53,76 +50,45 @@ export default function AnalyticsPage() {
     setIsLoading(true)
     
     try {
-      const names = await domaClient.getAllNames(100)
+      const scoredDomains = await fetchScoredDomains()
       const transformedDomains = []
       const tldMap = new Map<string, any>()
       
-      for (const name of names) {
-        if (!name.tokens || name.tokens.length === 0) continue
+      for (const scored of scoredDomains) {
+        const { tld, scores } = scored
+        const domain = {
+          id: scored.tokenId,
+          name: scored.name,
+          namePart: scored.namePart,
+          tld,
+          tokenId: scored.tokenId,
+          scores,
+          value: scored.price,
+          daysUntilExpiry: scored.daysUntilExpiry,
+        }
         
-        for (const token of name.tokens) {
-          const parts = name.name.split('.')
-          const namePart = parts[0]
-          const tld = parts.slice(1).join('.') || 'com'
-          
-          const daysUntilExpiry = Math.floor(
-            (new Date(token.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-          )
-          
-          const isPopularTLD = ['com', 'ai', 'io', 'xyz'].includes(tld)
-          const isShortName = namePart.length < 8
-          
-          // Use deterministic values based on domain characteristics
-          const domainSeed = namePart.length + tld.length
-          const activity7d = isPopularTLD ? 15 + (domainSeed % 10) : 5 + (domainSeed % 5)
-          const activity30d = activity7d * 3
-          
-          const scores = scoringEngine.calculateScoresSync({
-            name: namePart,
+        transformedDomains.push(domain)
+        
+        // Aggregate TLD stats
+        if (!tldMap.has(tld)) {
+          tldMap.set(tld, {
             tld,
-            expiresAt: new Date(token.expiresAt),
-            lockStatus: name.transferLock || false,
-            registrarId: name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1,
-            renewalCount: 0, // Real renewal count not available from API
-            offerCount: 0, // Real offer count would come from API,
-            activity7d,
-            activity30d,
+            count: 0,
+            totalRisk: 0,
+            totalRarity: 0,
+            totalMomentum: 0,
+            totalValue: 0,
+            change7d: 0, // Real change data would come from historical API
+            change30d: 0, // Real change data would come from historical API
           })
-          
-          const domain = {
-            id: token.tokenId,
-            name: name.name,
-            namePart,
-            tld,
-            tokenId: token.tokenId,
-            scores,
-            value: Math.round(scores.currentValue || 1000),
-            daysUntilExpiry,
-          }
-          
-          transformedDomains.push(domain)
-          
-          // Aggregate TLD stats
-          if (!tldMap.has(tld)) {
-            tldMap.set(tld, {
-              tld,
-              count: 0,
-              totalRisk: 0,
-              totalRarity: 0,
-              totalMomentum: 0,
-              totalValue: 0,
-              change7d: 0, // Real change data would come from historical API
-              change30d: 0, // Real change data would come from historical API
-            })
-          }
-          
-          const stat = tldMap.get(tld)
-          stat.count++
-          stat.totalRisk += scores.risk
-          stat.totalRarity += scores.rarity
-          stat.totalMomentum += scores.momentum
-          stat.totalValue += domain.value
         }
+        
+        const stat = tldMap.get(tld)
+        stat.count++
+        stat.totalRisk += scores.risk
+        stat.totalRarity += scores.rarity
+        stat.totalMomentum += scores.momentum
+        stat.totalValue += domain.value
       }
       
       // Convert to final TLD stats
@@ -31,21 +31,309 @@ export default function APIDocsPage() {
       description: 'Get all tracked domains with scores',
       parameters: [
         { name: 'limit', type: 'number', default: '25', description: 'Number of results to return' },
+        { name: 'page', type: 'number', default: '1', description: 'Page number (1-based)' },
+        { name: 'cursor', type: 'string', optional: true, description: 'nextCursor from the previous response; takes precedence over page' },
+        { name: 'q', type: 'string', optional: true, description: 'Structured query, e.g. "tld:ai risk<30 len:3..5 sort:-momentum". Its sort replaces sortBy/order and limit:N caps the total. Parse errors return 400 with message and position' },
+        { name: 'search', type: 'string', optional: true, description: 'Dashboard search box text: natural language or a structured query. Plain words match names by substring, tolerating a typo in longer words' },
         { name: 'tld', type: 'string', optional: true, description: 'Filter by TLD (e.g., "com", "xyz")' },
         { name: 'minRisk', type: 'number', optional: true, description: 'Minimum risk score (0-100)' },
         { name: 'maxRisk', type: 'number', optional: true, description: 'Maximum risk score (0-100)' },
+        { name: 'minRarity / maxRarity', type: 'number', optional: true, description: 'Rarity score range (0-100)' },
+        { name: 'minMomentum / maxMomentum', type: 'number', optional: true, description: 'Momentum score range (0-100)' },
+        { name: 'minForecast / maxForecast', type: 'number', optional: true, description: 'Forecast score range (40-100; 40 is no growth, 58 is 15% over six months)' },
+        { name: 'minValue / maxValue', type: 'number', optional: true, description: 'Current value range, USD' },
+        { name: 'minLength / maxLength', type: 'number', optional: true, description: 'Name length range, without the TLD' },
+        { name: 'minExpiryDays / maxExpiryDays', type: 'number', optional: true, description: 'Days until expiry range' },
+        { name: 'expiry', type: 'string', optional: true, description: 'Expiry bucket from the dashboard: <30, 30-90, 90-180 or >180' },
+        { name: 'highGrowth', type: 'boolean', optional: true, description: 'Only domains forecast to grow 15% or more in six months (forecast score 58+)' },
+        { name: 'pattern', type: 'string', optional: true, description: 'Comma-separated collector patterns the name must all have: numeric, nnn, nnnn, lll, llll, cvc, cvcv, lnln, nlnl, palindrome, repeating, dictionary, compound, premium-prefix, emoji, idn, leading-hyphen, trailing-hyphen' },
+        { name: 'sortBy', type: 'string', default: 'risk', description: 'risk, rarity, momentum, value, newest, oldest, offers, expiry, length, name, price or forecast' },
+        { name: 'order', type: 'string', default: 'desc', description: 'asc or desc; oldest defaults to asc' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile: default, conservative, speculative or lender' },
       ],
-      example: `curl -X GET "https://dometrics.vercel.app/api/domains?limit=10&tld=com" \\
+      example: `curl -X GET "https://dometrics.vercel.app/api/domains?limit=10&tld=com&minRarity=70&sortBy=newest" \\
   -H "Content-Type: application/json"`
     },
     {
       method: 'GET',
       path: '/api/domains/{tokenId}',
-      description: 'Get detailed information for a specific domain',
+      description: 'Get full scores, comparable-sales valuation, market data, liquidity and ownership analysis for one domain',
       parameters: [
-        { name: 'tokenId', type: 'string', description: 'The token ID of the domain' }
+        { name: 'tokenId', type: 'string', description: 'The token ID of the domain' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
       ],
-      example: `curl -X GET "https://dometrics.vercel.app/api/domains/1001" \\
+      example: `curl -X GET "https://dometrics.vercel.app/api/domains/1001?profile=lender" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/domains/{tokenId}/explain',
+      description: 'Explain a domain\'s scores: every factor, the arithmetic behind each score, and counterfactuals',
+      parameters: [
+        { name: 'tokenId', type: 'string', description: 'The token ID of the domain' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/domains/1001/explain" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/domains/{tokenId}/history',
+      description: 'Get the stored score time series for a domain',
+      parameters: [
+        { name: 'tokenId', type: 'string', description: 'The token ID of the domain' },
+        { name: 'from', type: 'string', optional: true, description: 'ISO date to start from' },
+        { name: 'to', type: 'string', optional: true, description: 'ISO date to end at' },
+        { name: 'version', type: 'string', optional: true, description: 'Scoring weights version (e.g., "v1")' },
+        { name: 'limit', type: 'number', default: '365', description: 'Maximum number of snapshots' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/domains/1001/history?from=2025-01-01" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/domains/events',
+      description: 'Offers, listings, cancellations, sales, transfers and renewals ingested from the Poll API, newest first, with USD price, counterparty and transaction hash',
+      parameters: [
+        { name: 'tokenIds', type: 'string', optional: true, description: 'Comma-separated token IDs to limit the events to' },
+        { name: 'kinds', type: 'string', optional: true, description: 'Comma-separated kinds: offer, offer_cancelled, listing, listing_cancelled, purchase, transfer, renewal' },
+        { name: 'since', type: 'string', optional: true, description: 'Only events ingested after this ISO timestamp' },
+        { name: 'limit', type: 'number', default: '100', description: 'Maximum number of events (max 500)' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/domains/events?tokenIds=1001,1002&kinds=offer,purchase" \
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/portfolio',
+      description: 'Get every name an address owns with aggregate value, weighted risk, upcoming expiries, TLD concentration and unrealized P&L',
+      parameters: [
+        { name: 'owner', type: 'string', description: 'Owner address, plain (0x...) or CAIP-10 (eip155:97476:0x...)' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/portfolio?owner=eip155:97476:0x1234567890abcdef1234567890abcdef12345678" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/portfolio/groups',
+      description: 'List the signed-in wallet\'s portfolio groups. Every /api/portfolio/groups endpoint requires a wallet session and only reaches the signed-in wallet\'s groups.',
+      parameters: [
+        { name: 'userAddress', type: 'string', optional: true, description: 'Group owner (plain or CAIP-10); defaults to, and must be, the signed-in wallet' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/portfolio/groups" -b cookies.txt \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'POST',
+      path: '/api/portfolio/groups',
+      description: 'Create a named group of wallets reported as one portfolio',
+      parameters: [
+        { name: 'userAddress', type: 'string', description: 'Address of the group owner; must be the signed-in wallet' },
+        { name: 'name', type: 'string', description: 'Group name' },
+        { name: 'description', type: 'string', optional: true, description: 'Free-text description' },
+        { name: 'wallets', type: 'string[]', description: 'Up to 25 wallet addresses (plain or CAIP-10)' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/portfolio/groups" -b cookies.txt \\
+  -H "Content-Type: application/json" \\
+  -d '{"userAddress": "0x1234567890abcdef1234567890abcdef12345678", "name": "Fund", "wallets": ["eip155:97476:0x1234567890abcdef1234567890abcdef12345678", "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd"]}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/portfolio/groups/{id}',
+      description: 'Consolidated group report: valuation, risk distribution, 12-month expiry calendar and per-wallet breakdown. PATCH updates and DELETE removes the group.',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Portfolio group id' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/portfolio/groups/clx123abc" -b cookies.txt \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/portfolio/groups/{id}/export',
+      description: 'Download a group report as JSON, CSV (one row per holding) or plain text',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Portfolio group id' },
+        { name: 'format', type: 'string', default: 'json', description: 'json, csv or text' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/portfolio/groups/clx123abc/export?format=csv" -b cookies.txt -o fund_portfolio.csv`
+    },
+    {
+      method: 'GET',
+      path: '/api/watchlists',
+      description: 'List a wallet\'s watchlists. The signed-in owner gets every list; anyone else only the public ones. Creating, changing and deleting lists requires a wallet session.',
+      parameters: [
+        { name: 'userAddress', type: 'string', optional: true, description: 'Address of the list owner (plain or CAIP-10); defaults to the signed-in wallet' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/watchlists" -b cookies.txt \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'POST',
+      path: '/api/watchlists',
+      description: 'Create a named watchlist. Names are unique per owner (case-insensitive); entries that cannot be resolved come back in unresolved.',
+      parameters: [
+        { name: 'userAddress', type: 'string', description: 'Address of the list owner; must be the signed-in wallet' },
+        { name: 'name', type: 'string', description: 'Watchlist name' },
+        { name: 'description', type: 'string', optional: true, description: 'Free-text description' },
+        { name: 'domains', type: 'string[]', optional: true, description: 'Up to 500 domain names or token ids' },
+        { name: 'isPublic', type: 'boolean', optional: true, default: 'false', description: 'Issue a read-only share link' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/watchlists" -b cookies.txt \\
+  -H "Content-Type: application/json" \\
+  -d '{"userAddress": "0x1234567890abcdef1234567890abcdef12345678", "name": "Blue chips", "domains": ["crypto.ai", "defi.io"]}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/watchlists/{id}',
+      description: 'Watchlist report: every domain scored, plus value, weighted risk, average rarity and momentum, TLD concentration and upcoming expiries. PATCH updates the list (name, description, domains, add, remove, isPublic) and DELETE removes it. Private lists are only visible to, and any list only changed by, the signed-in owner.',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Watchlist id' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X PATCH "https://dometrics.vercel.app/api/watchlists/clx456def" -b cookies.txt \\
+  -H "Content-Type: application/json" \\
+  -d '{"add": ["web3.xyz"], "isPublic": true}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/watchlists/{id}/export',
+      description: 'Download a watchlist as JSON (re-importable) or CSV (one scored row per domain)',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Watchlist id' },
+        { name: 'format', type: 'string', default: 'json', description: 'json or csv' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the CSV scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/watchlists/clx456def/export?format=json" -o blue_chips_watchlist.json`
+    },
+    {
+      method: 'POST',
+      path: '/api/watchlists/import',
+      description: 'Create a watchlist from an exported JSON file, a CSV or one domain per line',
+      parameters: [
+        { name: 'userAddress', type: 'string', description: 'Address of the list owner; must be the signed-in wallet' },
+        { name: 'name', type: 'string', optional: true, description: 'Watchlist name; defaults to the name in an exported file' },
+        { name: 'description', type: 'string', optional: true, description: 'Free-text description' },
+        { name: 'content', type: 'string', description: 'File contents' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/watchlists/import" -b cookies.txt \\
+  -H "Content-Type: application/json" \\
+  -d '{"userAddress": "0x1234567890abcdef1234567890abcdef12345678", "name": "Shortlist", "content": "crypto.ai\\ndefi.io"}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/watchlists/shared/{token}',
+      description: 'Read-only report for a public watchlist, without the owner address. 404 once the list is made private.',
+      parameters: [
+        { name: 'token', type: 'string', description: 'Share token from the watchlist' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile used for the scores' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/watchlists/shared/Xq3v9Lk2pR8sT1wZ4yB6nM0c" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/auth/challenge',
+      description: 'Message for a wallet to sign (personal_sign) to sign in. Valid for 10 minutes.',
+      parameters: [
+        { name: 'address', type: 'string', description: 'Wallet address (plain or CAIP-10)' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/auth/challenge?address=0x1234567890abcdef1234567890abcdef12345678"`
+    },
+    {
+      method: 'POST',
+      path: '/api/auth/session',
+      description: 'Sign in with a signed challenge. Sets the dometrics_session cookie that alert rule, watchlist and portfolio group endpoints require. GET returns the signed-in address and DELETE signs out.',
+      parameters: [
+        { name: 'message', type: 'string', description: 'The challenge message, unchanged' },
+        { name: 'signature', type: 'string', description: 'Wallet signature of the message' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/auth/session" -c cookies.txt \\
+  -H "Content-Type: application/json" \\
+  -d '{"message": "...", "signature": "0x..."}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/alerts/rules',
+      description: 'List the signed-in wallet\'s server-side alert rules. Every /api/alerts endpoint except evaluate requires a wallet session and only reaches the signed-in wallet\'s rules.',
+      parameters: [
+        { name: 'userAddress', type: 'string', optional: true, description: 'Rule owner (plain or CAIP-10); defaults to, and must be, the signed-in wallet' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/alerts/rules" -b cookies.txt \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'POST',
+      path: '/api/alerts/rules',
+      description: 'Create an alert rule evaluated by the hourly cron. PATCH /api/alerts/rules/{id} updates it (including status ACTIVE/PAUSED) and DELETE removes it.',
+      parameters: [
+        { name: 'userAddress', type: 'string', description: 'Address of the rule owner; must be the signed-in wallet' },
+        { name: 'name', type: 'string', description: 'Rule name, used as the alert title' },
+        { name: 'type', type: 'string', description: 'ANALYTICS (metric threshold), EVENT (Poll API events), COMPOSITE (condition expression) or SAVED_FILTER (dashboard search)' },
+        { name: 'conditions', type: 'object', description: 'ANALYTICS: {metric, operator, value, profile?}; EVENT: {events, minPriceUsd?}; COMPOSITE: {expression, profile?}, e.g. "risk > 70 and (risk rose by 15 in 7d or new offer above $500) and tld in (ai, io)"; SAVED_FILTER: {query, filters?, notifyOn?: [enter, exit], profile?}, alerting when domains start or stop matching. All accept tokenIds and ownedOnly to narrow the scope.' },
+        { name: 'channels', type: 'string[]', default: '["IN_APP"]', description: 'Delivery channels' },
+        { name: 'frequency', type: 'string', default: 'IMMEDIATE', description: 'IMMEDIATE, HOURLY, DAILY or WEEKLY' },
+        { name: 'quietHoursStart', type: 'number', optional: true, description: 'UTC hour (0-23) from which alerts are held' },
+        { name: 'quietHoursEnd', type: 'number', optional: true, description: 'UTC hour (0-23) at which held alerts are sent' },
+        { name: 'webhookUrl', type: 'string', optional: true, description: 'Public https URL, required for the WEBHOOK channel' },
+        { name: 'webhookSecret', type: 'string', optional: true, description: 'HMAC-SHA256 signing key (16+ chars); generated and returned once if omitted' },
+        { name: 'email', type: 'string', optional: true, description: 'Recipient, required for the EMAIL channel; DAILY and WEEKLY rules get one digest per period' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/alerts/rules" \\
+  -H "Content-Type: application/json" \\
+  -d '{"userAddress": "0x1234567890abcdef1234567890abcdef12345678", "name": "Expiring soon", "type": "ANALYTICS", "conditions": {"metric": "daysUntilExpiry", "operator": "lte", "value": 30, "ownedOnly": true}, "frequency": "DAILY", "quietHoursStart": 22, "quietHoursEnd": 7}'`
+    },
+    {
+      method: 'GET',
+      path: '/api/alerts/rules/{id}/deliveries',
+      description: 'Delivery attempts for a rule\'s alerts, with status, attempt count, next retry time and last error',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Alert rule id' },
+        { name: 'status', type: 'string', optional: true, description: 'pending, delivered, failed or retrying' },
+        { name: 'limit', type: 'number', default: '50', description: 'Maximum deliveries (up to 200)' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/alerts/rules/clx123abc/deliveries?status=failed" \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'POST',
+      path: '/api/alerts/deliveries/{id}/replay',
+      description: 'Send a failed or retrying delivery again immediately. Returns 409 for deliveries that already succeeded.',
+      parameters: [
+        { name: 'id', type: 'string', description: 'Alert delivery id' }
+      ],
+      example: `curl -X POST "https://dometrics.vercel.app/api/alerts/deliveries/clx456def/replay"`
+    },
+    {
+      method: 'GET',
+      path: '/api/alerts/events',
+      description: 'In-app feed of alerts fired by a user\'s server-side rules, newest first',
+      parameters: [
+        { name: 'userAddress', type: 'string', optional: true, description: 'Rule owner; defaults to, and must be, the signed-in wallet' },
+        { name: 'limit', type: 'number', default: '50', description: 'Maximum events (up to 200)' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/alerts/events" -b cookies.txt \\
+  -H "Content-Type: application/json"`
+    },
+    {
+      method: 'GET',
+      path: '/api/calendar/{owner}.ics',
+      description: 'iCalendar feed of expiry dates for an owner\'s names plus any tracked token ids, with reminders at the critical, urgent and warning risk tiers. Without the .ics suffix the entries are returned as JSON.',
+      parameters: [
+        { name: 'owner', type: 'string', description: 'Owner address (plain or CAIP-10)' },
+        { name: 'tokenIds', type: 'string', optional: true, description: 'Comma-separated tracked token ids to include' },
+        { name: 'profile', type: 'string', default: 'default', description: 'Weight profile whose expiryBuffer tiers set the reminders' }
+      ],
+      example: `curl -X GET "https://dometrics.vercel.app/api/calendar/0x1234567890abcdef1234567890abcdef12345678.ics?tokenIds=123,456" -o renewals.ics`
+    },
+    {
+      method: 'GET',
+      path: '/api/profiles',
+      description: 'List the available scoring weight profiles and their weights',
+      parameters: [],
+      example: `curl -X GET "https://dometrics.vercel.app/api/profiles" \\
   -H "Content-Type: application/json"`
     },
     {
@@ -107,12 +395,27 @@ export default function APIDocsPage() {
       },
       "daysUntilExpiry": 165,
       "registrar": "GoDaddy",
-      "value": 5000
+      "value": 5000,
+      "activity": { "7d": 4, "30d": 11 },
+      "offerCount": 2,
+      "renewalCount": 1,
+      "inputSources": {
+        "expiresAt": "live",
+        "activity": "stored",
+        "tokenizedAt": "default"
+      },
+      "defaultedInputs": ["tokenizedAt"],
+      "profile": "default",
+      "weightsVersion": "v1"
     }
   ],
   "total": 247,
+  "truncated": false,
   "page": 1,
-  "limit": 25
+  "limit": 25,
+  "hasMore": true,
+  "nextCursor": "eyJ2YWx1ZSI6NDIsInRva2VuSWQiOiIxMjM0In0",
+  "profile": { "name": "default", "version": "v1" }
 }`,
     domain: `{
   "data": {
@@ -160,14 +463,30 @@ export default function APIDocsPage() {
     "activity": {
       "7d": 15,
       "30d": 42,
-      "transfers": 3,
-      "offers": 5
+      "transfers30d": 3,
+      "offers30d": 5
     },
     "registrar": "GoDaddy",
     "transferLock": false,
     "value": 5000,
-    "explorerUrl": "https://explorer-testnet.doma.xyz/token/0x.../1001"
-  }
+    "explorerUrl": "https://explorer-testnet.doma.xyz/token/0x.../1001",
+    "liquidity": {
+      "score": 68,
+      "riskLevel": "medium",
+      "activeOffers": 2,
+      "activeListings": 1,
+      "recentSales": 0,
+      "bidAskSpread": 24,
+      "hasMarketDepth": true
+    },
+    "ownership": {
+      "totalTransfers": 3,
+      "uniqueOwners": 3,
+      "averageHoldingDays": 92,
+      "isFrequentlyTraded": false
+    }
+  },
+  "timestamp": "2025-01-15T12:00:00.000Z"
 }`
   }
 
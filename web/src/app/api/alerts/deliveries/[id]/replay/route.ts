@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine } from '@/lib/alert-engine'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+// Re-send a failed or retrying delivery now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage alert rules' },
+        { status: 401 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const delivery = await alertEngine.getDelivery(id)
+    const rule = delivery ? await alertEngine.get(delivery.ruleId) : null
+
+    if (!delivery || !rule || !isSessionOwner(session, rule.userAddress)) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    if (delivery.status !== 'FAILED' && delivery.status !== 'RETRYING') {
+      return NextResponse.json(
+        { error: `Only failed or retrying deliveries can be replayed (status is ${delivery.status})` },
+        { status: 409 }
+      )
+    }
+
+    const replayed = await alertEngine.replay(id)
+
+    return NextResponse.json({ data: replayed })
+  } catch (error) {
+    console.error('Error replaying alert delivery:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay alert delivery' },
+      { status: 500 }
+    )
+  }
+}
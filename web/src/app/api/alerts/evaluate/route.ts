@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine } from '@/lib/alert-engine'
+import { ingestionWorker } from '@/lib/ingestion'
+
+// Cron job endpoint: pull fresh Poll API events, then evaluate every active rule
+async function evaluate(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    // Verify cron secret in production
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    // Event rules only see what has been ingested, so catch up first
+    let ingestion = null
+    try {
+      ingestion = await ingestionWorker.run()
+    } catch (error) {
+      console.error('Error ingesting Poll API events:', error)
+    }
+
+    const alerts = await alertEngine.run()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ingestion,
+        alerts,
+        evaluatedAt: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    console.error('Error evaluating alert rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel crons send GET; POST is kept for manual and external schedulers
+export async function GET(request: NextRequest) {
+  return evaluate(request)
+}
+
+export async function POST(request: NextRequest) {
+  return evaluate(request)
+}
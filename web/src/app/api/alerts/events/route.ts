@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine } from '@/lib/alert-engine'
+import { isValidOwner } from '@/lib/portfolio'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to see your alerts' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const userAddress = searchParams.get('userAddress') || session
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    if (!isValidOwner(userAddress)) {
+      return NextResponse.json(
+        { error: 'userAddress must be an address or CAIP-10 account id' },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, userAddress)) {
+      return NextResponse.json(
+        { error: 'Signed in as a different wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const events = await alertEngine.getFeed(userAddress, limit)
+
+    return NextResponse.json({
+      data: events,
+      total: events.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching alert events:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine, DELIVERY_STATUSES } from '@/lib/alert-engine'
+import type { DeliveryStatus } from '@/lib/alert-engine'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')?.toUpperCase()
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+    const session = getSessionAddress(request)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage alert rules' },
+        { status: 401 }
+      )
+    }
+
+    if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+      return NextResponse.json(
+        { error: 'Unknown delivery status', available: DELIVERY_STATUSES },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const rule = await alertEngine.get(id)
+    if (!rule || !isSessionOwner(session, rule.userAddress)) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const deliveries = await alertEngine.listDeliveries(id, { status: status as DeliveryStatus | undefined, limit })
+
+    return NextResponse.json({
+      data: deliveries,
+      total: deliveries.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing alert deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to list alert deliveries' },
+      { status: 500 }
+    )
+  }
+}
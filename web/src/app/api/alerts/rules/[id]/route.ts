@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine, updateRuleSchema, getConditionSchema } from '@/lib/alert-engine'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+function databaseUnavailable() {
+  return NextResponse.json(
+    { error: 'Alert rules require a configured database' },
+    { status: 503 }
+  )
+}
+
+function signInRequired() {
+  return NextResponse.json(
+    { error: 'Sign in with your wallet to manage alert rules' },
+    { status: 401 }
+  )
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Alert rule not found' },
+    { status: 404 }
+  )
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    // Other wallets' rules read as missing rather than forbidden
+    const rule = await alertEngine.get(id)
+    if (!rule || !isSessionOwner(session, rule.userAddress)) return notFound()
+
+    return NextResponse.json({ data: rule })
+  } catch (error) {
+    console.error('Error fetching alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    const body = await request.json().catch(() => null)
+    const parsed = updateRuleSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await alertEngine.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    // Conditions are validated against the type the rule was created with
+    const { conditions: rawConditions, ...settings } = parsed.data
+    let conditions
+    if (rawConditions !== undefined) {
+      const schema = getConditionSchema(existing.type)
+      const result = schema?.safeParse(rawConditions)
+      if (!result?.success) {
+        return NextResponse.json(
+          { error: `Invalid conditions for a ${existing.type} rule`, issues: result?.error.issues || [] },
+          { status: 400 }
+        )
+      }
+      conditions = result.data
+    }
+
+    const quietHoursStart = settings.quietHoursStart !== undefined ? settings.quietHoursStart : existing.quietHoursStart
+    const quietHoursEnd = settings.quietHoursEnd !== undefined ? settings.quietHoursEnd : existing.quietHoursEnd
+    if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+      return NextResponse.json(
+        { error: 'quietHoursStart and quietHoursEnd must be set together' },
+        { status: 400 }
+      )
+    }
+
+    const channels = settings.channels || existing.channels
+    const webhookUrl = settings.webhookUrl !== undefined ? settings.webhookUrl : existing.webhookUrl
+    if (channels.includes('WEBHOOK') && !webhookUrl) {
+      return NextResponse.json(
+        { error: 'webhookUrl is required for the WEBHOOK channel' },
+        { status: 400 }
+      )
+    }
+    const email = settings.email !== undefined ? settings.email : existing.email
+    if (channels.includes('EMAIL') && !email) {
+      return NextResponse.json(
+        { error: 'email is required for the EMAIL channel' },
+        { status: 400 }
+      )
+    }
+
+    const rule = await alertEngine.update(id, { ...settings, conditions })
+    if (!rule) return notFound()
+
+    return NextResponse.json({ data: rule })
+  } catch (error) {
+    console.error('Error updating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await alertEngine.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    const deleted = await alertEngine.delete(id)
+    if (!deleted) return notFound()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    )
+  }
+}
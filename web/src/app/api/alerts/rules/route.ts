@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine, createRuleSchema } from '@/lib/alert-engine'
+import { isValidOwner } from '@/lib/portfolio'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage alert rules' },
+        { status: 401 }
+      )
+    }
+    // Defaults to the signed-in wallet; naming another one is refused
+    const userAddress = request.nextUrl.searchParams.get('userAddress') || session
+
+    if (!isValidOwner(userAddress)) {
+      return NextResponse.json(
+        { error: 'userAddress must be an address or CAIP-10 account id' },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, userAddress)) {
+      return NextResponse.json(
+        { error: 'Signed in as a different wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const rules = await alertEngine.list(userAddress)
+
+    return NextResponse.json({
+      data: rules,
+      total: rules.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing alert rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to list alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage alert rules' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = createRuleSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, parsed.data.userAddress)) {
+      return NextResponse.json(
+        { error: 'Rules can only be created for the signed-in wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Alert rules require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const rule = await alertEngine.create(parsed.data)
+
+    return NextResponse.json({ data: rule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    )
+  }
+}
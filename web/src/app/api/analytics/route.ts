@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { domaClient } from '@/lib/doma-client'
-import { ScoringEngine } from '@/lib/scoring'
-
-const scoringEngine = new ScoringEngine()
+import { domaClient, collectAll } from '@/lib/doma-client'
+import { domainScoringService } from '@/lib/domain-scoring'
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,19 +8,17 @@ export async function GET(request: NextRequest) {
     const type = searchParams.get('type') || 'overview'
     const period = searchParams.get('period') || '7d'
 
-    // Fetch real data from Doma testnet
-    const [names, chainStats, listings] = await Promise.all([
-      domaClient.getAllNames(100),
+    // Fetch real data from Doma testnet, scored through the shared pipeline
+    const [domains, chainStats, listings] = await Promise.all([
+      domainScoringService.getCatalogue(),
       domaClient.getChainStatistics(),
-      domaClient.getAllListings(100)
+      collectAll(domaClient.iterateAllListings())
     ])
 
     // Calculate TLD distribution from real data
     const tldCounts: Record<string, { count: number; volume: number }> = {}
-    for (const name of names) {
-      if (!name.name) continue
-      const parts = name.name.split('.')
-      const tld = parts[parts.length - 1] || 'unknown'
+    for (const domain of domains) {
+      const tld = domain.tld || 'unknown'
       
       if (!tldCounts[tld]) {
         tldCounts[tld] = { count: 0, volume: 0 }
@@ -30,13 +26,10 @@ export async function GET(request: NextRequest) {
       tldCounts[tld].count++
       
       // Find listing price for volume calculation
-      const token = name.tokens?.[0]
-      if (token) {
-        const listing = listings.find((l: any) => l.tokenId === token.tokenId)
-        if (listing) {
-          const price = parseFloat(listing.price) * (listing.currency?.usdExchangeRate || 1)
-          tldCounts[tld].volume += price
-        }
+      const listing = listings.find((l: any) => l.tokenId === domain.tokenId)
+      if (listing) {
+        const price = parseFloat(listing.price) * (listing.currency?.usdExchangeRate || 1)
+        tldCounts[tld].volume += price
       }
     }
 
@@ -54,21 +47,12 @@ export async function GET(request: NextRequest) {
         }, 0) / listings.length
       : 0
 
-    // Calculate risk distribution from real domains
+    // Calculate risk distribution from the same risk scores the dashboard shows
     const riskDistribution = { low: 0, medium: 0, high: 0 }
-    for (const name of names) {
-      if (!name.tokens?.[0]) continue
-      const token = name.tokens[0]
-      
-      // Simple risk calculation based on expiry
-      const expiresAt = new Date(token.expiresAt)
-      const daysUntilExpiry = Math.floor(
-        (expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-      )
-      
-      if (daysUntilExpiry > 180) {
+    for (const domain of domains) {
+      if (domain.scores.risk < 34) {
         riskDistribution.low++
-      } else if (daysUntilExpiry > 60) {
+      } else if (domain.scores.risk < 67) {
         riskDistribution.medium++
       } else {
         riskDistribution.high++
@@ -80,7 +64,7 @@ export async function GET(request: NextRequest) {
     switch (type) {
       case 'overview':
         data = {
-          totalDomains: chainStats?.totalNamesTokenized || names.length,
+          totalDomains: chainStats?.totalNamesTokenized || domains.length,
           totalVolume: chainStats?.totalRevenueUsd || topTLDs.reduce((sum, tld) => sum + tld.volume, 0),
           avgPrice: Math.round(avgPrice),
           topTLDs: topTLDs.slice(0, 3),
@@ -92,31 +76,22 @@ export async function GET(request: NextRequest) {
       case 'tlds':
         data = {
           topTLDs,
-          total: names.length
+          total: domains.length
         }
         break
       
       case 'movers':
-        // Calculate top movers based on recent activity
-        const domainActivity: any[] = []
-        for (const name of names.slice(0, 20)) {
-          if (!name.tokens?.[0]) continue
-          const token = name.tokens[0]
-          
-          try {
-            const activities = await domaClient.getTokenActivities(token.tokenId, 10)
-            if (activities.length > 0) {
-              domainActivity.push({
-                name: name.name,
-                change: activities.length * 5, // Activity as proxy for momentum
-                price: listings.find((l: any) => l.tokenId === token.tokenId)?.price || 0,
-                lastActivity: activities[0]?.createdAt
-              })
-            }
-          } catch (err) {
-            // Skip if can't get activities
-          }
-        }
+        // Top movers by momentum score, among domains with real recent activity
+        const domainActivity = domains
+          .filter(domain => domain.activity7d > 0 || domain.activity30d > 0)
+          .map(domain => ({
+            name: domain.name,
+            tokenId: domain.tokenId,
+            change: domain.scores.momentum,
+            activity7d: domain.activity7d,
+            activity30d: domain.activity30d,
+            price: listings.find((l: any) => l.tokenId === domain.tokenId)?.price || 0
+          }))
         
         data = {
           topMovers: domainActivity
@@ -169,7 +144,7 @@ export async function GET(request: NextRequest) {
       
       default:
         data = {
-          totalDomains: chainStats?.totalNamesTokenized || names.length,
+          totalDomains: chainStats?.totalNamesTokenized || domains.length,
           topTLDs,
           riskDistribution,
           avgPrice: Math.round(avgPrice)
@@ -207,9 +182,9 @@ export async function POST(request: NextRequest) {
 
     // Fetch and cache real data
     const [names, chainStats, listings] = await Promise.all([
-      domaClient.getAllNames(100),
+      collectAll(domaClient.iterateAllNames()),
       domaClient.getChainStatistics(),
-      domaClient.getAllListings(100)
+      collectAll(domaClient.iterateAllListings())
     ])
     
     const precomputedData = {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { scoreHistoryService } from '@/lib/score-history'
+import { ingestionWorker } from '@/lib/ingestion'
+
+// Cron job endpoint: pull new Poll API events, then snapshot every domain's scores
+async function snapshot(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    // Verify cron secret in production
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Score snapshots require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    // Pull new Poll API events into Domain/DomainStats before snapshotting
+    let ingestion = null
+    try {
+      ingestion = await ingestionWorker.run()
+    } catch (error) {
+      console.error('Error ingesting Poll API events:', error)
+    }
+
+    const scoreSnapshot = await scoreHistoryService.snapshotAll()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ingestion,
+        scoreSnapshot,
+        snapshotAt: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    console.error('Error snapshotting scores:', error)
+    return NextResponse.json(
+      { error: 'Failed to snapshot scores' },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel crons send GET; POST is kept for manual and external schedulers
+export async function GET(request: NextRequest) {
+  return snapshot(request)
+}
+
+export async function POST(request: NextRequest) {
+  return snapshot(request)
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createChallenge, isSessionConfigured } from '@/lib/wallet-session'
+import { isValidOwner } from '@/lib/portfolio'
+
+// Message for the wallet to sign; POST it back to /api/auth/session
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address')
+
+    if (!address || !isValidOwner(address)) {
+      return NextResponse.json(
+        { error: 'address must be an address or CAIP-10 account id' },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionConfigured()) {
+      return NextResponse.json(
+        { error: 'Wallet sign-in requires SESSION_SECRET' },
+        { status: 503 }
+      )
+    }
+
+    return NextResponse.json({
+      data: { message: createChallenge(address, request.nextUrl.host) }
+    })
+  } catch (error) {
+    console.error('Error creating sign-in challenge:', error)
+    return NextResponse.json(
+      { error: 'Failed to create sign-in challenge' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  createSessionToken,
+  getSessionAddress,
+  isSessionConfigured,
+  verifyChallenge
+} from '@/lib/wallet-session'
+
+const signInSchema = z.object({
+  message: z.string().max(1000),
+  signature: z.string().max(1000)
+})
+
+// The signed-in wallet, if any
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ data: { address: getSessionAddress(request) } })
+}
+
+// Sign in with a signed challenge from /api/auth/challenge
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = signInSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid sign-in request', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionConfigured()) {
+      return NextResponse.json(
+        { error: 'Wallet sign-in requires SESSION_SECRET' },
+        { status: 503 }
+      )
+    }
+
+    const address = await verifyChallenge(parsed.data.message, parsed.data.signature, request.nextUrl.host)
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Signature is invalid or the challenge has expired' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ data: { address } })
+    response.cookies.set(SESSION_COOKIE, createSessionToken(address), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    })
+    return response
+  } catch (error) {
+    console.error('Error signing in:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { renewalCalendarService } from '@/lib/renewal-calendar'
+import { isValidOwner } from '@/lib/portfolio'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+
+// /api/calendar/{owner}.ics returns the iCalendar feed; without the extension, JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string }> }
+) {
+  try {
+    const { owner: ownerParam } = await params
+    const decoded = decodeURIComponent(ownerParam)
+    const asIcs = decoded.endsWith('.ics')
+    const owner = asIcs ? decoded.slice(0, -'.ics'.length) : decoded
+    const searchParams = request.nextUrl.searchParams
+    const profile = getWeightProfile(searchParams.get('profile'))
+    const trackedTokenIds = (searchParams.get('tokenIds') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => /^\d+$/.test(id))
+
+    if (!isValidOwner(owner)) {
+      return NextResponse.json(
+        { error: 'owner must be an address or CAIP-10 account id (eip155:<chainId>:0x...)' },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await renewalCalendarService.getCalendar(owner, {
+      profile: profile.name,
+      trackedTokenIds
+    })
+
+    if (asIcs) {
+      const ics = renewalCalendarService.toIcs(calendar, { baseUrl: request.nextUrl.origin })
+      return new NextResponse(ics, {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': `inline; filename="dometrics-renewals.ics"`,
+          'Cache-Control': 'public, max-age=3600'
+        }
+      })
+    }
+
+    return NextResponse.json({
+      data: calendar,
+      total: calendar.entries.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error building renewal calendar:', error)
+    return NextResponse.json(
+      { error: 'Failed to build renewal calendar', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
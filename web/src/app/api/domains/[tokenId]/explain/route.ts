@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { domainScoringService } from '@/lib/domain-scoring'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { tokenId } = await params
+    const profile = getWeightProfile(request.nextUrl.searchParams.get('profile'))
+
+    if (!/^\d+$/.test(tokenId)) {
+      return NextResponse.json(
+        { error: 'Token ID must be numeric' },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    const result = await domainScoringService.explain(tokenId, { profile: profile.name })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Domain not found' },
+        { status: 404 }
+      )
+    }
+
+    const { domain, explanation } = result
+    return NextResponse.json({
+      tokenId,
+      name: domain.name,
+      profile: {
+        name: profile.name,
+        version: profile.version
+      },
+      scores: {
+        risk: domain.scores.risk,
+        rarity: domain.scores.rarity,
+        momentum: domain.scores.momentum,
+        forecast: domain.scores.forecast
+      },
+      explanation,
+      inputSources: domain.inputSources,
+      defaultedInputs: domain.defaultedInputs,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error explaining scores:', error)
+    return NextResponse.json(
+      { error: 'Failed to explain scores', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { scoreHistoryService } from '@/lib/score-history'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { tokenId } = await params
+    const searchParams = request.nextUrl.searchParams
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const version = searchParams.get('version') || undefined
+    const limit = Math.min(1000, Math.max(1, parseInt(searchParams.get('limit') || '365') || 365))
+
+    const fromDate = from ? new Date(from) : undefined
+    const toDate = to ? new Date(to) : undefined
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO dates' },
+        { status: 400 }
+      )
+    }
+
+    const history = await scoreHistoryService.getHistory(tokenId, {
+      from: fromDate,
+      to: toDate,
+      version,
+      limit
+    })
+
+    if (!history) {
+      return NextResponse.json(
+        { error: 'No score history for this domain' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      tokenId,
+      data: history,
+      total: history.length,
+      filters: {
+        from: from || null,
+        to: to || null,
+        version: version || null
+      },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching score history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch score history' },
+      { status: 500 }
+    )
+  }
+}
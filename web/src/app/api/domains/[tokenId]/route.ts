@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { domaClient } from '@/lib/doma-client'
+import { domainScoringService } from '@/lib/domain-scoring'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { tokenId } = await params
+    const profile = getWeightProfile(request.nextUrl.searchParams.get('profile'))
+
+    if (!/^\d+$/.test(tokenId)) {
+      return NextResponse.json(
+        { error: 'Token ID must be numeric' },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    const statistics = await domaClient.getNameStatistics(tokenId)
+    const domain = await domainScoringService.getDomain(tokenId, {
+      knownName: statistics?.name,
+      profile: profile.name
+    })
+
+    if (!domain) {
+      return NextResponse.json(
+        { error: 'Domain not found' },
+        { status: 404 }
+      )
+    }
+
+    const [offers, listings, liquidity, ownership, valuation] = await Promise.all([
+      domaClient.getTokenOffers(tokenId, 50),
+      domaClient.getTokenListings(tokenId),
+      domaClient.calculateLiquidityRisk(tokenId),
+      domaClient.analyzeOwnershipHistory(tokenId),
+      domainScoringService.getValuation(tokenId, { knownName: domain.name })
+    ])
+
+    return NextResponse.json({
+      data: {
+        ...domain,
+        value: domain.price,
+        valuation,
+        market: {
+          statistics,
+          offers,
+          listings
+        },
+        liquidity,
+        ownership
+      },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching domain:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch domain', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { marketEventService, MARKET_EVENT_KINDS } from '@/lib/market-events'
+import type { MarketEventKind } from '@/lib/market-events'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const tokenIds = (searchParams.get('tokenIds') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => /^\d+$/.test(id))
+    const kinds = (searchParams.get('kinds') || '')
+      .split(',')
+      .map(kind => kind.trim())
+      .filter(Boolean)
+    const sinceParam = searchParams.get('since')
+    const since = sinceParam ? new Date(sinceParam) : undefined
+    const limit = Math.min(500, Math.max(1, parseInt(searchParams.get('limit') || '100') || 100))
+
+    const unknownKinds = kinds.filter(kind => !(MARKET_EVENT_KINDS as readonly string[]).includes(kind))
+    if (unknownKinds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown event kinds: ${unknownKinds.join(', ')}`, available: MARKET_EVENT_KINDS },
+        { status: 400 }
+      )
+    }
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: 'since must be an ISO 8601 timestamp' },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Market events require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const events = await marketEventService.list({
+      tokenIds: tokenIds.length > 0 ? tokenIds : undefined,
+      kinds: kinds.length > 0 ? (kinds as MarketEventKind[]) : undefined,
+      since,
+      limit
+    })
+
+    return NextResponse.json({
+      data: events,
+      total: events.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching market events:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch market events' },
+      { status: 500 }
+    )
+  }
+}
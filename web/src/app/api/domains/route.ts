@@ -1,136 +1,226 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ScoringEngine } from '@/lib/scoring'
-import { domaClient } from '@/lib/doma-client'
+import { domainScoringService } from '@/lib/domain-scoring'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+import { parseSearchQuery } from '@/lib/search-query'
+import {
+  EXPIRY_BUCKETS,
+  SEARCH_SORT_FIELDS,
+  compareSortValues,
+  getSortValue,
+  matchesFilters,
+  panelToFilters,
+  parseSearchText
+} from '@/lib/saved-searches'
+import type { ExpiryBucket, SearchSortField } from '@/lib/saved-searches'
+import type { SearchFilters, RangeFilterKey } from '@/lib/natural-language-search'
+import { NAME_PATTERNS } from '@/lib/name-patterns'
+import type { NamePattern } from '@/lib/name-patterns'
+import type { ScoredDomain } from '@/lib/domain-scoring'
 
-const scoringEngine = new ScoringEngine()
+// Range parameters and the filter bounds they set
+const RANGE_PARAMS: Array<[string, RangeFilterKey]> = [
+  ['minRisk', 'riskMin'],
+  ['maxRisk', 'riskMax'],
+  ['minRarity', 'rarityMin'],
+  ['maxRarity', 'rarityMax'],
+  ['minMomentum', 'momentumMin'],
+  ['maxMomentum', 'momentumMax'],
+  ['minForecast', 'forecastMin'],
+  ['maxForecast', 'forecastMax'],
+  ['minValue', 'valueMin'],
+  ['maxValue', 'valueMax'],
+  ['minLength', 'lengthMin'],
+  ['maxLength', 'lengthMax'],
+  ['minExpiryDays', 'expiryDaysMin'],
+  ['maxExpiryDays', 'expiryDaysMax']
+]
+
+// Sorts kept from before the dashboard's sort fields were supported
+const LEGACY_SORT_FIELDS = ['price', 'forecast'] as const
+const SORT_FIELDS: readonly string[] = [...SEARCH_SORT_FIELDS, ...LEGACY_SORT_FIELDS]
+
+interface DomainsCursor {
+  value: number | string
+  tokenId: string
+}
+
+// Opaque cursor: the sort value and tokenId of the last item on the previous page
+function encodeCursor(cursor: DomainsCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(raw: string): DomainsCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'))
+    if (!['number', 'string'].includes(typeof parsed?.value) || typeof parsed?.tokenId !== 'string') return null
+    return parsed
+  } catch {
+    return null
+  }
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const limit = Math.min(parseInt(searchParams.get('limit') || '25'), 100)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25') || 25))
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const rawCursor = searchParams.get('cursor')
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null
     const tld = searchParams.get('tld')
-    const minRisk = searchParams.get('minRisk') ? parseInt(searchParams.get('minRisk')!) : undefined
-    const maxRisk = searchParams.get('maxRisk') ? parseInt(searchParams.get('maxRisk')!) : undefined
-    const sortBy = searchParams.get('sortBy') || 'risk'
-    const order = searchParams.get('order') || 'desc'
-
-    // Fetch real domains from Doma testnet
-    const names = await domaClient.getAllNames(100)
-    const transformedDomains = []
-
-    for (const name of names) {
-      if (!name.tokens || name.tokens.length === 0) continue
-      
-      for (const token of name.tokens) {
-        const parts = name.name.split('.')
-        const namePart = parts[0]
-        const domainTld = parts.slice(1).join('.') || 'com'
-        
-        // Apply TLD filter
-        if (tld && tld !== 'all' && domainTld !== tld) continue
-        
-        const daysUntilExpiry = Math.floor(
-          (new Date(token.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+    const expiry = searchParams.get('expiry')
+    const highGrowth = searchParams.get('highGrowth') === 'true'
+    const patterns = (searchParams.get('pattern') || '').split(',').map(p => p.trim().toLowerCase()).filter(Boolean)
+    const q = searchParams.get('q')
+    const search = searchParams.get('search')
+    const profile = getWeightProfile(searchParams.get('profile'))
+
+    if (rawCursor && !cursor) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    // The individual parameters, as one set of filters
+    const paramFilters: SearchFilters = panelToFilters({ tld: tld || 'all', highGrowth })
+    for (const [name, key] of RANGE_PARAMS) {
+      const raw = searchParams.get(name)
+      if (raw === null || raw === '') continue
+      const value = Number(raw)
+      if (!Number.isFinite(value)) {
+        return NextResponse.json(
+          { error: `${name} must be a number` },
+          { status: 400 }
+        )
+      }
+      paramFilters[key] = value
+    }
+    if (expiry && expiry !== 'all') {
+      if (!(EXPIRY_BUCKETS as readonly string[]).includes(expiry)) {
+        return NextResponse.json(
+          { error: 'Unknown expiry bucket', available: EXPIRY_BUCKETS },
+          { status: 400 }
         )
-        
-        const isPopularTLD = ['com', 'ai', 'io', 'xyz'].includes(domainTld)
-        const isShortName = namePart.length < 8
-        
-        // Use deterministic values based on domain characteristics
-        const domainSeed = namePart.length + domainTld.length
-        const activity7d = isPopularTLD ? 15 + (domainSeed % 10) : 5 + (domainSeed % 5)
-        const activity30d = activity7d * 3
-        
-        const scores = scoringEngine.calculateScoresSync({
-          name: namePart,
-          tld: domainTld,
-          expiresAt: new Date(token.expiresAt),
-          lockStatus: name.transferLock || false,
-          registrarId: name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1,
-          renewalCount: 0, // Real renewal count not available from API
-          offerCount: 0, // Real offer count would come from API,
-          activity7d,
-          activity30d,
-        })
-        
-        // Apply risk filters
-        if (minRisk !== undefined && scores.risk < minRisk) continue
-        if (maxRisk !== undefined && scores.risk > maxRisk) continue
-        
-        transformedDomains.push({
-          id: token.tokenId,
-          name: name.name,
-          tokenId: token.tokenId,
-          tokenAddress: token.tokenAddress,
-          owner: token.ownerAddress,
-          expiresAt: token.expiresAt,
-          scores: {
-            risk: scores.risk,
-            rarity: scores.rarity,
-            momentum: scores.momentum,
-            forecast: scores.forecast,
-            explainers: scores.explainers
-          },
-          daysUntilExpiry,
-          registrar: name.registrar?.name || 'Unknown',
-          transferLock: name.transferLock || false,
-          price: Math.round(scores.currentValue || 1000),
-          explorerUrl: token.explorerUrl,
-          activity: {
-            '7d': activity7d,
-            '30d': activity30d
-          }
-        })
       }
+      Object.assign(paramFilters, panelToFilters({ daysUntilExpiry: expiry as ExpiryBucket }))
     }
-    
-    // Sort domains
-    transformedDomains.sort((a, b) => {
-      let aValue, bValue
-      
+
+    if (patterns.length > 0) {
+      const unknown = patterns.filter(p => !(NAME_PATTERNS as readonly string[]).includes(p))
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown pattern: ${unknown.join(', ')}`, available: NAME_PATTERNS },
+          { status: 400 }
+        )
+      }
+      paramFilters.patterns = patterns as NamePattern[]
+    }
+
+    // q holds the dashboard's filter panel and search its search box, so the
+    // two together return what the dashboard lists for the same URL
+    const parsedQuery = q ? parseSearchQuery(q) : null
+    if (parsedQuery && !parsedQuery.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: parsedQuery.error.message, position: parsedQuery.error.position },
+        { status: 400 }
+      )
+    }
+    const parsedSearch = search ? parseSearchText(search) : null
+    if (parsedSearch?.error) {
+      return NextResponse.json(
+        { error: 'Invalid search', message: parsedSearch.error.message, position: parsedSearch.error.position },
+        { status: 400 }
+      )
+    }
+    const queryFilters = parsedQuery?.success ? parsedQuery.filters : null
+    const searchFilters = parsedSearch ? parsedSearch.filters : null
+
+    // The search box's sort wins over q's, which wins over sortBy/order
+    const querySort = searchFilters?.sortBy ? searchFilters : queryFilters?.sortBy ? queryFilters : null
+    const sortBy = querySort?.sortBy || searchParams.get('sortBy') || 'risk'
+    if (!SORT_FIELDS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: 'Unknown sortBy', available: SORT_FIELDS },
+        { status: 400 }
+      )
+    }
+    const defaultOrder = sortBy === 'oldest' ? 'asc' : 'desc'
+    const orderParam = searchParams.get('order')
+    const order = querySort?.sortOrder || (orderParam === 'asc' || orderParam === 'desc' ? orderParam : defaultOrder)
+
+    // Score the full tokenized catalogue through the shared pipeline
+    const catalogue = await domainScoringService.loadCatalogue({ profile: profile.name })
+    let transformedDomains = catalogue.domains.filter(domain => {
+      if (!matchesFilters(domain, paramFilters)) return false
+      if (queryFilters && !matchesFilters(domain, queryFilters)) return false
+      if (searchFilters && !matchesFilters(domain, searchFilters)) return false
+      return true
+    })
+
+    // Sort domains (tokenId breaks ties so cursors are stable)
+    const sortValue = (domain: ScoredDomain): number | string => {
       switch (sortBy) {
-        case 'risk':
-          aValue = a.scores.risk
-          bValue = b.scores.risk
-          break
-        case 'rarity':
-          aValue = a.scores.rarity
-          bValue = b.scores.rarity
-          break
-        case 'momentum':
-          aValue = a.scores.momentum
-          bValue = b.scores.momentum
-          break
         case 'forecast':
-          aValue = a.scores.forecast
-          bValue = b.scores.forecast
-          break
+          return domain.scores.forecast
         case 'price':
-          aValue = a.price
-          bValue = b.price
-          break
+          return domain.price
         default:
-          aValue = a.scores.risk
-          bValue = b.scores.risk
+          return getSortValue(domain, sortBy as SearchSortField)
       }
+    }
+    const compare = (aValue: number | string, aId: string, bValue: number | string, bId: string): number => {
+      const byValue = aValue === bValue ? 0 : compareSortValues(aValue, bValue, order)
+      if (byValue !== 0) return byValue
+      return aId < bId ? -1 : aId > bId ? 1 : 0
+    }
 
-      return order === 'desc' ? bValue - aValue : aValue - bValue
-    })
+    transformedDomains.sort((a, b) => compare(sortValue(a), a.tokenId, sortValue(b), b.tokenId))
+    // limit:N in q or the search caps the result set; the limit parameter is still the page size
+    const cap = Math.min(queryFilters?.limit || Infinity, searchFilters?.limit || Infinity)
+    if (cap < transformedDomains.length) transformedDomains = transformedDomains.slice(0, cap)
 
-    const limitedDomains = transformedDomains.slice(0, limit)
+    // Cursor takes precedence over page: resume right after the last item already seen
+    const start = cursor
+      ? transformedDomains.findIndex(d => compare(sortValue(d), d.tokenId, cursor.value, cursor.tokenId) > 0)
+      : (page - 1) * limit
+    const offset = start === -1 ? transformedDomains.length : start
+    const limitedDomains = transformedDomains.slice(offset, offset + limit)
+    const hasMore = offset + limitedDomains.length < transformedDomains.length
+    const lastDomain = limitedDomains[limitedDomains.length - 1]
 
     return NextResponse.json({
       data: limitedDomains,
       total: transformedDomains.length,
-      page: 1,
+      // Results cover only part of the catalogue (traversal cap or a failed page)
+      truncated: catalogue.truncated,
+      page: Math.floor(offset / limit) + 1,
       limit: limit,
+      hasMore,
+      nextCursor: hasMore && lastDomain
+        ? encodeCursor({ value: sortValue(lastDomain), tokenId: lastDomain.tokenId })
+        : null,
       filters: {
+        q: q || null,
+        search: search || null,
         tld: tld || null,
-        minRisk: minRisk || null,
-        maxRisk: maxRisk || null,
+        ...Object.fromEntries(RANGE_PARAMS.map(([name]) => [name, searchParams.get(name) ? Number(searchParams.get(name)) : null])),
+        expiry: expiry || null,
+        highGrowth,
+        pattern: patterns.length > 0 ? patterns : null,
         sortBy,
         order
       },
+      profile: {
+        name: profile.name,
+        version: profile.version
+      },
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
@@ -146,6 +236,7 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { tokenId } = body
+    const profile = getWeightProfile(body.profile)
 
     if (!tokenId) {
       return NextResponse.json(
@@ -154,49 +245,30 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Fetch real domains from Doma testnet
-    const names = await domaClient.getAllNames(100)
-    let foundDomain = null
-
-    for (const name of names) {
-      if (!name.tokens || name.tokens.length === 0) continue
-      
-      for (const token of name.tokens) {
-        if (token.tokenId === tokenId) {
-          const parts = name.name.split('.')
-          const namePart = parts[0]
-          const domainTld = parts.slice(1).join('.') || 'com'
-          
-          foundDomain = {
-            name: namePart,
-            tld: domainTld,
-            expiresAt: new Date(token.expiresAt),
-            lockStatus: name.transferLock || false,
-            registrarId: name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1,
-            renewalCount: 0, // Real renewal count not available from API
-            offerCount: 0, // Real offer count would come from API
-            activity7d: namePart.length > 5 ? 10 : 15, // Use deterministic value
-            activity30d: namePart.length > 5 ? 30 : 45, // Use deterministic value
-          }
-          break
-        }
-      }
-      if (foundDomain) break
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
     }
 
-    if (!foundDomain) {
+    const domain = await domainScoringService.getDomain(tokenId, { fresh: true, profile: profile.name })
+
+    if (!domain) {
       return NextResponse.json(
         { error: 'Domain not found' },
         { status: 404 }
       )
     }
 
-    // Calculate fresh scores
-    const scores = scoringEngine.calculateScoresSync(foundDomain)
-
     return NextResponse.json({
       tokenId,
-      scores,
+      scores: domain.scores,
+      profile: {
+        name: profile.name,
+        version: profile.version
+      },
+      inputSources: domain.inputSources,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
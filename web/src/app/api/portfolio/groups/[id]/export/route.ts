@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { portfolioGroupService } from '@/lib/portfolio-groups'
+import type { ReportFormat } from '@/lib/portfolio-groups'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+const FORMATS: ReportFormat[] = ['json', 'csv', 'text']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to export portfolio groups' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const format = (searchParams.get('format') || 'json') as ReportFormat
+    const profile = getWeightProfile(searchParams.get('profile'))
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Unknown format', available: FORMATS },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Portfolio groups require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const group = await portfolioGroupService.get(id)
+
+    if (!group || !isSessionOwner(session, group.userAddress)) {
+      return NextResponse.json(
+        { error: 'Portfolio group not found' },
+        { status: 404 }
+      )
+    }
+
+    const report = await portfolioGroupService.report(group, { profile: profile.name })
+    const { body, mimeType, extension } = portfolioGroupService.format(report, format)
+    const filename = `${group.name.replace(/[^a-z0-9]+/gi, '_')}_portfolio.${extension}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting portfolio group:', error)
+    return NextResponse.json(
+      { error: 'Failed to export portfolio group' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { portfolioGroupService, updateGroupSchema } from '@/lib/portfolio-groups'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+function databaseUnavailable() {
+  return NextResponse.json(
+    { error: 'Portfolio groups require a configured database' },
+    { status: 503 }
+  )
+}
+
+function signInRequired() {
+  return NextResponse.json(
+    { error: 'Sign in with your wallet to manage portfolio groups' },
+    { status: 401 }
+  )
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Portfolio group not found' },
+    { status: 404 }
+  )
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    const profile = getWeightProfile(request.nextUrl.searchParams.get('profile'))
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const group = await portfolioGroupService.get(id)
+    if (!group || !isSessionOwner(session, group.userAddress)) return notFound()
+
+    const report = await portfolioGroupService.report(group, { profile: profile.name })
+
+    return NextResponse.json({
+      data: report,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error building portfolio group report:', error)
+    return NextResponse.json(
+      { error: 'Failed to build portfolio group report', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    const body = await request.json().catch(() => null)
+    const parsed = updateGroupSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio group', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await portfolioGroupService.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    const group = await portfolioGroupService.update(id, parsed.data)
+    if (!group) return notFound()
+
+    return NextResponse.json({ data: group })
+  } catch (error) {
+    console.error('Error updating portfolio group:', error)
+    return NextResponse.json(
+      { error: 'Failed to update portfolio group' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await portfolioGroupService.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    const deleted = await portfolioGroupService.delete(id)
+    if (!deleted) return notFound()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting portfolio group:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete portfolio group' },
+      { status: 500 }
+    )
+  }
+}
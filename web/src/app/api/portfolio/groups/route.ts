@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { portfolioGroupService, createGroupSchema } from '@/lib/portfolio-groups'
+import { isValidOwner } from '@/lib/portfolio'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage portfolio groups' },
+        { status: 401 }
+      )
+    }
+
+    const userAddress = request.nextUrl.searchParams.get('userAddress') || session
+
+    if (!userAddress || !isValidOwner(userAddress)) {
+      return NextResponse.json(
+        { error: 'userAddress must be an address or CAIP-10 account id' },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, userAddress)) {
+      return NextResponse.json(
+        { error: 'Portfolio groups can only be listed for the signed-in wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Portfolio groups require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const groups = await portfolioGroupService.list(userAddress)
+
+    return NextResponse.json({
+      data: groups,
+      total: groups.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing portfolio groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to list portfolio groups' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage portfolio groups' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = createGroupSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio group', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, parsed.data.userAddress)) {
+      return NextResponse.json(
+        { error: 'Portfolio groups can only be created for the signed-in wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Portfolio groups require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const group = await portfolioGroupService.create(parsed.data)
+
+    return NextResponse.json({ data: group }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating portfolio group:', error)
+    return NextResponse.json(
+      { error: 'Failed to create portfolio group' },
+      { status: 500 }
+    )
+  }
+}
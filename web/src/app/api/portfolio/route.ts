@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { portfolioService, isValidOwner } from '@/lib/portfolio'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const owner = searchParams.get('owner')
+    const profile = getWeightProfile(searchParams.get('profile'))
+
+    if (!owner || !isValidOwner(owner)) {
+      return NextResponse.json(
+        { error: 'owner must be an address or CAIP-10 account id (eip155:<chainId>:0x...)' },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    const portfolio = await portfolioService.getPortfolio([owner], { profile: profile.name })
+
+    return NextResponse.json({
+      data: portfolio,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { DEFAULT_PROFILE, listWeightProfiles } from '@/lib/weight-profiles'
+
+export async function GET() {
+  try {
+    const profiles = listWeightProfiles()
+
+    return NextResponse.json({
+      data: profiles,
+      default: DEFAULT_PROFILE,
+      total: profiles.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing weight profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to list weight profiles' },
+      { status: 500 }
+    )
+  }
+}
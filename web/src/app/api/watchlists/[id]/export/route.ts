@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { watchlistService } from '@/lib/watchlists'
+import type { WatchlistFormat } from '@/lib/watchlists'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+const FORMATS: WatchlistFormat[] = ['json', 'csv']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = request.nextUrl.searchParams
+    const format = (searchParams.get('format') || 'json') as WatchlistFormat
+    const profile = getWeightProfile(searchParams.get('profile'))
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Unknown format', available: FORMATS },
+        { status: 400 }
+      )
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Watchlists require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const watchlist = await watchlistService.get(id)
+
+    if (!watchlist || !(watchlist.isPublic || isSessionOwner(getSessionAddress(request), watchlist.userAddress))) {
+      return NextResponse.json(
+        { error: 'Watchlist not found' },
+        { status: 404 }
+      )
+    }
+
+    const report = await watchlistService.report(watchlist, { profile: profile.name })
+    const { body, mimeType, extension } = watchlistService.format(report, format)
+    const filename = `${watchlist.name.replace(/[^a-z0-9]+/gi, '_')}_watchlist.${extension}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to export watchlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { watchlistService, updateWatchlistSchema } from '@/lib/watchlists'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+function databaseUnavailable() {
+  return NextResponse.json(
+    { error: 'Watchlists require a configured database' },
+    { status: 503 }
+  )
+}
+
+function signInRequired() {
+  return NextResponse.json(
+    { error: 'Sign in with your wallet to manage watchlists' },
+    { status: 401 }
+  )
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Watchlist not found' },
+    { status: 404 }
+  )
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const profile = getWeightProfile(request.nextUrl.searchParams.get('profile'))
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    // Public lists are readable by anyone; private ones only by their owner
+    const watchlist = await watchlistService.get(id)
+    if (!watchlist || !(watchlist.isPublic || isSessionOwner(getSessionAddress(request), watchlist.userAddress))) {
+      return notFound()
+    }
+
+    const report = await watchlistService.report(watchlist, { profile: profile.name })
+
+    return NextResponse.json({
+      data: report,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error building watchlist report:', error)
+    return NextResponse.json(
+      { error: 'Failed to build watchlist report', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    const body = await request.json().catch(() => null)
+    const parsed = updateWatchlistSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await watchlistService.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    if (parsed.data.name && await watchlistService.findByName(existing.userAddress, parsed.data.name, id)) {
+      return NextResponse.json(
+        { error: `You already have a watchlist named "${parsed.data.name}"` },
+        { status: 409 }
+      )
+    }
+
+    const result = await watchlistService.update(id, parsed.data)
+    if (!result) return notFound()
+
+    return NextResponse.json({ data: result.watchlist, unresolved: result.unresolved })
+  } catch (error) {
+    console.error('Error updating watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = getSessionAddress(request)
+    if (!session) return signInRequired()
+
+    if (!process.env.DATABASE_URL) return databaseUnavailable()
+
+    const existing = await watchlistService.get(id)
+    if (!existing || !isSessionOwner(session, existing.userAddress)) return notFound()
+
+    const deleted = await watchlistService.delete(id)
+    if (!deleted) return notFound()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    )
+  }
+}
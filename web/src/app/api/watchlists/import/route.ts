@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { watchlistService, importWatchlistSchema, parseWatchlistImport, MAX_WATCHLIST_DOMAINS } from '@/lib/watchlists'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+// Create a watchlist from an exported JSON file, a CSV or a plain list of names
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage watchlists' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = importWatchlistSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist import', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, parsed.data.userAddress)) {
+      return NextResponse.json(
+        { error: 'Watchlists can only be created for the signed-in wallet' },
+        { status: 403 }
+      )
+    }
+
+    let imported
+    try {
+      imported = parseWatchlistImport(parsed.data.content)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read import' },
+        { status: 400 }
+      )
+    }
+
+    const name = parsed.data.name || imported.name
+    if (!name) {
+      return NextResponse.json(
+        { error: 'name is required unless the import is an exported watchlist' },
+        { status: 400 }
+      )
+    }
+    if (imported.entries.length > MAX_WATCHLIST_DOMAINS) {
+      return NextResponse.json(
+        { error: `A watchlist holds at most ${MAX_WATCHLIST_DOMAINS} domains (import has ${imported.entries.length})` },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Watchlists require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    if (await watchlistService.findByName(parsed.data.userAddress, name)) {
+      return NextResponse.json(
+        { error: `You already have a watchlist named "${name}"` },
+        { status: 409 }
+      )
+    }
+
+    const { watchlist, unresolved } = await watchlistService.create({
+      userAddress: parsed.data.userAddress,
+      name,
+      description: parsed.data.description || imported.description || undefined,
+      domains: imported.entries,
+      isPublic: false
+    })
+
+    return NextResponse.json({ data: watchlist, unresolved }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to import watchlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { watchlistService, createWatchlistSchema } from '@/lib/watchlists'
+import { isValidOwner } from '@/lib/portfolio'
+import { getSessionAddress, isSessionOwner } from '@/lib/wallet-session'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    const userAddress = request.nextUrl.searchParams.get('userAddress') || session
+
+    if (!userAddress || !isValidOwner(userAddress)) {
+      return NextResponse.json(
+        { error: 'userAddress must be an address or CAIP-10 account id' },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Watchlists require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    // Anyone else sees only the lists the owner has made public
+    const owned = await watchlistService.list(userAddress)
+    const watchlists = isSessionOwner(session, userAddress) ? owned : owned.filter(w => w.isPublic)
+
+    return NextResponse.json({
+      data: watchlists,
+      total: watchlists.length,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing watchlists:', error)
+    return NextResponse.json(
+      { error: 'Failed to list watchlists' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getSessionAddress(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in with your wallet to manage watchlists' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = createWatchlistSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (!isSessionOwner(session, parsed.data.userAddress)) {
+      return NextResponse.json(
+        { error: 'Watchlists can only be created for the signed-in wallet' },
+        { status: 403 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Watchlists require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    if (await watchlistService.findByName(parsed.data.userAddress, parsed.data.name)) {
+      return NextResponse.json(
+        { error: `You already have a watchlist named "${parsed.data.name}"` },
+        { status: 409 }
+      )
+    }
+
+    const { watchlist, unresolved } = await watchlistService.create(parsed.data)
+
+    return NextResponse.json({ data: watchlist, unresolved }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { watchlistService } from '@/lib/watchlists'
+import { getWeightProfile, listWeightProfiles } from '@/lib/weight-profiles'
+
+// Read-only view of a public watchlist through its share link
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const profile = getWeightProfile(request.nextUrl.searchParams.get('profile'))
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Unknown profile', available: listWeightProfiles().map(p => p.name) },
+        { status: 400 }
+      )
+    }
+
+    if (!process.env.DATABASE_URL) {
+      return NextResponse.json(
+        { error: 'Watchlists require a configured database' },
+        { status: 503 }
+      )
+    }
+
+    const watchlist = await watchlistService.getShared(token)
+
+    if (!watchlist) {
+      return NextResponse.json(
+        { error: 'Watchlist not found or no longer shared' },
+        { status: 404 }
+      )
+    }
+
+    const report = await watchlistService.report(watchlist, { profile: profile.name })
+
+    return NextResponse.json({
+      data: watchlistService.toShared(report),
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching shared watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared watchlist' },
+      { status: 500 }
+    )
+  }
+}
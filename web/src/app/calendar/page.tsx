@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Calendar, Copy, CheckCircle, Download, Loader2 } from 'lucide-react'
+import {
+  fetchRenewalCalendar,
+  getRenewalCalendarPath,
+  getSavedUserAddress,
+  setSavedUserAddress
+} from '@/lib/domains-api'
+import type { RenewalCalendar } from '@/lib/domains-api'
+import { getTrackedDomains } from '@/lib/domain-tracking'
+
+const TIER_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300',
+  urgent: 'bg-orange-100 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300',
+  warning: 'bg-yellow-100 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300'
+}
+
+function monthLabel(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+export default function RenewalCalendarPage() {
+  const [owner, setOwner] = useState('')
+  const [calendar, setCalendar] = useState<RenewalCalendar | null>(null)
+  const [trackedIds, setTrackedIds] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const loadCalendar = useCallback(async (address: string, tokenIds: string[]) => {
+    if (!address) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      setCalendar(await fetchRenewalCalendar(address, tokenIds))
+      setSavedUserAddress(address)
+    } catch (err) {
+      console.error('Error fetching renewal calendar:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load renewal calendar')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const tracked = getTrackedDomains().map(d => d.tokenId)
+    setTrackedIds(tracked)
+    const saved = getSavedUserAddress()
+    if (saved) {
+      setOwner(saved)
+      loadCalendar(saved, tracked)
+    }
+  }, [loadCalendar])
+
+  const feedPath = calendar ? getRenewalCalendarPath(calendar.owner, trackedIds) : ''
+  const subscribeUrl = typeof window !== 'undefined' && feedPath
+    ? `webcal://${window.location.host}${feedPath}`
+    : ''
+
+  const copySubscribeUrl = async () => {
+    await navigator.clipboard.writeText(subscribeUrl)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  // Entries grouped by expiry month, soonest first
+  const months: Array<{ label: string; entries: RenewalCalendar['entries'] }> = []
+  for (const entry of calendar?.entries || []) {
+    const label = monthLabel(entry.expiresAt)
+    const last = months[months.length - 1]
+    if (last && last.label === label) last.entries.push(entry)
+    else months.push({ label, entries: [entry] })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <Link href="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              <span className="text-sm font-medium">Back</span>
+            </Link>
+            <div className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h1 className="text-lg font-semibold text-gray-900 dark:text-white">Renewal Calendar</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {/* Owner */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Owner address
+          </label>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value.trim())}
+              placeholder="0x... or eip155:97476:0x..."
+              className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <button
+              onClick={() => loadCalendar(owner, trackedIds)}
+              disabled={!owner || isLoading}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Show expiries
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Includes the {trackedIds.length} domain{trackedIds.length === 1 ? '' : 's'} you track for alerts.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {calendar && (
+          <>
+            {/* Subscribe */}
+            <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-6">
+              <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-2">Subscribe in your calendar app</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                One all-day event per expiry, with reminders {calendar.tiers.map(t => `${t.days}`).join(', ')} days
+                before ({calendar.tiers.map(t => t.tier).join(', ')} risk tiers).
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                  type="text"
+                  readOnly
+                  value={subscribeUrl}
+                  className="flex-1 px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                />
+                <button
+                  onClick={copySubscribeUrl}
+                  className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  {copied ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  {copied ? 'Copied' : 'Copy link'}
+                </button>
+                <a
+                  href={feedPath}
+                  download="dometrics-renewals.ics"
+                  className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  Download .ics
+                </a>
+              </div>
+            </div>
+
+            {/* Expiries by month */}
+            {months.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No owned or tracked domains.</p>
+            ) : (
+              <div className="space-y-6">
+                {months.map(month => (
+                  <div key={month.label} className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{month.label}</h3>
+                    </div>
+                    <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                      {month.entries.map(entry => (
+                        <div key={entry.tokenId} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+                          <div className="flex items-center gap-3 min-w-0">
+                            <span className="w-12 text-gray-500 dark:text-gray-400">
+                              {new Date(entry.expiresAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' })}
+                            </span>
+                            <Link href={`/domain/${entry.tokenId}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline truncate">
+                              {entry.name}
+                            </Link>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{entry.source}</span>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            {entry.tier && (
+                              <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${TIER_STYLES[entry.tier]}`}>
+                                {entry.tier}
+                              </span>
+                            )}
+                            <span className={entry.daysUntilExpiry < 0 ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-600 dark:text-gray-400'}>
+                              {entry.daysUntilExpiry < 0 ? 'Expired' : `${entry.daysUntilExpiry} days`}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
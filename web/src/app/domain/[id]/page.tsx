@@ -6,8 +6,11 @@ import { useParams } from 'next/navigation'
 import { ArrowLeft, Shield, Clock, TrendingUp, AlertCircle, ExternalLink, DollarSign, Loader2, Info, Brain, CheckCircle, AlertTriangle, XCircle, Bell, Download, ShoppingCart, User, Star, ChevronDown, ChevronUp } from 'lucide-react'
 import Highcharts from 'highcharts'
 import HighchartsReact from 'highcharts-react-official'
-import { ScoringEngine } from '@/lib/scoring'
 import { domaClient } from '@/lib/doma-client'
+import { toUnicodeName } from '@/lib/idn'
+import { fetchScoredDomain, fetchScoreExplanation } from '@/lib/domains-api'
+import type { CompsValuation, DomainExplanation } from '@/lib/domains-api'
+import { ScoreDisplay } from '@/components/domain/score-display'
 import type { DomainModel } from '@/lib/doma-client'
 import { aiValuationService, type DomainAnalysis } from '@/lib/ai-valuation'
 import { trackDomain, untrackDomain, isTracked } from '@/lib/domain-tracking'
@@ -24,8 +27,6 @@ if (typeof Highcharts !== 'undefined') {
   })
 }
 
-const scoringEngine = new ScoringEngine()
-
 export default function DomainDetailPage() {
   const params = useParams()
   const [domain, setDomain] = useState<any>(null)
@@ -56,6 +57,9 @@ export default function DomainDetailPage() {
   const [liquidityRisk, setLiquidityRisk] = useState<any>(null)
   const [showAIAnalysis, setShowAIAnalysis] = useState(false)
   const [trendData, setTrendData] = useState<any>(null)
+  const [explanation, setExplanation] = useState<DomainExplanation | null>(null)
+  const [isExplaining, setIsExplaining] = useState(false)
+  const [valuation, setValuation] = useState<CompsValuation | null>(null)
 
   // Generate historical and forecast data with proper predictive analytics
   const generateChartData = (timeframe: string, includeForecast: boolean = false) => {
@@ -501,157 +505,65 @@ export default function DomainDetailPage() {
     try {
       const tokenId = params.id as string
 
-      // Fetch real domain from testnet by tokenId
-        try {
-          const names = await domaClient.getAllNames(100)
-          const foundToken = names.find(name => 
-            name.tokens.some(token => token.tokenId === tokenId)
-          )
-          
-          if (foundToken) {
-            const token = foundToken.tokens.find(t => t.tokenId === tokenId)!
-            const parts = foundToken.name.split('.')
-            const namePart = parts[0]
-            const tld = parts.slice(1).join('.') || 'com'
-
-            // Fetch REAL contract data
-            let expiresAt = new Date(token.expiresAt)
-            let lockStatus = foundToken.transferLock || false
-            let registrarId = foundToken.registrar?.ianaId ? parseInt(foundToken.registrar.ianaId) : 1
-
-            try {
-              const contractData = await domaClient.getTokenRiskData(token.tokenAddress, [tokenId])
-              const realData = contractData[tokenId]
-
-              if (realData) {
-                expiresAt = new Date(Number(realData.expirationOf) * 1000)
-                lockStatus = realData.lockStatusOf
-                registrarId = Number(realData.registrarOf)
-              }
-            } catch (err) {
-              console.error('Failed to fetch contract data for detail page:', err)
-            }
+      // Scored by the shared server-side pipeline so numbers match the dashboard
+      const scored = await fetchScoredDomain(tokenId)
 
-            // Fetch real market data from API BEFORE calculating scores
-            console.log('🔍 Fetching real market data for token:', tokenId)
-
-            // Fetch offers
-            let realOffers: any[] = []
-            try {
-              const offers = await domaClient.getTokenOffers(tokenId, 20)
-              if (offers && offers.length > 0) {
-                realOffers = offers.map((offer, index) => ({
-                  id: offer.id || offer.externalId || `offer-${index}-${offer.offererAddress}`,
-                  amount: parseFloat(offer.price) * (offer.currency?.usdExchangeRate || 1),
-                  from: offer.offererAddress,
-                  timestamp: new Date(offer.createdAt),
-                  status: 'active',
-                  currency: offer.currency
-                }))
-                console.log('✅ Fetched real offers:', realOffers.length)
-                setActiveOffers(realOffers)
-              }
-            } catch (err) {
-              console.error('Error fetching offers:', err)
-              setActiveOffers([])
-            }
+      if (!scored) {
+        setError('Domain not found')
+        return
+      }
 
-            // Fetch activities
-            let realActivityData: any[] = []
-            try {
-              const activities = await domaClient.getTokenActivities(tokenId, 50)
-              if (activities && activities.length > 0) {
-                realActivityData = activities
-                console.log('✅ Fetched real activities:', activities.length)
-                setRealActivities(activities)
-              }
-            } catch (err) {
-              console.error('Error fetching activities:', err)
-              setRealActivities([])
-            }
+      const realOffers = (scored.market?.offers || []).map((offer: any, index: number) => ({
+        id: offer.id || offer.externalId || `offer-${index}-${offer.offererAddress}`,
+        amount: parseFloat(offer.price) * (offer.currency?.usdExchangeRate || 1),
+        from: offer.offererAddress,
+        timestamp: new Date(offer.createdAt),
+        status: 'active',
+        currency: offer.currency
+      }))
+      setActiveOffers(realOffers)
+      setRealListings(scored.market?.listings || [])
+
+      // Activities feed the activity table and chart, not the scores
+      try {
+        const activities = await domaClient.getTokenActivities(tokenId, 50)
+        setRealActivities(activities || [])
+      } catch (err) {
+        console.error('Error fetching activities:', err)
+        setRealActivities([])
+      }
 
-            // Fetch listings
-            try {
-              const listings = await domaClient.getTokenListings(tokenId, 20)
-              if (listings && listings.length > 0) {
-                console.log('✅ Fetched real listings:', listings.length)
-                setRealListings(listings)
-              }
-            } catch (err) {
-              console.error('Error fetching listings:', err)
-              setRealListings([])
-            }
+      const domainData = {
+        id: tokenId,
+        name: scored.name,
+        namePart: scored.namePart,
+        tld: scored.tld,
+        tokenId,
+        tokenAddress: scored.tokenAddress,
+        owner: scored.owner,
+        expiresAt: new Date(scored.expiresAt),
+        explorerUrl: scored.explorerUrl,
+        registrar: scored.registrar,
+        transferLock: scored.transferLock,
+        lockStatus: scored.transferLock,
+        registrarId: scored.registrarId,
+        renewalCount: scored.renewalCount,
+        offerCount: scored.offerCount,
+        activity7d: scored.activity7d,
+        activity30d: scored.activity30d,
+        price: scored.price,
+        weightsVersion: scored.weightsVersion,
+        createdAt: scored.tokenizedAt ? new Date(scored.tokenizedAt) : new Date(),
+      }
 
-            // Calculate activity counts from real data
-            const now = Date.now()
-            const sevenDaysAgo = now - (7 * 24 * 60 * 60 * 1000)
-            const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000)
-
-            const activity7d = realActivityData.filter(a =>
-              new Date(a.createdAt).getTime() > sevenDaysAgo
-            ).length
-
-            const activity30d = realActivityData.filter(a =>
-              new Date(a.createdAt).getTime() > thirtyDaysAgo
-            ).length
-
-            const renewalCount = 0 // TODO: Get from tokenActivities when renewal data is available
-
-            const domainData = {
-              id: tokenId,
-              name: foundToken.name,
-              namePart,
-              tld,
-              tokenId,
-              tokenAddress: token.tokenAddress,
-              owner: token.ownerAddress,
-              expiresAt,
-              explorerUrl: token.explorerUrl,
-              registrar: foundToken.registrar?.name || 'Unknown',
-              transferLock: lockStatus,
-              lockStatus,
-              registrarId,
-              renewalCount,
-              price: 1000, // Will be updated by scoring
-              createdAt: foundToken.tokenizedAt ? new Date(foundToken.tokenizedAt) : new Date(),
-            }
+      setDomain(domainData)
+      setScores(scored.scores)
+      setValuation(scored.valuation || null)
+      if (scored.liquidity) setLiquidityRisk(scored.liquidity)
+      if (scored.ownership) setOwnershipHistory(scored.ownership)
 
-            setDomain(domainData)
-
-            // Use sync scoring with REAL market data
-            console.log('📊 Calculating scores with real data:', {
-              offerCount: realOffers.length,
-              activity7d,
-              activity30d
-            })
-
-            const calculatedScores = scoringEngine.calculateScoresSync({
-              name: domainData.namePart,
-              tld: domainData.tld,
-              expiresAt: domainData.expiresAt,
-              lockStatus: domainData.lockStatus,
-              registrarId: domainData.registrarId,
-              renewalCount: domainData.renewalCount,
-              offerCount: realOffers.length, // REAL data from API
-              activity7d, // REAL data calculated from API activities
-              activity30d, // REAL data calculated from API activities
-            })
-
-            // Update price with calculated value
-            domainData.price = Math.round(calculatedScores.currentValue || 1000)
-
-            setScores(calculatedScores)
-
-            // Get AI analysis with REAL market data
-            generateAnalysis(domainData, calculatedScores, realOffers.length, activity30d)
-          } else {
-            // Token not found in API response
-            setError('Domain not found')
-          }
-        } catch (err) {
-          console.error('Error fetching real domain:', err)
-          setError('Failed to load domain details')
-        }
+      // Get AI analysis with the same market inputs the scores used
+      generateAnalysis(domainData, scored.scores, scored.offerCount, scored.activity30d)
     } catch (err) {
       console.error('Error fetching domain:', err)
       setError('Failed to load domain details')
@@ -660,6 +572,17 @@ export default function DomainDetailPage() {
     }
   }
 
+  const loadExplanation = async () => {
+    setIsExplaining(true)
+    try {
+      setExplanation(await fetchScoreExplanation(params.id as string))
+    } catch (err) {
+      console.error('Error explaining scores:', err)
+    } finally {
+      setIsExplaining(false)
+    }
+  }
+
   const generateAnalysis = async (
     domainData: any,
     calculatedScores: any,
@@ -768,7 +691,7 @@ export default function DomainDetailPage() {
     }
   }, [domain])
 
-  // Fetch Google Trends data for the domain name (used in momentum calculation)
+  // Fetch Google Trends data for the domain name (context for the AI analysis)
   useEffect(() => {
     const fetchTrends = async () => {
       if (!domain?.namePart) return
@@ -788,38 +711,12 @@ export default function DomainDetailPage() {
     fetchTrends()
   }, [domain?.namePart])
 
-  // Recalculate scores when Google Trends data arrives
+  // Regenerate AI analysis when Google Trends data arrives. Scores stay as served by
+  // the shared pipeline so this page matches the dashboard.
   useEffect(() => {
     if (!domain || !trendData || !scores) return
 
-    console.log('🔄 Recalculating scores with Google Trends data')
-
-    // Recalculate with trends data included
-    const updatedScores = scoringEngine.calculateScoresSync({
-      name: domain.namePart,
-      tld: domain.tld,
-      expiresAt: domain.expiresAt,
-      lockStatus: domain.lockStatus,
-      registrarId: domain.registrarId,
-      renewalCount: domain.renewalCount || 0,
-      offerCount: domain.offerCount || 0,
-      activity7d: domain.activity7d || 0,
-      activity30d: domain.activity30d || 0,
-      trendsPopularity: trendData.score, // Add Google Trends popularity score
-      trendsTrend: trendData.trendData?.trend || 'stable', // Add trend direction
-    })
-
-    setScores(updatedScores)
-
-    // Regenerate AI analysis with trends data
-    const offerCount = activeOffers?.length || 0
-    const activity30d = realActivities?.filter((a: any) => {
-      const activityTime = new Date(a.createdAt).getTime()
-      const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000)
-      return activityTime > thirtyDaysAgo
-    }).length || 0
-
-    generateAnalysis(domain, updatedScores, offerCount, activity30d, trendData)
+    generateAnalysis(domain, scores, domain.offerCount || 0, domain.activity30d || 0, trendData)
   }, [trendData])
 
   // Export domain data
@@ -866,7 +763,7 @@ Expires: ${domain.expiresAt.toLocaleDateString()}
 Registrar: ${domain.registrar}
 Lock Status: ${domain.lockStatus ? 'Locked' : 'Unlocked'}
 
-Scores
+Scores (weights ${domain.weightsVersion || 'v1'})
 ------
 Risk Score: ${scores?.risk || 'N/A'}
 Rarity Score: ${scores?.rarity || 'N/A'}
@@ -913,6 +810,7 @@ Exported: ${new Date().toLocaleString()}
           ['Expires', domain.expiresAt.toLocaleDateString()],
           ['Registrar', domain.registrar],
           ['Lock Status', domain.lockStatus ? 'Locked' : 'Unlocked'],
+          ['Weights Version', domain.weightsVersion || 'v1'],
           ['Risk Score', scores?.risk || ''],
           ['Rarity Score', scores?.rarity || ''],
           ['Momentum Score', scores?.momentum || ''],
@@ -1457,8 +1355,13 @@ Exported: ${new Date().toLocaleString()}
             <div>
               <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-2">
                 <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white break-all">
-                  {domain.name}
+                  {toUnicodeName(domain.name)}
                 </h1>
+                {toUnicodeName(domain.name) !== domain.name && (
+                  <span className="text-xs sm:text-sm font-mono text-gray-500 dark:text-gray-400 break-all" title="Punycode (ASCII) form">
+                    {domain.name}
+                  </span>
+                )}
                 {domain.lockStatus && (
                   <div className="flex items-center gap-1 px-2 py-1 bg-amber-100 dark:bg-amber-900/20 rounded-md">
                     <Shield className="w-3 h-3 text-amber-600 dark:text-amber-400" />
@@ -1467,7 +1370,13 @@ Exported: ${new Date().toLocaleString()}
                 )}
               </div>
               <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-xs sm:text-sm text-gray-600 dark:text-gray-400">
-                <span className="font-mono">{domain.owner.slice(0, 6)}...{domain.owner.slice(-4)}</span>
+                <Link
+                  href={`/portfolio/${encodeURIComponent(domain.owner)}`}
+                  className="font-mono hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  title="View this owner's portfolio"
+                >
+                  {domain.owner.slice(0, 6)}...{domain.owner.slice(-4)}
+                </Link>
                 <span>•</span>
                 <span>{domain.registrar}</span>
                 <span>•</span>
@@ -1703,6 +1612,128 @@ Exported: ${new Date().toLocaleString()}
           </div>
         </div>
 
+        {/* Score Explanation */}
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 sm:p-6 mb-4 sm:mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white">
+              Score Breakdown
+            </h2>
+            {!explanation && (
+              <button
+                onClick={loadExplanation}
+                disabled={isExplaining}
+                className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {isExplaining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Info className="w-4 h-4" />}
+                Explain scores
+              </button>
+            )}
+          </div>
+          {explanation ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <ScoreDisplay
+                label="Risk"
+                value={explanation.risk.score}
+                type="risk"
+                factors={explanation.risk.factors}
+                explanation={explanation.risk}
+                counterfactuals={explanation.counterfactuals.filter(c => c.score === 'risk')}
+              />
+              <ScoreDisplay
+                label="Rarity"
+                value={explanation.rarity.score}
+                type="rarity"
+                factors={explanation.rarity.factors}
+                explanation={explanation.rarity}
+                counterfactuals={explanation.counterfactuals.filter(c => c.score === 'rarity')}
+              />
+              <ScoreDisplay
+                label="Momentum"
+                value={explanation.momentum.score}
+                type="momentum"
+                factors={explanation.momentum.factors}
+                explanation={explanation.momentum}
+                counterfactuals={explanation.counterfactuals.filter(c => c.score === 'momentum')}
+              />
+              <ScoreDisplay
+                label="6M Forecast"
+                value={explanation.forecast.score}
+                type="forecast"
+                factors={explanation.forecast.factors}
+                confidenceInterval={{ low: explanation.forecast.low, high: explanation.forecast.high }}
+                explanation={explanation.forecast}
+                counterfactuals={explanation.counterfactuals.filter(c => c.score === 'forecast')}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              See every factor behind each score, the exact arithmetic, and what would change it.
+            </p>
+          )}
+        </div>
+
+        {/* Comparable Sales */}
+        {valuation && (
+          <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 sm:p-6 mb-4 sm:mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white">
+                Comparable Sales
+              </h2>
+              {valuation.method === 'comps' ? (
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="font-semibold text-gray-900 dark:text-white">${valuation.value?.toLocaleString()}</span>
+                  {' '}(${valuation.low?.toLocaleString()} - ${valuation.high?.toLocaleString()}) · {valuation.confidence}% confidence
+                </div>
+              ) : (
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Not enough comparables, value is model-based
+                </div>
+              )}
+            </div>
+            {valuation.comps.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Domain</th>
+                      <th className="py-2 pr-4 font-medium">Type</th>
+                      <th className="py-2 pr-4 font-medium text-right">Price</th>
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium text-right">Similarity</th>
+                      <th className="py-2 font-medium">Why</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {valuation.comps.map(comp => (
+                      <tr key={`${comp.tokenId}-${comp.kind}-${comp.date}`} className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+                        <td className="py-2 pr-4">
+                          <Link href={`/domain/${comp.tokenId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {comp.name}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-400 capitalize">{comp.kind}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">${Math.round(comp.priceUsd).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{new Date(comp.date).toLocaleDateString()}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900 dark:text-white">{Math.round(comp.similarity * 100)}%</td>
+                        <td className="py-2 text-gray-600 dark:text-gray-400">{comp.reasons.join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No recent sales or listings of similar names.
+              </p>
+            )}
+            {valuation.method === 'comps' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                Weighted median of the comps above; listings count at 85% of ask. Range is the interquartile spread.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Value Trend & Activity Timeline - Side by Side */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Value Trend Chart */}
@@ -2,34 +2,35 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { Search, TrendingUp, Clock, Shield, ChevronRight, Loader2, Filter, X, Info, Sparkles, Flame } from 'lucide-react'
-import { ScoringEngine } from '@/lib/scoring'
-import { domaClient } from '@/lib/doma-client'
-import type { NameModel, TokenModel } from '@/lib/doma-client'
+import { Search, TrendingUp, Clock, Shield, ChevronRight, Loader2, Filter, X, Info, Sparkles, Flame, Bookmark, Bell, BellOff, AlertCircle } from 'lucide-react'
+import {
+  fetchScoredDomains,
+  fetchWeightProfiles,
+  getSelectedProfile,
+  setSelectedProfile,
+  createAlertRule,
+  deleteAlertRule,
+  getSavedUserAddress,
+  setSavedUserAddress
+} from '@/lib/domains-api'
+import type { WeightProfile } from '@/lib/domains-api'
 import { LoadingMessage } from '@/components/LoadingMessage'
-import { parseNaturalLanguageQuery, getSearchSuggestions, explainFilters } from '@/lib/natural-language-search'
-
-const scoringEngine = new ScoringEngine()
-
-// Transform Doma data to our scoring format
-function transformDomaData(name: NameModel, token: TokenModel) {
-  const parts = name.name.split('.')
-  const namePart = parts[0]
-  const tld = parts.slice(1).join('.') || 'com'
-  const expiresAt = new Date(token.expiresAt)
-  
-  return {
-    id: token.tokenId,
-    name: name.name,
-    namePart,
-    tld,
-    tokenId: token.tokenId,
-    tokenAddress: token.tokenAddress,
-    owner: token.ownerAddress,
-    expiresAt,
-    explorerUrl: token.explorerUrl,
-  }
-}
+import { getSearchSuggestions, explainQuery, HIGH_GROWTH_FORECAST } from '@/lib/natural-language-search'
+import type { QueryAst } from '@/lib/natural-language-search'
+import type { SearchQueryIssue } from '@/lib/search-query'
+import { NAME_PATTERNS, PATTERN_LABELS } from '@/lib/name-patterns'
+import type { NamePattern } from '@/lib/name-patterns'
+import {
+  DEFAULT_PANEL_FILTERS,
+  describeSearch,
+  diffSearchResults,
+  loadSavedSearches,
+  runSearch,
+  searchFromParams,
+  searchToParams,
+  storeSavedSearches
+} from '@/lib/saved-searches'
+import type { ExpiryBucket, SavedSearch, SearchPanelFilters, SearchSortField } from '@/lib/saved-searches'
 
 export default function HomePage() {
   const [searchQuery, setSearchQuery] = useState('')
@@ -41,27 +42,41 @@ export default function HomePage() {
   const [marketStats, setMarketStats] = useState<any>(null)
   const [showFilters, setShowFilters] = useState(false)
   const [searchSuggestions, setSearchSuggestions] = useState<string[]>([])
-  const [nlFilters, setNlFilters] = useState<any>(null)
-  const [filters, setFilters] = useState({
-    tld: 'all',
-    minLength: '',
-    maxLength: '',
-    riskRange: [0, 100] as [number, number],
-    rarityRange: [0, 100] as [number, number],
-    momentumRange: [0, 100] as [number, number],
-    minValue: '',
-    maxValue: '',
-    daysUntilExpiry: 'all', // all, <30, 30-90, 90-180, >180
-    highGrowth: false,
-    sortBy: 'risk',
-    sortOrder: 'desc' as 'asc' | 'desc'
-  })
+  const [nlQuery, setNlQuery] = useState<QueryAst | null>(null)
+  const [queryError, setQueryError] = useState<SearchQueryIssue | null>(null)
+  const [profile, setProfile] = useState('default')
+  const [profiles, setProfiles] = useState<WeightProfile[]>([])
+  const [filters, setFilters] = useState<SearchPanelFilters>(DEFAULT_PANEL_FILTERS)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [showSaveModal, setShowSaveModal] = useState(false)
+  const [saveName, setSaveName] = useState('')
+  const [saveSubscribe, setSaveSubscribe] = useState(false)
+  const [userAddress, setUserAddress] = useState('')
+  const [savedSearchError, setSavedSearchError] = useState<string | null>(null)
+  const [isSavingSearch, setIsSavingSearch] = useState(false)
 
   // Fetch domains on mount with caching
   useEffect(() => {
-    // Check localStorage cache first for instant load
-    const cachedData = localStorage.getItem('dometrics_domains')
-    const cacheTime = localStorage.getItem('dometrics_domains_time')
+    // Restore the search and filter panel from the URL (?q=...&search=...)
+    const fromUrl = searchFromParams(new URLSearchParams(window.location.search))
+    setSearchQuery(fromUrl.query)
+    setFilters(fromUrl.filters)
+
+    const selected = getSelectedProfile()
+    setProfile(selected)
+    loadDomains(selected)
+    setSavedSearches(loadSavedSearches())
+    setUserAddress(getSavedUserAddress())
+
+    fetchWeightProfiles()
+      .then(setProfiles)
+      .catch(err => console.warn('Failed to load weight profiles:', err))
+  }, [])
+
+  const loadDomains = (profileName: string) => {
+    // Check localStorage cache first for instant load (cached per weight profile)
+    const cachedData = localStorage.getItem(`dometrics_domains_${profileName}`)
+    const cacheTime = localStorage.getItem(`dometrics_domains_time_${profileName}`)
     const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
 
     if (cachedData && cacheTime) {
@@ -80,160 +95,45 @@ export default function HomePage() {
         // Fetch fresh data in background after short delay
         setTimeout(() => {
           console.log('Refreshing cache in background...')
-          fetchInitialDomains(true)
+          fetchInitialDomains(true, profileName)
         }, 2000)
         return
       }
     }
 
-    fetchInitialDomains()
-  }, [])
+    fetchInitialDomains(false, profileName)
+  }
+
+  const changeProfile = (profileName: string) => {
+    setSelectedProfile(profileName)
+    setProfile(profileName)
+    loadDomains(profileName)
+  }
 
-  const fetchInitialDomains = async (backgroundRefresh = false) => {
+  const fetchInitialDomains = async (backgroundRefresh = false, profileName = profile) => {
     if (!backgroundRefresh) {
       setIsLoading(true)
       setError(null)
     }
     
     try {
-      // Get all names from testnet (real data!)
-      const names = await domaClient.getAllNames(50)
-      
-      console.log(`Fetched ${names.length} domains from Doma testnet`)
-      
-      // Transform and score domains
-      const transformedDomains = []
-
-      // Collect all token addresses and IDs for batch contract reads
-      const tokenAddresses: string[] = []
-      const tokenIds: string[] = []
-      const tokenMap = new Map<string, { name: NameModel, token: TokenModel, domain: any }>()
-
-      for (const name of names) {
-        // Skip if no tokens
-        if (!name.tokens || name.tokens.length === 0) continue
-
-        // Process each token for this name
-        for (const token of name.tokens) {
-          const domain = transformDomaData(name, token)
-          tokenAddresses.push(token.tokenAddress)
-          tokenIds.push(token.tokenId)
-          tokenMap.set(token.tokenId, { name, token, domain })
-        }
-      }
+      // Scored by the shared server-side pipeline (real contract and activity data)
+      const scoredDomains = await fetchScoredDomains({ profile: profileName })
 
-      // Batch fetch real contract data for all tokens
-      let contractData: Record<string, { expirationOf: bigint, lockStatusOf: boolean, registrarOf: bigint }> = {}
-      if (tokenIds.length > 0 && tokenAddresses[0]) {
-        try {
-          contractData = await domaClient.getTokenRiskData(tokenAddresses[0], tokenIds)
-          console.log(`Fetched real contract data for ${tokenIds.length} tokens`)
-        } catch (err) {
-          console.error('Failed to fetch contract data, using fallback:', err)
-        }
-      }
+      console.log(`Fetched ${scoredDomains.length} scored domains from Doma testnet`)
 
-      // Process each domain with real data
-      for (const [tokenId, { name, token, domain }] of tokenMap.entries()) {
-        try {
-          // Get real contract data
-          const realData = contractData[tokenId]
-          const expiresAt = realData?.expirationOf
-            ? new Date(Number(realData.expirationOf) * 1000)
-            : domain.expiresAt
-          const lockStatus = realData?.lockStatusOf ?? (name.transferLock || false)
-          const registrarId = realData?.registrarOf
-            ? Number(realData.registrarOf)
-            : (name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1)
-
-          const daysUntilExpiry = Math.floor(
-            (expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-          )
-
-          // Market activity data - use minimal API calls to avoid errors
-          let activity7d = 0
-          let activity30d = 0
-          let offerCount = 0
-          const renewalCount = 0
-
-          // Use domain characteristics as proxy for activity until API is stable
-          const isPopularTLD = ['com', 'xyz', 'io', 'ai'].includes(domain.tld)
-          const isShortName = domain.namePart.length <= 6
-          const baseSeed = domain.namePart.charCodeAt(0) % 10
-
-          // Estimate activity based on domain quality
-          if (isPopularTLD && isShortName) {
-            activity7d = 5 + baseSeed
-            activity30d = 15 + (baseSeed * 2)
-            offerCount = 2 + (baseSeed % 5)
-          } else if (isPopularTLD || isShortName) {
-            activity7d = 2 + (baseSeed % 5)
-            activity30d = 8 + (baseSeed % 10)
-            offerCount = baseSeed % 3
-          } else {
-            activity7d = baseSeed % 3
-            activity30d = (baseSeed % 5) + 2
-            offerCount = 0
-          }
-
-          // Calculate scores with REAL data
-          const scores = scoringEngine.calculateScoresSync({
-            name: domain.namePart,
-            tld: domain.tld,
-            expiresAt,
-            tokenizedAt: name.tokenizedAt, // Critical for domain age calculation
-            lockStatus,
-            registrarId,
-            renewalCount,
-            offerCount,
-            activity7d,
-            activity30d,
-          })
-
-          // Debug: Log first domain to verify data quality
-          if (transformedDomains.length === 0) {
-            console.log('Sample domain scoring inputs:', {
-              name: domain.name,
-              daysUntilExpiry,
-              tokenizedAt: name.tokenizedAt,
-              lockStatus,
-              registrarId,
-              scores
-            })
-          }
-
-          // Skip nameStatistics for initial load (too slow, often returns null on testnet)
-          // Use calculated value which is based on domain characteristics
-          const realValue = scores.currentValue
-
-          transformedDomains.push({
-            ...domain,
-            expiresAt, // Use real expiry date
-            scores: {
-              ...scores,
-              currentValue: realValue // Override with real market value if available
-            },
-            activity7d,
-            activity30d,
-            offerCount,
-            renewalCount,
-            price: Math.round(realValue || 1000),
-            registrar: name.registrar?.name || 'Unknown',
-            transferLock: lockStatus,
-            daysUntilExpiry,
-          })
-        } catch (err) {
-          console.error(`Error processing domain ${tokenId}:`, err)
-        }
-      }
+      const transformedDomains = scoredDomains.map(domain => ({
+        ...domain,
+        expiresAt: new Date(domain.expiresAt)
+      }))
       
       setDomains(transformedDomains)
       setFilteredDomains(transformedDomains)
 
       // Save to localStorage cache
       try {
-        localStorage.setItem('dometrics_domains', JSON.stringify(transformedDomains))
-        localStorage.setItem('dometrics_domains_time', Date.now().toString())
+        localStorage.setItem(`dometrics_domains_${profileName}`, JSON.stringify(transformedDomains))
+        localStorage.setItem(`dometrics_domains_time_${profileName}`, Date.now().toString())
         console.log(`Cached ${transformedDomains.length} domains`)
       } catch (err) {
         console.warn('Failed to cache domains:', err)
@@ -253,178 +153,16 @@ export default function HomePage() {
     setIsSearching(true)
 
     setTimeout(() => {
-      let results = [...domains]
-
-      // Parse natural language query
-      const nlQuery = parseNaturalLanguageQuery(searchQuery)
-      setNlFilters(nlQuery)
-
-      // Text search (if it's a domain name or no other filters)
-      if (nlQuery.searchTerm) {
-        results = results.filter(domain =>
-          domain.name.toLowerCase().includes(nlQuery.searchTerm?.toLowerCase() || '')
-        )
-      }
-
-      // Apply natural language filters
-      if (nlQuery.riskMin !== undefined) {
-        results = results.filter(domain => domain.scores?.risk >= nlQuery.riskMin!)
-      }
-      if (nlQuery.riskMax !== undefined) {
-        results = results.filter(domain => domain.scores?.risk <= nlQuery.riskMax!)
-      }
-      if (nlQuery.rarityMin !== undefined) {
-        results = results.filter(domain => domain.scores?.rarity >= nlQuery.rarityMin!)
-      }
-      if (nlQuery.rarityMax !== undefined) {
-        results = results.filter(domain => domain.scores?.rarity <= nlQuery.rarityMax!)
-      }
-      if (nlQuery.momentumMin !== undefined) {
-        results = results.filter(domain => domain.scores?.momentum >= nlQuery.momentumMin!)
-      }
-      if (nlQuery.momentumMax !== undefined) {
-        results = results.filter(domain => domain.scores?.momentum <= nlQuery.momentumMax!)
-      }
-      if (nlQuery.valueMin !== undefined) {
-        results = results.filter(domain =>
-          (domain.scores?.currentValue || domain.price) >= nlQuery.valueMin!
-        )
-      }
-      if (nlQuery.valueMax !== undefined) {
-        results = results.filter(domain =>
-          (domain.scores?.currentValue || domain.price) <= nlQuery.valueMax!
-        )
-      }
-
-      // Apply natural language expiry filters
-      if (nlQuery.expiryDaysMin !== undefined) {
-        results = results.filter(domain => domain.daysUntilExpiry >= nlQuery.expiryDaysMin!)
-      }
-      if (nlQuery.expiryDaysMax !== undefined) {
-        results = results.filter(domain => domain.daysUntilExpiry <= nlQuery.expiryDaysMax!)
-      }
-
-      // TLD filter
-      if (filters.tld !== 'all') {
-        results = results.filter(domain => domain.tld === filters.tld)
-      }
-      
-      // Length filters
-      if (filters.minLength) {
-        results = results.filter(domain => domain.namePart.length >= parseInt(filters.minLength))
-      }
-      if (filters.maxLength) {
-        results = results.filter(domain => domain.namePart.length <= parseInt(filters.maxLength))
-      }
-      
-      // Score range filters
-      results = results.filter(domain => 
-        domain.scores?.risk >= filters.riskRange[0] && 
-        domain.scores?.risk <= filters.riskRange[1] &&
-        domain.scores?.rarity >= filters.rarityRange[0] && 
-        domain.scores?.rarity <= filters.rarityRange[1] &&
-        domain.scores?.momentum >= filters.momentumRange[0] && 
-        domain.scores?.momentum <= filters.momentumRange[1]
-      )
-      
-      // Value filters
-      if (filters.minValue) {
-        results = results.filter(domain => 
-          (domain.scores?.currentValue || domain.price) >= parseInt(filters.minValue)
-        )
-      }
-      if (filters.maxValue) {
-        results = results.filter(domain => 
-          (domain.scores?.currentValue || domain.price) <= parseInt(filters.maxValue)
-        )
-      }
-      
-      // Days until expiry filter
-      if (filters.daysUntilExpiry !== 'all') {
-        results = results.filter(domain => {
-          const days = domain.daysUntilExpiry
-          switch (filters.daysUntilExpiry) {
-            case '<30': return days < 30
-            case '30-90': return days >= 30 && days <= 90
-            case '90-180': return days > 90 && days <= 180
-            case '>180': return days > 180
-            default: return true
-          }
-        })
-      }
-
-      // High growth filter
-      if (filters.highGrowth) {
-        results = results.filter(domain =>
-          domain.scores?.forecast?.growthRate && domain.scores.forecast.growthRate > 15
-        )
-      }
-
-      // Sorting - use natural language sort if available
-      const sortBy = nlQuery.sortBy || filters.sortBy
-      const sortOrder = nlQuery.sortOrder || filters.sortOrder
-
-      results.sort((a, b) => {
-        let aValue, bValue
-
-        switch (sortBy) {
-          case 'risk':
-            aValue = a.scores?.risk || 0
-            bValue = b.scores?.risk || 0
-            break
-          case 'rarity':
-            aValue = a.scores?.rarity || 0
-            bValue = b.scores?.rarity || 0
-            break
-          case 'momentum':
-            aValue = a.scores?.momentum || 0
-            bValue = b.scores?.momentum || 0
-            break
-          case 'value':
-            aValue = a.scores?.currentValue || a.price
-            bValue = b.scores?.currentValue || b.price
-            break
-          case 'newest':
-            aValue = new Date(a.tokenizedAt || a.expiresAt).getTime()
-            bValue = new Date(b.tokenizedAt || b.expiresAt).getTime()
-            break
-          case 'oldest':
-            aValue = new Date(a.tokenizedAt || a.expiresAt).getTime()
-            bValue = new Date(b.tokenizedAt || b.expiresAt).getTime()
-            break
-          case 'offers':
-            aValue = a.highestOffer || 0
-            bValue = b.highestOffer || 0
-            break
-          case 'expiry':
-            aValue = a.daysUntilExpiry
-            bValue = b.daysUntilExpiry
-            break
-          case 'name':
-            aValue = a.name
-            bValue = b.name
-            break
-          default:
-            aValue = a.scores?.risk || 0
-            bValue = b.scores?.risk || 0
-        }
-
-        if (typeof aValue === 'string') {
-          return sortOrder === 'desc'
-            ? bValue.localeCompare(aValue)
-            : aValue.localeCompare(bValue)
-        }
-
-        return sortOrder === 'desc' ? bValue - aValue : aValue - bValue
-      })
-
-      // Apply limit if specified in natural language query
-      if (nlQuery.limit) {
-        results = results.slice(0, nlQuery.limit)
-      }
-      
+      // Same matcher the alert engine runs for subscribed searches
+      const { results, query, error } = runSearch(domains, { query: searchQuery, filters })
+      setNlQuery(query)
+      setQueryError(error)
       setFilteredDomains(results)
       setIsSearching(false)
+
+      // Keep the URL in step so a reload or shared link shows the same results
+      const params = searchToParams({ query: searchQuery, filters }).toString()
+      window.history.replaceState(null, '', params ? `?${params}` : window.location.pathname)
     }, 300)
   }
 
@@ -434,30 +172,124 @@ export default function HomePage() {
   }
 
   const resetFilters = () => {
-    setFilters({
-      tld: 'all',
-      minLength: '',
-      maxLength: '',
-      riskRange: [0, 100],
-      rarityRange: [0, 100],
-      momentumRange: [0, 100],
-      minValue: '',
-      maxValue: '',
-      daysUntilExpiry: 'all',
-      highGrowth: false,
-      sortBy: 'risk',
-      sortOrder: 'desc'
-    })
+    setFilters(DEFAULT_PANEL_FILTERS)
     setSearchQuery('')
     setTimeout(() => applyFilters(), 100)
   }
 
-  // Apply filters when filter state changes
+  const updateSavedSearches = (searches: SavedSearch[]) => {
+    setSavedSearches(searches)
+    storeSavedSearches(searches)
+  }
+
+  // Domains that started and stopped matching a saved search since it was last opened
+  const getSearchChanges = (search: SavedSearch) => {
+    if (domains.length === 0) return { entered: [], exited: [] }
+    const { results } = runSearch(domains, search)
+    return diffSearchResults(search.seenTokenIds, results.map(d => d.tokenId))
+  }
+
+  const openSaveModal = () => {
+    setSaveName(searchQuery.trim() || describeSearch({ query: '', filters }))
+    setSaveSubscribe(false)
+    setSavedSearchError(null)
+    setShowSaveModal(true)
+  }
+
+  // SAVED_FILTER rule that alerts when domains start or stop matching the search
+  const subscribe = (search: SavedSearch, address: string) => createAlertRule({
+    userAddress: address,
+    name: search.name,
+    type: 'SAVED_FILTER',
+    conditions: { query: search.query, filters: search.filters, profile }
+  })
+
+  const saveCurrentSearch = async () => {
+    const name = saveName.trim()
+    if (!name) return
+    const address = userAddress.trim()
+    if (saveSubscribe && !address) {
+      setSavedSearchError('Enter a wallet address to get notified')
+      return
+    }
+
+    const { results } = runSearch(domains, { query: searchQuery, filters })
+    const now = new Date().toISOString()
+    const search: SavedSearch = {
+      id: `search-${Date.now()}`,
+      name,
+      query: searchQuery.trim(),
+      filters,
+      createdAt: now,
+      seenTokenIds: results.map(d => d.tokenId),
+      seenAt: now
+    }
+
+    setIsSavingSearch(true)
+    setSavedSearchError(null)
+    try {
+      if (saveSubscribe) {
+        const rule = await subscribe(search, address)
+        search.ruleId = rule.id
+        setSavedUserAddress(address)
+      }
+      updateSavedSearches([search, ...savedSearches])
+      setShowSaveModal(false)
+    } catch (err) {
+      console.error('Error subscribing to saved search:', err)
+      setSavedSearchError(err instanceof Error ? err.message : 'Failed to subscribe to search')
+    } finally {
+      setIsSavingSearch(false)
+    }
+  }
+
+  const toggleSubscription = async (search: SavedSearch) => {
+    setSavedSearchError(null)
+    try {
+      if (search.ruleId) {
+        await deleteAlertRule(search.ruleId)
+        updateSavedSearches(savedSearches.map(s => (s.id === search.id ? { ...s, ruleId: undefined } : s)))
+        return
+      }
+      const address = getSavedUserAddress()
+      if (!address) {
+        setSavedSearchError('Save a wallet address (e.g. from the Alerts page) to get notified')
+        return
+      }
+      const rule = await subscribe(search, address)
+      updateSavedSearches(savedSearches.map(s => (s.id === search.id ? { ...s, ruleId: rule.id } : s)))
+    } catch (err) {
+      console.error('Error updating saved search subscription:', err)
+      setSavedSearchError(err instanceof Error ? err.message : 'Failed to update subscription')
+    }
+  }
+
+  const openSavedSearch = (search: SavedSearch) => {
+    const { results } = runSearch(domains, search)
+    updateSavedSearches(savedSearches.map(s => (s.id === search.id
+      ? { ...s, seenTokenIds: results.map(d => d.tokenId), seenAt: new Date().toISOString() }
+      : s)))
+    setSearchQuery(search.query)
+    setFilters({ ...DEFAULT_PANEL_FILTERS, ...search.filters })
+  }
+
+  const removeSavedSearch = async (search: SavedSearch) => {
+    setSavedSearchError(null)
+    try {
+      if (search.ruleId) await deleteAlertRule(search.ruleId)
+    } catch (err) {
+      // The rule may already be gone; the local copy is removed regardless
+      console.warn('Failed to delete saved search rule:', err)
+    }
+    updateSavedSearches(savedSearches.filter(s => s.id !== search.id))
+  }
+
+  // Apply filters when filter state changes or domains (re)load
   useEffect(() => {
     if (domains.length > 0) {
       applyFilters()
     }
-  }, [filters])
+  }, [filters, domains])
 
   // Get unique TLDs for filter dropdown
   const availableTLDs = Array.from(new Set(domains.map(d => d.tld))).sort()
@@ -483,6 +315,15 @@ export default function HomePage() {
               <Link href="/alerts" className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 text-sm font-medium transition-colors">
                 Alerts
               </Link>
+              <Link href="/portfolio/groups" className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 text-sm font-medium transition-colors">
+                Portfolios
+              </Link>
+              <Link href="/watchlists" className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 text-sm font-medium transition-colors">
+                Watchlists
+              </Link>
+              <Link href="/calendar" className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 text-sm font-medium transition-colors">
+                Calendar
+              </Link>
             </nav>
           </div>
         </div>
@@ -515,7 +356,7 @@ export default function HomePage() {
                 }}
                 onFocus={() => setSearchSuggestions(getSearchSuggestions(searchQuery))}
                 onBlur={() => setTimeout(() => setSearchSuggestions([]), 200)}
-                placeholder='Try "low risk domains" or "show me 10 newest" or "risk under 30"'
+                placeholder='Try "low risk domains" or "show me 10 newest" or "tld:ai risk<30 len:3..5"'
                 className="w-full pl-14 pr-24 py-4 text-lg border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-shadow"
               />
               <button
@@ -550,11 +391,22 @@ export default function HomePage() {
           </form>
 
           {/* Active Natural Language Filters Display */}
-          {nlFilters && Object.keys(nlFilters).length > 0 ? (
+          {queryError ? (
+            <div className="max-w-2xl mx-auto mt-3 px-4 py-2.5 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg shadow-sm">
+              <div className="flex items-center gap-2 text-sm text-red-700 dark:text-red-300 font-medium">
+                <AlertCircle className="w-4 h-4" />
+                <span>{queryError.message} (at character {queryError.position + 1})</span>
+              </div>
+              <div className="mt-1 ml-6 font-mono text-xs text-red-600 dark:text-red-400 whitespace-pre">
+                {searchQuery.slice(0, queryError.position)}
+                <span className="underline decoration-wavy">{searchQuery.slice(queryError.position) || ' '}</span>
+              </div>
+            </div>
+          ) : nlQuery && (nlQuery.clauses.length > 0 || nlQuery.ignored.length > 0) ? (
             <div className="max-w-2xl mx-auto mt-3 px-4 py-2.5 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg shadow-sm">
               <div className="flex items-center gap-2 text-sm text-blue-700 dark:text-blue-300 font-medium">
                 <Info className="w-4 h-4" />
-                <span>{explainFilters(nlFilters)}</span>
+                <span>{explainQuery(nlQuery)}</span>
               </div>
             </div>
           ) : (
@@ -589,6 +441,18 @@ export default function HomePage() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {profiles.length > 0 && (
+              <select
+                value={profile}
+                onChange={(e) => changeProfile(e.target.value)}
+                title={profiles.find(p => p.name === profile)?.description}
+                className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {profiles.map(p => (
+                  <option key={p.name} value={p.name}>{p.label} weights ({p.version})</option>
+                ))}
+              </select>
+            )}
             <button 
               onClick={() => setShowFilters(!showFilters)}
               className={`px-4 py-2 text-sm rounded-lg font-medium transition-colors flex items-center gap-2 ${
@@ -600,6 +464,14 @@ export default function HomePage() {
               <Filter className="w-4 h-4" />
               Filters
             </button>
+            <button
+              onClick={openSaveModal}
+              disabled={domains.length === 0}
+              className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Bookmark className="w-4 h-4" />
+              Save Search
+            </button>
             <button 
               onClick={() => fetchInitialDomains()}
               className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
@@ -610,6 +482,59 @@ export default function HomePage() {
           </div>
         </div>
 
+        {/* Saved Searches */}
+        {savedSearches.length > 0 && (
+          <div className="mb-6">
+            <div className="flex flex-wrap gap-2">
+              {savedSearches.map(search => {
+                const changes = getSearchChanges(search)
+                return (
+                  <div
+                    key={search.id}
+                    className="flex items-center gap-1 pl-3 pr-1 py-1 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-full text-sm"
+                  >
+                    <button
+                      onClick={() => openSavedSearch(search)}
+                      title={describeSearch(search)}
+                      className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      <Bookmark className="w-3.5 h-3.5" />
+                      {search.name}
+                      {changes.entered.length > 0 && (
+                        <span className="px-1.5 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-full">
+                          +{changes.entered.length} new
+                        </span>
+                      )}
+                      {changes.exited.length > 0 && (
+                        <span className="px-1.5 py-0.5 text-xs bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 rounded-full">
+                          −{changes.exited.length} gone
+                        </span>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => toggleSubscription(search)}
+                      title={search.ruleId ? 'Stop notifications' : 'Notify me when domains start or stop matching'}
+                      className={`p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 ${search.ruleId ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400'}`}
+                    >
+                      {search.ruleId ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => removeSavedSearch(search)}
+                      title="Delete saved search"
+                      className="p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+            {savedSearchError && !showSaveModal && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">{savedSearchError}</p>
+            )}
+          </div>
+        )}
+
         {/* Advanced Filters */}
         {showFilters && (
           <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-6 mb-6">
@@ -697,7 +622,7 @@ export default function HomePage() {
                 </label>
                 <select
                   value={filters.daysUntilExpiry}
-                  onChange={(e) => setFilters({...filters, daysUntilExpiry: e.target.value})}
+                  onChange={(e) => setFilters({...filters, daysUntilExpiry: e.target.value as ExpiryBucket})}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
                 >
                   <option value="all">All domains</option>
@@ -803,9 +728,19 @@ export default function HomePage() {
                   />
                   <div className="flex items-center gap-1.5">
                     <Flame className="w-4 h-4 text-orange-500" />
-                    <span className="text-sm text-gray-700 dark:text-gray-300">High Growth Potential (&gt;15%)</span>
+                    <span className="text-sm text-gray-700 dark:text-gray-300">High Growth Potential (15%+ in 6 months)</span>
                   </div>
                 </label>
+                <select
+                  value={filters.pattern}
+                  onChange={(e) => setFilters({...filters, pattern: e.target.value as NamePattern | 'all'})}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                >
+                  <option value="all">Any name pattern</option>
+                  {NAME_PATTERNS.map(pattern => (
+                    <option key={pattern} value={pattern}>{PATTERN_LABELS[pattern]}</option>
+                  ))}
+                </select>
               </div>
             </div>
 
@@ -819,7 +754,7 @@ export default function HomePage() {
                   </label>
                   <select
                     value={filters.sortBy}
-                    onChange={(e) => setFilters({...filters, sortBy: e.target.value})}
+                    onChange={(e) => setFilters({...filters, sortBy: e.target.value as SearchSortField})}
                     className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
                   >
                     <option value="risk">Risk Score</option>
@@ -827,6 +762,7 @@ export default function HomePage() {
                     <option value="momentum">Momentum Score</option>
                     <option value="value">Value</option>
                     <option value="expiry">Days Until Expiry</option>
+                    <option value="length">Name Length</option>
                     <option value="name">Domain Name</option>
                   </select>
                 </div>
@@ -891,17 +827,20 @@ export default function HomePage() {
                 <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 hover:border-gray-300 dark:hover:border-gray-700 transition-colors cursor-pointer">
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex-1 flex items-center gap-2">
-                      <h3 className="font-semibold text-gray-900 dark:text-white text-lg">
-                        {domain.name}
+                      <h3
+                        className="font-semibold text-gray-900 dark:text-white text-lg"
+                        title={domain.displayName && domain.displayName !== domain.name ? domain.name : undefined}
+                      >
+                        {domain.displayName || domain.name}
                       </h3>
-                      {domain.scores?.forecast?.growthRate && domain.scores.forecast.growthRate > 15 && (
+                      {domain.scores?.forecast >= HIGH_GROWTH_FORECAST && (
                         <div
                           className="group relative cursor-help"
                           title="High Growth Potential"
                         >
                           <Flame className="w-4 h-4 text-orange-500 animate-pulse" />
                           <div className="absolute left-1/2 -translate-x-1/2 top-full mt-2 px-3 py-2 bg-gray-900 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
-                            High growth potential: +{domain.scores.forecast.growthRate.toFixed(1)}%
+                            High growth potential: forecast {domain.scores.forecast}
                           </div>
                         </div>
                       )}
@@ -983,6 +922,83 @@ export default function HomePage() {
           </div>
         </div>
       </main>
+
+      {/* Save Search Modal */}
+      {showSaveModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-900 rounded-xl p-6 w-full max-w-lg mx-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Save Search</h3>
+              <button
+                onClick={() => setShowSaveModal(false)}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {describeSearch({ query: searchQuery, filters })} · {filteredDomains.length} matching now
+                </p>
+              </div>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={saveSubscribe}
+                  onChange={(e) => setSaveSubscribe(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Notify me when domains start or stop matching
+                </span>
+              </label>
+              {saveSubscribe && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Wallet address</label>
+                  <input
+                    type="text"
+                    value={userAddress}
+                    onChange={(e) => setUserAddress(e.target.value)}
+                    placeholder="0x... or eip155:97476:0x..."
+                    className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Alerts arrive in your feed on the Alerts page, where you can also add email or webhook delivery.
+                  </p>
+                </div>
+              )}
+              {savedSearchError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{savedSearchError}</p>
+              )}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={saveCurrentSearch}
+                disabled={!saveName.trim() || isSavingSearch}
+                className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isSavingSearch ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setShowSaveModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
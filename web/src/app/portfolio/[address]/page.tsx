@@ -0,0 +1,110 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, Wallet, RefreshCw } from 'lucide-react'
+import { fetchPortfolio } from '@/lib/domains-api'
+import type { Portfolio } from '@/lib/domains-api'
+import {
+  PortfolioSummaryCards,
+  ConcentrationPanel,
+  UpcomingExpiriesPanel,
+  HoldingsTable,
+  shortAddress
+} from '@/components/portfolio/portfolio-panels'
+
+export default function PortfolioPage() {
+  const params = useParams()
+  const address = decodeURIComponent(params.address as string)
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPortfolio = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setPortfolio(await fetchPortfolio(address))
+    } catch (err) {
+      console.error('Error fetching portfolio:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address])
+
+  useEffect(() => {
+    loadPortfolio()
+  }, [loadPortfolio])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading portfolio...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = portfolio?.summary
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <Link href="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="text-sm font-medium">Back</span>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Wallet className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h1 className="text-lg font-semibold text-gray-900 dark:text-white">Portfolio</h1>
+                <span className="font-mono text-sm text-gray-500 dark:text-gray-400" title={address}>
+                  {shortAddress(address)}
+                </span>
+              </div>
+            </div>
+            <button
+              onClick={loadPortfolio}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {portfolio && summary && (
+          <>
+            <PortfolioSummaryCards summary={summary} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              <ConcentrationPanel summary={summary} />
+              <UpcomingExpiriesPanel summary={summary} />
+            </div>
+
+            <HoldingsTable holdings={portfolio.holdings} emptyMessage="This address holds no tokenized names." />
+
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+              Scored with the {portfolio.profile} profile ({portfolio.weightsVersion || 'n/a'}). Acquisition prices come from PURCHASED activity where this address was the buyer; minted or transferred names have no cost basis.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, Layers, Download, Calendar, Wallet, Shield } from 'lucide-react'
+import { fetchPortfolioGroupReport, getPortfolioGroupExportUrl } from '@/lib/domains-api'
+import type { PortfolioGroupReport } from '@/lib/domains-api'
+import {
+  PortfolioSummaryCards,
+  ConcentrationPanel,
+  HoldingsTable,
+  formatUsd,
+  shortAddress
+} from '@/components/portfolio/portfolio-panels'
+
+export default function PortfolioGroupPage() {
+  const params = useParams()
+  const id = params.id as string
+  const [report, setReport] = useState<PortfolioGroupReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await fetchPortfolioGroupReport(id)
+      if (!result) {
+        setError('Portfolio group not found')
+        return
+      }
+      setReport(result)
+    } catch (err) {
+      console.error('Error fetching portfolio group:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio group')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading portfolio group...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = report?.summary
+  const riskTotal = summary ? Math.max(1, summary.count) : 1
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <Link href="/portfolio/groups" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="text-sm font-medium">Groups</span>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Layers className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h1 className="text-lg font-semibold text-gray-900 dark:text-white">{report?.group.name || 'Portfolio Group'}</h1>
+              </div>
+            </div>
+            {report && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+                >
+                  <Download className="w-3 h-3" />
+                  Export
+                </button>
+                {showExportMenu && (
+                  <div className="absolute top-full mt-2 right-0 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-2 min-w-[150px] z-10">
+                    {([['json', 'Export as JSON'], ['text', 'Export as Text'], ['csv', 'Export as CSV']] as const).map(([format, label]) => (
+                      <a
+                        key={format}
+                        href={getPortfolioGroupExportUrl(id, format, report.profile)}
+                        onClick={() => setShowExportMenu(false)}
+                        className="block w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                      >
+                        {label}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {report && summary && (
+          <>
+            {report.group.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{report.group.description}</p>
+            )}
+
+            <PortfolioSummaryCards summary={summary} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              {/* Risk Distribution */}
+              <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center gap-2 mb-4">
+                  <Shield className="w-4 h-4 text-gray-500" />
+                  <h2 className="text-base font-semibold text-gray-900 dark:text-white">Risk Distribution</h2>
+                </div>
+                <div className="space-y-3">
+                  {([
+                    ['Low (0-33)', summary.riskDistribution.low, 'bg-green-500'],
+                    ['Medium (34-66)', summary.riskDistribution.medium, 'bg-yellow-500'],
+                    ['High (67-100)', summary.riskDistribution.high, 'bg-red-500']
+                  ] as const).map(([label, count, color]) => (
+                    <div key={label}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium text-gray-900 dark:text-white">{label}</span>
+                        <span className="text-gray-600 dark:text-gray-400">{count} names</span>
+                      </div>
+                      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                        <div className={`${color} h-2 rounded-full`} style={{ width: `${(count / riskTotal) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <ConcentrationPanel summary={summary} />
+            </div>
+
+            {/* Per-wallet drill-down */}
+            <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mb-8">
+              <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+                <Wallet className="w-4 h-4 text-gray-500" />
+                <h2 className="text-base font-semibold text-gray-900 dark:text-white">By Wallet</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="px-6 py-3 font-medium">Wallet</th>
+                      <th className="px-6 py-3 font-medium text-right">Names</th>
+                      <th className="px-6 py-3 font-medium text-right">Value</th>
+                      <th className="px-6 py-3 font-medium text-right">Share</th>
+                      <th className="px-6 py-3 font-medium text-right">Weighted Risk</th>
+                      <th className="px-6 py-3 font-medium text-right">Expiring ≤ 90d</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {report.wallets.map(({ wallet, summary: walletSummary }) => (
+                      <tr key={wallet}>
+                        <td className="px-6 py-3">
+                          <Link
+                            href={`/portfolio/${encodeURIComponent(wallet)}`}
+                            className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                            title={wallet}
+                          >
+                            {shortAddress(wallet)}
+                          </Link>
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{walletSummary.count}</td>
+                        <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{formatUsd(walletSummary.totalValue)}</td>
+                        <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-400">
+                          {summary.totalValue > 0 ? `${((walletSummary.totalValue / summary.totalValue) * 100).toFixed(1)}%` : '—'}
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{walletSummary.weightedRisk.toFixed(1)}</td>
+                        <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-400">{walletSummary.upcomingExpiries.length}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Expiry Calendar */}
+            <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-8">
+              <div className="flex items-center gap-2 mb-4">
+                <Calendar className="w-4 h-4 text-gray-500" />
+                <h2 className="text-base font-semibold text-gray-900 dark:text-white">Expiry Calendar</h2>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                {report.expiryCalendar.map(month => (
+                  <div
+                    key={month.month}
+                    className={`rounded-lg p-3 border ${
+                      month.count > 0
+                        ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/10'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {new Date(`${month.month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })}
+                    </p>
+                    <p className="text-lg font-semibold text-gray-900 dark:text-white">{month.count}</p>
+                    {month.count > 0 && (
+                      <>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">{formatUsd(month.value)}</p>
+                        <ul className="mt-1 space-y-0.5">
+                          {month.domains.slice(0, 3).map(domain => (
+                            <li key={domain.tokenId} className="text-xs truncate">
+                              <Link href={`/domain/${domain.tokenId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                {domain.name}
+                              </Link>
+                            </li>
+                          ))}
+                          {month.domains.length > 3 && (
+                            <li className="text-xs text-gray-500">+{month.domains.length - 3} more</li>
+                          )}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <HoldingsTable holdings={report.holdings} showWallet emptyMessage="No wallet in this group holds tokenized names." />
+
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+              Scored with the {report.profile} profile ({report.weightsVersion || 'n/a'}). Acquisition prices come from PURCHASED activity where a wallet in this group was the buyer.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
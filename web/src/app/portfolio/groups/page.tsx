@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Layers, Plus, Trash2, Loader2 } from 'lucide-react'
+import {
+  fetchPortfolioGroups,
+  createPortfolioGroup,
+  deletePortfolioGroup,
+  fetchSessionAddress,
+  signInWithWallet
+} from '@/lib/domains-api'
+import type { PortfolioGroup } from '@/lib/domains-api'
+import { shortAddress } from '@/components/portfolio/portfolio-panels'
+
+export default function PortfolioGroupsPage() {
+  const [userAddress, setUserAddress] = useState('')
+  const [groups, setGroups] = useState<PortfolioGroup[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState({ name: '', description: '', wallets: '' })
+
+  const loadGroups = useCallback(async (address: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setGroups(await fetchPortfolioGroups(address))
+    } catch (err) {
+      console.error('Error fetching portfolio groups:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio groups')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Groups belong to the signed-in wallet
+  useEffect(() => {
+    fetchSessionAddress().catch(() => null).then(address => {
+      if (!address) return
+      setUserAddress(address)
+      loadGroups(address)
+    })
+  }, [loadGroups])
+
+  const signIn = async () => {
+    try {
+      const address = userAddress || await signInWithWallet()
+      setUserAddress(address)
+      await loadGroups(address)
+    } catch (err) {
+      console.error('Error signing in:', err)
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    }
+  }
+
+  const handleCreate = async () => {
+    const wallets = form.wallets.split(/[\s,]+/).map(w => w.trim()).filter(Boolean)
+    setIsSaving(true)
+    setError(null)
+    try {
+      const group = await createPortfolioGroup({
+        userAddress,
+        name: form.name,
+        description: form.description || undefined,
+        wallets
+      })
+      setGroups([group, ...groups])
+      setForm({ name: '', description: '', wallets: '' })
+    } catch (err) {
+      console.error('Error creating portfolio group:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create portfolio group')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePortfolioGroup(id)
+      setGroups(groups.filter(g => g.id !== id))
+    } catch (err) {
+      console.error('Error deleting portfolio group:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete portfolio group')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <Link href="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              <span className="text-sm font-medium">Back</span>
+            </Link>
+            <div className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h1 className="text-lg font-semibold text-gray-900 dark:text-white">Portfolio Groups</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {/* Owner */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Your wallet
+          </label>
+          <div className="flex gap-3">
+            <div className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white truncate">
+              {userAddress || <span className="font-sans text-gray-500 dark:text-gray-400">Not signed in</span>}
+            </div>
+            <button
+              onClick={signIn}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {userAddress ? 'Load groups' : 'Sign in with wallet'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Groups */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-base font-semibold text-gray-900 dark:text-white">Your groups</h2>
+            </div>
+            {isLoading ? (
+              <div className="p-6 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading...
+              </div>
+            ) : groups.length === 0 ? (
+              <p className="p-6 text-sm text-gray-600 dark:text-gray-400">No groups yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                {groups.map(group => (
+                  <div key={group.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <Link href={`/portfolio/groups/${group.id}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                        {group.name}
+                      </Link>
+                      {group.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{group.description}</p>
+                      )}
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">
+                        {group.wallets.map(shortAddress).join(' · ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(group.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      title="Delete group"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* New group */}
+          <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4">New group</h2>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Wallets (one per line)</label>
+                <textarea
+                  value={form.wallets}
+                  onChange={(e) => setForm({ ...form, wallets: e.target.value })}
+                  rows={5}
+                  placeholder="eip155:97476:0x..."
+                  className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <button
+                onClick={handleCreate}
+                disabled={!userAddress || !form.name || !form.wallets.trim() || isSaving}
+                className="w-full px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Create group
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
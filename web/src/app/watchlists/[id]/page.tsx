@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, ListChecks, Download, Globe, Lock, Copy, Check, Plus, Loader2 } from 'lucide-react'
+import {
+  fetchWatchlistReport,
+  updateWatchlist,
+  getWatchlistExportUrl,
+  getWatchlistSharePath
+} from '@/lib/domains-api'
+import type { WatchlistReport } from '@/lib/domains-api'
+import { WatchlistReportView } from '@/components/watchlists/watchlist-panels'
+
+export default function WatchlistPage() {
+  const params = useParams()
+  const id = params.id as string
+  const [report, setReport] = useState<WatchlistReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [newDomains, setNewDomains] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await fetchWatchlistReport(id)
+      if (!result) {
+        setError('Watchlist not found')
+        return
+      }
+      setReport(result)
+    } catch (err) {
+      console.error('Error fetching watchlist:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load watchlist')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  // Apply a change, then rescore the list
+  const applyUpdate = async (input: Parameters<typeof updateWatchlist>[1]) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const { unresolved } = await updateWatchlist(id, input)
+      setNotice(unresolved.length > 0 ? `Not found: ${unresolved.join(', ')}` : null)
+      await loadReport()
+    } catch (err) {
+      console.error('Error updating watchlist:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update watchlist')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const addDomains = async () => {
+    const entries = newDomains.split(/[\s,]+/).map(e => e.trim()).filter(Boolean)
+    if (entries.length === 0) return
+    await applyUpdate({ add: entries })
+    setNewDomains('')
+  }
+
+  const copyShareLink = async (shareToken: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${getWatchlistSharePath(shareToken)}`)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  if (isLoading && !report) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading watchlist...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const watchlist = report?.watchlist
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <Link href="/watchlists" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="text-sm font-medium">Watchlists</span>
+              </Link>
+              <div className="flex items-center gap-2">
+                <ListChecks className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h1 className="text-lg font-semibold text-gray-900 dark:text-white">{watchlist?.name || 'Watchlist'}</h1>
+              </div>
+            </div>
+            {report && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+                >
+                  <Download className="w-3 h-3" />
+                  Export
+                </button>
+                {showExportMenu && (
+                  <div className="absolute top-full mt-2 right-0 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-2 min-w-[150px] z-10">
+                    {([['json', 'Export as JSON'], ['csv', 'Export as CSV']] as const).map(([format, label]) => (
+                      <a
+                        key={format}
+                        href={getWatchlistExportUrl(id, format, report.profile)}
+                        onClick={() => setShowExportMenu(false)}
+                        className="block w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                      >
+                        {label}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 mb-6">
+            <p className="text-sm text-amber-700 dark:text-amber-300">{notice}</p>
+          </div>
+        )}
+
+        {report && watchlist && (
+          <>
+            {watchlist.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{watchlist.description}</p>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              {/* Add domains */}
+              <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+                <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4">Add domains</h2>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={newDomains}
+                    onChange={(e) => setNewDomains(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addDomains()}
+                    placeholder="crypto.ai, defi.io or token ids"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <button
+                    onClick={addDomains}
+                    disabled={!newDomains.trim() || isSaving}
+                    className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    Add
+                  </button>
+                </div>
+              </div>
+
+              {/* Sharing */}
+              <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-base font-semibold text-gray-900 dark:text-white">Share link</h2>
+                  <button
+                    onClick={() => applyUpdate({ isPublic: !watchlist.isPublic })}
+                    disabled={isSaving}
+                    className="flex items-center gap-1.5 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {watchlist.isPublic ? <Lock className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                    {watchlist.isPublic ? 'Make private' : 'Make public'}
+                  </button>
+                </div>
+                {watchlist.isPublic && watchlist.shareToken ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={`${typeof window !== 'undefined' ? window.location.origin : ''}${getWatchlistSharePath(watchlist.shareToken)}`}
+                      className="flex-1 px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                    />
+                    <button
+                      onClick={() => copyShareLink(watchlist.shareToken!)}
+                      className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                      title="Copy link"
+                    >
+                      {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Anyone with the link can view this list read-only. Making it private again revokes the link.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <WatchlistReportView report={report} onRemove={(tokenId) => applyUpdate({ remove: [tokenId] })} />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, ListChecks, Plus, Trash2, Loader2, Globe, Upload } from 'lucide-react'
+import {
+  fetchWatchlists,
+  createWatchlist,
+  importWatchlist,
+  deleteWatchlist,
+  fetchSessionAddress,
+  signInWithWallet
+} from '@/lib/domains-api'
+import type { Watchlist } from '@/lib/domains-api'
+import { getTrackedDomains } from '@/lib/domain-tracking'
+
+export default function WatchlistsPage() {
+  const [userAddress, setUserAddress] = useState('')
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [form, setForm] = useState({ name: '', description: '', domains: '' })
+  const [trackedCount, setTrackedCount] = useState(0)
+
+  const loadWatchlists = useCallback(async (address: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setWatchlists(await fetchWatchlists(address))
+    } catch (err) {
+      console.error('Error fetching watchlists:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load watchlists')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Only the signed-in wallet can see and change its private lists
+  useEffect(() => {
+    setTrackedCount(getTrackedDomains().length)
+    fetchSessionAddress().catch(() => null).then(address => {
+      if (!address) return
+      setUserAddress(address)
+      loadWatchlists(address)
+    })
+  }, [loadWatchlists])
+
+  const signIn = async () => {
+    try {
+      const address = userAddress || await signInWithWallet()
+      setUserAddress(address)
+      await loadWatchlists(address)
+    } catch (err) {
+      console.error('Error signing in:', err)
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    }
+  }
+
+  const reportUnresolved = (unresolved: string[]) => {
+    setNotice(unresolved.length > 0
+      ? `Not found and left out: ${unresolved.slice(0, 10).join(', ')}${unresolved.length > 10 ? ` and ${unresolved.length - 10} more` : ''}`
+      : null)
+  }
+
+  // The textarea takes names or token ids, or the contents of an exported file
+  const handleCreate = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const { data, unresolved } = form.domains.trim()
+        ? await importWatchlist({
+          userAddress,
+          name: form.name || undefined,
+          description: form.description || undefined,
+          content: form.domains
+        })
+        : await createWatchlist({ userAddress, name: form.name, description: form.description || undefined })
+      setWatchlists([data, ...watchlists])
+      setForm({ name: '', description: '', domains: '' })
+      reportUnresolved(unresolved)
+    } catch (err) {
+      console.error('Error creating watchlist:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create watchlist')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setForm({ ...form, domains: await file.text() })
+  }
+
+  // Copy the browser's tracked domains (used by alerts) into a server-side list
+  const importTracked = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const { data, unresolved } = await createWatchlist({
+        userAddress,
+        name: 'Tracked domains',
+        domains: getTrackedDomains().map(d => d.tokenId)
+      })
+      setWatchlists([data, ...watchlists])
+      reportUnresolved(unresolved)
+    } catch (err) {
+      console.error('Error importing tracked domains:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import tracked domains')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteWatchlist(id)
+      setWatchlists(watchlists.filter(w => w.id !== id))
+    } catch (err) {
+      console.error('Error deleting watchlist:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete watchlist')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <Link href="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              <span className="text-sm font-medium">Back</span>
+            </Link>
+            <div className="flex items-center gap-2">
+              <ListChecks className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h1 className="text-lg font-semibold text-gray-900 dark:text-white">Watchlists</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {/* Owner */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Your wallet
+          </label>
+          <div className="flex gap-3">
+            <div className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white truncate">
+              {userAddress || <span className="font-sans text-gray-500 dark:text-gray-400">Not signed in</span>}
+            </div>
+            <button
+              onClick={signIn}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {userAddress ? 'Load watchlists' : 'Sign in with wallet'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 mb-6">
+            <p className="text-sm text-amber-700 dark:text-amber-300">{notice}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Lists */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+              <h2 className="text-base font-semibold text-gray-900 dark:text-white">Your watchlists</h2>
+              {trackedCount > 0 && (
+                <button
+                  onClick={importTracked}
+                  disabled={!userAddress || isSaving}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                  Import {trackedCount} tracked domain{trackedCount === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+            {isLoading ? (
+              <div className="p-6 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading...
+              </div>
+            ) : watchlists.length === 0 ? (
+              <p className="p-6 text-sm text-gray-600 dark:text-gray-400">No watchlists yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                {watchlists.map(watchlist => (
+                  <div key={watchlist.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Link href={`/watchlists/${watchlist.id}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                          {watchlist.name}
+                        </Link>
+                        {watchlist.isPublic && (
+                          <span className="flex items-center gap-1 px-1.5 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
+                            <Globe className="w-3 h-3" />
+                            Shared
+                          </span>
+                        )}
+                      </div>
+                      {watchlist.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{watchlist.description}</p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {watchlist.tokenIds.length} domain{watchlist.tokenIds.length === 1 ? '' : 's'} · updated {new Date(watchlist.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(watchlist.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      title="Delete watchlist"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* New list */}
+          <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4">New watchlist</h2>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Domains (one per line)</label>
+                  <label className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 cursor-pointer hover:underline">
+                    <Upload className="w-3 h-3" />
+                    Import file
+                    <input
+                      type="file"
+                      accept=".json,.csv,.txt"
+                      onChange={(e) => handleFile(e.target.files?.[0])}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+                <textarea
+                  value={form.domains}
+                  onChange={(e) => setForm({ ...form, domains: e.target.value })}
+                  rows={6}
+                  placeholder={'crypto.ai\n1234567890...'}
+                  className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Names or token ids, a CSV, or a file exported from another watchlist.
+                </p>
+              </div>
+              <button
+                onClick={handleCreate}
+                disabled={!userAddress || (!form.name && !form.domains.trim().startsWith('{')) || isSaving}
+                className="w-full px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Create watchlist
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, ListChecks, Globe } from 'lucide-react'
+import { fetchSharedWatchlist } from '@/lib/domains-api'
+import type { SharedWatchlistReport } from '@/lib/domains-api'
+import { WatchlistReportView } from '@/components/watchlists/watchlist-panels'
+
+export default function SharedWatchlistPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [report, setReport] = useState<SharedWatchlistReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await fetchSharedWatchlist(token)
+      if (!result) {
+        setError('This watchlist does not exist or is no longer shared')
+        return
+      }
+      setReport(result)
+    } catch (err) {
+      console.error('Error fetching shared watchlist:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load watchlist')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading watchlist...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-4">
+              <Link href="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="text-sm font-medium">Dometrics</span>
+              </Link>
+              <div className="flex items-center gap-2">
+                <ListChecks className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h1 className="text-lg font-semibold text-gray-900 dark:text-white">{report?.watchlist.name || 'Shared Watchlist'}</h1>
+              </div>
+            </div>
+            <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
+              <Globe className="w-3 h-3" />
+              Shared read-only
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-6">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <>
+            {report.watchlist.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{report.watchlist.description}</p>
+            )}
+            <WatchlistReportView report={report} />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { ArrowUpRight, Clock, Lock, TrendingUp, Sparkles, AlertCircle } from 'lu
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { cn, formatDate, getDaysUntil, getScoreBadgeColor } from '@/lib/utils'
 import { DomainScores } from '@/lib/scoring'
+import { toUnicodeName } from '@/lib/idn'
 import Link from 'next/link'
 
 interface DomainCardProps {
@@ -25,6 +26,7 @@ interface DomainCardProps {
 export function DomainCard({ domain, scores, onSelect }: DomainCardProps) {
   const daysUntilExpiry = getDaysUntil(domain.expiresAt)
   const fullName = `${domain.name}.${domain.tld}`
+  const displayName = toUnicodeName(fullName)
 
   return (
     <motion.div
@@ -40,8 +42,11 @@ export function DomainCard({ domain, scores, onSelect }: DomainCardProps) {
           <div className="flex items-start justify-between">
             <div>
               <CardTitle className="text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-                {fullName}
+                {displayName}
               </CardTitle>
+              {displayName !== fullName && (
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">{fullName}</p>
+              )}
               <div className="flex items-center gap-2 mt-2">
                 <span className="text-xs text-gray-500 dark:text-gray-400">
                   Token #{domain.tokenId.slice(0, 8)}...
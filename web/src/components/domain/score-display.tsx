@@ -1,9 +1,10 @@
 'use client'
 
+import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { Info, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { Info, TrendingUp, TrendingDown, Minus, ChevronDown, ChevronUp } from 'lucide-react'
 import { cn, getScoreColor } from '@/lib/utils'
-import { ScoreFactor } from '@/lib/scoring'
+import { ScoreFactor, ScoreExplanation, Counterfactual } from '@/lib/scoring'
 import * as Tooltip from '@radix-ui/react-tooltip'
 
 interface ScoreDisplayProps {
@@ -13,6 +14,9 @@ interface ScoreDisplayProps {
   factors?: ScoreFactor[]
   previousValue?: number
   confidenceInterval?: { low: number; high: number }
+  // Explain mode: full arithmetic and what-if scenarios for this score
+  explanation?: ScoreExplanation
+  counterfactuals?: Counterfactual[]
 }
 
 export function ScoreDisplay({ 
@@ -21,8 +25,11 @@ export function ScoreDisplay({
   type, 
   factors, 
   previousValue,
-  confidenceInterval 
+  confidenceInterval,
+  explanation,
+  counterfactuals
 }: ScoreDisplayProps) {
+  const [showExplanation, setShowExplanation] = useState(false)
   const trend = previousValue !== undefined ? value - previousValue : 0
   const trendIcon = trend > 0 ? <TrendingUp className="w-4 h-4" /> : 
                     trend < 0 ? <TrendingDown className="w-4 h-4" /> : 
@@ -55,7 +62,9 @@ export function ScoreDisplay({
                     sideOffset={5}
                   >
                     <div className="space-y-2">
-                      <p className="text-xs font-semibold mb-2">Top Contributing Factors:</p>
+                      <p className="text-xs font-semibold mb-2">
+                        {explanation ? 'All Contributing Factors:' : 'Top Contributing Factors:'}
+                      </p>
                       {factors.map((factor, i) => (
                         <div key={i} className="text-xs">
                           <div className="flex justify-between items-center">
@@ -142,6 +151,40 @@ export function ScoreDisplay({
             />
           </div>
         </div>
+
+        {/* Explanation */}
+        {explanation && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              onClick={() => setShowExplanation(!showExplanation)}
+              className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              {showExplanation ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              How this score is calculated
+            </button>
+
+            {showExplanation && (
+              <div className="mt-3 space-y-3">
+                <ol className="space-y-1 text-xs font-mono text-gray-600 dark:text-gray-400">
+                  {explanation.steps.map((step, i) => (
+                    <li key={i}>{step}</li>
+                  ))}
+                </ol>
+
+                {counterfactuals && counterfactuals.length > 0 && (
+                  <div>
+                    <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">What would change it</p>
+                    <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                      {counterfactuals.map((counterfactual, i) => (
+                        <li key={i}>{counterfactual.description}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </motion.div>
   )
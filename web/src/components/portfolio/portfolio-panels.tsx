@@ -0,0 +1,221 @@
+'use client'
+
+import Link from 'next/link'
+import { DollarSign, Shield, Clock, TrendingUp, TrendingDown, PieChart } from 'lucide-react'
+import type { PortfolioHolding, PortfolioSummary } from '@/lib/portfolio'
+
+export function formatUsd(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+export function formatPnl(value: number | null, pct: number | null): string {
+  if (value === null) return '—'
+  const sign = value >= 0 ? '+' : '-'
+  return `${sign}${formatUsd(Math.abs(value))}${pct !== null ? ` (${sign}${Math.abs(pct).toFixed(1)}%)` : ''}`
+}
+
+export function shortAddress(owner: string): string {
+  const address = owner.split(':').pop() || owner
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function PortfolioSummaryCards({ summary }: { summary: PortfolioSummary }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Estimated Value</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatUsd(summary.totalValue)}</p>
+          </div>
+          <div className="w-8 h-8 bg-blue-100 dark:bg-blue-900/20 rounded-lg flex items-center justify-center">
+            <DollarSign className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{summary.count} names</p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Weighted Risk</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary.weightedRisk.toFixed(1)}</p>
+          </div>
+          <div className="w-8 h-8 bg-amber-100 dark:bg-amber-900/20 rounded-lg flex items-center justify-center">
+            <Shield className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Weighted by estimated value</p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Unrealized P&L</p>
+            <p className={`text-2xl font-bold ${summary.unrealizedPnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {summary.pricedCount > 0 ? formatPnl(summary.unrealizedPnl, null) : '—'}
+            </p>
+          </div>
+          <div className="w-8 h-8 bg-green-100 dark:bg-green-900/20 rounded-lg flex items-center justify-center">
+            {summary.unrealizedPnl >= 0
+              ? <TrendingUp className="w-4 h-4 text-green-600 dark:text-green-400" />
+              : <TrendingDown className="w-4 h-4 text-red-600 dark:text-red-400" />}
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {summary.pricedCount} of {summary.count} with a purchase price
+          {summary.unrealizedPnlPct !== null && ` · ${summary.unrealizedPnlPct >= 0 ? '+' : ''}${summary.unrealizedPnlPct.toFixed(1)}%`}
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Expiring ≤ 90 days</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary.upcomingExpiries.length}</p>
+          </div>
+          <div className="w-8 h-8 bg-red-100 dark:bg-red-900/20 rounded-lg flex items-center justify-center">
+            <Clock className="w-4 h-4 text-red-600 dark:text-red-400" />
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {formatUsd(summary.upcomingExpiries.reduce((sum, d) => sum + d.price, 0))} at stake
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export function ConcentrationPanel({ summary }: { summary: Pick<PortfolioSummary, 'concentration'> }) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2 mb-4">
+        <PieChart className="w-4 h-4 text-gray-500" />
+        <h2 className="text-base font-semibold text-gray-900 dark:text-white">Concentration by TLD</h2>
+      </div>
+      {summary.concentration.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No holdings</p>
+      ) : (
+        <div className="space-y-3">
+          {summary.concentration.map(group => (
+            <div key={group.tld}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-900 dark:text-white">.{group.tld}</span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {group.count} · {formatUsd(group.value)} · {(group.share * 100).toFixed(1)}%
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${group.share * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function UpcomingExpiriesPanel({ summary }: { summary: Pick<PortfolioSummary, 'upcomingExpiries'> }) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2 mb-4">
+        <Clock className="w-4 h-4 text-gray-500" />
+        <h2 className="text-base font-semibold text-gray-900 dark:text-white">Upcoming Expiries</h2>
+      </div>
+      {summary.upcomingExpiries.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">Nothing expires in the next 90 days</p>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-800">
+          {summary.upcomingExpiries.map(item => (
+            <div key={item.tokenId} className="flex items-center justify-between py-2 text-sm">
+              <Link href={`/domain/${item.tokenId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                {item.name}
+              </Link>
+              <span className={item.daysUntilExpiry <= 30 ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-600 dark:text-gray-400'}>
+                {item.daysUntilExpiry} days · {new Date(item.expiresAt).toLocaleDateString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface HoldingsTableProps {
+  holdings: PortfolioHolding[]
+  // Group reports show which wallet holds each name
+  showWallet?: boolean
+  emptyMessage?: string
+}
+
+export function HoldingsTable({ holdings, showWallet, emptyMessage = 'No tokenized names held.' }: HoldingsTableProps) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-base font-semibold text-gray-900 dark:text-white">Holdings</h2>
+      </div>
+      {holdings.length === 0 ? (
+        <p className="p-6 text-sm text-gray-600 dark:text-gray-400">{emptyMessage}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-3 font-medium">Domain</th>
+                {showWallet && <th className="px-6 py-3 font-medium">Wallet</th>}
+                <th className="px-6 py-3 font-medium text-right">Value</th>
+                <th className="px-6 py-3 font-medium text-right">Risk</th>
+                <th className="px-6 py-3 font-medium text-right">6M Forecast</th>
+                <th className="px-6 py-3 font-medium text-right">Acquired</th>
+                <th className="px-6 py-3 font-medium text-right">Unrealized P&L</th>
+                <th className="px-6 py-3 font-medium text-right">Expires</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {holdings.map(holding => (
+                <tr key={holding.tokenId}>
+                  <td className="px-6 py-3">
+                    <Link href={`/domain/${holding.tokenId}`} className="text-blue-600 dark:text-blue-400 hover:underline font-medium">
+                      {holding.name}
+                    </Link>
+                  </td>
+                  {showWallet && (
+                    <td className="px-6 py-3">
+                      <Link href={`/portfolio/${encodeURIComponent(holding.owner)}`} className="font-mono text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400">
+                        {shortAddress(holding.owner)}
+                      </Link>
+                    </td>
+                  )}
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{formatUsd(holding.price)}</td>
+                  <td className="px-6 py-3 text-right">
+                    <span className={
+                      holding.scores.risk < 30 ? 'text-green-600 dark:text-green-400' :
+                      holding.scores.risk < 70 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'
+                    }>
+                      {holding.scores.risk}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{holding.scores.forecast}</td>
+                  <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-400">
+                    {holding.acquisition
+                      ? `${formatUsd(holding.acquisition.priceUsd)} · ${new Date(holding.acquisition.date).toLocaleDateString()}`
+                      : '—'}
+                  </td>
+                  <td className={`px-6 py-3 text-right ${
+                    holding.unrealizedPnl === null ? 'text-gray-400' :
+                    holding.unrealizedPnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                  }`}>
+                    {formatPnl(holding.unrealizedPnl, holding.unrealizedPnlPct)}
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-400">{holding.daysUntilExpiry}d</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import Link from 'next/link'
+import { DollarSign, Shield, Sparkles, TrendingUp, Trash2 } from 'lucide-react'
+import type { ScoredDomain } from '@/lib/domain-scoring'
+import type { WatchlistReport, WatchlistSummary } from '@/lib/watchlists'
+import { ConcentrationPanel, UpcomingExpiriesPanel, formatUsd } from '@/components/portfolio/portfolio-panels'
+
+export function WatchlistSummaryCards({ summary }: { summary: WatchlistSummary }) {
+  const cards = [
+    {
+      label: 'Estimated Value',
+      value: formatUsd(summary.totalValue),
+      note: `${summary.count} names`,
+      icon: <DollarSign className="w-4 h-4 text-blue-600 dark:text-blue-400" />,
+      tint: 'bg-blue-100 dark:bg-blue-900/20'
+    },
+    {
+      label: 'Weighted Risk',
+      value: summary.weightedRisk.toFixed(1),
+      note: `${summary.riskDistribution.low} low / ${summary.riskDistribution.medium} medium / ${summary.riskDistribution.high} high`,
+      icon: <Shield className="w-4 h-4 text-amber-600 dark:text-amber-400" />,
+      tint: 'bg-amber-100 dark:bg-amber-900/20'
+    },
+    {
+      label: 'Average Rarity',
+      value: summary.averageRarity.toFixed(1),
+      note: `Weighted forecast ${summary.weightedForecast.toFixed(1)}`,
+      icon: <Sparkles className="w-4 h-4 text-purple-600 dark:text-purple-400" />,
+      tint: 'bg-purple-100 dark:bg-purple-900/20'
+    },
+    {
+      label: 'Average Momentum',
+      value: summary.averageMomentum.toFixed(1),
+      note: `${summary.upcomingExpiries.length} expiring ≤ 90 days`,
+      icon: <TrendingUp className="w-4 h-4 text-green-600 dark:text-green-400" />,
+      tint: 'bg-green-100 dark:bg-green-900/20'
+    }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      {cards.map(card => (
+        <div key={card.label} className="bg-white dark:bg-gray-900 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{card.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{card.value}</p>
+            </div>
+            <div className={`w-8 h-8 ${card.tint} rounded-lg flex items-center justify-center`}>
+              {card.icon}
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{card.note}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface WatchlistDomainsTableProps {
+  domains: ScoredDomain[]
+  // Owners get a remove button per row; share links are read-only
+  onRemove?: (tokenId: string) => void
+}
+
+export function WatchlistDomainsTable({ domains, onRemove }: WatchlistDomainsTableProps) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-base font-semibold text-gray-900 dark:text-white">Domains</h2>
+      </div>
+      {domains.length === 0 ? (
+        <p className="p-6 text-sm text-gray-600 dark:text-gray-400">No domains on this list yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-3 font-medium">Domain</th>
+                <th className="px-6 py-3 font-medium text-right">Value</th>
+                <th className="px-6 py-3 font-medium text-right">Risk</th>
+                <th className="px-6 py-3 font-medium text-right">Rarity</th>
+                <th className="px-6 py-3 font-medium text-right">Momentum</th>
+                <th className="px-6 py-3 font-medium text-right">6M Forecast</th>
+                <th className="px-6 py-3 font-medium text-right">Expires</th>
+                {onRemove && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {domains.map(domain => (
+                <tr key={domain.tokenId}>
+                  <td className="px-6 py-3">
+                    <Link href={`/domain/${domain.tokenId}`} className="text-blue-600 dark:text-blue-400 hover:underline font-medium">
+                      {domain.name}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{formatUsd(domain.price)}</td>
+                  <td className="px-6 py-3 text-right">
+                    <span className={
+                      domain.scores.risk < 30 ? 'text-green-600 dark:text-green-400' :
+                      domain.scores.risk < 70 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'
+                    }>
+                      {domain.scores.risk}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{domain.scores.rarity}</td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{domain.scores.momentum}</td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{domain.scores.forecast}</td>
+                  <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-400">{domain.daysUntilExpiry}d</td>
+                  {onRemove && (
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => onRemove(domain.tokenId)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Remove from watchlist"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Aggregates, breakdowns and the domain table, shared by the owner's page and share links
+ */
+export function WatchlistReportView({
+  report,
+  onRemove
+}: {
+  report: Pick<WatchlistReport, 'summary' | 'domains' | 'missing' | 'profile' | 'weightsVersion'>
+  onRemove?: (tokenId: string) => void
+}) {
+  return (
+    <>
+      <WatchlistSummaryCards summary={report.summary} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        <ConcentrationPanel summary={report.summary} />
+        <UpcomingExpiriesPanel summary={report.summary} />
+      </div>
+
+      <WatchlistDomainsTable domains={report.domains} onRemove={onRemove} />
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        Scored with the {report.profile} profile ({report.weightsVersion || 'n/a'}). Risk and forecast are weighted by estimated value.
+        {report.missing.length > 0 && ` ${report.missing.length} token${report.missing.length === 1 ? '' : 's'} on this list could not be found.`}
+      </p>
+    </>
+  )
+}
@@ -0,0 +1,220 @@
+/**
+ * Rolling activity aggregates per token
+ * Feeds real 7d/30d market activity into the scoring engine, from stored
+ * DomainStats when available and from the subgraph otherwise
+ */
+
+import { prisma } from './prisma'
+import { domaClient } from './doma-client'
+import type { NameModel, TokenActivity } from './doma-client'
+
+export type InputSource = 'stored' | 'live' | 'default'
+
+export interface ActivityAggregates {
+  offers7d: number
+  offers30d: number
+  listings7d: number
+  listings30d: number
+  transfers7d: number
+  transfers30d: number
+  renewals365d: number
+  activity7d: number
+  activity30d: number
+  offerCount: number
+  renewalCount: number
+  recentEvents: Array<{ type: string; timestamp: Date }>
+  source: InputSource
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECENT_EVENTS_WINDOW_MS = 72 * 60 * 60 * 1000
+
+/**
+ * Where each scoring input came from, so consumers can judge how much to trust a score
+ */
+export function getInputSources(
+  name: NameModel,
+  activitySource: InputSource,
+  contract?: { registrarOf?: bigint } | null
+): Record<string, InputSource> {
+  return {
+    expiresAt: 'live',
+    lockStatus: 'live',
+    registrarId: contract?.registrarOf || name.registrar?.ianaId ? 'live' : 'default',
+    tokenizedAt: name.tokenizedAt ? 'live' : 'default',
+    activity: activitySource,
+    offerCount: activitySource,
+    renewalCount: activitySource
+  }
+}
+
+const EMPTY_AGGREGATES: Omit<ActivityAggregates, 'source'> = {
+  offers7d: 0,
+  offers30d: 0,
+  listings7d: 0,
+  listings30d: 0,
+  transfers7d: 0,
+  transfers30d: 0,
+  renewals365d: 0,
+  activity7d: 0,
+  activity30d: 0,
+  offerCount: 0,
+  renewalCount: 0,
+  recentEvents: []
+}
+
+export class ActivityAggregator {
+  /**
+   * Build aggregates from a stored DomainStats row (maintained by the ingestion worker)
+   */
+  fromStats(
+    stats: {
+      offersCount7d: number
+      offersCount30d: number
+      listingsCount7d: number
+      listingsCount30d: number
+      transfersCount7d: number
+      transfersCount30d: number
+      renewalsCount365d: number
+    },
+    recentEvents: Array<{ type: string; timestamp: Date }> = []
+  ): ActivityAggregates {
+    return {
+      offers7d: stats.offersCount7d,
+      offers30d: stats.offersCount30d,
+      listings7d: stats.listingsCount7d,
+      listings30d: stats.listingsCount30d,
+      transfers7d: stats.transfersCount7d,
+      transfers30d: stats.transfersCount30d,
+      renewals365d: stats.renewalsCount365d,
+      activity7d: stats.offersCount7d + stats.listingsCount7d + stats.transfersCount7d,
+      activity30d: stats.offersCount30d + stats.listingsCount30d + stats.transfersCount30d,
+      offerCount: stats.offersCount30d,
+      renewalCount: stats.renewalsCount365d,
+      recentEvents,
+      source: 'stored'
+    }
+  }
+
+  /**
+   * Build aggregates from subgraph token activities and active offers
+   */
+  fromActivities(activities: TokenActivity[], offers: any[], now: number = Date.now()): ActivityAggregates {
+    const since7d = now - 7 * DAY_MS
+    const since30d = now - 30 * DAY_MS
+    const since365d = now - 365 * DAY_MS
+    const since72h = now - RECENT_EVENTS_WINDOW_MS
+
+    const countSince = (type: TokenActivity['type'], since: number) =>
+      activities.filter(a => a.type === type && new Date(a.createdAt).getTime() > since).length
+
+    const offers7d = countSince('OFFER_RECEIVED', since7d)
+    const offers30d = countSince('OFFER_RECEIVED', since30d)
+    const listings7d = countSince('LISTED', since7d)
+    const listings30d = countSince('LISTED', since30d)
+    const transfers7d = countSince('TRANSFERRED', since7d)
+    const transfers30d = countSince('TRANSFERRED', since30d)
+    const renewals365d = countSince('RENEWED', since365d)
+
+    return {
+      offers7d,
+      offers30d,
+      listings7d,
+      listings30d,
+      transfers7d,
+      transfers30d,
+      renewals365d,
+      activity7d: activities.filter(a => new Date(a.createdAt).getTime() > since7d).length,
+      activity30d: activities.filter(a => new Date(a.createdAt).getTime() > since30d).length,
+      offerCount: offers.length,
+      renewalCount: renewals365d,
+      recentEvents: activities
+        .filter(a => new Date(a.createdAt).getTime() > since72h)
+        .map(a => ({ type: a.type, timestamp: new Date(a.createdAt) })),
+      source: 'live'
+    }
+  }
+
+  /**
+   * Zeroed aggregates, flagged so callers can tell nothing real was found
+   */
+  defaults(): ActivityAggregates {
+    return { ...EMPTY_AGGREGATES, recentEvents: [], source: 'default' }
+  }
+
+  /**
+   * Aggregates for many tokens: stored stats first, live subgraph reads for the rest
+   */
+  async getAggregates(
+    tokenIds: string[],
+    options: { live?: boolean; concurrency?: number } = {}
+  ): Promise<Map<string, ActivityAggregates>> {
+    const live = options.live ?? true
+    const concurrency = options.concurrency ?? 5
+    const result = new Map<string, ActivityAggregates>()
+
+    if (process.env.DATABASE_URL && tokenIds.length > 0) {
+      try {
+        const stored = await this.getStoredAggregates(tokenIds)
+        stored.forEach((aggregates, tokenId) => result.set(tokenId, aggregates))
+      } catch (error) {
+        console.error('Error reading stored domain stats:', error)
+      }
+    }
+
+    const missing = tokenIds.filter(id => !result.has(id))
+    if (live) {
+      for (let i = 0; i < missing.length; i += concurrency) {
+        const batch = missing.slice(i, i + concurrency)
+        const aggregates = await Promise.all(batch.map(tokenId => this.getLiveAggregates(tokenId)))
+        batch.forEach((tokenId, index) => result.set(tokenId, aggregates[index]))
+      }
+    }
+
+    for (const tokenId of tokenIds) {
+      if (!result.has(tokenId)) result.set(tokenId, this.defaults())
+    }
+
+    return result
+  }
+
+  async getLiveAggregates(tokenId: string): Promise<ActivityAggregates> {
+    try {
+      const [activities, offers] = await Promise.all([
+        domaClient.getTokenActivities(tokenId, 100),
+        domaClient.getTokenOffers(tokenId, 50)
+      ])
+      if (activities.length === 0 && offers.length === 0) return this.defaults()
+      return this.fromActivities(activities, offers)
+    } catch (error) {
+      console.error(`Error aggregating activity for token ${tokenId}:`, error)
+      return this.defaults()
+    }
+  }
+
+  private async getStoredAggregates(tokenIds: string[]): Promise<Map<string, ActivityAggregates>> {
+    const domains: any[] = await prisma.domain.findMany({
+      where: { tokenId: { in: tokenIds }, stats: { isNot: null } },
+      select: { tokenId: true, stats: true }
+    })
+
+    const recent: Array<{ tokenId: string; type: string; occurredAt: Date }> = await prisma.domainEvent.findMany({
+      where: {
+        tokenId: { in: domains.map(d => d.tokenId) },
+        occurredAt: { gte: new Date(Date.now() - RECENT_EVENTS_WINDOW_MS) }
+      },
+      select: { tokenId: true, type: true, occurredAt: true }
+    })
+
+    const result = new Map<string, ActivityAggregates>()
+    for (const domain of domains) {
+      const recentEvents = recent
+        .filter(e => e.tokenId === domain.tokenId)
+        .map(e => ({ type: e.type, timestamp: new Date(e.occurredAt) }))
+      result.set(domain.tokenId, this.fromStats(domain.stats, recentEvents))
+    }
+    return result
+  }
+}
+
+export const activityAggregator = new ActivityAggregator()
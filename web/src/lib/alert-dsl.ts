@@ -0,0 +1,689 @@
+/**
+ * Composite alert condition language for Dometrics
+ * Parses, validates, formats and evaluates expressions such as
+ *
+ *   risk > 70 and (risk rose by 15 in 7d or new offer above $500) and tld in (ai, io)
+ *
+ * Shared by the /alerts page (live validation, browser-side rules) and the
+ * server alert engine. Nothing here touches the database: callers supply score
+ * history, events and watchlists through the evaluation context.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   expression := and ('or' and)*
+ *   and        := unary ('and' unary)*
+ *   unary      := 'not' unary | '(' expression ')' | predicate
+ *   predicate  := metric op amount                          risk >= 70, expiry < 30, value > $5k
+ *               | metric ('rose' | 'fell') 'by' amount 'in' duration
+ *               | 'new'? event ('above' amount)?            new offer above $500, sale
+ *               | 'tld' ('in' | '=') tld-list               tld in (ai, io), tld = .com
+ *               | 'watchlist' name                          watchlist "blue chips"
+ *               | 'owned'
+ */
+
+import type { ScoredDomain } from './domain-scoring'
+
+export const ALERT_METRICS = ['daysUntilExpiry', 'risk', 'rarity', 'momentum', 'forecast', 'value'] as const
+export type AlertMetric = typeof ALERT_METRICS[number]
+
+export const ALERT_EVENT_KINDS = [
+  'offer',
+  'offer_cancelled',
+  'listing',
+  'listing_cancelled',
+  'purchase',
+  'transfer',
+  'renewal',
+  'mint',
+  'burn',
+  'lock'
+] as const
+export type AlertEventKind = typeof ALERT_EVENT_KINDS[number]
+
+export type ComparisonOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'ne'
+
+export type AlertExpression =
+  | { kind: 'and'; terms: AlertExpression[] }
+  | { kind: 'or'; terms: AlertExpression[] }
+  | { kind: 'not'; term: AlertExpression }
+  | { kind: 'compare'; metric: AlertMetric; operator: ComparisonOperator; value: number; position: number }
+  | { kind: 'delta'; metric: AlertMetric; direction: 'rose' | 'fell'; amount: number; days: number; position: number }
+  | { kind: 'event'; event: AlertEventKind; minPriceUsd: number | null; position: number }
+  | { kind: 'tld'; tlds: string[]; position: number }
+  | { kind: 'watchlist'; name: string; position: number }
+  | { kind: 'owned'; position: number }
+
+export interface AlertExpressionIssue {
+  message: string
+  // Character offset into the source
+  position: number
+}
+
+export type AlertExpressionParseResult =
+  | { success: true; expression: AlertExpression }
+  | { success: false; error: AlertExpressionIssue }
+
+export interface ExpressionDomain {
+  tokenId: string
+  name: string
+  tld: string
+  owned: boolean
+  metrics: Record<AlertMetric, number>
+}
+
+export interface ExpressionEvent {
+  id: string
+  kind: AlertEventKind
+  priceUsd: number | null
+  counterparty?: string | null
+}
+
+export interface ExpressionContext {
+  domain: ExpressionDomain
+  // The metric's value `days` ago; deltas are false without it
+  previous?: (metric: AlertMetric, days: number) => number | null
+  // This domain's events since the rule last ran
+  events?: ExpressionEvent[]
+  // Lower-cased watchlist name -> tokenIds
+  watchlists?: Record<string, string[]>
+}
+
+export interface ExpressionMatch {
+  matched: boolean
+  // Human-readable reasons from the predicates that made it match
+  reasons: string[]
+  // Events that satisfied an event predicate
+  events: ExpressionEvent[]
+}
+
+export interface ExpressionRequirements {
+  deltaDays: number[]
+  eventKinds: AlertEventKind[]
+  watchlists: string[]
+}
+
+export const MAX_EXPRESSION_LENGTH = 1000
+const MAX_DELTA_DAYS = 365
+const SCORE_METRICS: AlertMetric[] = ['risk', 'rarity', 'momentum', 'forecast']
+
+const METRIC_ALIASES: Record<string, AlertMetric> = {
+  expiry: 'daysUntilExpiry',
+  expires: 'daysUntilExpiry',
+  daysuntilexpiry: 'daysUntilExpiry',
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  forecast: 'forecast',
+  value: 'value',
+  price: 'value'
+}
+
+const EVENT_ALIASES: Record<string, AlertEventKind> = {
+  offer: 'offer',
+  offers: 'offer',
+  offer_cancelled: 'offer_cancelled',
+  listing: 'listing',
+  listed: 'listing',
+  listing_cancelled: 'listing_cancelled',
+  delisted: 'listing_cancelled',
+  sale: 'purchase',
+  sold: 'purchase',
+  purchase: 'purchase',
+  transfer: 'transfer',
+  renewal: 'renewal',
+  renewed: 'renewal',
+  mint: 'mint',
+  burn: 'burn',
+  lock: 'lock'
+}
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'ne'
+}
+
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  eq: '=',
+  ne: '!='
+}
+
+const METRIC_NAMES: Record<AlertMetric, string> = {
+  daysUntilExpiry: 'expiry',
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  forecast: 'forecast',
+  value: 'value'
+}
+
+type Token =
+  | { type: 'word'; text: string; position: number }
+  | { type: 'string'; text: string; position: number }
+  // $ and k/m amounts are dollars; '%' is read only to reject it with a position
+  | { type: 'number'; value: number; unit: 'usd' | 'percent' | null; position: number }
+  | { type: 'duration'; days: number; position: number }
+  | { type: 'operator'; text: string; position: number }
+  | { type: 'punct'; text: '(' | ')' | ','; position: number }
+  | { type: 'end'; position: number }
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message)
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const rest = source.slice(i)
+    const space = rest.match(/^\s+/)
+    if (space) {
+      i += space[0].length
+      continue
+    }
+
+    const char = source[i]
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: 'punct', text: char, position: i })
+      i++
+      continue
+    }
+
+    const logical = rest.match(/^(&&|\|\|)/)
+    if (logical) {
+      tokens.push({ type: 'word', text: logical[0] === '&&' ? 'and' : 'or', position: i })
+      i += 2
+      continue
+    }
+
+    const operator = rest.match(/^(<=|>=|==|!=|<|>|=)/)
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator[0], position: i })
+      i += operator[0].length
+      continue
+    }
+    if (char === '!') {
+      tokens.push({ type: 'word', text: 'not', position: i })
+      i++
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1)
+      if (end < 0) throw new ExpressionSyntaxError('Unterminated string', i)
+      tokens.push({ type: 'string', text: source.slice(i + 1, end), position: i })
+      i = end + 1
+      continue
+    }
+
+    const number = rest.match(/^(\$)?(\d[\d,]*(?:\.\d+)?)([a-zA-Z%]*)/)
+    if (number) {
+      const [text, dollar, digits, suffix] = number
+      const value = parseFloat(digits.replace(/,/g, ''))
+      const unit = suffix.toLowerCase()
+      if (!dollar && ['h', 'd', 'w'].includes(unit)) {
+        const days = unit === 'h' ? value / 24 : unit === 'w' ? value * 7 : value
+        tokens.push({ type: 'duration', days, position: i })
+      } else if (unit === '' || unit === 'k' || unit === 'm') {
+        const scale = unit === 'k' ? 1_000 : unit === 'm' ? 1_000_000 : 1
+        tokens.push({ type: 'number', value: value * scale, unit: dollar || scale > 1 ? 'usd' : null, position: i })
+      } else if (unit === '%' && !dollar) {
+        tokens.push({ type: 'number', value, unit: 'percent', position: i })
+      } else {
+        throw new ExpressionSyntaxError(`Unknown unit "${suffix}"`, i + text.length - suffix.length)
+      }
+      i += text.length
+      continue
+    }
+
+    const word = rest.match(/^[A-Za-z_.][A-Za-z0-9_.-]*/)
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], position: i })
+      i += word[0].length
+      continue
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, i)
+  }
+
+  tokens.push({ type: 'end', position: source.length })
+  return tokens
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'end': return 'end of expression'
+    case 'number': return `number ${token.value}`
+    case 'duration': return `duration ${token.days}d`
+    case 'string': return `"${token.text}"`
+    default: return `"${token.text}"`
+  }
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): AlertExpression {
+    const expression = this.parseOr()
+    const next = this.peek()
+    if (next.type !== 'end') {
+      throw new ExpressionSyntaxError(`Expected "and", "or" or end of expression, found ${describeToken(next)}`, next.position)
+    }
+    return expression
+  }
+
+  private parseOr(): AlertExpression {
+    const terms = [this.parseAnd()]
+    while (this.acceptWord('or')) terms.push(this.parseAnd())
+    return terms.length === 1 ? terms[0] : { kind: 'or', terms }
+  }
+
+  private parseAnd(): AlertExpression {
+    const terms = [this.parseUnary()]
+    while (this.acceptWord('and')) terms.push(this.parseUnary())
+    return terms.length === 1 ? terms[0] : { kind: 'and', terms }
+  }
+
+  private parseUnary(): AlertExpression {
+    if (this.acceptWord('not')) return { kind: 'not', term: this.parseUnary() }
+    if (this.acceptPunct('(')) {
+      const expression = this.parseOr()
+      this.expectPunct(')')
+      return expression
+    }
+    return this.parsePredicate()
+  }
+
+  private parsePredicate(): AlertExpression {
+    const token = this.next()
+    if (token.type !== 'word') {
+      throw new ExpressionSyntaxError(`Expected a condition, found ${describeToken(token)}`, token.position)
+    }
+    const word = token.text.toLowerCase()
+    const position = token.position
+
+    if (word === 'owned') return { kind: 'owned', position }
+    if (word === 'tld') return { kind: 'tld', tlds: this.parseTldList(), position }
+    if (word === 'watchlist') {
+      const name = this.next()
+      if (name.type !== 'string' && name.type !== 'word') {
+        throw new ExpressionSyntaxError(`Expected a watchlist name, found ${describeToken(name)}`, name.position)
+      }
+      return { kind: 'watchlist', name: name.text, position }
+    }
+
+    const eventWord = word === 'new' ? this.expectWord('an event such as "offer"').toLowerCase() : word
+    const event = EVENT_ALIASES[eventWord]
+    if (event) {
+      let minPriceUsd: number | null = null
+      if (this.acceptWord('above') || this.acceptWord('over')) {
+        minPriceUsd = this.expectAmount(null)
+      }
+      return { kind: 'event', event, minPriceUsd, position }
+    }
+    if (word === 'new') {
+      throw new ExpressionSyntaxError(`Unknown event "${eventWord}"`, this.tokens[this.index - 1].position)
+    }
+
+    const metric = METRIC_ALIASES[word]
+    if (!metric) {
+      throw new ExpressionSyntaxError(`Unknown metric or keyword "${token.text}"`, position)
+    }
+
+    const direction = this.peekWord()
+    if (direction === 'rose' || direction === 'fell') {
+      this.index++
+      this.expectKeyword('by')
+      const amount = this.expectAmount(metric)
+      this.expectKeyword('in')
+      const duration = this.next()
+      if (duration.type !== 'duration') {
+        throw new ExpressionSyntaxError(`Expected a duration such as 7d, found ${describeToken(duration)}`, duration.position)
+      }
+      return { kind: 'delta', metric, direction, amount, days: duration.days, position }
+    }
+
+    const operator = this.next()
+    if (operator.type !== 'operator') {
+      throw new ExpressionSyntaxError(
+        `Expected a comparison (<, <=, >, >=, =, !=) or "rose"/"fell" after ${METRIC_NAMES[metric]}, found ${describeToken(operator)}`,
+        operator.position
+      )
+    }
+    return { kind: 'compare', metric, operator: OPERATORS[operator.text], value: this.expectAmount(metric), position }
+  }
+
+  private parseTldList(): string[] {
+    if (!this.acceptWord('in')) {
+      const operator = this.next()
+      if (operator.type !== 'operator' || operator.text !== '=' && operator.text !== '==') {
+        throw new ExpressionSyntaxError(`Expected "in" or "=" after tld, found ${describeToken(operator)}`, operator.position)
+      }
+    }
+    const parenthesized = this.acceptPunct('(')
+    const tlds = [this.expectTld()]
+    while (this.acceptPunct(',')) tlds.push(this.expectTld())
+    if (parenthesized) this.expectPunct(')')
+    return tlds
+  }
+
+  private expectTld(): string {
+    const token = this.next()
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new ExpressionSyntaxError(`Expected a TLD, found ${describeToken(token)}`, token.position)
+    }
+    return token.text.replace(/^\./, '').toLowerCase()
+  }
+
+  // An amount for a metric, or for an offer price when metric is null: dollars
+  // only on prices and value, plain numbers everywhere else
+  private expectAmount(metric: AlertMetric | null): number {
+    const token = this.next()
+    if (token.type !== 'number') {
+      throw new ExpressionSyntaxError(`Expected a number, found ${describeToken(token)}`, token.position)
+    }
+    const name = metric ? METRIC_NAMES[metric] : 'offer price'
+    if (token.unit === 'percent') {
+      throw new ExpressionSyntaxError(`${name} is not a percentage; write it without "%"`, token.position)
+    }
+    if (token.unit === 'usd' && metric !== null && metric !== 'value') {
+      const kind = metric === 'daysUntilExpiry' ? 'a number of days' : 'a 0-100 score'
+      throw new ExpressionSyntaxError(`${name} is ${kind}, not a dollar amount`, token.position)
+    }
+    return token.value
+  }
+
+  private expectWord(expected: string): string {
+    const token = this.next()
+    if (token.type !== 'word') {
+      throw new ExpressionSyntaxError(`Expected ${expected}, found ${describeToken(token)}`, token.position)
+    }
+    return token.text
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.peek()
+    if (!this.acceptWord(keyword)) {
+      throw new ExpressionSyntaxError(`Expected "${keyword}", found ${describeToken(token)}`, token.position)
+    }
+  }
+
+  private expectPunct(text: ')' | '('): void {
+    const token = this.peek()
+    if (!this.acceptPunct(text)) {
+      throw new ExpressionSyntaxError(`Expected "${text}", found ${describeToken(token)}`, token.position)
+    }
+  }
+
+  private acceptWord(word: string): boolean {
+    if (this.peekWord() !== word) return false
+    this.index++
+    return true
+  }
+
+  private acceptPunct(text: string): boolean {
+    const token = this.peek()
+    if (token.type !== 'punct' || token.text !== text) return false
+    this.index++
+    return true
+  }
+
+  private peekWord(): string | null {
+    const token = this.peek()
+    return token.type === 'word' ? token.text.toLowerCase() : null
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== 'end') this.index++
+    return token
+  }
+}
+
+/**
+ * Parse an expression; syntax errors carry the offset they were found at
+ */
+export function parseAlertExpression(source: string): AlertExpressionParseResult {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    return { success: false, error: { message: `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, position: MAX_EXPRESSION_LENGTH } }
+  }
+  try {
+    return { success: true, expression: new Parser(tokenize(source)).parse() }
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { success: false, error: { message: error.message, position: error.position } }
+    }
+    throw error
+  }
+}
+
+/**
+ * Semantic checks a syntactically valid expression can still fail
+ */
+export function validateAlertExpression(expression: AlertExpression): AlertExpressionIssue[] {
+  const issues: AlertExpressionIssue[] = []
+  let conditions = 0
+
+  const visit = (node: AlertExpression, negated: boolean) => {
+    switch (node.kind) {
+      case 'and':
+      case 'or':
+        node.terms.forEach(term => visit(term, negated))
+        return
+      case 'not':
+        visit(node.term, !negated)
+        return
+      case 'compare':
+        conditions++
+        if (SCORE_METRICS.includes(node.metric) && (node.value < 0 || node.value > 100)) {
+          issues.push({ message: `${METRIC_NAMES[node.metric]} is a 0-100 score`, position: node.position })
+        }
+        if (node.metric === 'value' && node.value < 0) {
+          issues.push({ message: 'value cannot be negative', position: node.position })
+        }
+        return
+      case 'delta':
+        conditions++
+        if (node.metric === 'daysUntilExpiry') {
+          issues.push({ message: 'expiry changes every day; compare it instead', position: node.position })
+        }
+        if (node.amount <= 0) {
+          issues.push({ message: 'Change must be greater than 0', position: node.position })
+        }
+        if (node.days < 1 || node.days > MAX_DELTA_DAYS) {
+          issues.push({ message: `Window must be between 1d and ${MAX_DELTA_DAYS}d (scores are snapshotted daily)`, position: node.position })
+        }
+        return
+      case 'event':
+        conditions++
+        if (negated) {
+          issues.push({ message: 'Events cannot be negated; they only say something happened', position: node.position })
+        }
+        return
+      case 'tld':
+      case 'watchlist':
+      case 'owned':
+        return
+    }
+  }
+
+  visit(expression, false)
+  if (conditions === 0) {
+    issues.push({ message: 'Add at least one metric, change or event condition; tld, watchlist and owned only narrow the scope', position: 0 })
+  }
+  return issues
+}
+
+/**
+ * Parse and validate in one step, as the API and the rule editor do
+ */
+export function checkAlertExpression(source: string): { expression: AlertExpression | null; issues: AlertExpressionIssue[] } {
+  const parsed = parseAlertExpression(source)
+  if (!parsed.success) return { expression: null, issues: [parsed.error] }
+  const issues = validateAlertExpression(parsed.expression)
+  return { expression: issues.length === 0 ? parsed.expression : null, issues }
+}
+
+function formatAmount(metric: AlertMetric | null, value: number): string {
+  if (metric === 'value' || metric === null) return `$${value.toLocaleString('en-US')}`
+  return String(value)
+}
+
+function formatDays(days: number): string {
+  return Number.isInteger(days) ? `${days}d` : `${Math.round(days * 24)}h`
+}
+
+/**
+ * Canonical source for an expression; parsing it gives the same tree back
+ */
+export function formatAlertExpression(expression: AlertExpression, parent: 'and' | 'or' | 'not' | null = null): string {
+  switch (expression.kind) {
+    case 'and':
+    case 'or': {
+      const text = expression.terms.map(term => formatAlertExpression(term, expression.kind as 'and' | 'or')).join(` ${expression.kind} `)
+      // "and" binds tighter than "or"; "not" binds tightest
+      return parent === 'not' || (parent === 'and' && expression.kind === 'or') ? `(${text})` : text
+    }
+    case 'not':
+      return `not ${formatAlertExpression(expression.term, 'not')}`
+    case 'compare':
+      return `${METRIC_NAMES[expression.metric]} ${OPERATOR_SYMBOLS[expression.operator]} ${formatAmount(expression.metric, expression.value)}`
+    case 'delta':
+      return `${METRIC_NAMES[expression.metric]} ${expression.direction} by ${formatAmount(expression.metric, expression.amount)} in ${formatDays(expression.days)}`
+    case 'event':
+      return `new ${expression.event}${expression.minPriceUsd !== null ? ` above ${formatAmount(null, expression.minPriceUsd)}` : ''}`
+    case 'tld':
+      return expression.tlds.length === 1 ? `tld = ${expression.tlds[0]}` : `tld in (${expression.tlds.join(', ')})`
+    case 'watchlist':
+      return /^[A-Za-z_.][A-Za-z0-9_.-]*$/.test(expression.name) ? `watchlist ${expression.name}` : `watchlist "${expression.name}"`
+    case 'owned':
+      return 'owned'
+  }
+}
+
+/**
+ * Data an evaluator has to load before running the expression
+ */
+export function getExpressionRequirements(expression: AlertExpression): ExpressionRequirements {
+  const deltaDays = new Set<number>()
+  const eventKinds = new Set<AlertEventKind>()
+  const watchlists = new Set<string>()
+
+  const visit = (node: AlertExpression) => {
+    switch (node.kind) {
+      case 'and':
+      case 'or': node.terms.forEach(visit); break
+      case 'not': visit(node.term); break
+      case 'delta': deltaDays.add(node.days); break
+      case 'event': eventKinds.add(node.event); break
+      case 'watchlist': watchlists.add(node.name.toLowerCase()); break
+    }
+  }
+
+  visit(expression)
+  return { deltaDays: Array.from(deltaDays), eventKinds: Array.from(eventKinds), watchlists: Array.from(watchlists) }
+}
+
+function compareValues(value: number, operator: ComparisonOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'lt': return value < threshold
+    case 'lte': return value <= threshold
+    case 'gt': return value > threshold
+    case 'gte': return value >= threshold
+    case 'eq': return value === threshold
+    case 'ne': return value !== threshold
+  }
+}
+
+/**
+ * Evaluate against one domain. Reasons only cover the branches that matched.
+ */
+export function evaluateAlertExpression(expression: AlertExpression, context: ExpressionContext): ExpressionMatch {
+  const { domain } = context
+  const no: ExpressionMatch = { matched: false, reasons: [], events: [] }
+  const yes = (reasons: string[] = [], events: ExpressionEvent[] = []): ExpressionMatch => ({ matched: true, reasons, events })
+
+  switch (expression.kind) {
+    case 'and': {
+      const results: ExpressionMatch[] = []
+      for (const term of expression.terms) {
+        const result = evaluateAlertExpression(term, context)
+        if (!result.matched) return no
+        results.push(result)
+      }
+      return yes(results.flatMap(r => r.reasons), results.flatMap(r => r.events))
+    }
+    case 'or': {
+      const results = expression.terms.map(term => evaluateAlertExpression(term, context)).filter(r => r.matched)
+      return results.length > 0 ? yes(results.flatMap(r => r.reasons), results.flatMap(r => r.events)) : no
+    }
+    case 'not':
+      return evaluateAlertExpression(expression.term, context).matched ? no : yes()
+    case 'compare': {
+      const value = domain.metrics[expression.metric]
+      return compareValues(value, expression.operator, expression.value)
+        ? yes([`${METRIC_NAMES[expression.metric]} ${formatAmount(expression.metric, value)} ${OPERATOR_SYMBOLS[expression.operator]} ${formatAmount(expression.metric, expression.value)}`])
+        : no
+    }
+    case 'delta': {
+      const previous = context.previous?.(expression.metric, expression.days)
+      if (previous === null || previous === undefined) return no
+      const change = domain.metrics[expression.metric] - previous
+      const moved = expression.direction === 'rose' ? change : -change
+      return moved >= expression.amount
+        ? yes([`${METRIC_NAMES[expression.metric]} ${expression.direction} by ${formatAmount(expression.metric, Math.round(moved * 100) / 100)} in ${formatDays(expression.days)}`])
+        : no
+    }
+    case 'event': {
+      const events = (context.events || []).filter(event =>
+        event.kind === expression.event &&
+        (expression.minPriceUsd === null || (event.priceUsd ?? 0) >= expression.minPriceUsd)
+      )
+      if (events.length === 0) return no
+      const prices = events.filter(e => e.priceUsd !== null).map(e => formatAmount(null, Math.round(e.priceUsd!)))
+      return yes([`new ${expression.event}${prices.length > 0 ? ` ${prices.join(', ')}` : ''}`], events)
+    }
+    case 'tld':
+      return expression.tlds.includes(domain.tld.toLowerCase()) ? yes() : no
+    case 'watchlist':
+      return context.watchlists?.[expression.name.toLowerCase()]?.includes(domain.tokenId) ? yes() : no
+    case 'owned':
+      return domain.owned ? yes() : no
+  }
+}
+
+/**
+ * Evaluation view of a scored domain
+ */
+export function toExpressionDomain(domain: ScoredDomain, owned: boolean): ExpressionDomain {
+  return {
+    tokenId: domain.tokenId,
+    name: domain.name,
+    tld: domain.tld,
+    owned,
+    metrics: {
+      daysUntilExpiry: domain.daysUntilExpiry,
+      risk: domain.scores.risk,
+      rarity: domain.scores.rarity,
+      momentum: domain.scores.momentum,
+      forecast: domain.scores.forecast,
+      value: domain.price
+    }
+  }
+}
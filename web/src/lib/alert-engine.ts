@@ -0,0 +1,1210 @@
+/**
+ * Server-side alert engine for Dometrics
+ * Rules live in the AlertRule table and are evaluated on the cron against fresh
+ * scores and ingested Poll API events. COMPOSITE rules hold an alert-dsl.ts
+ * expression, evaluated with score history, events and the owner's watchlists.
+ * SAVED_FILTER rules hold a dashboard search and alert when domains start or stop
+ * matching it. Matches become AlertEvent rows, recorded once per rule and
+ * dedupe key, and are handed to the rule's channels when its frequency and
+ * quiet hours allow. Failed deliveries are retried with
+ * exponential backoff and can be replayed by hand. Email goes out as one digest
+ * per dispatch, so DAILY and WEEKLY rules batch everything since the last send.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { domainScoringService } from './domain-scoring'
+import type { Catalogue, ScoredDomain } from './domain-scoring'
+import { isValidOwner, toCaip10, toAddress } from './portfolio'
+import { getWeightProfile } from './weight-profiles'
+import { webhookSender, generateWebhookSecret, checkWebhookUrl } from './webhook-channel'
+import { emailSender } from './email-channel'
+import { toMarketEvent } from './market-events'
+import { NAME_PATTERNS } from './name-patterns'
+import { EXPIRY_BUCKETS, SEARCH_SORT_FIELDS, DEFAULT_PANEL_FILTERS, describeSearch, runSearch, parseSearchText } from './saved-searches'
+import {
+  ALERT_METRICS,
+  ALERT_EVENT_KINDS,
+  MAX_EXPRESSION_LENGTH,
+  checkAlertExpression,
+  evaluateAlertExpression,
+  getExpressionRequirements,
+  parseAlertExpression,
+  toExpressionDomain
+} from './alert-dsl'
+import type { AlertMetric, AlertEventKind, ExpressionEvent } from './alert-dsl'
+
+export { ALERT_METRICS, ALERT_EVENT_KINDS }
+export type { AlertMetric, AlertEventKind }
+
+export const ALERT_TYPES = ['EVENT', 'ANALYTICS', 'SAVED_FILTER', 'COMPOSITE'] as const
+export const ALERT_CHANNELS = ['IN_APP', 'EMAIL', 'TELEGRAM', 'DISCORD', 'WEBHOOK'] as const
+export const ALERT_FREQUENCIES = ['IMMEDIATE', 'HOURLY', 'DAILY', 'WEEKLY'] as const
+export const ALERT_STATUSES = ['ACTIVE', 'PAUSED', 'DISABLED'] as const
+export const DELIVERY_STATUSES = ['PENDING', 'DELIVERED', 'FAILED', 'RETRYING'] as const
+
+export type AlertType = typeof ALERT_TYPES[number]
+export type AlertChannel = typeof ALERT_CHANNELS[number]
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number]
+export type AlertStatus = typeof ALERT_STATUSES[number]
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number]
+export type AlertSeverity = 'low' | 'medium' | 'high'
+
+// Which domains a rule looks at; no scope means the whole catalogue
+const scopeShape = {
+  tokenIds: z.array(z.string().regex(/^\d+$/)).max(500).optional(),
+  ownedOnly: z.boolean().optional()
+}
+
+export const metricConditionSchema = z.object({
+  metric: z.enum(ALERT_METRICS),
+  operator: z.enum(['lt', 'lte', 'gt', 'gte']),
+  value: z.number().finite(),
+  profile: z.string().refine(name => getWeightProfile(name) !== null, { message: 'unknown weight profile' }).optional(),
+  ...scopeShape
+}).refine(
+  // Forecast is a score like the others, not a growth percentage
+  condition => condition.metric === 'daysUntilExpiry' || condition.metric === 'value' || (condition.value >= 0 && condition.value <= 100),
+  { message: 'risk, rarity, momentum and forecast are 0-100 scores', path: ['value'] }
+)
+
+export const eventConditionSchema = z.object({
+  events: z.array(z.enum(ALERT_EVENT_KINDS)).min(1),
+  minPriceUsd: z.number().nonnegative().optional(),
+  ...scopeShape
+})
+
+export const compositeConditionSchema = z.object({
+  expression: z.string().trim().min(1).max(MAX_EXPRESSION_LENGTH).superRefine((source, ctx) => {
+    for (const issue of checkAlertExpression(source).issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${issue.message} (at character ${issue.position + 1})` })
+    }
+  }),
+  profile: z.string().refine(name => getWeightProfile(name) !== null, { message: 'unknown weight profile' }).optional(),
+  ...scopeShape
+})
+
+const scoreRange = z.tuple([z.number().min(0).max(100), z.number().min(0).max(100)])
+  .refine(([min, max]) => min <= max, { message: 'range minimum is above its maximum' })
+const digitsSchema = z.string().regex(/^\d*$/, { message: 'must be a whole number' })
+
+// The dashboard's advanced filter panel; missing fields take the panel defaults
+export const searchPanelSchema = z.object({
+  tld: z.string().trim().min(1).max(63),
+  minLength: digitsSchema,
+  maxLength: digitsSchema,
+  riskRange: scoreRange,
+  rarityRange: scoreRange,
+  momentumRange: scoreRange,
+  minValue: digitsSchema,
+  maxValue: digitsSchema,
+  daysUntilExpiry: z.enum(EXPIRY_BUCKETS),
+  highGrowth: z.boolean(),
+  pattern: z.enum(['all', ...NAME_PATTERNS]),
+  sortBy: z.enum(SEARCH_SORT_FIELDS),
+  sortOrder: z.enum(['asc', 'desc'])
+}).partial()
+
+export const SEARCH_CHANGES = ['enter', 'exit'] as const
+export type SearchChange = typeof SEARCH_CHANGES[number]
+
+export const savedFilterConditionSchema = z.object({
+  // Query as typed in the dashboard search bar: natural language or structured
+  query: z.string().trim().max(500).default('').superRefine((source, ctx) => {
+    const { error } = parseSearchText(source)
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${error.message} (at character ${error.position + 1})` })
+    }
+  }),
+  filters: searchPanelSchema.default({}),
+  notifyOn: z.array(z.enum(SEARCH_CHANGES)).min(1).default(['enter', 'exit']),
+  profile: z.string().refine(name => getWeightProfile(name) !== null, { message: 'unknown weight profile' }).optional(),
+  ...scopeShape
+})
+
+export type MetricCondition = z.infer<typeof metricConditionSchema>
+export type EventCondition = z.infer<typeof eventConditionSchema>
+export type CompositeCondition = z.infer<typeof compositeConditionSchema>
+export type SavedFilterCondition = z.infer<typeof savedFilterConditionSchema>
+export type AlertConditions = MetricCondition | EventCondition | CompositeCondition | SavedFilterCondition
+
+const CONDITION_SCHEMAS: Partial<Record<AlertType, z.ZodTypeAny>> = {
+  ANALYTICS: metricConditionSchema,
+  EVENT: eventConditionSchema,
+  COMPOSITE: compositeConditionSchema,
+  SAVED_FILTER: savedFilterConditionSchema
+}
+
+/**
+ * Schema for the conditions of a rule type; null when the engine can't evaluate that type
+ */
+export function getConditionSchema(type: AlertType): z.ZodTypeAny | null {
+  return CONDITION_SCHEMAS[type] || null
+}
+
+const hourSchema = z.number().int().min(0).max(23).nullable()
+
+const ruleSettingsShape = {
+  name: z.string().trim().min(1).max(100),
+  channels: z.array(z.enum(ALERT_CHANNELS)).min(1),
+  frequency: z.enum(ALERT_FREQUENCIES),
+  quietHoursStart: hourSchema,
+  quietHoursEnd: hourSchema,
+  webhookUrl: z.string().trim().max(2048).superRefine((url, ctx) => {
+    const problem = checkWebhookUrl(url)
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem })
+  }).nullable(),
+  webhookSecret: z.string().min(16).max(256).nullable(),
+  email: z.string().trim().max(254).email().nullable()
+}
+
+const quietHoursPaired = (rule: { quietHoursStart?: number | null; quietHoursEnd?: number | null }) =>
+  (rule.quietHoursStart == null) === (rule.quietHoursEnd == null)
+const quietHoursMessage = { message: 'quietHoursStart and quietHoursEnd must be set together', path: ['quietHoursEnd'] }
+
+const webhookConfigured = (rule: { channels?: AlertChannel[]; webhookUrl?: string | null }) =>
+  !rule.channels?.includes('WEBHOOK') || !!rule.webhookUrl
+const webhookMessage = { message: 'webhookUrl is required for the WEBHOOK channel', path: ['webhookUrl'] }
+
+const emailConfigured = (rule: { channels?: AlertChannel[]; email?: string | null }) =>
+  !rule.channels?.includes('EMAIL') || !!rule.email
+const emailMessage = { message: 'email is required for the EMAIL channel', path: ['email'] }
+
+const createShape = {
+  userAddress: z.string().trim().refine(isValidOwner, { message: 'must be an address or CAIP-10 account id' }),
+  name: ruleSettingsShape.name,
+  channels: ruleSettingsShape.channels.default(['IN_APP']),
+  frequency: ruleSettingsShape.frequency.default('IMMEDIATE'),
+  quietHoursStart: hourSchema.default(null),
+  quietHoursEnd: hourSchema.default(null),
+  webhookUrl: ruleSettingsShape.webhookUrl.default(null),
+  // Generated when a webhook URL is given without one
+  webhookSecret: ruleSettingsShape.webhookSecret.default(null),
+  email: ruleSettingsShape.email.default(null)
+}
+
+export const createRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ANALYTICS'), conditions: metricConditionSchema, ...createShape }),
+  z.object({ type: z.literal('EVENT'), conditions: eventConditionSchema, ...createShape }),
+  z.object({ type: z.literal('COMPOSITE'), conditions: compositeConditionSchema, ...createShape }),
+  z.object({ type: z.literal('SAVED_FILTER'), conditions: savedFilterConditionSchema, ...createShape })
+]).refine(quietHoursPaired, quietHoursMessage).refine(webhookConfigured, webhookMessage)
+  .refine(emailConfigured, emailMessage)
+
+// Conditions are checked against the stored rule's type by getConditionSchema
+export const updateRuleSchema = z.object({
+  ...ruleSettingsShape,
+  status: z.enum(ALERT_STATUSES),
+  conditions: z.unknown()
+}).partial()
+
+export type CreateRuleInput = z.infer<typeof createRuleSchema>
+// Request body before defaults are applied
+export type CreateRuleRequest = z.input<typeof createRuleSchema>
+export type UpdateRuleInput = z.infer<typeof updateRuleSchema>
+
+export interface AlertRule {
+  id: string
+  userAddress: string
+  name: string
+  type: AlertType
+  conditions: AlertConditions
+  channels: AlertChannel[]
+  frequency: AlertFrequency
+  status: AlertStatus
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  lastEvaluatedAt: string | null
+  lastFiredAt: string | null
+  webhookUrl: string | null
+  // Only included when the secret is created or changed, and for senders
+  webhookSecret?: string
+  email: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AlertPayload {
+  title: string
+  message: string
+  severity: AlertSeverity
+  tokenId: string | null
+  domainName: string | null
+  metric?: AlertMetric
+  value?: number
+  threshold?: number
+  eventKind?: AlertEventKind
+  priceUsd?: number | null
+  // Offerer, seller, buyer or recipient for event alerts
+  counterparty?: string | null
+  txHash?: string | null
+  // Saved search alerts: whether the domain started or stopped matching
+  searchChange?: SearchChange
+}
+
+export interface AlertEventRecord {
+  id: string
+  ruleId: string
+  ruleName: string
+  dedupeKey: string
+  payload: AlertPayload
+  fired: boolean
+  occurredAt: string
+}
+
+export interface AlertDeliveryRecord {
+  id: string
+  eventId: string
+  ruleId: string
+  channel: AlertChannel
+  status: DeliveryStatus
+  attempts: number
+  attemptedAt: string
+  deliveredAt: string | null
+  nextAttemptAt: string | null
+  error: string | null
+}
+
+/**
+ * Delivers a batch of fired events for one rule. Resolve with an error (or null)
+ * per event id to report partial failures; throwing fails the whole batch.
+ */
+export interface AlertChannelSender {
+  send(rule: AlertRule, events: AlertEventRecord[]): Promise<Record<string, string | null> | void>
+}
+
+export interface AlertEngineRunResult {
+  rules: number
+  evaluated: number
+  failed: number
+  recorded: number
+  fired: number
+  heldForQuietHours: number
+  heldForFrequency: number
+  deliveries: number
+  failedDeliveries: number
+  retried: number
+  retriesDelivered: number
+}
+
+interface AlertMatch {
+  dedupeKey: string
+  tokenId: string
+  payload: AlertPayload
+  occurredAt: Date
+}
+
+interface RuleState {
+  // tokenId -> when the domain started matching a metric condition or saved search
+  matching?: Record<string, string>
+  // Last ingested event the rule has read
+  eventCursor?: EventCursor
+}
+
+// Position in DomainEvent ingestion order; id breaks ties within a timestamp
+interface EventCursor {
+  createdAt: string
+  id: string
+}
+
+interface IngestedEvent {
+  id: string
+  eventId: string
+  tokenId: string
+  kind: AlertEventKind
+  priceUsd: number | null
+  txHash: string | null
+  occurredAt: Date
+  createdAt: Date
+  data: any
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const FREQUENCY_MS: Record<AlertFrequency, number> = {
+  IMMEDIATE: 0,
+  HOURLY: HOUR_MS,
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS
+}
+// Cron runs drift a little; don't skip a whole period because of it
+const DISPATCH_SLACK_MS = 5 * 60 * 1000
+const EVENT_PAGE_SIZE = 500
+// How much older than the delta window a Score snapshot may be
+const SNAPSHOT_TOLERANCE_MS = 2 * 24 * HOUR_MS
+const MAX_BATCH = 200
+// Retry n waits RETRY_BASE_MS * 2^(n-1): 15m, 30m, 1h, 2h, 4h, then give up
+const RETRY_BASE_MS = 15 * 60 * 1000
+const MAX_DELIVERY_ATTEMPTS = 6
+const MAX_RETRIES_PER_RUN = 200
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  daysUntilExpiry: 'Days until expiry',
+  risk: 'Risk score',
+  rarity: 'Rarity score',
+  momentum: 'Momentum score',
+  forecast: 'Forecast score',
+  value: 'Estimated value'
+}
+
+const OPERATOR_LABELS: Record<MetricCondition['operator'], string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥'
+}
+
+/**
+ * Whether `now` falls inside a rule's quiet hours (UTC, wrapping past midnight)
+ */
+export function isInQuietHours(start: number | null, end: number | null, now: Date = new Date()): boolean {
+  if (start === null || end === null || start === end) return false
+  const hour = now.getUTCHours()
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+/**
+ * Whether enough time has passed since the last send for the rule's frequency
+ */
+export function isDispatchDue(frequency: AlertFrequency, lastFiredAt: string | null, now: Date = new Date()): boolean {
+  if (!lastFiredAt || frequency === 'IMMEDIATE') return true
+  return now.getTime() - new Date(lastFiredAt).getTime() >= FREQUENCY_MS[frequency] - DISPATCH_SLACK_MS
+}
+
+export function getMetricValue(domain: ScoredDomain, metric: AlertMetric): number {
+  switch (metric) {
+    case 'daysUntilExpiry': return domain.daysUntilExpiry
+    case 'value': return domain.price
+    default: return domain.scores[metric]
+  }
+}
+
+function compare(value: number, operator: MetricCondition['operator'], threshold: number): boolean {
+  switch (operator) {
+    case 'lt': return value < threshold
+    case 'lte': return value <= threshold
+    case 'gt': return value > threshold
+    case 'gte': return value >= threshold
+  }
+}
+
+function formatMetric(metric: AlertMetric, value: number): string {
+  switch (metric) {
+    case 'daysUntilExpiry': return `${value} days`
+    case 'value': return `$${Math.round(value).toLocaleString()}`
+    default: return `${value}/100`
+  }
+}
+
+// Same severity bands the /alerts page uses for its browser-side rules
+function metricSeverity(metric: AlertMetric, value: number): AlertSeverity {
+  switch (metric) {
+    case 'daysUntilExpiry': return value <= 7 ? 'high' : value <= 30 ? 'medium' : 'low'
+    case 'risk': return value >= 80 ? 'high' : 'medium'
+    case 'value': return 'low'
+    default: return 'medium'
+  }
+}
+
+// Sales and transfers change hands; cancellations and renewals are informational
+function eventSeverity(kind: AlertEventKind): AlertSeverity {
+  switch (kind) {
+    case 'purchase':
+    case 'transfer':
+      return 'high'
+    case 'offer_cancelled':
+    case 'listing_cancelled':
+    case 'renewal':
+      return 'low'
+    default:
+      return 'medium'
+  }
+}
+
+/**
+ * When a delivery that has failed `attempts` times should be tried again; null once out of attempts
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null
+  return new Date(now.getTime() + RETRY_BASE_MS * Math.pow(2, attempts - 1))
+}
+
+function toRule(row: any, includeSecret = false): AlertRule {
+  return {
+    id: row.id,
+    userAddress: row.userAddress,
+    name: row.name,
+    type: row.type,
+    conditions: row.conditions,
+    channels: row.channels,
+    frequency: row.frequency,
+    status: row.status,
+    quietHoursStart: row.quietHoursStart ?? null,
+    quietHoursEnd: row.quietHoursEnd ?? null,
+    lastEvaluatedAt: row.lastEvaluatedAt ? new Date(row.lastEvaluatedAt).toISOString() : null,
+    lastFiredAt: row.lastFiredAt ? new Date(row.lastFiredAt).toISOString() : null,
+    webhookUrl: row.webhookUrl ?? null,
+    ...(includeSecret && row.webhookSecret ? { webhookSecret: row.webhookSecret } : {}),
+    email: row.email ?? null,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString()
+  }
+}
+
+function toDeliveryRecord(row: any): AlertDeliveryRecord {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    ruleId: row.event?.ruleId,
+    channel: row.channel,
+    status: row.status,
+    attempts: row.attempts,
+    attemptedAt: new Date(row.attemptedAt).toISOString(),
+    deliveredAt: row.deliveredAt ? new Date(row.deliveredAt).toISOString() : null,
+    nextAttemptAt: row.nextAttemptAt ? new Date(row.nextAttemptAt).toISOString() : null,
+    error: row.error ?? null
+  }
+}
+
+function toEventRecord(row: any, ruleName: string): AlertEventRecord {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    ruleName,
+    dedupeKey: row.dedupeKey,
+    payload: row.payload,
+    fired: row.fired,
+    occurredAt: new Date(row.occurredAt).toISOString()
+  }
+}
+
+export class AlertEngine {
+  private senders = new Map<AlertChannel, AlertChannelSender>()
+
+  constructor() {
+    // In-app alerts are read from the fired events by GET /api/alerts/events
+    this.registerChannel('IN_APP', { send: async () => {} })
+    this.registerChannel('WEBHOOK', webhookSender)
+    this.registerChannel('EMAIL', emailSender)
+  }
+
+  /**
+   * Install the sender for a delivery channel. Channels without one record a failed delivery.
+   */
+  registerChannel(channel: AlertChannel, sender: AlertChannelSender): void {
+    this.senders.set(channel, sender)
+  }
+
+  /**
+   * Rules created by a user, newest first
+   */
+  async list(userAddress: string): Promise<AlertRule[]> {
+    const rows: any[] = await prisma.alertRule.findMany({
+      where: { userAddress: toCaip10(userAddress) },
+      orderBy: { createdAt: 'desc' }
+    })
+    return rows.map(row => toRule(row))
+  }
+
+  async get(id: string): Promise<AlertRule | null> {
+    const row = await prisma.alertRule.findUnique({ where: { id } })
+    return row ? toRule(row) : null
+  }
+
+  async create(input: CreateRuleInput): Promise<AlertRule> {
+    const row = await prisma.alertRule.create({
+      data: {
+        userAddress: toCaip10(input.userAddress),
+        name: input.name,
+        type: input.type,
+        conditions: input.conditions,
+        channels: Array.from(new Set(input.channels)),
+        frequency: input.frequency,
+        quietHoursStart: input.quietHoursStart,
+        quietHoursEnd: input.quietHoursEnd,
+        webhookUrl: input.webhookUrl,
+        webhookSecret: input.webhookSecret || (input.webhookUrl ? generateWebhookSecret() : null),
+        email: input.email
+      }
+    })
+    // The only response that carries a generated secret
+    return toRule(row, true)
+  }
+
+  /**
+   * Apply a partial update; null when the rule does not exist. `conditions` must
+   * already be validated against the rule's type.
+   */
+  async update(id: string, input: Omit<UpdateRuleInput, 'conditions'> & { conditions?: AlertConditions }): Promise<AlertRule | null> {
+    const existing = await prisma.alertRule.findUnique({ where: { id } })
+    if (!existing) return null
+    const webhookSecret = input.webhookSecret ||
+      (input.webhookUrl && !existing.webhookSecret ? generateWebhookSecret() : undefined)
+
+    const row = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.channels !== undefined ? { channels: Array.from(new Set(input.channels)) } : {}),
+        ...(input.frequency !== undefined ? { frequency: input.frequency } : {}),
+        ...(input.status !== undefined ? { status: input.status } : {}),
+        ...(input.quietHoursStart !== undefined ? { quietHoursStart: input.quietHoursStart } : {}),
+        ...(input.quietHoursEnd !== undefined ? { quietHoursEnd: input.quietHoursEnd } : {}),
+        ...(input.webhookUrl !== undefined ? { webhookUrl: input.webhookUrl } : {}),
+        ...(webhookSecret ? { webhookSecret } : {}),
+        ...(input.email !== undefined ? { email: input.email } : {}),
+        // New conditions start from a clean slate
+        ...(input.conditions !== undefined ? { conditions: input.conditions, state: null } : {})
+      }
+    })
+    return toRule(row, !!webhookSecret)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await prisma.alertRule.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Fired events for a user's in-app rules, newest first
+   */
+  async getFeed(userAddress: string, limit = 50): Promise<AlertEventRecord[]> {
+    const rows: any[] = await prisma.alertEvent.findMany({
+      where: {
+        fired: true,
+        rule: { userAddress: toCaip10(userAddress), channels: { has: 'IN_APP' } }
+      },
+      include: { rule: { select: { name: true } } },
+      orderBy: { occurredAt: 'desc' },
+      take: limit
+    })
+    return rows.map(row => toEventRecord(row, row.rule.name))
+  }
+
+  /**
+   * Delivery attempts for a rule's events, newest first
+   */
+  async listDeliveries(
+    ruleId: string,
+    options: { status?: DeliveryStatus; limit?: number } = {}
+  ): Promise<AlertDeliveryRecord[]> {
+    const rows: any[] = await prisma.alertDelivery.findMany({
+      where: { event: { ruleId }, ...(options.status ? { status: options.status } : {}) },
+      include: { event: { select: { ruleId: true } } },
+      orderBy: { attemptedAt: 'desc' },
+      take: options.limit ?? 50
+    })
+    return rows.map(toDeliveryRecord)
+  }
+
+  async getDelivery(id: string): Promise<AlertDeliveryRecord | null> {
+    const row = await prisma.alertDelivery.findUnique({
+      where: { id },
+      include: { event: { select: { ruleId: true } } }
+    })
+    return row ? toDeliveryRecord(row) : null
+  }
+
+  /**
+   * Send a delivery again right now, ignoring its backoff. A retrying delivery
+   * keeps its retry schedule if the replay fails. Null when it does not exist.
+   */
+  async replay(deliveryId: string, now: Date = new Date()): Promise<AlertDeliveryRecord | null> {
+    const row = await prisma.alertDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { event: { include: { rule: true } } }
+    })
+    if (!row) return null
+
+    const rule = toRule(row.event.rule, true)
+    const event = toEventRecord(row.event, rule.name)
+    const errors = await this.send(rule, row.channel, [event])
+    const updated = await prisma.alertDelivery.update({
+      where: { id: deliveryId },
+      data: this.getAttemptUpdate(row.attempts + 1, errors[event.id], now, row.status === 'RETRYING'),
+      include: { event: { select: { ruleId: true } } }
+    })
+    return toDeliveryRecord(updated)
+  }
+
+  /**
+   * Evaluate every active rule, record new matches and send what is due
+   */
+  async run(now: Date = new Date()): Promise<AlertEngineRunResult> {
+    const rows: any[] = await prisma.alertRule.findMany({ where: { status: 'ACTIVE' } })
+    const result: AlertEngineRunResult = {
+      rules: rows.length,
+      evaluated: 0,
+      failed: 0,
+      recorded: 0,
+      fired: 0,
+      heldForQuietHours: 0,
+      heldForFrequency: 0,
+      deliveries: 0,
+      failedDeliveries: 0,
+      retried: 0,
+      retriesDelivered: 0
+    }
+
+    // A rule that fails to evaluate or dispatch is counted and skipped, never stops the run
+    for (const row of rows) {
+      const rule = toRule(row, true)
+      try {
+        const { matches, state } = await this.evaluate(rule, (row.state || {}) as RuleState, now)
+        result.recorded += await this.record(rule, matches)
+        await prisma.alertRule.update({
+          where: { id: rule.id },
+          data: { lastEvaluatedAt: now, ...(state ? { state } : {}) }
+        })
+        result.evaluated++
+
+        // Pending events stay unfired until the rule is allowed to send
+        if (isInQuietHours(rule.quietHoursStart, rule.quietHoursEnd, now)) {
+          result.heldForQuietHours++
+          continue
+        }
+        if (!isDispatchDue(rule.frequency, rule.lastFiredAt, now)) {
+          result.heldForFrequency++
+          continue
+        }
+
+        const dispatched = await this.dispatch(rule, now)
+        result.fired += dispatched.fired
+        result.deliveries += dispatched.deliveries
+        result.failedDeliveries += dispatched.failedDeliveries
+      } catch (error) {
+        console.error(`Error running alert rule ${rule.id}:`, error)
+        result.failed++
+      }
+    }
+
+    const retries = await this.retryDue(now)
+    result.retried = retries.retried
+    result.retriesDelivered = retries.delivered
+
+    return result
+  }
+
+  /**
+   * Matches for one rule. Threshold, composite and saved search rules also return their updated state.
+   */
+  private async evaluate(
+    rule: AlertRule,
+    state: RuleState,
+    now: Date
+  ): Promise<{ matches: AlertMatch[]; state: RuleState | null }> {
+    switch (rule.type) {
+      case 'ANALYTICS': {
+        const conditions = rule.conditions as MetricCondition
+        const { domains } = await this.getScope(rule, conditions, conditions.profile)
+        return this.evaluateMetric(rule, conditions, domains, state, now)
+      }
+      case 'EVENT': {
+        const conditions = rule.conditions as EventCondition
+        const { domains } = await this.getScope(rule, conditions)
+        return this.evaluateEvents(rule, conditions, domains, state)
+      }
+      case 'COMPOSITE': {
+        const conditions = rule.conditions as CompositeCondition
+        const { domains } = await this.getScope(rule, conditions, conditions.profile)
+        return this.evaluateComposite(rule, conditions, domains, state, now)
+      }
+      case 'SAVED_FILTER': {
+        const conditions = rule.conditions as SavedFilterCondition
+        const { domains, truncated } = await this.getScope(rule, conditions, conditions.profile)
+        // Names missing from a partial catalogue would read as leaving the search,
+        // and saving that would turn their return into fresh entries. Wait for a full walk.
+        if (truncated) return { matches: [], state: null }
+        return this.evaluateSavedFilter(rule, conditions, domains, state, now)
+      }
+      default:
+        return { matches: [], state: null }
+    }
+  }
+
+  /**
+   * A domain matches once when it crosses the threshold and again only after it
+   * has stopped matching in between.
+   */
+  private evaluateMetric(
+    rule: AlertRule,
+    conditions: MetricCondition,
+    domains: ScoredDomain[],
+    state: RuleState,
+    now: Date
+  ): { matches: AlertMatch[]; state: RuleState } {
+    const previous = state.matching || {}
+    const matching: Record<string, string> = {}
+    const matches: AlertMatch[] = []
+
+    for (const domain of domains) {
+      const value = getMetricValue(domain, conditions.metric)
+      if (!compare(value, conditions.operator, conditions.value)) continue
+
+      const since = previous[domain.tokenId] || now.toISOString()
+      matching[domain.tokenId] = since
+      matches.push({
+        dedupeKey: `${conditions.metric}:${domain.tokenId}:${since}`,
+        tokenId: domain.tokenId,
+        occurredAt: now,
+        payload: {
+          title: rule.name,
+          message: `${METRIC_LABELS[conditions.metric]} is ${formatMetric(conditions.metric, value)} ` +
+            `(${OPERATOR_LABELS[conditions.operator]} ${formatMetric(conditions.metric, conditions.value)})`,
+          severity: metricSeverity(conditions.metric, value),
+          tokenId: domain.tokenId,
+          domainName: domain.name,
+          metric: conditions.metric,
+          value,
+          threshold: conditions.value
+        }
+      })
+    }
+
+    return { matches, state: { matching } }
+  }
+
+  /**
+   * Poll API events ingested since the rule was last evaluated
+   */
+  private async evaluateEvents(
+    rule: AlertRule,
+    conditions: EventCondition,
+    domains: ScoredDomain[],
+    state: RuleState
+  ): Promise<{ matches: AlertMatch[]; state: RuleState }> {
+    const names = new Map(domains.map(d => [d.tokenId, d.name]))
+    const scoped = conditions.tokenIds || conditions.ownedOnly
+    const { events, cursor } = await this.findEvents(rule, conditions.events, scoped ? Array.from(names.keys()) : null, state.eventCursor)
+
+    const matches = events
+      .filter(event => conditions.minPriceUsd === undefined || (event.priceUsd ?? 0) >= conditions.minPriceUsd)
+      .map(event => {
+        const domainName = names.get(event.tokenId) || event.data?.name || null
+        const market = toMarketEvent(event)
+        return {
+          dedupeKey: `event:${event.eventId}`,
+          tokenId: event.tokenId,
+          occurredAt: new Date(event.occurredAt),
+          payload: {
+            title: rule.name,
+            message: `New ${market.summary} on ${domainName || `token ${event.tokenId}`}`,
+            severity: eventSeverity(event.kind),
+            tokenId: event.tokenId,
+            domainName,
+            eventKind: event.kind,
+            priceUsd: event.priceUsd,
+            counterparty: market.counterparty,
+            txHash: market.txHash
+          }
+        }
+      })
+    return { matches, state: { ...state, eventCursor: cursor } }
+  }
+
+  /**
+   * Edge-triggered like metric rules. A match that involves events is keyed by
+   * the newest event instead, so every qualifying event alerts once.
+   */
+  private async evaluateComposite(
+    rule: AlertRule,
+    conditions: CompositeCondition,
+    domains: ScoredDomain[],
+    state: RuleState,
+    now: Date
+  ): Promise<{ matches: AlertMatch[]; state: RuleState }> {
+    const parsed = parseAlertExpression(conditions.expression)
+    if (!parsed.success) {
+      throw new Error(`Invalid expression: ${parsed.error.message}`)
+    }
+    const { expression } = parsed
+    const requirements = getExpressionRequirements(expression)
+    const tokenIds = domains.map(d => d.tokenId)
+
+    const [history, { events, cursor }, watchlists] = await Promise.all([
+      this.getScoreHistory(tokenIds, requirements.deltaDays, now),
+      requirements.eventKinds.length > 0
+        ? this.findEvents(rule, requirements.eventKinds, tokenIds, state.eventCursor)
+        : Promise.resolve({ events: [], cursor: state.eventCursor }),
+      this.getWatchlists(rule, requirements.watchlists)
+    ])
+    const eventsByToken = new Map<string, ExpressionEvent[]>()
+    for (const event of events) {
+      const list = eventsByToken.get(event.tokenId) || []
+      list.push({ id: event.eventId, kind: event.kind, priceUsd: event.priceUsd, counterparty: toMarketEvent(event).counterparty })
+      eventsByToken.set(event.tokenId, list)
+    }
+
+    const owner = toAddress(rule.userAddress)
+    const previous = state.matching || {}
+    const matching: Record<string, string> = {}
+    const matches: AlertMatch[] = []
+
+    for (const domain of domains) {
+      const result = evaluateAlertExpression(expression, {
+        domain: toExpressionDomain(domain, toAddress(domain.owner) === owner),
+        previous: (metric, days) => history.get(`${domain.tokenId}:${days}`)?.[metric] ?? null,
+        events: eventsByToken.get(domain.tokenId),
+        watchlists
+      })
+      if (!result.matched) continue
+
+      const since = previous[domain.tokenId] || now.toISOString()
+      matching[domain.tokenId] = since
+      const latestEvent = result.events[result.events.length - 1]
+      const sale = result.events.some(e => e.kind === 'purchase' || e.kind === 'transfer')
+      matches.push({
+        dedupeKey: latestEvent ? `expr:${domain.tokenId}:event:${latestEvent.id}` : `expr:${domain.tokenId}:${since}`,
+        tokenId: domain.tokenId,
+        occurredAt: now,
+        payload: {
+          title: rule.name,
+          message: result.reasons.length > 0 ? result.reasons.join('; ') : `Matched ${conditions.expression}`,
+          severity: sale || result.reasons.length > 1 ? 'high' : 'medium',
+          tokenId: domain.tokenId,
+          domainName: domain.name,
+          ...(latestEvent
+            ? { eventKind: latestEvent.kind, priceUsd: latestEvent.priceUsd, counterparty: latestEvent.counterparty ?? null }
+            : {})
+        }
+      })
+    }
+
+    return { matches, state: { matching, ...(cursor ? { eventCursor: cursor } : {}) } }
+  }
+
+  /**
+   * Diffs the search results against the previous run. The first run only
+   * records what matches, so subscribing doesn't alert on every existing result.
+   */
+  private evaluateSavedFilter(
+    rule: AlertRule,
+    conditions: SavedFilterCondition,
+    domains: ScoredDomain[],
+    state: RuleState,
+    now: Date
+  ): { matches: AlertMatch[]; state: RuleState } {
+    const { results, error } = runSearch(domains, {
+      query: conditions.query,
+      filters: { ...DEFAULT_PANEL_FILTERS, ...conditions.filters }
+    })
+    // A query that stopped parsing would read as every domain leaving the search
+    if (error) return { matches: [], state }
+    const previous = state.matching
+    const matching: Record<string, string> = {}
+    for (const domain of results) {
+      matching[domain.tokenId] = previous?.[domain.tokenId] || now.toISOString()
+    }
+    if (!previous) return { matches: [], state: { matching } }
+
+    const search = describeSearch(conditions)
+    const names = new Map(domains.map(d => [d.tokenId, d.name]))
+    const matches: AlertMatch[] = []
+
+    if (conditions.notifyOn.includes('enter')) {
+      for (const domain of results) {
+        if (previous[domain.tokenId]) continue
+        matches.push({
+          dedupeKey: `search:${domain.tokenId}:enter:${matching[domain.tokenId]}`,
+          tokenId: domain.tokenId,
+          occurredAt: now,
+          payload: {
+            title: rule.name,
+            message: `Now matches ${search} (risk ${domain.scores.risk}, rarity ${domain.scores.rarity}, ` +
+              `${formatMetric('value', domain.scores.currentValue || domain.price)})`,
+            severity: 'medium',
+            tokenId: domain.tokenId,
+            domainName: domain.name,
+            searchChange: 'enter'
+          }
+        })
+      }
+    }
+
+    if (conditions.notifyOn.includes('exit')) {
+      for (const [tokenId, since] of Object.entries(previous)) {
+        if (matching[tokenId]) continue
+        matches.push({
+          dedupeKey: `search:${tokenId}:exit:${since}`,
+          tokenId,
+          occurredAt: now,
+          payload: {
+            title: rule.name,
+            message: `No longer matches ${search}`,
+            severity: 'low',
+            tokenId,
+            domainName: names.get(tokenId) || null,
+            searchChange: 'exit'
+          }
+        })
+      }
+    }
+
+    return { matches, state: { matching } }
+  }
+
+  /**
+   * Every ingested event of the given kinds after the rule's cursor, optionally
+   * limited to some domains, in occurredAt order. The returned cursor is the
+   * last event read, so the next run picks up exactly where this one stopped.
+   */
+  private async findEvents(
+    rule: AlertRule,
+    kinds: AlertEventKind[],
+    tokenIds: string[] | null,
+    cursor: EventCursor | undefined
+  ): Promise<{ events: IngestedEvent[]; cursor: EventCursor }> {
+    // Ingestion order rather than occurredAt, so late-arriving events are still seen.
+    // Rules saved before cursors existed start from their last run.
+    let after: EventCursor = cursor || { createdAt: rule.lastEvaluatedAt || rule.createdAt, id: '' }
+    const events: IngestedEvent[] = []
+
+    for (;;) {
+      const since = new Date(after.createdAt)
+      const page: IngestedEvent[] = await prisma.domainEvent.findMany({
+        where: {
+          kind: { in: kinds },
+          OR: [{ createdAt: { gt: since } }, { createdAt: since, id: { gt: after.id } }],
+          ...(tokenIds ? { tokenId: { in: tokenIds } } : {})
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: EVENT_PAGE_SIZE
+      })
+      events.push(...page)
+      const last = page[page.length - 1]
+      if (last) after = { createdAt: new Date(last.createdAt).toISOString(), id: last.id }
+      if (page.length < EVENT_PAGE_SIZE) break
+    }
+
+    events.sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime())
+    return { events, cursor: after }
+  }
+
+  /**
+   * Metrics from the newest Score snapshot at least `days` old, keyed `tokenId:days`.
+   * Snapshots are taken with the default weights, whatever the rule's profile.
+   */
+  private async getScoreHistory(
+    tokenIds: string[],
+    windows: number[],
+    now: Date
+  ): Promise<Map<string, Partial<Record<AlertMetric, number>>>> {
+    const history = new Map<string, Partial<Record<AlertMetric, number>>>()
+    if (tokenIds.length === 0) return history
+
+    for (const days of windows) {
+      const cutoff = new Date(now.getTime() - days * 24 * HOUR_MS)
+      const rows: any[] = await prisma.score.findMany({
+        where: {
+          domain: { tokenId: { in: tokenIds } },
+          asOf: { lte: cutoff, gte: new Date(cutoff.getTime() - SNAPSHOT_TOLERANCE_MS) }
+        },
+        orderBy: { asOf: 'desc' },
+        select: {
+          riskScore: true,
+          rarityScore: true,
+          momentumScore: true,
+          forecastValue: true,
+          currentValue: true,
+          domain: { select: { tokenId: true } }
+        }
+      })
+      for (const row of rows) {
+        const key = `${row.domain.tokenId}:${days}`
+        if (history.has(key)) continue
+        history.set(key, {
+          risk: row.riskScore,
+          rarity: row.rarityScore,
+          momentum: row.momentumScore,
+          ...(row.forecastValue !== null ? { forecast: row.forecastValue } : {}),
+          ...(row.currentValue !== null ? { value: row.currentValue } : {})
+        })
+      }
+    }
+    return history
+  }
+
+  /**
+   * The rule owner's watchlists by lower-cased name
+   */
+  private async getWatchlists(rule: AlertRule, names: string[]): Promise<Record<string, string[]>> {
+    if (names.length === 0) return {}
+    const rows: Array<{ name: string; domains: string[] }> = await prisma.watchlist.findMany({
+      where: { userAddress: { in: [rule.userAddress, toAddress(rule.userAddress)] } },
+      select: { name: true, domains: true }
+    })
+    const wanted = new Set(names)
+    return Object.fromEntries(
+      rows.filter(row => wanted.has(row.name.toLowerCase())).map(row => [row.name.toLowerCase(), row.domains])
+    )
+  }
+
+  /**
+   * Scored domains a rule applies to, and whether the catalogue they came from is partial
+   */
+  private async getScope(
+    rule: AlertRule,
+    scope: { tokenIds?: string[]; ownedOnly?: boolean },
+    profile?: string
+  ): Promise<Catalogue> {
+    const catalogue = await domainScoringService.loadCatalogue({ profile })
+    let domains = catalogue.domains
+    if (scope.tokenIds) {
+      const tokenIds = new Set(scope.tokenIds)
+      domains = domains.filter(d => tokenIds.has(d.tokenId))
+    }
+    if (scope.ownedOnly) {
+      const owner = toAddress(rule.userAddress)
+      domains = domains.filter(d => toAddress(d.owner) === owner)
+    }
+    return { domains, truncated: catalogue.truncated }
+  }
+
+  /**
+   * Insert new matches; keys already recorded for the rule are skipped
+   */
+  private async record(rule: AlertRule, matches: AlertMatch[]): Promise<number> {
+    if (matches.length === 0) return 0
+
+    const tokenIds = Array.from(new Set(matches.map(m => m.tokenId)))
+    const domains: Array<{ id: string; tokenId: string }> = await prisma.domain.findMany({
+      where: { tokenId: { in: tokenIds } },
+      select: { id: true, tokenId: true }
+    })
+    const domainIds = new Map(domains.map(d => [d.tokenId, d.id]))
+
+    const { count } = await prisma.alertEvent.createMany({
+      data: matches.map(match => ({
+        ruleId: rule.id,
+        domainId: domainIds.get(match.tokenId) ?? null,
+        dedupeKey: match.dedupeKey,
+        payload: match.payload,
+        occurredAt: match.occurredAt
+      })),
+      skipDuplicates: true
+    })
+    return count
+  }
+
+  /**
+   * Send the rule's unfired events to each of its channels and mark them fired
+   */
+  private async dispatch(
+    rule: AlertRule,
+    now: Date
+  ): Promise<{ fired: number; deliveries: number; failedDeliveries: number }> {
+    const rows: any[] = await prisma.alertEvent.findMany({
+      where: { ruleId: rule.id, fired: false },
+      orderBy: { occurredAt: 'asc' },
+      take: MAX_BATCH
+    })
+    if (rows.length === 0) return { fired: 0, deliveries: 0, failedDeliveries: 0 }
+    const events = rows.map(row => toEventRecord(row, rule.name))
+
+    let deliveries = 0
+    let failedDeliveries = 0
+    for (const channel of rule.channels) {
+      const errors = await this.send(rule, channel, events)
+      // A channel with no sender won't start working on retry
+      const retryable = this.senders.has(channel)
+
+      await prisma.alertDelivery.createMany({
+        data: events.map(event => ({
+          eventId: event.id,
+          channel,
+          ...this.getAttemptUpdate(1, errors[event.id], now, retryable)
+        }))
+      })
+      const failed = events.filter(event => errors[event.id]).length
+      failedDeliveries += failed
+      deliveries += events.length - failed
+    }
+
+    await prisma.alertEvent.updateMany({
+      where: { id: { in: events.map(e => e.id) } },
+      data: { fired: true }
+    })
+    await prisma.alertRule.update({ where: { id: rule.id }, data: { lastFiredAt: now } })
+
+    return { fired: events.length, deliveries, failedDeliveries }
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed, grouped by rule and channel
+   */
+  private async retryDue(now: Date): Promise<{ retried: number; delivered: number }> {
+    const rows: any[] = await prisma.alertDelivery.findMany({
+      where: { status: 'RETRYING', nextAttemptAt: { lte: now } },
+      include: { event: { include: { rule: true } } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: MAX_RETRIES_PER_RUN
+    })
+
+    const batches = new Map<string, any[]>()
+    for (const row of rows) {
+      const key = `${row.event.ruleId}:${row.channel}`
+      batches.set(key, [...(batches.get(key) || []), row])
+    }
+
+    let retried = 0
+    let delivered = 0
+    for (const batch of Array.from(batches.values())) {
+      const rule = toRule(batch[0].event.rule, true)
+      // Paused rules and quiet hours hold retries as well
+      if (rule.status !== 'ACTIVE' || isInQuietHours(rule.quietHoursStart, rule.quietHoursEnd, now)) continue
+
+      const events = batch.map(row => toEventRecord(row.event, rule.name))
+      const errors = await this.send(rule, batch[0].channel, events)
+      for (const row of batch) {
+        const error = errors[row.eventId]
+        await prisma.alertDelivery.update({
+          where: { id: row.id },
+          data: this.getAttemptUpdate(row.attempts + 1, error, now, true)
+        })
+        retried++
+        if (!error) delivered++
+      }
+    }
+    return { retried, delivered }
+  }
+
+  /**
+   * Hand events to a channel's sender; returns an error (or null) per event id
+   */
+  private async send(
+    rule: AlertRule,
+    channel: AlertChannel,
+    events: AlertEventRecord[]
+  ): Promise<Record<string, string | null>> {
+    const sender = this.senders.get(channel)
+    const failAll = (error: string) => Object.fromEntries(events.map(e => [e.id, error]))
+    if (!sender) return failAll(`No sender configured for ${channel}`)
+
+    try {
+      const results = await sender.send(rule, events)
+      return Object.fromEntries(events.map(e => [e.id, results?.[e.id] ?? null]))
+    } catch (error) {
+      return failAll(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * AlertDelivery fields after an attempt. Failures are retried with backoff until
+   * MAX_DELIVERY_ATTEMPTS, then marked FAILED.
+   */
+  private getAttemptUpdate(attempts: number, error: string | null | undefined, now: Date, retryable: boolean) {
+    if (!error) {
+      return { status: 'DELIVERED', attempts, attemptedAt: now, deliveredAt: now, nextAttemptAt: null, error: null }
+    }
+    const nextAttemptAt = retryable ? getNextAttemptAt(attempts, now) : null
+    return {
+      status: nextAttemptAt ? 'RETRYING' : 'FAILED',
+      attempts,
+      attemptedAt: now,
+      deliveredAt: null,
+      nextAttemptAt,
+      error
+    }
+  }
+}
+
+export const alertEngine = new AlertEngine()
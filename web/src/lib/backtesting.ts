@@ -0,0 +1,371 @@
+/**
+ * Forecast backtesting for Dometrics
+ * Replays historical score snapshots against realized sale prices and reports
+ * hit rate, mean absolute error and forecast band calibration per TLD and per
+ * weight profile.
+ */
+
+import { domaClient } from './doma-client'
+import type { ScoringInput } from './scoring'
+import { getScoringEngine, getWeightProfile } from './weight-profiles'
+
+/**
+ * One 6-month prediction made at asOf, either replayed or read from the Score table
+ */
+export interface BacktestPrediction {
+  tokenId: string
+  name: string
+  tld: string
+  profile: string
+  version: string
+  asOf: string
+  forecast: number
+  forecastLow: number
+  forecastHigh: number
+  currentValue: number
+  projectedValue: number
+}
+
+export interface RealizedSale {
+  tokenId: string
+  priceUsd: number
+  soldAt: string
+  txHash?: string
+}
+
+/**
+ * Scoring inputs as they were at asOf, with dates serialized
+ */
+export interface ReplaySnapshot {
+  tokenId: string
+  name: string
+  asOf: string
+  inputs: Omit<ScoringInput, 'name' | 'tld' | 'expiresAt' | 'tokenizedAt' | 'recentEvents'> & {
+    expiresAt: string
+    tokenizedAt?: string
+    recentEvents?: Array<{ type: string; timestamp: string }>
+  }
+}
+
+export interface BacktestDataset {
+  snapshots: ReplaySnapshot[]
+  sales: RealizedSale[]
+}
+
+export interface BacktestOptions {
+  horizonDays?: number
+  toleranceDays?: number
+}
+
+export interface BacktestObservation {
+  prediction: BacktestPrediction
+  sale: RealizedSale
+  realizedGrowth: number
+  realizedScore: number
+  hit: boolean
+  absError: number
+  scoreError: number
+  inBand: boolean
+}
+
+export interface CalibrationBucket {
+  bucket: string
+  count: number
+  meanForecast: number
+  meanRealized: number
+  bandCoverage: number
+}
+
+export interface BacktestMetrics {
+  count: number
+  hitRate: number
+  maeUsd: number
+  maeScore: number
+  bandCoverage: number
+  calibration: CalibrationBucket[]
+}
+
+export interface BacktestReport {
+  generatedAt: string
+  horizonDays: number
+  toleranceDays: number
+  predictions: number
+  matched: number
+  overall: BacktestMetrics
+  byProfile: Record<string, BacktestMetrics>
+  byTld: Record<string, BacktestMetrics>
+  byProfileTld: Record<string, Record<string, BacktestMetrics>>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Forecast scores are 6-month projections
+const DEFAULT_HORIZON_DAYS = 180
+// How far from the horizon a sale may land and still count as the outcome
+const DEFAULT_TOLERANCE_DAYS = 60
+const CALIBRATION_BUCKET_SIZE = 10
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function addTo<T>(groups: Record<string, T[]>, key: string, item: T): void {
+  groups[key] = groups[key] || []
+  groups[key].push(item)
+}
+
+function splitName(name: string): { namePart: string; tld: string } {
+  const parts = name.split('.')
+  return { namePart: parts[0], tld: parts.slice(1).join('.') || 'com' }
+}
+
+export class BacktestRunner {
+  /**
+   * Rescore snapshots with each weight profile as if it were asOf.
+   * Dates are shifted by (now - asOf) so day counts match what the engine saw then.
+   */
+  replay(snapshots: ReplaySnapshot[], profiles: string[]): BacktestPrediction[] {
+    const predictions: BacktestPrediction[] = []
+
+    for (const profileName of profiles) {
+      const profile = getWeightProfile(profileName)
+      if (!profile) {
+        throw new Error(`Unknown weight profile: ${profileName}`)
+      }
+      const engine = getScoringEngine(profile.name)
+
+      for (const snapshot of snapshots) {
+        const { namePart, tld } = splitName(snapshot.name)
+        const shift = Date.now() - new Date(snapshot.asOf).getTime()
+        const shifted = (iso: string) => new Date(new Date(iso).getTime() + shift)
+
+        const scores = engine.calculateScoresSync({
+          ...snapshot.inputs,
+          name: namePart,
+          tld,
+          expiresAt: shifted(snapshot.inputs.expiresAt),
+          tokenizedAt: snapshot.inputs.tokenizedAt ? shifted(snapshot.inputs.tokenizedAt) : undefined,
+          recentEvents: snapshot.inputs.recentEvents?.map(event => ({
+            type: event.type,
+            timestamp: shifted(event.timestamp)
+          }))
+        })
+
+        predictions.push({
+          tokenId: snapshot.tokenId,
+          name: snapshot.name,
+          tld,
+          profile: profile.name,
+          version: engine.version,
+          asOf: snapshot.asOf,
+          forecast: scores.forecast,
+          forecastLow: scores.forecastLow,
+          forecastHigh: scores.forecastHigh,
+          currentValue: scores.currentValue,
+          projectedValue: scores.projectedValue
+        })
+      }
+    }
+
+    return predictions
+  }
+
+  /**
+   * Match predictions to the sale nearest the horizon and score them
+   */
+  evaluate(
+    predictions: BacktestPrediction[],
+    sales: RealizedSale[],
+    options: BacktestOptions = {}
+  ): BacktestReport {
+    const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS
+    const toleranceDays = options.toleranceDays ?? DEFAULT_TOLERANCE_DAYS
+
+    const salesByToken = new Map<string, RealizedSale[]>()
+    for (const sale of sales) {
+      const list = salesByToken.get(sale.tokenId) || []
+      list.push(sale)
+      salesByToken.set(sale.tokenId, list)
+    }
+
+    const observations: BacktestObservation[] = []
+    for (const prediction of predictions) {
+      const sale = this.findOutcome(prediction, salesByToken.get(prediction.tokenId) || [], horizonDays, toleranceDays)
+      if (sale) {
+        observations.push(this.observe(prediction, sale, horizonDays))
+      }
+    }
+
+    const byProfile: Record<string, BacktestObservation[]> = {}
+    const byTld: Record<string, BacktestObservation[]> = {}
+    const byProfileTld: Record<string, Record<string, BacktestObservation[]>> = {}
+    for (const observation of observations) {
+      const { profile, tld } = observation.prediction
+      addTo(byProfile, profile, observation)
+      addTo(byTld, tld, observation)
+      byProfileTld[profile] = byProfileTld[profile] || {}
+      addTo(byProfileTld[profile], tld, observation)
+    }
+
+    const summarizeAll = (groups: Record<string, BacktestObservation[]>) =>
+      Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, this.summarize(group)]))
+
+    return {
+      generatedAt: new Date().toISOString(),
+      horizonDays,
+      toleranceDays,
+      predictions: predictions.length,
+      matched: observations.length,
+      overall: this.summarize(observations),
+      byProfile: summarizeAll(byProfile),
+      byTld: summarizeAll(byTld),
+      byProfileTld: Object.fromEntries(
+        Object.entries(byProfileTld).map(([profile, groups]) => [profile, summarizeAll(groups)])
+      )
+    }
+  }
+
+  /**
+   * Replay a dataset under each profile and evaluate it
+   */
+  run(dataset: BacktestDataset, profiles: string[], options: BacktestOptions = {}): BacktestReport {
+    return this.evaluate(this.replay(dataset.snapshots, profiles), dataset.sales, options)
+  }
+
+  /**
+   * Stored Score rows as predictions, labelled by weights version.
+   * Requires DATABASE_URL.
+   */
+  async loadStoredPredictions(options: { since?: Date; limit?: number } = {}): Promise<BacktestPrediction[]> {
+    // Loaded here so fixture backtests run without a generated Prisma client
+    const { prisma } = await import('./prisma')
+    const rows: any[] = await prisma.score.findMany({
+      where: {
+        forecastValue: { not: null },
+        currentValue: { not: null },
+        ...(options.since ? { asOf: { gte: options.since } } : {})
+      },
+      include: { domain: { select: { tokenId: true, name: true, tld: true } } },
+      orderBy: { asOf: 'asc' },
+      take: options.limit ?? 10000
+    })
+
+    return rows.map(row => ({
+      tokenId: row.domain.tokenId,
+      name: `${row.domain.name}.${row.domain.tld}`,
+      tld: row.domain.tld,
+      profile: row.version,
+      version: row.version,
+      asOf: new Date(row.asOf).toISOString(),
+      forecast: row.forecastValue,
+      forecastLow: row.forecastCi80Low ?? row.forecastValue,
+      forecastHigh: row.forecastCi80High ?? row.forecastValue,
+      currentValue: row.currentValue,
+      projectedValue: row.projectedValue ?? row.currentValue
+    }))
+  }
+
+  /**
+   * Realized sales from PURCHASED token activities, priced in USD
+   */
+  async loadSales(tokenIds: string[]): Promise<RealizedSale[]> {
+    const sales: RealizedSale[] = []
+
+    for (const tokenId of tokenIds) {
+      const activities = await domaClient.getTokenActivities(tokenId, 100)
+      for (const activity of activities as any[]) {
+        if (activity.type !== 'PURCHASED' || !activity.payment?.price) continue
+        sales.push({
+          tokenId,
+          priceUsd: parseFloat(activity.payment.price) * (activity.payment.usdExchangeRate || 1),
+          soldAt: activity.createdAt,
+          txHash: activity.txHash
+        })
+      }
+    }
+
+    return sales
+  }
+
+  private findOutcome(
+    prediction: BacktestPrediction,
+    sales: RealizedSale[],
+    horizonDays: number,
+    toleranceDays: number
+  ): RealizedSale | null {
+    const asOf = new Date(prediction.asOf).getTime()
+    const target = asOf + horizonDays * DAY_MS
+    let best: RealizedSale | null = null
+    let bestDistance = Infinity
+
+    for (const sale of sales) {
+      const soldAt = new Date(sale.soldAt).getTime()
+      const distance = Math.abs(soldAt - target)
+      if (soldAt <= asOf || distance > toleranceDays * DAY_MS) continue
+      if (distance < bestDistance) {
+        best = sale
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  private observe(prediction: BacktestPrediction, sale: RealizedSale, horizonDays: number): BacktestObservation {
+    const heldDays = Math.max(1, (new Date(sale.soldAt).getTime() - new Date(prediction.asOf).getTime()) / DAY_MS)
+    const ratio = sale.priceUsd / Math.max(prediction.currentValue, 1)
+
+    // Normalize to the horizon, then map onto the forecast scale (0% = 40, +50% = 100)
+    const realizedGrowth = Math.pow(ratio, horizonDays / heldDays) - 1
+    const realizedScore = Math.max(0, Math.min(100, 40 + realizedGrowth * 120))
+
+    const predictedUp = prediction.projectedValue >= prediction.currentValue
+    const realizedUp = sale.priceUsd >= prediction.currentValue
+
+    return {
+      prediction,
+      sale,
+      realizedGrowth,
+      realizedScore,
+      hit: predictedUp === realizedUp,
+      absError: Math.abs(prediction.projectedValue - sale.priceUsd),
+      scoreError: Math.abs(prediction.forecast - realizedScore),
+      inBand: realizedScore >= prediction.forecastLow && realizedScore <= prediction.forecastHigh
+    }
+  }
+
+  private summarize(observations: BacktestObservation[]): BacktestMetrics {
+    const buckets = new Map<number, BacktestObservation[]>()
+    for (const observation of observations) {
+      const start = Math.min(90, Math.floor(observation.prediction.forecast / CALIBRATION_BUCKET_SIZE) * CALIBRATION_BUCKET_SIZE)
+      const bucket = buckets.get(start) || []
+      bucket.push(observation)
+      buckets.set(start, bucket)
+    }
+
+    const rate = (group: BacktestObservation[], test: (o: BacktestObservation) => boolean) =>
+      group.length > 0 ? round(group.filter(test).length / group.length, 3) : 0
+
+    return {
+      count: observations.length,
+      hitRate: rate(observations, o => o.hit),
+      maeUsd: round(mean(observations.map(o => o.absError))),
+      maeScore: round(mean(observations.map(o => o.scoreError))),
+      bandCoverage: rate(observations, o => o.inBand),
+      calibration: Array.from(buckets.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([start, group]) => ({
+          bucket: `${start}-${start + CALIBRATION_BUCKET_SIZE}`,
+          count: group.length,
+          meanForecast: round(mean(group.map(o => o.prediction.forecast))),
+          meanRealized: round(mean(group.map(o => o.realizedScore))),
+          bandCoverage: rate(group, o => o.inBand)
+        }))
+    }
+  }
+}
+
+export const backtestRunner = new BacktestRunner()
@@ -0,0 +1,306 @@
+/**
+ * Comparable-sales valuation for Dometrics
+ * Values a name from recent sales and listings of similar names (same TLD,
+ * similar length, shared keyword or shape). Every value comes with the comps
+ * it was built from and a confidence derived from how much they disagree.
+ */
+
+import { prisma } from './prisma'
+import { domaClient, collectAll } from './doma-client'
+import { DICTIONARY_WORDS } from './scoring'
+
+// Coarse character class of a label; the collector categories live in name-patterns.ts
+export type NameShape = 'numeric' | 'alpha' | 'alphanumeric' | 'hyphenated' | 'idn'
+
+export interface MarketRecord {
+  tokenId: string
+  name: string
+  tld: string
+  priceUsd: number
+  kind: 'sale' | 'listing'
+  date: string
+}
+
+export interface Comparable extends MarketRecord {
+  similarity: number
+  weight: number
+  adjustedPrice: number
+  reasons: string[]
+}
+
+export interface CompsValuation {
+  method: 'comps' | 'insufficient'
+  value: number | null
+  low: number | null
+  high: number | null
+  confidence: number
+  dispersion: number | null
+  sampleSize: number
+  comps: Comparable[]
+}
+
+// A market record with its name features precomputed for similarity checks
+interface IndexedRecord extends MarketRecord {
+  namePart: string
+  shape: NameShape
+  keywords: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_COMPS = 8
+// Fewer comps than this and the valuation is reported but not used for scoring
+export const MIN_COMPS = 3
+const MIN_SIMILARITY = 0.45
+// Asking prices clear below list; sales are taken as-is
+const LISTING_DISCOUNT = 0.85
+const LISTING_WEIGHT = 0.6
+// Comp weight halves every 180 days
+const RECENCY_HALF_LIFE_DAYS = 180
+const SALES_LOOKBACK_DAYS = 365
+// Without stored events, live purchase reads are limited to this many active tokens
+const LIVE_SALES_TOKEN_LIMIT = 50
+const MARKET_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Coarse shape of a name (second-level label only)
+ */
+export function getNameShape(namePart: string): NameShape {
+  if (namePart.startsWith('xn--')) return 'idn'
+  if (/^\d+$/.test(namePart)) return 'numeric'
+  if (namePart.includes('-')) return 'hyphenated'
+  if (/^[a-z]+$/i.test(namePart)) return 'alpha'
+  return 'alphanumeric'
+}
+
+function getKeywords(namePart: string): string[] {
+  const lower = namePart.toLowerCase()
+  return Array.from(DICTIONARY_WORDS).filter(word => word.length >= 3 && lower.includes(word))
+}
+
+function splitName(name: string): { namePart: string; tld: string } {
+  const parts = name.split('.')
+  return { namePart: parts[0], tld: parts.slice(1).join('.') || 'com' }
+}
+
+function indexRecord(record: MarketRecord): IndexedRecord {
+  const { namePart } = splitName(record.name)
+  return { ...record, namePart, shape: getNameShape(namePart), keywords: getKeywords(namePart) }
+}
+
+// Price at which `fraction` of the total weight lies at or below
+function weightedPercentile(items: Array<{ price: number; weight: number }>, fraction: number): number {
+  const sorted = [...items].sort((a, b) => a.price - b.price)
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0)
+  let cumulative = 0
+  for (const item of sorted) {
+    cumulative += item.weight
+    if (cumulative >= fraction * total) return item.price
+  }
+  return sorted[sorted.length - 1].price
+}
+
+export class CompsValuer {
+  private market: { builtAt: number; names: Map<string, string>; promise: Promise<IndexedRecord[]> } | null = null
+
+  /**
+   * How alike two names are for pricing purposes (0-1), with the reasons
+   */
+  similarity(
+    subject: { namePart: string; tld: string; shape: NameShape; keywords: string[] },
+    record: IndexedRecord
+  ): { score: number; reasons: string[] } {
+    const reasons: string[] = []
+    let score = 0
+
+    if (record.tld === subject.tld) {
+      score += 0.35
+      reasons.push(`same .${record.tld}`)
+    }
+
+    const lengthDiff = Math.abs(record.namePart.length - subject.namePart.length)
+    const lengthScore = Math.max(0, 1 - lengthDiff / 4)
+    if (lengthScore > 0) {
+      score += 0.25 * lengthScore
+      reasons.push(lengthDiff === 0 ? `same length (${record.namePart.length})` : `${record.namePart.length} vs ${subject.namePart.length} chars`)
+    }
+
+    const shared = record.keywords.filter(keyword => subject.keywords.includes(keyword))
+    if (shared.length > 0) {
+      score += 0.25
+      reasons.push(`shares "${shared[0]}"`)
+    }
+
+    if (record.shape === subject.shape) {
+      score += 0.15
+      reasons.push(`both ${record.shape}`)
+    }
+
+    return { score, reasons }
+  }
+
+  /**
+   * Value a name against a market snapshot. Pure: no network access.
+   */
+  valueFromMarket(
+    subject: { name: string; tokenId?: string },
+    market: MarketRecord[],
+    now: number = Date.now()
+  ): CompsValuation {
+    const { namePart, tld } = splitName(subject.name)
+    const features = { namePart, tld, shape: getNameShape(namePart), keywords: getKeywords(namePart) }
+
+    const comps: Comparable[] = []
+    for (const raw of market) {
+      if (raw.tokenId === subject.tokenId) continue
+      const record = 'shape' in raw ? (raw as IndexedRecord) : indexRecord(raw)
+      const { score, reasons } = this.similarity(features, record)
+      if (score < MIN_SIMILARITY) continue
+
+      const ageDays = Math.max(0, (now - new Date(record.date).getTime()) / DAY_MS)
+      const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)
+      comps.push({
+        tokenId: record.tokenId,
+        name: record.name,
+        tld: record.tld,
+        priceUsd: record.priceUsd,
+        kind: record.kind,
+        date: record.date,
+        similarity: Math.round(score * 100) / 100,
+        weight: score * recency * (record.kind === 'sale' ? 1 : LISTING_WEIGHT),
+        adjustedPrice: record.kind === 'listing' ? record.priceUsd * LISTING_DISCOUNT : record.priceUsd,
+        reasons
+      })
+    }
+
+    comps.sort((a, b) => b.weight - a.weight)
+    const selected = comps.slice(0, MAX_COMPS)
+
+    if (selected.length < MIN_COMPS) {
+      return {
+        method: 'insufficient',
+        value: null,
+        low: null,
+        high: null,
+        confidence: 0,
+        dispersion: null,
+        sampleSize: selected.length,
+        comps: selected
+      }
+    }
+
+    const prices = selected.map(comp => ({ price: comp.adjustedPrice, weight: comp.weight }))
+    const value = weightedPercentile(prices, 0.5)
+    const low = weightedPercentile(prices, 0.25)
+    const high = weightedPercentile(prices, 0.75)
+    const dispersion = value > 0 ? (high - low) / value : 0
+
+    // More, closer and tighter comps mean more confidence
+    const sizeFactor = Math.min(1, selected.length / 6)
+    const meanSimilarity = selected.reduce((sum, comp) => sum + comp.similarity, 0) / selected.length
+    const confidence = Math.round(25 + 70 * sizeFactor * meanSimilarity / (1 + dispersion))
+
+    return {
+      method: 'comps',
+      value: Math.round(value),
+      low: Math.round(low),
+      high: Math.round(high),
+      confidence,
+      dispersion: Math.round(dispersion * 100) / 100,
+      sampleSize: selected.length,
+      comps: selected
+    }
+  }
+
+  /**
+   * Recent priced sales and listings, reused for a short window.
+   * `names` resolves token ids to names; `activeTokenIds` bounds live sale reads.
+   * A cached market is only reused if it already knows every requested name.
+   */
+  async getMarket(names: Map<string, string>, activeTokenIds: string[] = []): Promise<MarketRecord[]> {
+    const cached = this.market
+    const fresh = cached && Date.now() - cached.builtAt < MARKET_TTL_MS &&
+      Array.from(names.keys()).every(tokenId => cached.names.has(tokenId))
+    if (!fresh) {
+      const promise = this.buildMarket(names, activeTokenIds)
+      this.market = { builtAt: Date.now(), names, promise }
+      // Don't keep a failed build around
+      promise.catch(() => {
+        if (this.market?.promise === promise) this.market = null
+      })
+    }
+    return this.market!.promise
+  }
+
+  private async buildMarket(names: Map<string, string>, activeTokenIds: string[]): Promise<IndexedRecord[]> {
+    const [listings, sales] = await Promise.all([
+      this.getListingRecords(names),
+      this.getSaleRecords(names, activeTokenIds)
+    ])
+    return [...sales, ...listings].map(indexRecord)
+  }
+
+  private async getListingRecords(names: Map<string, string>): Promise<MarketRecord[]> {
+    const listings = await collectAll(domaClient.iterateAllListings())
+    const records: MarketRecord[] = []
+
+    for (const listing of listings) {
+      const name = names.get(listing.tokenId)
+      const price = parseFloat(listing.price) * (listing.currency?.usdExchangeRate || 1)
+      if (!name || !(price > 0)) continue
+      records.push({
+        tokenId: listing.tokenId,
+        name,
+        tld: splitName(name).tld,
+        priceUsd: price,
+        kind: 'listing',
+        date: listing.createdAt
+      })
+    }
+    return records
+  }
+
+  private async getSaleRecords(names: Map<string, string>, activeTokenIds: string[]): Promise<MarketRecord[]> {
+    const since = new Date(Date.now() - SALES_LOOKBACK_DAYS * DAY_MS)
+    const records: MarketRecord[] = []
+    const add = (tokenId: string, priceUsd: number | null, date: Date | string) => {
+      const name = names.get(tokenId)
+      if (!name || !priceUsd || priceUsd <= 0) return
+      records.push({
+        tokenId,
+        name,
+        tld: splitName(name).tld,
+        priceUsd,
+        kind: 'sale',
+        date: new Date(date).toISOString()
+      })
+    }
+
+    // Stored Poll API purchases when the database is configured
+    if (process.env.DATABASE_URL) {
+      try {
+        const events: Array<{ tokenId: string; priceUsd: number | null; occurredAt: Date }> =
+          await prisma.domainEvent.findMany({
+            where: { kind: 'purchase', priceUsd: { not: null }, occurredAt: { gte: since } },
+            select: { tokenId: true, priceUsd: true, occurredAt: true }
+          })
+        events.forEach(event => add(event.tokenId, event.priceUsd, event.occurredAt))
+        return records
+      } catch (error) {
+        console.error('Failed to read stored purchases, falling back to subgraph:', error)
+      }
+    }
+
+    // Otherwise PURCHASED activities of recently active tokens
+    for (const tokenId of activeTokenIds.slice(0, LIVE_SALES_TOKEN_LIMIT)) {
+      const activities = await domaClient.getTokenActivities(tokenId, 50)
+      for (const activity of activities as any[]) {
+        if (activity.type !== 'PURCHASED' || !activity.payment?.price) continue
+        if (new Date(activity.createdAt) < since) continue
+        add(tokenId, parseFloat(activity.payment.price) * (activity.payment.usdExchangeRate || 1), activity.createdAt)
+      }
+    }
+    return records
+  }
+}
+
+export const compsValuer = new CompsValuer()
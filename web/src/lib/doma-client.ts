@@ -136,12 +136,71 @@ export interface PollEvent {
   data: Record<string, any>
 }
 
+export interface PageModel<T> {
+  items: T[]
+  totalCount?: number
+  pageSize?: number
+  currentPage?: number
+  hasNextPage?: boolean
+}
+
+export interface PaginationOptions {
+  pageSize?: number // items requested per subgraph call (max 100)
+  maxItems?: number // stop after this many items in total (default MAX_TRAVERSAL_ITEMS)
+  skip?: number // start offset into the collection
+}
+
+// Largest page the subgraph accepts for a single `take`
+export const MAX_PAGE_SIZE = 100
+// Safety cap on a full traversal when the caller does not set maxItems
+export const MAX_TRAVERSAL_ITEMS = 2000
+
+// What a finished traversal returns once every item has been yielded
+export interface TraversalResult {
+  truncated: boolean // stopped at maxItems while the subgraph had more
+}
+
+/**
+ * A page request failed partway through a traversal. Items already yielded
+ * stand, but the collection is incomplete.
+ */
+export class PaginationError extends Error {
+  constructor(public field: string, public skip: number, public cause: unknown) {
+    super(`Failed to fetch ${field} page at skip ${skip}: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = 'PaginationError'
+  }
+}
+
+/**
+ * Drain an async iterator into an array
+ */
+export async function collectAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Drain a traversal into an array, keeping whether it stopped at its maxItems cap
+ */
+export async function collectTraversal<T>(
+  traversal: AsyncGenerator<T, TraversalResult>
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = []
+  for (let next = await traversal.next(); ; next = await traversal.next()) {
+    if (next.done) return { items, truncated: next.value.truncated }
+    items.push(next.value)
+  }
+}
+
 // Subgraph Queries
 export const QUERIES = {
   // Get all names with their tokens
   MY_NAMES: `
-    query MyNames($take: Int = 25) {
-      names(take: $take) {
+    query MyNames($skip: Int = 0, $take: Int = 25) {
+      names(skip: $skip, take: $take) {
         items {
           name
           expiresAt
@@ -160,14 +219,18 @@ export const QUERIES = {
             explorerUrl
           }
         }
+        totalCount
+        pageSize
+        currentPage
+        hasNextPage
       }
     }
   `,
   
   // Get names by owner
   NAMES_BY_OWNER: `
-    query NamesByOwner($owners: [AddressCAIP10!]!, $take: Int = 25) {
-      names(ownedBy: $owners, take: $take) {
+    query NamesByOwner($owners: [AddressCAIP10!]!, $skip: Int = 0, $take: Int = 25) {
+      names(ownedBy: $owners, skip: $skip, take: $take) {
         items {
           name
           expiresAt
@@ -186,14 +249,42 @@ export const QUERIES = {
             explorerUrl
           }
         }
+        totalCount
+        pageSize
+        currentPage
+        hasNextPage
+      }
+    }
+  `,
+
+  // Get a single name (with its tokens) by its fully-qualified name
+  NAME_DETAILS: `
+    query NameDetails($name: String!) {
+      name(name: $name) {
+        name
+        expiresAt
+        tokenizedAt
+        registrar {
+          name
+          ianaId
+        }
+        transferLock
+        claimedBy
+        tokens {
+          tokenId
+          tokenAddress
+          ownerAddress
+          expiresAt
+          explorerUrl
+        }
       }
     }
   `,
 
   // Get activities for a specific token with proper union fragments
   TOKEN_ACTIVITIES: `
-    query TokenActivities($tokenId: String, $take: Int = 50) {
-      tokenActivities(tokenId: $tokenId, take: $take) {
+    query TokenActivities($tokenId: String, $skip: Int = 0, $take: Int = 50) {
+      tokenActivities(tokenId: $tokenId, skip: $skip, take: $take) {
         items {
           ... on TokenMintedActivity {
             type
@@ -303,6 +394,10 @@ export const QUERIES = {
             name
           }
         }
+        totalCount
+        pageSize
+        currentPage
+        hasNextPage
       }
     }
   `,
@@ -386,8 +481,8 @@ export const QUERIES = {
 
   // Get all listings (marketplace overview)
   ALL_LISTINGS: `
-    query AllListings($take: Int = 100) {
-      listings(take: $take) {
+    query AllListings($skip: Int = 0, $take: Int = 100) {
+      listings(skip: $skip, take: $take) {
         items {
           id
           tokenId
@@ -400,6 +495,10 @@ export const QUERIES = {
           }
           createdAt
         }
+        totalCount
+        pageSize
+        currentPage
+        hasNextPage
       }
     }
   `,
@@ -452,11 +551,11 @@ export class DomaClient {
   }
 
   // Get all names from testnet
-  async getAllNames(take = 25): Promise<NameModel[]> {
+  async getAllNames(take = 25, skip = 0): Promise<NameModel[]> {
     try {
       const response = await subgraphClient.request<{ names: { items: NameModel[] } }>(
         QUERIES.MY_NAMES,
-        { take }
+        { skip, take }
       )
       return response.names?.items || []
     } catch (error) {
@@ -465,18 +564,17 @@ export class DomaClient {
     }
   }
 
+  // Iterate every tokenized name, page by page
+  iterateAllNames(options: PaginationOptions = {}): AsyncGenerator<NameModel, TraversalResult> {
+    return this.paginate<NameModel>(QUERIES.MY_NAMES, 'names', {}, options)
+  }
+
   // Get names by owner
   async getNamesByOwner(owners: string[], take = 25): Promise<NameModel[]> {
     try {
-      // Convert to CAIP10 format if needed
-      const caip10Owners = owners.map(addr => {
-        if (addr.startsWith('eip155:')) return addr
-        return `eip155:97476:${addr}`
-      })
-      
       const response = await subgraphClient.request<{ names: { items: NameModel[] } }>(
         QUERIES.NAMES_BY_OWNER,
-        { owners: caip10Owners, take }
+        { owners: this.toCaip10(owners), take }
       )
       return response.names?.items || []
     } catch (error) {
@@ -486,6 +584,38 @@ export class DomaClient {
     }
   }
 
+  /**
+   * Look up one tokenized name by token id.
+   * nameStatistics resolves the token to its name, which is then fetched directly.
+   * Null when either lookup misses: an unknown token id never walks the catalogue
+   * (callers check the scored catalogue cache first).
+   */
+  async getNameByTokenId(
+    tokenId: string,
+    knownName?: string
+  ): Promise<{ name: NameModel; token: TokenModel } | null> {
+    const nameString = knownName || (await this.getNameStatistics(tokenId))?.name
+
+    if (nameString) {
+      try {
+        const response = await subgraphClient.request<{ name: NameModel | null }>(
+          QUERIES.NAME_DETAILS,
+          { name: nameString }
+        )
+        const token = response.name?.tokens?.find(t => t.tokenId === tokenId)
+        if (response.name && token) return { name: response.name, token }
+      } catch (error) {
+        console.error(`Error fetching name ${nameString}:`, error)
+      }
+    }
+    return null
+  }
+
+  // Iterate every name held by the given owners, page by page
+  iterateNamesByOwner(owners: string[], options: PaginationOptions = {}): AsyncGenerator<NameModel, TraversalResult> {
+    return this.paginate<NameModel>(QUERIES.NAMES_BY_OWNER, 'names', { owners: this.toCaip10(owners) }, options)
+  }
+
   async getTokenActivities(tokenId: string, take = 20): Promise<TokenActivity[]> {
     try {
       const response = await subgraphClient.request<{ tokenActivities: { items: TokenActivity[] } }>(
@@ -500,6 +630,11 @@ export class DomaClient {
     }
   }
 
+  // Iterate a token's full activity history, newest first
+  iterateTokenActivities(tokenId: string, options: PaginationOptions = {}): AsyncGenerator<TokenActivity, TraversalResult> {
+    return this.paginate<TokenActivity>(QUERIES.TOKEN_ACTIVITIES, 'tokenActivities', { tokenId }, options)
+  }
+
   // Analyze ownership history for risk assessment
   async analyzeOwnershipHistory(tokenId: string) {
     const activities = await this.getTokenActivities(tokenId, 100)
@@ -729,6 +864,11 @@ export class DomaClient {
     }
   }
 
+  // Iterate every marketplace listing, page by page
+  iterateAllListings(options: PaginationOptions = {}): AsyncGenerator<any, TraversalResult> {
+    return this.paginate<any>(QUERIES.ALL_LISTINGS, 'listings', {}, options)
+  }
+
   // Get chain statistics
   async getChainStatistics(): Promise<any> {
     try {
@@ -965,6 +1105,57 @@ export class DomaClient {
     const secondsUntilExpiry = Number(expirationTimestamp) - now
     return Math.floor(secondsUntilExpiry / (24 * 60 * 60)) // Convert to days
   }
+
+  /**
+   * Walk a skip/take paginated subgraph collection.
+   * Stops when the subgraph reports no further page or a short page comes back.
+   * Reaching maxItems with more to fetch returns `truncated: true`; a failed
+   * request throws a PaginationError after the items already yielded.
+   */
+  private async *paginate<T>(
+    query: string,
+    field: string,
+    variables: Record<string, any>,
+    options: PaginationOptions
+  ): AsyncGenerator<T, TraversalResult> {
+    const take = Math.min(Math.max(options.pageSize ?? MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const maxItems = options.maxItems ?? MAX_TRAVERSAL_ITEMS
+    let skip = options.skip ?? 0
+    let yielded = 0
+
+    while (true) {
+      let page: PageModel<T> | undefined
+      try {
+        const response = await subgraphClient.request<Record<string, PageModel<T>>>(
+          query,
+          { ...variables, skip, take }
+        )
+        page = response[field]
+      } catch (error) {
+        throw new PaginationError(field, skip, error)
+      }
+
+      const items = page?.items || []
+      for (const item of items) {
+        if (yielded >= maxItems) return { truncated: true }
+        yield item
+        yielded++
+      }
+
+      const hasNextPage = page?.hasNextPage ?? items.length === take
+      if (!hasNextPage || items.length === 0) return { truncated: false }
+      if (yielded >= maxItems) return { truncated: true }
+      skip += items.length
+    }
+  }
+
+  // Convert plain addresses to CAIP-10 on the Doma testnet
+  private toCaip10(owners: string[]): string[] {
+    return owners.map(addr => {
+      if (addr.startsWith('eip155:')) return addr
+      return `eip155:97476:${addr}`
+    })
+  }
 }
 
 // Create default client instance
@@ -0,0 +1,448 @@
+/**
+ * Domain scoring pipeline for Dometrics
+ * Turns subgraph NameModel/TokenModel pairs into fully scored domain records.
+ * The dashboard, detail page, alerts, /api/domains and /api/analytics all read
+ * from here so a domain gets the same numbers on every screen.
+ * Scores are computed per weight profile; the enriched inputs are shared.
+ */
+
+import { domaClient, MAX_TRAVERSAL_ITEMS } from './doma-client'
+import type { NameModel, TokenModel } from './doma-client'
+import type { DomainExplanation, DomainScores, ScoringInput } from './scoring'
+import { DEFAULT_PROFILE, getScoringEngine } from './weight-profiles'
+import { activityAggregator, getInputSources } from './activity-aggregates'
+import type { ActivityAggregates, InputSource } from './activity-aggregates'
+import { compsValuer, MIN_COMPS } from './comps-valuation'
+import { getNamePatterns } from './name-patterns'
+import type { NamePattern } from './name-patterns'
+import { toUnicodeLabel, toUnicodeName } from './idn'
+import type { CompsValuation, MarketRecord } from './comps-valuation'
+
+export interface ContractState {
+  expirationOf?: bigint
+  lockStatusOf?: boolean
+  registrarOf?: bigint
+}
+
+export interface ScoredDomain {
+  id: string
+  name: string
+  // name with punycode labels decoded, for display
+  displayName: string
+  namePart: string
+  tld: string
+  tokenId: string
+  tokenAddress: string
+  owner: string
+  expiresAt: string
+  tokenizedAt: string | null
+  explorerUrl: string
+  registrar: string
+  registrarId: number
+  transferLock: boolean
+  daysUntilExpiry: number
+  price: number
+  valuation: Omit<CompsValuation, 'comps'> | null
+  scores: DomainScores
+  // Collector pattern categories of namePart
+  patterns: NamePattern[]
+  profile: string
+  weightsVersion: string
+  activity7d: number
+  activity30d: number
+  offerCount: number
+  renewalCount: number
+  activity: {
+    '7d': number
+    '30d': number
+    offers7d: number
+    offers30d: number
+    listings7d: number
+    listings30d: number
+    transfers7d: number
+    transfers30d: number
+    renewals365d: number
+  }
+  contract: {
+    expirationOf: string | null
+    lockStatusOf: boolean | null
+    registrarOf: string | null
+  } | null
+  inputSources: Record<string, InputSource>
+  defaultedInputs: string[]
+}
+
+export interface DomainEntry {
+  name: NameModel
+  token: TokenModel
+}
+
+export interface ScoringOptions {
+  profile?: string
+}
+
+// The scored catalogue and whether it is missing names
+export interface Catalogue {
+  domains: ScoredDomain[]
+  // The walk stopped at MAX_TRAVERSAL_ITEMS or a page failed partway through
+  truncated: boolean
+}
+
+// Everything scoring needs besides the weights
+interface EnrichedEntry extends DomainEntry {
+  activity: ActivityAggregates
+  contract?: ContractState
+  valuation?: CompsValuation
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Tokens per multicall batch (three reads each)
+const CONTRACT_BATCH_SIZE = 100
+// Above this many tokens, skip per-token subgraph activity reads and rely on stored stats
+const LIVE_ACTIVITY_LIMIT = 100
+// How long a scored catalogue is reused across requests (pagination, detail lookups)
+const CATALOGUE_TTL_MS = 60 * 1000
+
+export class DomainScoringService {
+  private catalogue: {
+    builtAt: number
+    inputs: Promise<{ entries: EnrichedEntry[]; truncated: boolean }>
+    scored: Map<string, Promise<Catalogue>>
+  } | null = null
+  // Every known name from the last catalogue build, kept for comps lookups
+  private catalogueNames = new Map<string, string>()
+
+  /**
+   * Score one name/token from already-fetched inputs. Pure: no network access.
+   */
+  score(
+    name: NameModel,
+    token: TokenModel,
+    activity: ActivityAggregates,
+    contract?: ContractState | null,
+    options: ScoringOptions & { now?: number; valuation?: CompsValuation } = {}
+  ): ScoredDomain {
+    const profile = options.profile || DEFAULT_PROFILE
+    const engine = getScoringEngine(profile)
+    const now = options.now ?? Date.now()
+    const valuation = options.valuation
+    const input = this.toScoringInput(name, token, activity, contract, valuation)
+    const { name: namePart, tld, expiresAt, lockStatus, registrarId } = input
+
+    const scores = engine.calculateScoresSync(input)
+
+    const inputSources = getInputSources(name, activity.source, contract)
+
+    return {
+      id: token.tokenId,
+      name: name.name,
+      displayName: toUnicodeName(name.name),
+      namePart,
+      tld,
+      tokenId: token.tokenId,
+      tokenAddress: token.tokenAddress,
+      owner: token.ownerAddress,
+      expiresAt: expiresAt.toISOString(),
+      tokenizedAt: name.tokenizedAt || null,
+      explorerUrl: token.explorerUrl,
+      registrar: name.registrar?.name || 'Unknown',
+      registrarId,
+      transferLock: lockStatus,
+      daysUntilExpiry: Math.floor((expiresAt.getTime() - now) / DAY_MS),
+      price: Math.round(scores.currentValue || 1000),
+      valuation: valuation
+        ? {
+            method: valuation.method,
+            value: valuation.value,
+            low: valuation.low,
+            high: valuation.high,
+            confidence: valuation.confidence,
+            dispersion: valuation.dispersion,
+            sampleSize: valuation.sampleSize
+          }
+        : null,
+      scores,
+      patterns: getNamePatterns(toUnicodeLabel(namePart)),
+      profile,
+      weightsVersion: engine.version,
+      activity7d: activity.activity7d,
+      activity30d: activity.activity30d,
+      offerCount: activity.offerCount,
+      renewalCount: activity.renewalCount,
+      activity: {
+        '7d': activity.activity7d,
+        '30d': activity.activity30d,
+        offers7d: activity.offers7d,
+        offers30d: activity.offers30d,
+        listings7d: activity.listings7d,
+        listings30d: activity.listings30d,
+        transfers7d: activity.transfers7d,
+        transfers30d: activity.transfers30d,
+        renewals365d: activity.renewals365d
+      },
+      contract: contract
+        ? {
+            expirationOf: contract.expirationOf?.toString() ?? null,
+            lockStatusOf: contract.lockStatusOf ?? null,
+            registrarOf: contract.registrarOf?.toString() ?? null
+          }
+        : null,
+      inputSources,
+      defaultedInputs: Object.entries(inputSources)
+        .filter(([, source]) => source === 'default')
+        .map(([input]) => input)
+    }
+  }
+
+  /**
+   * Enrich and score many name/token pairs, preserving input order.
+   * Contract state is read in batched multicalls; activity comes from stored
+   * DomainStats, falling back to live subgraph reads for small sets.
+   */
+  async scoreDomains(
+    entries: DomainEntry[],
+    options: ScoringOptions & { live?: boolean } = {}
+  ): Promise<ScoredDomain[]> {
+    return this.scoreEnriched(await this.enrich(entries, options.live), options)
+  }
+
+  /**
+   * Every tokenized name, scored with the given profile. Inputs are reused for a
+   * short window so paginated requests, detail lookups and profile switches all
+   * see the same snapshot.
+   */
+  async getCatalogue(options: ScoringOptions & { refresh?: boolean } = {}): Promise<ScoredDomain[]> {
+    return (await this.loadCatalogue(options)).domains
+  }
+
+  /**
+   * The scored catalogue along with whether it is complete. Callers that diff
+   * or count the whole catalogue should check `truncated` before trusting it.
+   */
+  async loadCatalogue(options: ScoringOptions & { refresh?: boolean } = {}): Promise<Catalogue> {
+    const profile = options.profile || DEFAULT_PROFILE
+    const fresh = this.catalogue && Date.now() - this.catalogue.builtAt < CATALOGUE_TTL_MS
+    if (!fresh || options.refresh) {
+      const inputs = this.buildCatalogue()
+      this.catalogue = { builtAt: Date.now(), inputs, scored: new Map() }
+      // Don't keep a failed build around
+      inputs.catch(() => {
+        if (this.catalogue?.inputs === inputs) this.catalogue = null
+      })
+    }
+
+    const catalogue = this.catalogue!
+    let scored = catalogue.scored.get(profile)
+    if (!scored) {
+      scored = catalogue.inputs.then(async ({ entries, truncated }) => ({
+        domains: await this.scoreEnriched(entries, { profile }),
+        truncated
+      }))
+      catalogue.scored.set(profile, scored)
+    }
+    return scored
+  }
+
+  /**
+   * One domain by token id. Served from the cached catalogue when it is recent so
+   * the detail view matches the list it was opened from; `fresh` forces a rescore.
+   */
+  async getDomain(
+    tokenId: string,
+    options: ScoringOptions & { knownName?: string; fresh?: boolean } = {}
+  ): Promise<ScoredDomain | null> {
+    if (!options.fresh && this.catalogue && Date.now() - this.catalogue.builtAt < CATALOGUE_TTL_MS) {
+      try {
+        const cached = (await this.getCatalogue({ profile: options.profile })).find(d => d.tokenId === tokenId)
+        if (cached) return cached
+      } catch {
+        // Fall through to a direct lookup
+      }
+    }
+
+    const found = await domaClient.getNameByTokenId(tokenId, options.knownName)
+    if (!found) return null
+    const [domain] = await this.scoreDomains([found], { profile: options.profile })
+    return domain
+  }
+
+  /**
+   * Explain mode for one domain: every factor, the arithmetic and counterfactuals,
+   * computed from the same inputs as its scores.
+   */
+  async explain(
+    tokenId: string,
+    options: ScoringOptions & { knownName?: string } = {}
+  ): Promise<{ domain: ScoredDomain; explanation: DomainExplanation } | null> {
+    const entry = await this.getEnrichedEntry(tokenId, options.knownName)
+    if (!entry) return null
+
+    const { name, token, activity, contract, valuation } = entry
+    const domain = this.score(name, token, activity, contract, { profile: options.profile, valuation })
+    const explanation = getScoringEngine(domain.profile).explainScores(
+      this.toScoringInput(name, token, activity, contract, valuation)
+    )
+    return { domain, explanation }
+  }
+
+  /**
+   * Comparable-sales valuation for one domain, including the comps used
+   */
+  async getValuation(tokenId: string, options: { knownName?: string } = {}): Promise<CompsValuation | null> {
+    const entry = await this.getEnrichedEntry(tokenId, options.knownName)
+    return entry?.valuation ?? null
+  }
+
+  private toScoringInput(
+    name: NameModel,
+    token: TokenModel,
+    activity: ActivityAggregates,
+    contract?: ContractState | null,
+    valuation?: CompsValuation
+  ): ScoringInput & { expiresAt: Date; lockStatus: boolean; registrarId: number } {
+    const parts = name.name.split('.')
+    const comps = valuation?.method === 'comps' && valuation.sampleSize >= MIN_COMPS
+      ? {
+          value: valuation.value!,
+          low: valuation.low!,
+          high: valuation.high!,
+          confidence: valuation.confidence,
+          sampleSize: valuation.sampleSize
+        }
+      : undefined
+
+    // On-chain state wins over subgraph data when the contract read succeeded
+    return {
+      name: parts[0],
+      tld: parts.slice(1).join('.') || 'com',
+      expiresAt: contract?.expirationOf
+        ? new Date(Number(contract.expirationOf) * 1000)
+        : new Date(token.expiresAt),
+      tokenizedAt: name.tokenizedAt,
+      lockStatus: contract?.lockStatusOf ?? (name.transferLock || false),
+      registrarId: contract?.registrarOf
+        ? Number(contract.registrarOf)
+        : (name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : 1),
+      renewalCount: activity.renewalCount,
+      offerCount: activity.offerCount,
+      activity7d: activity.activity7d,
+      activity30d: activity.activity30d,
+      recentEvents: activity.recentEvents,
+      comps,
+    }
+  }
+
+  private async getEnrichedEntry(tokenId: string, knownName?: string): Promise<EnrichedEntry | null> {
+    if (this.catalogue && Date.now() - this.catalogue.builtAt < CATALOGUE_TTL_MS) {
+      try {
+        const cached = (await this.catalogue.inputs).entries.find(e => e.token.tokenId === tokenId)
+        if (cached) return cached
+      } catch {
+        // Fall through to a direct lookup
+      }
+    }
+
+    const found = await domaClient.getNameByTokenId(tokenId, knownName)
+    if (!found) return null
+    const [entry] = await this.enrich([found])
+    return entry
+  }
+
+  private scoreEnriched(inputs: EnrichedEntry[], options: ScoringOptions): ScoredDomain[] {
+    const now = Date.now()
+    return inputs.map(({ name, token, activity, contract, valuation }) =>
+      this.score(name, token, activity, contract, { profile: options.profile, now, valuation })
+    )
+  }
+
+  private async enrich(entries: DomainEntry[], live?: boolean): Promise<EnrichedEntry[]> {
+    const tokenIds = entries.map(e => e.token.tokenId)
+    const [aggregates, contractData] = await Promise.all([
+      activityAggregator.getAggregates(tokenIds, {
+        live: live ?? entries.length <= LIVE_ACTIVITY_LIMIT
+      }),
+      this.getContractState(entries)
+    ])
+
+    const market = await this.getMarket(entries, aggregates)
+    const now = Date.now()
+    return entries.map(({ name, token }) => ({
+      name,
+      token,
+      activity: aggregates.get(token.tokenId) || activityAggregator.defaults(),
+      contract: contractData[token.tokenId],
+      valuation: compsValuer.valueFromMarket({ name: name.name, tokenId: token.tokenId }, market, now)
+    }))
+  }
+
+  private async getMarket(
+    entries: DomainEntry[],
+    aggregates: Map<string, ActivityAggregates>
+  ): Promise<MarketRecord[]> {
+    const names = new Map(entries.map(({ name, token }) => [token.tokenId, name.name]))
+    // Single lookups price against every catalogue name, not just their own
+    this.catalogueNames.forEach((name, tokenId) => {
+      if (!names.has(tokenId)) names.set(tokenId, name)
+    })
+    const activeTokenIds = entries
+      .map(({ token }) => token.tokenId)
+      .filter(tokenId => (aggregates.get(tokenId)?.activity30d || 0) > 0)
+
+    try {
+      return await compsValuer.getMarket(names, activeTokenIds)
+    } catch (error) {
+      console.error('Failed to load comparable sales, using model values:', error)
+      return []
+    }
+  }
+
+  private async buildCatalogue(): Promise<{ entries: EnrichedEntry[]; truncated: boolean }> {
+    const entries: DomainEntry[] = []
+    const names = domaClient.iterateAllNames()
+    let truncated: boolean
+    try {
+      for (let next = await names.next(); ; next = await names.next()) {
+        if (next.done) {
+          truncated = next.value.truncated
+          break
+        }
+        for (const token of next.value.tokens || []) {
+          entries.push({ name: next.value, token })
+        }
+      }
+    } catch (error) {
+      // Nothing to serve without the first page; after that, serve what arrived and say so
+      if (entries.length === 0) throw error
+      console.error('Catalogue walk failed partway, serving a partial catalogue:', error)
+      truncated = true
+    }
+    if (truncated) console.warn(`Catalogue is partial: ${entries.length} tokens (cap ${MAX_TRAVERSAL_ITEMS} names)`)
+
+    this.catalogueNames = new Map(entries.map(({ name, token }) => [token.tokenId, name.name]))
+    return { entries: await this.enrich(entries), truncated }
+  }
+
+  private async getContractState(entries: DomainEntry[]): Promise<Record<string, ContractState>> {
+    const byAddress = new Map<string, string[]>()
+    for (const { token } of entries) {
+      if (!token.tokenAddress) continue
+      const ids = byAddress.get(token.tokenAddress) || []
+      ids.push(token.tokenId)
+      byAddress.set(token.tokenAddress, ids)
+    }
+
+    const state: Record<string, ContractState> = {}
+    for (const [tokenAddress, ids] of byAddress) {
+      for (let i = 0; i < ids.length; i += CONTRACT_BATCH_SIZE) {
+        try {
+          Object.assign(state, await domaClient.getTokenRiskData(tokenAddress, ids.slice(i, i + CONTRACT_BATCH_SIZE)))
+        } catch (error) {
+          console.error('Failed to fetch contract data, using subgraph values:', error)
+        }
+      }
+    }
+    return state
+  }
+}
+
+export const domainScoringService = new DomainScoringService()
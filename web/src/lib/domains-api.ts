@@ -0,0 +1,445 @@
+// Client helpers for the scored-domain API (shared scoring pipeline)
+
+import type {
+  AlertEventRecord,
+  AlertRule,
+  CompositeCondition,
+  CreateRuleRequest,
+  EventCondition,
+  MetricCondition,
+  SavedFilterCondition,
+  UpdateRuleInput
+} from './alert-engine'
+import type { ScoredDomain } from './domain-scoring'
+import type { CompsValuation } from './comps-valuation'
+import type { MarketEvent, MarketEventKind } from './market-events'
+import type { Portfolio } from './portfolio'
+import type { PortfolioGroup, PortfolioGroupReport, ReportFormat } from './portfolio-groups'
+import type { RenewalCalendar } from './renewal-calendar'
+import type { DomainExplanation } from './scoring'
+import type { WeightProfile } from './weight-profiles'
+import type {
+  CreateWatchlistRequest,
+  SharedWatchlistReport,
+  UpdateWatchlistInput,
+  Watchlist,
+  WatchlistFormat,
+  WatchlistReport
+} from './watchlists'
+
+export type {
+  AlertEventRecord,
+  AlertRule,
+  CompositeCondition,
+  CompsValuation,
+  DomainExplanation,
+  EventCondition,
+  MarketEvent,
+  MarketEventKind,
+  MetricCondition,
+  Portfolio,
+  PortfolioGroup,
+  PortfolioGroupReport,
+  RenewalCalendar,
+  SavedFilterCondition,
+  ScoredDomain,
+  SharedWatchlistReport,
+  Watchlist,
+  WatchlistReport,
+  WeightProfile
+}
+
+const PROFILE_STORAGE_KEY = 'dometrics-weight-profile'
+const USER_ADDRESS_STORAGE_KEY = 'dometrics-user-address'
+const DEFAULT_PROFILE = 'default'
+
+/**
+ * Weight profile the user last picked (shared by dashboard, detail, alerts, analytics)
+ */
+export function getSelectedProfile(): string {
+  if (typeof window === 'undefined') return DEFAULT_PROFILE
+  return localStorage.getItem(PROFILE_STORAGE_KEY) || DEFAULT_PROFILE
+}
+
+export function setSelectedProfile(profile: string): void {
+  localStorage.setItem(PROFILE_STORAGE_KEY, profile)
+}
+
+/**
+ * Wallet address the user last entered (portfolio groups, renewal calendar, alert rules)
+ */
+export function getSavedUserAddress(): string {
+  if (typeof window === 'undefined') return ''
+  return localStorage.getItem(USER_ADDRESS_STORAGE_KEY) || ''
+}
+
+export function setSavedUserAddress(address: string): void {
+  localStorage.setItem(USER_ADDRESS_STORAGE_KEY, address)
+}
+
+// EIP-1193 provider injected by browser wallets
+interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>
+}
+
+/**
+ * Address of the signed-in wallet (alert rules, watchlists), or null
+ */
+export async function fetchSessionAddress(): Promise<string | null> {
+  const response = await fetch('/api/auth/session')
+  if (!response.ok) return null
+  const result = await response.json()
+  return result.data.address
+}
+
+/**
+ * Sign in with the browser wallet: it signs a server challenge and the server
+ * sets a session cookie. Returns the signed-in address.
+ */
+export async function signInWithWallet(): Promise<string> {
+  const ethereum = (window as Window & { ethereum?: EthereumProvider }).ethereum
+  if (!ethereum) throw new Error('No browser wallet found')
+  const [account] = (await ethereum.request({ method: 'eth_requestAccounts' })) as string[]
+  if (!account) throw new Error('No wallet account selected')
+
+  const challenge = await fetch(`/api/auth/challenge?${new URLSearchParams({ address: account })}`)
+  if (!challenge.ok) throw await readError(challenge, 'Failed to start sign-in')
+  const { message } = (await challenge.json()).data
+  const signature = await ethereum.request({ method: 'personal_sign', params: [message, account] })
+
+  const response = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature })
+  })
+  if (!response.ok) throw await readError(response, 'Failed to sign in')
+  const result = await response.json()
+  setSavedUserAddress(result.data.address)
+  return result.data.address
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/session', { method: 'DELETE' })
+}
+
+/**
+ * Available weight profiles from /api/profiles
+ */
+export async function fetchWeightProfiles(): Promise<WeightProfile[]> {
+  const response = await fetch('/api/profiles')
+  if (!response.ok) {
+    throw new Error(`Failed to fetch weight profiles (${response.status})`)
+  }
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * Fetch every scored domain from /api/domains, following nextCursor.
+ * Scores use the selected weight profile unless params.profile is given.
+ */
+export async function fetchScoredDomains(params: Record<string, string> = {}): Promise<ScoredDomain[]> {
+  const domains: ScoredDomain[] = []
+  let cursor: string | null = null
+
+  do {
+    const query = new URLSearchParams({ limit: '100', profile: getSelectedProfile(), ...params })
+    if (cursor) query.set('cursor', cursor)
+
+    const response = await fetch(`/api/domains?${query}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch domains (${response.status})`)
+    }
+    const result = await response.json()
+    domains.push(...result.data)
+    cursor = result.nextCursor
+  } while (cursor)
+
+  return domains
+}
+
+/**
+ * Fetch one scored domain with market, liquidity, ownership and comps data.
+ * Returns null when the token does not exist.
+ */
+export async function fetchScoredDomain(
+  tokenId: string,
+  profile: string = getSelectedProfile()
+): Promise<(Omit<ScoredDomain, 'valuation'> & { valuation: CompsValuation | null } & Record<string, any>) | null> {
+  const query = new URLSearchParams({ profile })
+  const response = await fetch(`/api/domains/${encodeURIComponent(tokenId)}?${query}`)
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to fetch domain (${response.status})`)
+  }
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * Full factor breakdown, arithmetic and counterfactuals for one domain.
+ * Returns null when the token does not exist.
+ */
+export async function fetchScoreExplanation(
+  tokenId: string,
+  profile: string = getSelectedProfile()
+): Promise<DomainExplanation | null> {
+  const query = new URLSearchParams({ profile })
+  const response = await fetch(`/api/domains/${encodeURIComponent(tokenId)}/explain?${query}`)
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to explain domain (${response.status})`)
+  }
+  const result = await response.json()
+  return result.explanation
+}
+
+/**
+ * Scored holdings and aggregates for a wallet address
+ */
+export async function fetchPortfolio(owner: string, profile: string = getSelectedProfile()): Promise<Portfolio> {
+  const query = new URLSearchParams({ owner, profile })
+  const response = await fetch(`/api/portfolio?${query}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch portfolio')
+  const result = await response.json()
+  return result.data
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const result = await response.json().catch(() => ({}))
+  return new Error(result.error || `${fallback} (${response.status})`)
+}
+
+/**
+ * Portfolio groups created by a user
+ */
+export async function fetchPortfolioGroups(userAddress: string): Promise<PortfolioGroup[]> {
+  const response = await fetch(`/api/portfolio/groups?${new URLSearchParams({ userAddress })}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch portfolio groups')
+  const result = await response.json()
+  return result.data
+}
+
+export async function createPortfolioGroup(input: {
+  userAddress: string
+  name: string
+  description?: string
+  wallets: string[]
+}): Promise<PortfolioGroup> {
+  const response = await fetch('/api/portfolio/groups', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to create portfolio group')
+  const result = await response.json()
+  return result.data
+}
+
+export async function deletePortfolioGroup(id: string): Promise<void> {
+  const response = await fetch(`/api/portfolio/groups/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  if (!response.ok) throw await readError(response, 'Failed to delete portfolio group')
+}
+
+/**
+ * Consolidated report for a portfolio group. Returns null when it does not exist.
+ */
+export async function fetchPortfolioGroupReport(
+  id: string,
+  profile: string = getSelectedProfile()
+): Promise<PortfolioGroupReport | null> {
+  const response = await fetch(`/api/portfolio/groups/${encodeURIComponent(id)}?${new URLSearchParams({ profile })}`)
+  if (response.status === 404) return null
+  if (!response.ok) throw await readError(response, 'Failed to fetch portfolio group')
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * Download URL for a group report in the given format
+ */
+export function getPortfolioGroupExportUrl(
+  id: string,
+  format: ReportFormat,
+  profile: string = getSelectedProfile()
+): string {
+  return `/api/portfolio/groups/${encodeURIComponent(id)}/export?${new URLSearchParams({ format, profile })}`
+}
+
+/**
+ * Expiries for an owner's names plus any tracked token ids
+ */
+export async function fetchRenewalCalendar(
+  owner: string,
+  tokenIds: string[] = [],
+  profile: string = getSelectedProfile()
+): Promise<RenewalCalendar> {
+  const query = new URLSearchParams({ profile })
+  if (tokenIds.length > 0) query.set('tokenIds', tokenIds.join(','))
+  const response = await fetch(`/api/calendar/${encodeURIComponent(owner)}?${query}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch renewal calendar')
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * Path of the iCalendar feed for an owner and tracked token ids
+ */
+export function getRenewalCalendarPath(owner: string, tokenIds: string[] = []): string {
+  const query = tokenIds.length > 0 ? `?${new URLSearchParams({ tokenIds: tokenIds.join(',') })}` : ''
+  return `/api/calendar/${encodeURIComponent(owner)}.ics${query}`
+}
+
+/**
+ * Named watchlists created by a user
+ */
+export async function fetchWatchlists(userAddress: string): Promise<Watchlist[]> {
+  const response = await fetch(`/api/watchlists?${new URLSearchParams({ userAddress })}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch watchlists')
+  const result = await response.json()
+  return result.data
+}
+
+// Entries that matched no domain come back as `unresolved`
+export async function createWatchlist(input: CreateWatchlistRequest): Promise<{ data: Watchlist; unresolved: string[] }> {
+  const response = await fetch('/api/watchlists', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to create watchlist')
+  return response.json()
+}
+
+export async function importWatchlist(input: {
+  userAddress: string
+  name?: string
+  description?: string
+  content: string
+}): Promise<{ data: Watchlist; unresolved: string[] }> {
+  const response = await fetch('/api/watchlists/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to import watchlist')
+  return response.json()
+}
+
+export async function updateWatchlist(id: string, input: UpdateWatchlistInput): Promise<{ data: Watchlist; unresolved: string[] }> {
+  const response = await fetch(`/api/watchlists/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to update watchlist')
+  return response.json()
+}
+
+export async function deleteWatchlist(id: string): Promise<void> {
+  const response = await fetch(`/api/watchlists/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  if (!response.ok) throw await readError(response, 'Failed to delete watchlist')
+}
+
+/**
+ * Scored domains and aggregates for a watchlist; null when it doesn't exist
+ */
+export async function fetchWatchlistReport(
+  id: string,
+  profile: string = getSelectedProfile()
+): Promise<WatchlistReport | null> {
+  const response = await fetch(`/api/watchlists/${encodeURIComponent(id)}?${new URLSearchParams({ profile })}`)
+  if (response.status === 404) return null
+  if (!response.ok) throw await readError(response, 'Failed to fetch watchlist')
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * A public watchlist by share token; null when it is private or gone
+ */
+export async function fetchSharedWatchlist(
+  token: string,
+  profile: string = getSelectedProfile()
+): Promise<SharedWatchlistReport | null> {
+  const response = await fetch(`/api/watchlists/shared/${encodeURIComponent(token)}?${new URLSearchParams({ profile })}`)
+  if (response.status === 404) return null
+  if (!response.ok) throw await readError(response, 'Failed to fetch shared watchlist')
+  const result = await response.json()
+  return result.data
+}
+
+export function getWatchlistExportUrl(id: string, format: WatchlistFormat, profile: string = getSelectedProfile()): string {
+  return `/api/watchlists/${encodeURIComponent(id)}/export?${new URLSearchParams({ format, profile })}`
+}
+
+export function getWatchlistSharePath(shareToken: string): string {
+  return `/watchlists/shared/${encodeURIComponent(shareToken)}`
+}
+
+/**
+ * Server-side alert rules created by a user
+ */
+export async function fetchAlertRules(userAddress: string): Promise<AlertRule[]> {
+  const response = await fetch(`/api/alerts/rules?${new URLSearchParams({ userAddress })}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch alert rules')
+  const result = await response.json()
+  return result.data
+}
+
+export async function createAlertRule(input: CreateRuleRequest): Promise<AlertRule> {
+  const response = await fetch('/api/alerts/rules', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to create alert rule')
+  const result = await response.json()
+  return result.data
+}
+
+export async function updateAlertRule(id: string, input: UpdateRuleInput): Promise<AlertRule> {
+  const response = await fetch(`/api/alerts/rules/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  })
+  if (!response.ok) throw await readError(response, 'Failed to update alert rule')
+  const result = await response.json()
+  return result.data
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const response = await fetch(`/api/alerts/rules/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  if (!response.ok) throw await readError(response, 'Failed to delete alert rule')
+}
+
+/**
+ * Ingested Poll API market events (offers, listings, sales, ...), newest first
+ */
+export async function fetchMarketEvents(query: {
+  tokenIds?: string[]
+  kinds?: MarketEventKind[]
+  since?: string
+  limit?: number
+} = {}): Promise<MarketEvent[]> {
+  const params = new URLSearchParams()
+  if (query.tokenIds?.length) params.set('tokenIds', query.tokenIds.join(','))
+  if (query.kinds?.length) params.set('kinds', query.kinds.join(','))
+  if (query.since) params.set('since', query.since)
+  if (query.limit) params.set('limit', String(query.limit))
+  const response = await fetch(`/api/domains/events?${params}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch market events')
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * Alerts fired by a user's server-side rules, newest first
+ */
+export async function fetchAlertFeed(userAddress: string): Promise<AlertEventRecord[]> {
+  const response = await fetch(`/api/alerts/events?${new URLSearchParams({ userAddress })}`)
+  if (!response.ok) throw await readError(response, 'Failed to fetch alert events')
+  const result = await response.json()
+  return result.data
+}
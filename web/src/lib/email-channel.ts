@@ -0,0 +1,234 @@
+/**
+ * Email delivery channel for Dometrics alerts
+ * Each send is one digest (HTML and plaintext) of the events a rule has released.
+ * The engine's frequency gate decides the batch: a run's worth for IMMEDIATE
+ * rules, everything since the last send for daily and weekly digests. Events are
+ * grouped per domain with current scores and links to the domain page. Mail
+ * goes out through a pluggable transport; the default sends over SMTP with
+ * nodemailer, configured from the SMTP_* environment variables.
+ */
+
+import nodemailer from 'nodemailer'
+import type { Transporter } from 'nodemailer'
+import { domainScoringService } from './domain-scoring'
+import type { ScoredDomain } from './domain-scoring'
+import type { AlertChannelSender, AlertEventRecord, AlertRule, AlertSeverity } from './alert-engine'
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure?: boolean
+  user?: string
+  pass?: string
+  timeoutMs?: number
+}
+
+export interface DigestDomain {
+  tokenId: string | null
+  name: string
+  scores: Pick<ScoredDomain, 'daysUntilExpiry' | 'price'> & { risk: number; rarity: number; momentum: number; forecast: number } | null
+  events: AlertEventRecord[]
+}
+
+export interface Digest {
+  subject: string
+  text: string
+  html: string
+}
+
+const APP_URL = process.env.APP_URL || 'https://dometrics.vercel.app'
+const MAIL_FROM = process.env.ALERT_EMAIL_FROM || 'Dometrics Alerts <alerts@dometrics.app>'
+const DEFAULT_TIMEOUT_MS = 15_000
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  high: '#dc2626',
+  medium: '#d97706',
+  low: '#2563eb'
+}
+
+const FREQUENCY_LABELS: Record<AlertRule['frequency'], string> = {
+  IMMEDIATE: '',
+  HOURLY: 'hourly',
+  DAILY: 'daily',
+  WEEKLY: 'weekly'
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter
+
+  constructor(options: SmtpOptions) {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      // Without implicit TLS, nodemailer upgrades with STARTTLS when the server offers it
+      secure: options.secure ?? false,
+      auth: options.user ? { user: options.user, pass: options.pass || '' } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message)
+  }
+}
+
+/**
+ * SMTP transport from SMTP_HOST/SMTP_PORT/SMTP_SECURE/SMTP_USER/SMTP_PASS; null when unset
+ */
+export function createTransportFromEnv(): MailTransport | null {
+  if (!process.env.SMTP_HOST) return null
+  const secure = process.env.SMTP_SECURE === 'true'
+  return new SmtpTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587')),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined
+  })
+}
+
+/**
+ * Group a rule's events per domain, attaching current scores where known
+ */
+export function groupByDomain(events: AlertEventRecord[], domains: ScoredDomain[]): DigestDomain[] {
+  const byTokenId = new Map(domains.map(d => [d.tokenId, d]))
+  const groups = new Map<string, DigestDomain>()
+
+  for (const event of events) {
+    const tokenId = event.payload.tokenId
+    const key = tokenId || '_other'
+    if (!groups.has(key)) {
+      const domain = tokenId ? byTokenId.get(tokenId) : undefined
+      groups.set(key, {
+        tokenId,
+        name: domain?.name || event.payload.domainName || (tokenId ? `Token ${tokenId}` : 'Other alerts'),
+        scores: domain
+          ? {
+              risk: domain.scores.risk,
+              rarity: domain.scores.rarity,
+              momentum: domain.scores.momentum,
+              forecast: domain.scores.forecast,
+              daysUntilExpiry: domain.daysUntilExpiry,
+              price: domain.price
+            }
+          : null,
+        events: []
+      })
+    }
+    groups.get(key)!.events.push(event)
+  }
+
+  // Domains with the most severe alerts first
+  const rank = (group: DigestDomain) =>
+    Math.max(...group.events.map(e => (e.payload.severity === 'high' ? 2 : e.payload.severity === 'medium' ? 1 : 0)))
+  return Array.from(groups.values()).sort((a, b) => rank(b) - rank(a) || b.events.length - a.events.length)
+}
+
+/**
+ * Subject, plaintext and HTML bodies for a digest
+ */
+export function renderDigest(rule: AlertRule, groups: DigestDomain[], baseUrl: string = APP_URL): Digest {
+  const count = groups.reduce((sum, g) => sum + g.events.length, 0)
+  const period = FREQUENCY_LABELS[rule.frequency]
+  const alerts = `${count} alert${count === 1 ? '' : 's'}`
+  const subject = period
+    ? `Your ${period} Dometrics digest: ${alerts} for "${rule.name}"`
+    : `${alerts} from "${rule.name}"`
+  const linkOf = (group: DigestDomain) => (group.tokenId ? `${baseUrl}/domain/${group.tokenId}` : `${baseUrl}/alerts`)
+  const scoreLine = (group: DigestDomain) =>
+    group.scores
+      ? `Risk ${group.scores.risk} · Rarity ${group.scores.rarity} · Momentum ${group.scores.momentum} · ` +
+        `Forecast ${group.scores.forecast} · Value $${Math.round(group.scores.price).toLocaleString()} · ` +
+        `Expires in ${group.scores.daysUntilExpiry} days`
+      : null
+  const timeOf = (event: AlertEventRecord) => new Date(event.occurredAt).toUTCString().replace(' GMT', ' UTC')
+
+  const text = [
+    subject,
+    '='.repeat(subject.length),
+    '',
+    ...groups.flatMap(group => [
+      group.name,
+      ...(scoreLine(group) ? [scoreLine(group)!] : []),
+      ...group.events.map(e => `  [${e.payload.severity}] ${e.payload.message} (${timeOf(e)})`),
+      `  ${linkOf(group)}`,
+      ''
+    ]),
+    `Manage alerts: ${baseUrl}/alerts`,
+    ''
+  ].join('\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827">
+<div style="max-width:640px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;padding:24px">
+<h1 style="font-size:18px;margin:0 0 16px">${escapeHtml(subject)}</h1>
+${groups.map(group => `<div style="border-top:1px solid #e5e7eb;padding:16px 0">
+<a href="${escapeHtml(linkOf(group))}" style="font-size:16px;font-weight:600;color:#2563eb;text-decoration:none">${escapeHtml(group.name)}</a>
+${scoreLine(group) ? `<p style="margin:4px 0 8px;font-size:12px;color:#6b7280">${escapeHtml(scoreLine(group)!)}</p>` : ''}
+<ul style="margin:0;padding-left:18px;font-size:14px">
+${group.events.map(e => `<li style="margin:4px 0"><span style="color:${SEVERITY_COLORS[e.payload.severity]};font-weight:600">${e.payload.severity}</span> ${escapeHtml(e.payload.message)} <span style="color:#9ca3af;font-size:12px">${escapeHtml(timeOf(e))}</span></li>`).join('\n')}
+</ul>
+</div>`).join('\n')}
+<p style="border-top:1px solid #e5e7eb;padding-top:16px;font-size:12px;color:#6b7280"><a href="${escapeHtml(baseUrl)}/alerts" style="color:#2563eb">Manage alerts</a></p>
+</div>
+</body>
+</html>
+`
+
+  return { subject, text, html }
+}
+
+export class EmailSender implements AlertChannelSender {
+  private transport: MailTransport | null | undefined
+
+  /**
+   * Replace the transport, e.g. with a local SMTP sink or another provider
+   */
+  setTransport(transport: MailTransport | null): void {
+    this.transport = transport
+  }
+
+  /**
+   * One digest for the whole batch; a failure fails every event in it
+   */
+  async send(rule: AlertRule, events: AlertEventRecord[]): Promise<void> {
+    if (!rule.email) {
+      throw new Error('Rule has no email address configured')
+    }
+    if (this.transport === undefined) this.transport = createTransportFromEnv()
+    if (!this.transport) {
+      throw new Error('SMTP is not configured (set SMTP_HOST)')
+    }
+
+    const domains = await domainScoringService.getCatalogue().catch(() => [])
+    const digest = renderDigest(rule, groupByDomain(events, domains))
+    await this.transport.send({ from: MAIL_FROM, to: rule.email, ...digest })
+  }
+}
+
+export const emailSender = new EmailSender()
@@ -0,0 +1,189 @@
+/**
+ * Internationalised domain names for Dometrics
+ * Names arrive from the subgraph in their ASCII (punycode, "xn--") form. This
+ * decodes them for display and search, counts length in graphemes as a reader
+ * sees it, and spots labels that mix scripts or imitate an ASCII name with
+ * lookalike letters ("аррӏе" in Cyrillic for "apple"). No dependencies, so it
+ * runs in the browser and the scoring pipeline alike.
+ */
+
+// RFC 3492 parameters
+const BASE = 36
+const TMIN = 1
+const TMAX = 26
+const SKEW = 38
+const DAMP = 700
+const INITIAL_BIAS = 72
+const INITIAL_N = 128
+const MAX_CODE_POINT = 0x10ffff
+
+const ACE_PREFIX = 'xn--'
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  let k = 0
+  delta = firstTime ? Math.floor(delta / DAMP) : Math.floor(delta / 2)
+  delta += Math.floor(delta / numPoints)
+  while (delta > ((BASE - TMIN) * TMAX) / 2) {
+    delta = Math.floor(delta / (BASE - TMIN))
+    k += BASE
+  }
+  return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + SKEW))
+}
+
+function digitValue(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22 // 0-9 are 26-35
+  if (code >= 97 && code <= 122) return code - 97 // a-z are 0-25
+  if (code >= 65 && code <= 90) return code - 65
+  return BASE
+}
+
+/**
+ * Decode a punycode string (without the "xn--" prefix). Throws on malformed input.
+ */
+export function decodePunycode(input: string): string {
+  const output: number[] = []
+  const basicEnd = Math.max(0, input.lastIndexOf('-'))
+  for (let j = 0; j < basicEnd; j++) {
+    const code = input.charCodeAt(j)
+    if (code >= 0x80) throw new Error('Non-ASCII character in punycode')
+    output.push(code)
+  }
+
+  let n = INITIAL_N
+  let bias = INITIAL_BIAS
+  let i = 0
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) throw new Error('Truncated punycode')
+      const digit = digitValue(input.charCodeAt(index++))
+      if (digit >= BASE) throw new Error('Invalid punycode digit')
+      i += digit * w
+      const t = k <= bias ? TMIN : k >= bias + TMAX ? TMAX : k - bias
+      if (digit < t) break
+      w *= BASE - t
+    }
+    const length = output.length + 1
+    bias = adapt(i - oldI, length, oldI === 0)
+    n += Math.floor(i / length)
+    i %= length
+    if (n > MAX_CODE_POINT) throw new Error('Punycode code point out of range')
+    output.splice(i++, 0, n)
+  }
+
+  return String.fromCodePoint(...output)
+}
+
+/**
+ * Whether a name or label is an internationalised one, in either form
+ */
+export function isIdn(name: string): boolean {
+  return name.split('.').some(label => label.toLowerCase().startsWith(ACE_PREFIX)) || /[^\x00-\x7f]/.test(name)
+}
+
+/**
+ * The Unicode form of one label; labels that aren't valid punycode are returned as they are
+ */
+export function toUnicodeLabel(label: string): string {
+  if (!label.toLowerCase().startsWith(ACE_PREFIX)) return label
+  try {
+    return decodePunycode(label.slice(ACE_PREFIX.length).toLowerCase())
+  } catch {
+    return label
+  }
+}
+
+/**
+ * The Unicode form of a full name ("xn--caf-dma.com" → "café.com")
+ */
+export function toUnicodeName(name: string): string {
+  return name.split('.').map(toUnicodeLabel).join('.')
+}
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null
+
+/**
+ * Length as a reader counts it: "é" and "👍🏽" are one character each
+ */
+export function graphemeLength(text: string): number {
+  if (!graphemeSegmenter) return Array.from(text).length
+  return Array.from(graphemeSegmenter.segment(text)).length
+}
+
+// Scripts told apart for mixing checks; anything else counts as "Other"
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Georgian', /\p{Script=Georgian}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Hiragana', /\p{Script=Hiragana}/u],
+  ['Katakana', /\p{Script=Katakana}/u],
+  ['Hangul', /\p{Script=Hangul}/u]
+]
+
+// Digits, hyphens, emoji and combining marks go with any script
+const SCRIPT_NEUTRAL = /[\p{Script=Common}\p{Script=Inherited}]/u
+
+// Script combinations ordinary names use (Unicode TS #39, "highly restrictive")
+const ALLOWED_SCRIPT_SETS = [
+  ['Latin', 'Han', 'Hiragana', 'Katakana'],
+  ['Latin', 'Han', 'Hangul']
+]
+
+// Non-ASCII letters that pass for an ASCII letter
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'м': 'm', 'п': 'n', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'г': 'r', 'ѕ': 's', 'т': 't', 'ѵ': 'v',
+  'ԝ': 'w', 'х': 'x', 'у': 'y', 'ү': 'y',
+  // Greek
+  'α': 'a', 'ϲ': 'c', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x', 'γ': 'y',
+  // Latin letters outside ASCII
+  'ı': 'i', 'ɑ': 'a', 'ɡ': 'g', 'ɩ': 'i', 'ɪ': 'i', 'ʟ': 'l', 'ɴ': 'n'
+}
+
+export interface ScriptAnalysis {
+  // Scripts the label's letters come from, in order of first use
+  scripts: string[]
+  // More scripts than ordinary names combine
+  mixedScript: boolean
+  // The ASCII name the label imitates with lookalike letters, if any
+  lookalike: string | null
+}
+
+function scriptOf(char: string): string | null {
+  if (SCRIPT_NEUTRAL.test(char)) return null
+  return SCRIPTS.find(([, pattern]) => pattern.test(char))?.[0] || 'Other'
+}
+
+/**
+ * Scripts of a label (Unicode form) and whether it could pass for an ASCII name
+ */
+export function analyzeScripts(label: string): ScriptAnalysis {
+  const chars = Array.from(label.toLowerCase())
+  const scripts: string[] = []
+  for (const char of chars) {
+    const script = scriptOf(char)
+    if (script && !scripts.includes(script)) scripts.push(script)
+  }
+
+  const mixedScript = scripts.length > 1 && !ALLOWED_SCRIPT_SETS.some(set => scripts.every(script => set.includes(script)))
+
+  // Only labels with non-ASCII letters can imitate an ASCII one
+  let lookalike: string | null = null
+  if (chars.some(char => char.charCodeAt(0) >= 0x80)) {
+    const skeleton = chars.map(char => CONFUSABLES[char] ?? char).join('')
+    if (/^[a-z0-9-]+$/.test(skeleton)) lookalike = skeleton
+  }
+
+  return { scripts, mixedScript, lookalike }
+}
@@ -0,0 +1,335 @@
+/**
+ * Poll API ingestion worker
+ * Pulls Doma Poll API events, maintains Domain/DomainStats rows and checkpoints progress
+ */
+
+import { prisma } from './prisma'
+import { domaClient } from './doma-client'
+import type { NameModel, TokenModel, PollEvent } from './doma-client'
+import { scoreHistoryService } from './score-history'
+
+export const POLL_API_SOURCE = 'poll_api'
+
+export type DomainEventKind =
+  | 'offer'
+  | 'offer_cancelled'
+  | 'listing'
+  | 'listing_cancelled'
+  | 'purchase'
+  | 'transfer'
+  | 'renewal'
+  | 'mint'
+  | 'burn'
+  | 'lock'
+  | 'other'
+
+export interface IngestionRunResult {
+  source: string
+  pages: number
+  events: number
+  inserted: number
+  statsRefreshed: number
+  unknownTokens: number
+  lastEventId: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Prisma's default interactive transaction (5s) is too short for a full Poll API page
+const PAGE_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 30_000 }
+
+/**
+ * Map a raw Poll API event type (e.g. NAME_TOKEN_OFFER_RECEIVED) to a stable kind
+ */
+export function normalizeEventType(type: string): DomainEventKind {
+  const t = type.toUpperCase()
+  if (t.includes('OFFER') && t.includes('CANCEL')) return 'offer_cancelled'
+  if (t.includes('LISTING') && t.includes('CANCEL')) return 'listing_cancelled'
+  if (t.includes('OFFER')) return 'offer'
+  if (t.includes('LISTED') || t.includes('LISTING')) return 'listing'
+  if (t.includes('PURCHASE') || t.includes('BOUGHT')) return 'purchase'
+  if (t.includes('TRANSFER')) return 'transfer'
+  if (t.includes('RENEW')) return 'renewal'
+  if (t.includes('MINT')) return 'mint'
+  if (t.includes('BURN')) return 'burn'
+  if (t.includes('LOCK')) return 'lock'
+  return 'other'
+}
+
+/**
+ * Extract a USD price from an event payload, if it carries one
+ */
+export function getEventUsdPrice(data: Record<string, any>): number | null {
+  const payment = data.payment || data
+  const price = parseFloat(payment?.price)
+  if (isNaN(price)) return null
+  const rate = payment.usdExchangeRate || payment.currency?.usdExchangeRate || 1
+  return price * rate
+}
+
+export class IngestionWorker {
+  private catalogue: Map<string, { name: NameModel; token: TokenModel }> | null = null
+
+  /**
+   * Process Poll API pages until caught up (or maxPages is reached).
+   * Each page is committed in one transaction together with the cursor, and
+   * acked only after that commit succeeds.
+   */
+  async run(options: { pageSize?: number; maxPages?: number } = {}): Promise<IngestionRunResult> {
+    const pageSize = options.pageSize ?? 100
+    const maxPages = options.maxPages ?? 20
+    this.catalogue = null
+
+    const cursor = await prisma.ingestionCursor.findUnique({
+      where: { source: POLL_API_SOURCE }
+    })
+    let lastEventId: string | null = cursor?.lastProcessedId ?? null
+
+    const result: IngestionRunResult = {
+      source: POLL_API_SOURCE,
+      pages: 0,
+      events: 0,
+      inserted: 0,
+      statsRefreshed: 0,
+      unknownTokens: 0,
+      lastEventId
+    }
+
+    for (let page = 0; page < maxPages; page++) {
+      const response = await domaClient.pollEvents(lastEventId ?? undefined, undefined, pageSize)
+      const events = response.events || []
+      if (events.length === 0) break
+
+      const pageLastEventId = response.lastEventId || events[events.length - 1].id
+      const pageResult = await this.commitPage(events, pageLastEventId)
+
+      // Acknowledge only after the page and cursor are durable. If the ack fails
+      // the cursor still moves us past these events on the next run.
+      await domaClient.ackEvents(pageLastEventId)
+
+      lastEventId = pageLastEventId
+      result.pages++
+      result.events += events.length
+      result.inserted += pageResult.inserted
+      result.statsRefreshed += pageResult.statsRefreshed
+      result.unknownTokens += pageResult.unknownTokens
+      result.lastEventId = lastEventId
+
+      if (events.length < pageSize) break
+    }
+
+    // Quiet domains receive no events, so age their rolling windows here
+    result.statsRefreshed += await this.refreshStaleStats()
+
+    return result
+  }
+
+  /**
+   * Recompute DomainStats that have not been touched for a day so 7d/30d counts decay
+   */
+  async refreshStaleStats(limit = 200): Promise<number> {
+    const staleBefore = new Date(Date.now() - DAY_MS)
+    const stale: Array<{ domainId: string; domain: { tokenId: string } }> = await prisma.domainStats.findMany({
+      where: { updatedAt: { lt: staleBefore } },
+      select: { domainId: true, domain: { select: { tokenId: true } } },
+      orderBy: { updatedAt: 'asc' },
+      take: limit
+    })
+
+    for (const stats of stale) {
+      await refreshDomainStats(prisma, stats.domainId, stats.domain.tokenId)
+    }
+    return stale.length
+  }
+
+  /**
+   * Write one page of events with its domain changes and move the cursor atomically,
+   * then refresh stats for the affected domains
+   */
+  private async commitPage(
+    events: PollEvent[],
+    lastEventId: string
+  ): Promise<{ inserted: number; statsRefreshed: number; unknownTokens: number }> {
+    const tokenIds = Array.from(new Set(events.map(e => e.tokenId).filter(Boolean))) as string[]
+    const knownDomains = await this.ensureDomains(tokenIds)
+
+    // State changes carried by the events; later events win, so each domain gets one update
+    const updates = new Map<string, Record<string, any>>()
+    for (const event of events) {
+      const domainId = event.tokenId ? knownDomains.get(event.tokenId) : undefined
+      const update = domainId ? this.getDomainUpdate(event) : null
+      if (domainId && update) updates.set(domainId, { ...updates.get(domainId), ...update })
+    }
+
+    const inserted: number = await prisma.$transaction(async (tx: any) => {
+      const { count } = await tx.domainEvent.createMany({
+        data: events.filter(e => e.tokenId).map(event => ({
+          eventId: String(event.id),
+          tokenId: event.tokenId!,
+          type: event.type,
+          kind: normalizeEventType(event.type),
+          priceUsd: getEventUsdPrice(event.data || {}),
+          txHash: event.txHash || null,
+          occurredAt: new Date(event.timestamp),
+          data: event.data || {}
+        })),
+        skipDuplicates: true
+      })
+
+      for (const [domainId, data] of Array.from(updates)) {
+        await tx.domain.update({ where: { id: domainId }, data })
+      }
+
+      await tx.ingestionCursor.upsert({
+        where: { source: POLL_API_SOURCE },
+        create: { source: POLL_API_SOURCE, lastProcessedId: lastEventId, lastProcessedAt: new Date() },
+        update: { lastProcessedId: lastEventId, lastProcessedAt: new Date() }
+      })
+
+      return count
+    }, PAGE_TRANSACTION_OPTIONS)
+
+    // Stats are rebuilt from the stored events, so they can follow the commit;
+    // one that fails is picked up again by refreshStaleStats
+    let statsRefreshed = 0
+    for (const tokenId of tokenIds) {
+      const domainId = knownDomains.get(tokenId)
+      if (!domainId) continue
+      try {
+        await refreshDomainStats(prisma, domainId, tokenId)
+        statsRefreshed++
+      } catch (error) {
+        console.error(`Error refreshing stats for token ${tokenId}:`, error)
+      }
+    }
+
+    return {
+      inserted,
+      statsRefreshed,
+      unknownTokens: tokenIds.filter(tokenId => !knownDomains.has(tokenId)).length
+    }
+  }
+
+  /**
+   * Resolve tokenIds to Domain row ids, creating rows from the subgraph catalogue when missing
+   */
+  private async ensureDomains(tokenIds: string[]): Promise<Map<string, string>> {
+    const domainIds = new Map<string, string>()
+    if (tokenIds.length === 0) return domainIds
+
+    const existing: Array<{ id: string; tokenId: string }> = await prisma.domain.findMany({
+      where: { tokenId: { in: tokenIds } },
+      select: { id: true, tokenId: true }
+    })
+    existing.forEach(d => domainIds.set(d.tokenId, d.id))
+
+    const missing = tokenIds.filter(id => !domainIds.has(id))
+    if (missing.length > 0) {
+      const catalogue = await this.getCatalogue()
+      for (const tokenId of missing) {
+        const entry = catalogue.get(tokenId)
+        if (!entry) continue
+        const domain = await scoreHistoryService.upsertDomain(entry.name, entry.token)
+        domainIds.set(tokenId, domain.id)
+      }
+    }
+
+    return domainIds
+  }
+
+  private async getCatalogue() {
+    if (!this.catalogue) {
+      // Only keep a complete walk; a failed page throws and the next call retries
+      const catalogue = new Map<string, { name: NameModel; token: TokenModel }>()
+      for await (const name of domaClient.iterateAllNames()) {
+        for (const token of name.tokens || []) {
+          catalogue.set(token.tokenId, { name, token })
+        }
+      }
+      this.catalogue = catalogue
+    }
+    return this.catalogue
+  }
+
+  private getDomainUpdate(event: PollEvent): Record<string, any> | null {
+    const data = event.data || {}
+    switch (normalizeEventType(event.type)) {
+      case 'renewal':
+        return data.expiresAt ? { expiresAt: new Date(data.expiresAt) } : null
+      case 'transfer':
+      case 'purchase': {
+        const owner = data.transferredTo || data.to || data.buyer
+        if (!owner) return null
+        return { ownerCaip10: owner.startsWith('eip155:') ? owner : `eip155:97476:${owner}` }
+      }
+      case 'lock':
+        return typeof data.locked === 'boolean' ? { lockStatus: data.locked } : null
+      default:
+        return null
+    }
+  }
+}
+
+/**
+ * Recompute the rolling DomainStats aggregates for one domain from stored events
+ */
+export async function refreshDomainStats(
+  db: any,
+  domainId: string,
+  tokenId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const since365d = new Date(now.getTime() - 365 * DAY_MS)
+  const since30d = now.getTime() - 30 * DAY_MS
+  const since7d = now.getTime() - 7 * DAY_MS
+
+  const events: Array<{ kind: string; priceUsd: number | null; occurredAt: Date }> =
+    await db.domainEvent.findMany({
+      where: { tokenId, occurredAt: { gte: since365d } },
+      select: { kind: true, priceUsd: true, occurredAt: true },
+      orderBy: { occurredAt: 'desc' }
+    })
+
+  const ofKind = (kind: DomainEventKind) => events.filter(e => e.kind === kind)
+  const countSince = (list: typeof events, since: number) =>
+    list.filter(e => new Date(e.occurredAt).getTime() >= since).length
+  const latest = (list: typeof events) => (list.length > 0 ? list[0].occurredAt : null)
+
+  const offers = ofKind('offer')
+  const listings = ofKind('listing')
+  const transfers = ofKind('transfer')
+  const renewals = ofKind('renewal')
+  const purchases = ofKind('purchase')
+
+  const offerPrices30d = offers
+    .filter(e => e.priceUsd !== null && new Date(e.occurredAt).getTime() >= since30d)
+    .map(e => e.priceUsd as number)
+  const listingPrices30d = listings
+    .filter(e => e.priceUsd !== null && new Date(e.occurredAt).getTime() >= since30d)
+    .map(e => e.priceUsd as number)
+  const lastSale = purchases.find(e => e.priceUsd !== null)
+
+  const stats = {
+    offersCount7d: countSince(offers, since7d),
+    offersCount30d: countSince(offers, since30d),
+    listingsCount7d: countSince(listings, since7d),
+    listingsCount30d: countSince(listings, since30d),
+    renewalsCount365d: renewals.length,
+    transfersCount7d: countSince(transfers, since7d),
+    transfersCount30d: countSince(transfers, since30d),
+    lastTransferAt: latest(transfers),
+    lastRenewedAt: latest(renewals),
+    lastListingAt: latest(listings),
+    lastOfferAt: latest(offers),
+    highestOffer: offerPrices30d.length > 0 ? Math.max(...offerPrices30d) : null,
+    lowestListing: listingPrices30d.length > 0 ? Math.min(...listingPrices30d) : null,
+    floorEstimate: lastSale?.priceUsd ?? null
+  }
+
+  await db.domainStats.upsert({
+    where: { domainId },
+    create: { domainId, ...stats },
+    update: stats
+  })
+}
+
+export const ingestionWorker = new IngestionWorker()
@@ -0,0 +1,137 @@
+/**
+ * Market events for Dometrics
+ * Reads the Poll API events the ingestion worker stores in DomainEvent: offers,
+ * listings and their cancellations, sales, transfers and renewals. USD price and
+ * counterparty come out of the raw event payload.
+ */
+
+import { prisma } from './prisma'
+import type { DomainEventKind } from './ingestion'
+
+export const MARKET_EVENT_KINDS = [
+  'offer',
+  'offer_cancelled',
+  'listing',
+  'listing_cancelled',
+  'purchase',
+  'transfer',
+  'renewal'
+] as const
+export type MarketEventKind = typeof MARKET_EVENT_KINDS[number]
+
+export interface MarketEvent {
+  eventId: string
+  tokenId: string
+  kind: DomainEventKind
+  priceUsd: number | null
+  // Offerer, seller, buyer or recipient, depending on the kind
+  counterparty: string | null
+  txHash: string | null
+  // e.g. "offer of $1,200 from 0x1234…abcd"
+  summary: string
+  occurredAt: string
+  ingestedAt: string
+}
+
+export interface MarketEventQuery {
+  tokenIds?: string[]
+  kinds?: readonly DomainEventKind[]
+  // Only events ingested after this time
+  since?: Date
+  limit?: number
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+export const MARKET_EVENT_LABELS: Record<MarketEventKind, string> = {
+  offer: 'offer',
+  offer_cancelled: 'cancelled offer',
+  listing: 'listing',
+  listing_cancelled: 'cancelled listing',
+  purchase: 'sale',
+  transfer: 'transfer',
+  renewal: 'renewal'
+}
+
+/**
+ * The party acting on the domain, from whichever field this kind of event uses
+ */
+export function getEventCounterparty(kind: string, data: Record<string, any>): string | null {
+  const pick = (...keys: string[]) => {
+    const value = keys.map(key => data[key]).find(v => typeof v === 'string' && v.length > 0)
+    return value ?? null
+  }
+  switch (kind) {
+    case 'offer':
+    case 'offer_cancelled':
+      return pick('buyer', 'offerer', 'from')
+    case 'listing':
+    case 'listing_cancelled':
+      return pick('seller', 'lister', 'from')
+    case 'purchase':
+      return pick('buyer', 'transferredTo', 'to')
+    case 'transfer':
+      return pick('transferredTo', 'to')
+    case 'renewal':
+      return pick('renewer', 'payer', 'from')
+    default:
+      return null
+  }
+}
+
+/**
+ * `0x1234…abcd` for an address or CAIP-10 account id
+ */
+export function shortCounterparty(counterparty: string): string {
+  const address = counterparty.split(':').pop() || counterparty
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address
+}
+
+const PRICE_PREPOSITIONS: Record<string, string> = { offer: 'of', offer_cancelled: 'of', listing: 'at', listing_cancelled: 'at' }
+const PARTY_PREPOSITIONS: Record<string, string> = { offer: 'from', offer_cancelled: 'from', purchase: 'to', transfer: 'to' }
+
+/**
+ * Lower-case phrase such as "sale for $5,000 to 0x1234…abcd"
+ */
+export function describeMarketEvent(kind: string, priceUsd: number | null, counterparty: string | null): string {
+  const label = MARKET_EVENT_LABELS[kind as MarketEventKind] || kind
+  const price = priceUsd !== null ? ` ${PRICE_PREPOSITIONS[kind] || 'for'} $${Math.round(priceUsd).toLocaleString('en-US')}` : ''
+  const party = counterparty ? ` ${PARTY_PREPOSITIONS[kind] || 'by'} ${shortCounterparty(counterparty)}` : ''
+  return `${label}${price}${party}`
+}
+
+export function toMarketEvent(row: any): MarketEvent {
+  const counterparty = getEventCounterparty(row.kind, row.data || {})
+  return {
+    eventId: row.eventId,
+    tokenId: row.tokenId,
+    kind: row.kind,
+    priceUsd: row.priceUsd ?? null,
+    counterparty,
+    txHash: row.txHash ?? null,
+    summary: describeMarketEvent(row.kind, row.priceUsd ?? null, counterparty),
+    occurredAt: new Date(row.occurredAt).toISOString(),
+    ingestedAt: new Date(row.createdAt).toISOString()
+  }
+}
+
+export class MarketEventService {
+  /**
+   * Newest first; defaults to every market kind
+   */
+  async list(query: MarketEventQuery = {}): Promise<MarketEvent[]> {
+    const rows = await prisma.domainEvent.findMany({
+      where: {
+        kind: { in: query.kinds ? [...query.kinds] : [...MARKET_EVENT_KINDS] },
+        ...(query.tokenIds ? { tokenId: { in: query.tokenIds } } : {}),
+        ...(query.since ? { createdAt: { gt: query.since } } : {})
+      },
+      orderBy: { occurredAt: 'desc' },
+      take: Math.min(MAX_LIMIT, query.limit ?? DEFAULT_LIMIT)
+    })
+    return rows.map(toMarketEvent)
+  }
+}
+
+export const marketEventService = new MarketEventService()
@@ -0,0 +1,196 @@
+/**
+ * Name pattern analysis for Dometrics
+ * Sorts a domain label into the categories collectors price by: all-numeric
+ * names, short letter and digit patterns (LLL, LLLL, NNN, NNNN, CVC, CVCV,
+ * LNLN, NLNL), palindromes, repeats, dictionary words and two-word compounds,
+ * emoji and internationalised (IDN) names, premium prefixes and hyphens at
+ * either end.
+ * Words come from the bundled wordlist, so analysis runs offline and in the
+ * browser as well as in the scoring pipeline.
+ */
+
+import { WORDLIST } from './wordlist'
+
+export const NAME_PATTERNS = [
+  'numeric',
+  'nnn',
+  'nnnn',
+  'lll',
+  'llll',
+  'cvc',
+  'cvcv',
+  'lnln',
+  'nlnl',
+  'palindrome',
+  'repeating',
+  'dictionary',
+  'compound',
+  'premium-prefix',
+  'emoji',
+  'idn',
+  'leading-hyphen',
+  'trailing-hyphen'
+] as const
+
+export type NamePattern = typeof NAME_PATTERNS[number]
+
+export const PATTERN_LABELS: Record<NamePattern, string> = {
+  numeric: 'numeric',
+  nnn: 'NNN',
+  nnnn: 'NNNN',
+  lll: 'LLL',
+  llll: 'LLLL',
+  cvc: 'CVC',
+  cvcv: 'CVCV',
+  lnln: 'LNLN',
+  nlnl: 'NLNL',
+  palindrome: 'palindrome',
+  repeating: 'repeating',
+  dictionary: 'dictionary word',
+  compound: 'two-word compound',
+  'premium-prefix': 'premium prefix',
+  emoji: 'emoji',
+  idn: 'IDN',
+  'leading-hyphen': 'leading hyphen',
+  'trailing-hyphen': 'trailing hyphen'
+}
+
+// Prefixes that carry a category premium on their own ("aibank", "metaland")
+export const PREMIUM_PREFIXES = [
+  'ai', 'meta', 'crypto', 'web3', 'nft', 'defi', 'dao', 'eth', 'bit', 'block', 'chain',
+  'cyber', 'smart', 'cloud', 'data', 'quantum', 'pay'
+]
+
+export interface NamePatternAnalysis {
+  // C (consonant) or V (vowel) per letter, N per digit, H per hyphen, X for anything else
+  shape: string
+  patterns: NamePattern[]
+  // The label split into dictionary words; empty when it can't be
+  words: string[]
+  premiumPrefix: string | null
+}
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u'])
+const EMOJI = /\p{Extended_Pictographic}/u
+const NON_ASCII = /[^\x00-\x7f]/
+// Labels longer than this aren't segmented
+const MAX_SEGMENT_LENGTH = 40
+// Shortest word a compound may be built from
+const MIN_WORD_LENGTH = 2
+
+function shapeOf(chars: string[]): string {
+  return chars.map(char => {
+    if (/[a-z]/.test(char)) return VOWELS.has(char) ? 'V' : 'C'
+    if (/[0-9]/.test(char)) return 'N'
+    if (char === '-') return 'H'
+    return 'X'
+  }).join('')
+}
+
+// A block repeated two or more times: "aaa", "8888", "abab", "blahblah"
+function isRepeating(chars: string[]): boolean {
+  for (let period = 1; period <= chars.length / 2; period++) {
+    if (chars.length % period !== 0) continue
+    if (chars.every((char, i) => char === chars[i % period])) return true
+  }
+  return false
+}
+
+/**
+ * Split text into dictionary words, preferring fewer and then longer words.
+ * Returns null when the text isn't made of words.
+ */
+export function segmentWords(text: string): string[] | null {
+  if (text.length === 0 || text.length > MAX_SEGMENT_LENGTH) return null
+
+  // best[i]: the best split of the first i characters
+  const best: Array<{ words: string[]; weight: number } | null> = [{ words: [], weight: 0 }]
+  for (let end = 1; end <= text.length; end++) {
+    best[end] = null
+    for (let start = Math.max(0, end - MAX_SEGMENT_LENGTH); start <= end - MIN_WORD_LENGTH; start++) {
+      const before = best[start]
+      const word = text.slice(start, end)
+      if (!before || !WORDLIST.has(word)) continue
+      const candidate = { words: [...before.words, word], weight: before.weight + word.length * word.length }
+      const current = best[end]
+      if (!current || candidate.words.length < current.words.length ||
+        (candidate.words.length === current.words.length && candidate.weight > current.weight)) {
+        best[end] = candidate
+      }
+    }
+  }
+  return best[text.length]?.words || null
+}
+
+// Hyphens separate words; every part has to segment
+function wordsOf(label: string): string[] {
+  const words: string[] = []
+  for (const part of label.split('-').filter(part => part.length > 0)) {
+    const split = segmentWords(part)
+    if (!split) return []
+    words.push(...split)
+  }
+  return words
+}
+
+function premiumPrefixOf(label: string): string | null {
+  const prefixes = [...PREMIUM_PREFIXES].sort((a, b) => b.length - a.length)
+  for (const prefix of prefixes) {
+    if (!label.startsWith(prefix) || label.length === prefix.length) continue
+    // "aibank" but not "bitter": the rest has to be words or a number
+    const rest = label.slice(prefix.length).replace(/^-/, '')
+    if (/^\d+$/.test(rest) || wordsOf(rest).length > 0) return prefix
+  }
+  return null
+}
+
+/**
+ * Classify a domain label (TLD excluded) into collector pattern categories
+ */
+export function analyzeName(label: string): NamePatternAnalysis {
+  const name = label.toLowerCase()
+  const chars = Array.from(name)
+  const shape = shapeOf(chars)
+  const patterns: NamePattern[] = []
+  // Only plain ASCII names are split into words
+  const ascii = /^[a-z0-9-]+$/.test(name)
+
+  if (/^[0-9]+$/.test(name)) {
+    patterns.push('numeric')
+    if (name.length === 3) patterns.push('nnn')
+    if (name.length === 4) patterns.push('nnnn')
+  }
+  if (/^[a-z]+$/.test(name)) {
+    if (name.length === 3) patterns.push('lll')
+    if (name.length === 4) patterns.push('llll')
+    if (shape === 'CVC') patterns.push('cvc')
+    if (shape === 'CVCV') patterns.push('cvcv')
+  }
+  if (/^[a-z][0-9][a-z][0-9]$/.test(name)) patterns.push('lnln')
+  if (/^[0-9][a-z][0-9][a-z]$/.test(name)) patterns.push('nlnl')
+  if (chars.length >= 3 && chars.join('') === [...chars].reverse().join('') && !chars.includes('-')) {
+    patterns.push('palindrome')
+  }
+  if (chars.length >= 2 && isRepeating(chars)) patterns.push('repeating')
+
+  const words = ascii ? wordsOf(name) : []
+  if (words.length === 1 && WORDLIST.has(name)) patterns.push('dictionary')
+  if (words.length === 2) patterns.push('compound')
+
+  const premiumPrefix = ascii ? premiumPrefixOf(name) : null
+  if (premiumPrefix) patterns.push('premium-prefix')
+
+  if (EMOJI.test(name)) patterns.push('emoji')
+  if (name.startsWith('xn--') || NON_ASCII.test(name)) patterns.push('idn')
+  if (name.startsWith('-')) patterns.push('leading-hyphen')
+  if (name.endsWith('-')) patterns.push('trailing-hyphen')
+
+  return { shape, patterns, words, premiumPrefix }
+}
+
+/**
+ * Pattern categories of a domain label
+ */
+export function getNamePatterns(label: string): NamePattern[] {
+  return analyzeName(label).patterns
+}
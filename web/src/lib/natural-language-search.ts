@@ -1,4 +1,22 @@
 // Natural language search parser for domain queries
+//
+// A query is tokenized, then read clause by clause into a QueryAst: ranges on
+// scores, value, expiry and length, TLD and keyword filters (optionally
+// negated), character classes, collector name patterns, sorting and a limit.
+// Clauses are ANDed.
+// Contradicting clauses are dropped with a note instead of overwriting each
+// other. SearchFilters are compiled from the AST and explanations are rendered
+// from it, so the dashboard describes exactly what it filters on.
+
+import { PATTERN_LABELS } from './name-patterns'
+import type { NamePattern } from './name-patterns'
+
+export const CHAR_CLASSES = ['letters', 'digits', 'has-digits', 'no-digits', 'has-hyphen', 'no-hyphen'] as const
+
+// letters / digits: the name is only letters / only digits
+export type CharClass = typeof CHAR_CLASSES[number]
+
+export type SortField = 'risk' | 'rarity' | 'momentum' | 'value' | 'newest' | 'oldest' | 'offers' | 'expiry' | 'length' | 'name'
 
 export interface SearchFilters {
   riskMin?: number
@@ -7,178 +25,1014 @@ export interface SearchFilters {
   rarityMax?: number
   momentumMin?: number
   momentumMax?: number
+  // Forecast score, 40-100 (40 is no growth; see HIGH_GROWTH_FORECAST)
+  forecastMin?: number
+  forecastMax?: number
   valueMin?: number
   valueMax?: number
   expiryDaysMin?: number
   expiryDaysMax?: number
-  sortBy?: 'risk' | 'rarity' | 'momentum' | 'value' | 'newest' | 'oldest' | 'offers' | 'expiry'
+  // Characters in the name, TLD excluded
+  lengthMin?: number
+  lengthMax?: number
+  // TLDs without the leading dot
+  tlds?: string[]
+  excludeTlds?: string[]
+  // Keywords that must (or must not) appear in the name, TLD excluded
+  contains?: string[]
+  excludes?: string[]
+  charClasses?: CharClass[]
+  // Collector patterns from name-patterns.ts the name must (or must not) have
+  patterns?: NamePattern[]
+  excludePatterns?: NamePattern[]
+  sortBy?: SortField
   sortOrder?: 'asc' | 'desc'
   limit?: number
   searchTerm?: string
 }
 
-export function parseNaturalLanguageQuery(query: string): SearchFilters {
-  const filters: SearchFilters = {}
-  const lowerQuery = query.toLowerCase().trim()
+export type RangeField = 'risk' | 'rarity' | 'momentum' | 'forecast' | 'value' | 'expiry' | 'length'
+
+export type QueryNode =
+  | { type: 'range'; field: RangeField; min?: number; max?: number }
+  | { type: 'tld'; tlds: string[]; negated: boolean }
+  | { type: 'keyword'; keyword: string; negated: boolean }
+  | { type: 'charClass'; charClass: CharClass }
+  | { type: 'pattern'; pattern: NamePattern; negated: boolean }
+  | { type: 'sort'; field: SortField; order: 'asc' | 'desc' }
+  | { type: 'limit'; count: number }
+  | { type: 'term'; term: string }
+
+export interface QueryAst {
+  // At most one range per field, one sort, one limit and one term
+  clauses: QueryNode[]
+  // Words that fit no clause; a query of nothing else is a name search
+  ignored: string[]
+  // Clauses dropped because they contradict an earlier one
+  conflicts: string[]
+}
+
+type TokenType = 'word' | 'number' | 'tld' | 'domain' | 'quoted' | 'op' | 'comma'
+
+interface Token {
+  type: TokenType
+  text: string
+  value?: number
+  money?: boolean
+}
+
+interface ParsedClause {
+  node: QueryNode
+  text: string
+}
+
+interface Bound {
+  min?: number
+  max?: number
+}
+
+type Comparator = 'min' | 'max' | 'minStrict' | 'maxStrict' | 'between' | 'eq'
+
+// Score adjectives: low / medium / high bands on 0-100 scores
+const LEVELS: Record<string, Bound> = {
+  low: { max: 30 },
+  medium: { min: 30, max: 70 },
+  high: { min: 70 }
+}
 
-  // If it looks like a domain name, treat as search term
-  if (lowerQuery.includes('.') && !lowerQuery.includes(' ')) {
-    filters.searchTerm = query
-    return filters
+// Forecast score that 15% six-month growth earns (scoring.ts maps growth g to
+// 40 + 120g, capped at 100). The "high growth" filter, query phrase and badge
+// all start here.
+export const HIGH_GROWTH_FORECAST = 58
+
+// Forecasts start at 40, so their bands sit on growth instead: under 5%, 5-15%, 15%+
+const FORECAST_LEVELS: Record<string, Bound> = {
+  low: { max: 46 },
+  medium: { min: 46, max: HIGH_GROWTH_FORECAST },
+  high: { min: HIGH_GROWTH_FORECAST }
+}
+
+const SCORE_WORDS: Record<string, RangeField> = {
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  forecast: 'forecast',
+  growth: 'forecast',
+  value: 'value',
+  price: 'value',
+  valuation: 'value',
+  worth: 'value'
+}
+
+const LEVEL_WORDS: Record<string, string> = {
+  low: 'low',
+  safe: 'low',
+  medium: 'medium',
+  moderate: 'medium',
+  mid: 'medium',
+  high: 'high'
+}
+
+// Adjectives that stand on their own
+const ADJECTIVES: Record<string, { field: RangeField; bound: Bound }> = {
+  safe: { field: 'risk', bound: LEVELS.low },
+  moderate: { field: 'risk', bound: LEVELS.medium },
+  risky: { field: 'risk', bound: LEVELS.high },
+  dangerous: { field: 'risk', bound: LEVELS.high },
+  rare: { field: 'rarity', bound: LEVELS.high },
+  unique: { field: 'rarity', bound: LEVELS.high },
+  uncommon: { field: 'rarity', bound: LEVELS.high },
+  common: { field: 'rarity', bound: LEVELS.low },
+  ordinary: { field: 'rarity', bound: LEVELS.low },
+  hot: { field: 'momentum', bound: LEVELS.high },
+  trending: { field: 'momentum', bound: LEVELS.high },
+  popular: { field: 'momentum', bound: LEVELS.high },
+  growing: { field: 'momentum', bound: LEVELS.high },
+  slow: { field: 'momentum', bound: LEVELS.low },
+  stagnant: { field: 'momentum', bound: LEVELS.low },
+  declining: { field: 'momentum', bound: LEVELS.low },
+  cold: { field: 'momentum', bound: LEVELS.low }
+}
+
+// One-word sorts
+const SORT_WORDS: Record<string, { field: SortField; order: 'asc' | 'desc' }> = {
+  rarest: { field: 'rarity', order: 'desc' },
+  riskiest: { field: 'risk', order: 'desc' },
+  safest: { field: 'risk', order: 'asc' },
+  cheapest: { field: 'value', order: 'asc' },
+  priciest: { field: 'value', order: 'desc' },
+  hottest: { field: 'momentum', order: 'desc' },
+  newest: { field: 'newest', order: 'desc' },
+  latest: { field: 'newest', order: 'desc' },
+  recent: { field: 'newest', order: 'desc' },
+  new: { field: 'newest', order: 'desc' },
+  oldest: { field: 'oldest', order: 'asc' },
+  earliest: { field: 'oldest', order: 'asc' },
+  old: { field: 'oldest', order: 'asc' },
+  shortest: { field: 'length', order: 'asc' },
+  longest: { field: 'length', order: 'desc' },
+  soonest: { field: 'expiry', order: 'asc' }
+}
+
+const SUPERLATIVES: Record<string, 'asc' | 'desc'> = {
+  highest: 'desc',
+  largest: 'desc',
+  biggest: 'desc',
+  greatest: 'desc',
+  most: 'desc',
+  top: 'desc',
+  fastest: 'desc',
+  lowest: 'asc',
+  smallest: 'asc',
+  least: 'asc',
+  fewest: 'asc'
+}
+
+// What a superlative can rank by ("most valuable", "largest offers")
+const SORTABLE_WORDS: Record<string, SortField> = {
+  risk: 'risk',
+  risky: 'risk',
+  rarity: 'rarity',
+  rare: 'rarity',
+  momentum: 'momentum',
+  growth: 'momentum',
+  growing: 'momentum',
+  trending: 'momentum',
+  value: 'value',
+  price: 'value',
+  valuable: 'value',
+  expensive: 'value',
+  offer: 'offers',
+  offers: 'offers',
+  bid: 'offers',
+  bids: 'offers',
+  expiry: 'expiry',
+  length: 'length'
+}
+
+const LENGTH_UNITS: Record<string, CharClass | null> = {
+  l: 'letters',
+  letter: 'letters',
+  letters: 'letters',
+  c: null,
+  char: null,
+  chars: null,
+  character: null,
+  characters: null,
+  n: 'digits',
+  digit: 'digits',
+  digits: 'digits',
+  number: 'digits',
+  numbers: 'digits',
+  num: 'digits'
+}
+
+// Collector pattern names; "two word", "premium prefix" and "leading/trailing hyphen" are read in parsePattern
+const PATTERN_WORDS: Record<string, NamePattern> = {
+  palindrome: 'palindrome',
+  palindromes: 'palindrome',
+  palindromic: 'palindrome',
+  repeating: 'repeating',
+  repeated: 'repeating',
+  repeats: 'repeating',
+  lll: 'lll',
+  llll: 'llll',
+  nnn: 'nnn',
+  nnnn: 'nnnn',
+  cvc: 'cvc',
+  cvcv: 'cvcv',
+  lnln: 'lnln',
+  nlnl: 'nlnl',
+  compound: 'compound',
+  compounds: 'compound',
+  dictionary: 'dictionary',
+  emoji: 'emoji',
+  emojis: 'emoji',
+  idn: 'idn',
+  idns: 'idn',
+  unicode: 'idn'
+}
+
+const DAY_UNITS: Record<string, number> = {
+  d: 1,
+  day: 1,
+  days: 1,
+  w: 7,
+  week: 7,
+  weeks: 7,
+  mo: 30,
+  month: 30,
+  months: 30,
+  y: 365,
+  year: 365,
+  years: 365
+}
+
+const OPERATORS: Record<string, Comparator> = { '<': 'maxStrict', '<=': 'max', '>': 'minStrict', '>=': 'min', '=': 'eq' }
+const NEGATIONS = ['not', 'no', 'non', 'excluding', 'exclude', 'except', 'without', 'minus']
+const RESULT_NOUNS = new Set(['domains', 'domain', 'names', 'name', 'results', 'result'])
+
+// Words that carry no meaning on their own
+const FILLERS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'in', 'on', 'at', 'to', 'by', 'with', 'that', 'which', 'who', 'whose',
+  'is', 'are', 'be', 'have', 'has', 'having', 'me', 'my', 'show', 'find', 'give', 'get', 'list', 'search', 'all',
+  'any', 'some', 'please', 'i', 'want', 'looking', 'domains', 'domain', 'names', 'name', 'results', 'score',
+  'scores', 'very', 'extremely', 'really', 'super', 'investments', 'investment', 'options', 'ones', 'long'
+])
+
+// Names and words may be internationalised ("café.com", "containing café")
+const TOKEN_PATTERN = /"([^"]*)"|([\p{L}\p{N}][\p{L}\p{M}\p{N}-]*(?:\.[a-z][a-z0-9-]*)+)|\.([a-z][a-z0-9-]*)|(\$?\d+(?:,\d{3})*(?:\.\d+)?[km]?)|(<=|>=|<|>|=)|([\p{L}\p{M}]+)|(,)|(-)|\s+|./guy
+
+// Table lookup that ignores inherited keys ("constructor")
+function lookup<T>(table: Record<string, T>, key: string | undefined): T | undefined {
+  return key !== undefined && Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  const input = query.toLowerCase()
+  TOKEN_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+  let pendingDash = false
+
+  while (TOKEN_PATTERN.lastIndex < input.length && (match = TOKEN_PATTERN.exec(input))) {
+    const [text, quoted, domain, tld, number, op, word, comma, dash] = match
+    if (!text.trim()) continue
+    if (dash) {
+      pendingDash = true
+      continue
+    }
+    // "3-5" is a range; any other hyphen just joins words ("4-letter", "fast-growing")
+    if (pendingDash && number && tokens[tokens.length - 1]?.type === 'number') {
+      tokens.push({ type: 'word', text: 'to' })
+    }
+    pendingDash = false
+
+    if (quoted !== undefined) {
+      if (quoted.trim()) tokens.push({ type: 'quoted', text: quoted.trim() })
+    } else if (domain) {
+      tokens.push({ type: 'domain', text: domain })
+    } else if (tld) {
+      tokens.push({ type: 'tld', text: tld })
+    } else if (number) {
+      tokens.push({ type: 'number', text: number, value: parseAmount(number), money: number.startsWith('$') })
+    } else if (op) {
+      tokens.push({ type: 'op', text: op })
+    } else if (word) {
+      tokens.push({ type: 'word', text: word })
+    } else if (comma) {
+      tokens.push({ type: 'comma', text: comma })
+    }
   }
 
-  // Risk patterns
-  if (lowerQuery.match(/\b(low|safe)\s*(risk)?\b/)) {
-    filters.riskMax = 30
+  return tokens
+}
+
+function parseAmount(text: string): number {
+  const suffix = text.slice(-1)
+  const amount = parseFloat(text.replace(/[$,km]/g, ''))
+  if (suffix === 'k') return amount * 1000
+  if (suffix === 'm') return amount * 1000000
+  return amount
+}
+
+class QueryParser {
+  private pos = 0
+  private clauses: ParsedClause[] = []
+  private ignored: string[] = []
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): { clauses: ParsedClause[]; ignored: string[] } {
+    while (this.pos < this.tokens.length) {
+      const start = this.pos
+      const parsed =
+        this.parseNegated() ||
+        this.parseDomain() ||
+        this.parseQuoted() ||
+        this.parseTld() ||
+        this.parseExpiry() ||
+        this.parseLength() ||
+        this.parseComparison() ||
+        this.parseKeyword() ||
+        this.parseCharClass(false) ||
+        this.parsePattern(false) ||
+        this.parseLimit() ||
+        this.parseSort() ||
+        this.parseLevel()
+
+      if (parsed) {
+        const text = this.textBetween(start, this.pos)
+        this.clauses.push(...parsed.map(node => ({ node, text })))
+        continue
+      }
+
+      const token = this.tokens[this.pos++]
+      if (token.type !== 'comma' && token.type !== 'op' && !FILLERS.has(token.text)) {
+        this.ignored.push(token.text)
+      }
+    }
+    return { clauses: this.clauses, ignored: this.ignored }
   }
-  if (lowerQuery.match(/\b(medium|moderate)\s*(risk)?\b/)) {
-    filters.riskMin = 30
-    filters.riskMax = 70
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset]
   }
-  if (lowerQuery.match(/\b(high|dangerous|risky)\s*(risk)?\b/)) {
-    filters.riskMin = 70
+
+  private word(offset = 0): string | undefined {
+    const token = this.peek(offset)
+    return token?.type === 'word' ? token.text : undefined
   }
 
-  // Risk under/over X
-  const riskUnder = lowerQuery.match(/risk\s*(under|below|less\s*than|<)\s*(\d+)/i)
-  if (riskUnder) {
-    filters.riskMax = parseInt(riskUnder[2])
+  // Consume the next word if it is one of the given words
+  private accept(...words: string[]): string | undefined {
+    const word = this.word()
+    if (word && words.includes(word)) {
+      this.pos++
+      return word
+    }
+    return undefined
   }
-  const riskOver = lowerQuery.match(/risk\s*(over|above|more\s*than|greater\s*than|>)\s*(\d+)/i)
-  if (riskOver) {
-    filters.riskMin = parseInt(riskOver[2])
+
+  private number(): Token | undefined {
+    const token = this.peek()
+    if (token?.type === 'number') {
+      this.pos++
+      return token
+    }
+    return undefined
   }
 
-  // Rarity patterns
-  if (lowerQuery.match(/\b(rare|unique|uncommon)\b/)) {
-    filters.rarityMin = 70
+  private attempt<T>(parse: () => T | null | undefined): T | null {
+    const start = this.pos
+    const result = parse()
+    if (result === null || result === undefined) {
+      this.pos = start
+      return null
+    }
+    return result
   }
-  if (lowerQuery.match(/\b(common|ordinary)\b/)) {
-    filters.rarityMax = 30
+
+  private textBetween(start: number, end: number): string {
+    return this.tokens.slice(start, end).map(t => t.type === 'tld' ? `.${t.text}` : t.text).join(' ')
   }
-  const rarityOver = lowerQuery.match(/rarity\s*(over|above|>)\s*(\d+)/i)
-  if (rarityOver) {
-    filters.rarityMin = parseInt(rarityOver[2])
+
+  private parseComparator(): Comparator | null {
+    return this.attempt<Comparator>(() => {
+      const token = this.peek()
+      if (token?.type === 'op') {
+        this.pos++
+        return lookup(OPERATORS, token.text) || null
+      }
+      const first = this.accept(
+        'under', 'below', 'beneath', 'before', 'less', 'lower', 'fewer', 'shorter', 'cheaper',
+        'over', 'above', 'after', 'more', 'greater', 'higher', 'longer', 'bigger', 'larger',
+        'at', 'up', 'no', 'max', 'maximum', 'min', 'minimum', 'between', 'exactly'
+      )
+      switch (first) {
+        case 'under': case 'below': case 'beneath': case 'before':
+          return 'maxStrict'
+        case 'over': case 'above': case 'after':
+          return 'minStrict'
+        case 'less': case 'lower': case 'fewer': case 'shorter': case 'cheaper':
+          return this.accept('than') ? 'maxStrict' : null
+        case 'more': case 'greater': case 'higher': case 'longer': case 'bigger': case 'larger':
+          return this.accept('than') ? 'minStrict' : null
+        case 'at': {
+          const which = this.accept('most', 'least')
+          return which === 'most' ? 'max' : which === 'least' ? 'min' : null
+        }
+        case 'up':
+          return this.accept('to') ? 'max' : null
+        case 'no': {
+          const which = this.accept('more', 'less', 'fewer')
+          return which && this.accept('than') ? (which === 'more' ? 'max' : 'min') : null
+        }
+        case 'max': case 'maximum':
+          return 'max'
+        case 'min': case 'minimum':
+          return 'min'
+        case 'between':
+          return 'between'
+        case 'exactly':
+          return 'eq'
+        default:
+          return null
+      }
+    })
   }
 
-  // Momentum patterns
-  if (lowerQuery.match(/\b(hot|trending|popular|fast\s*growing)\b/)) {
-    filters.momentumMin = 70
+  // "< 30", "between 20 and 40", "20 to 40", "40"; strict bounds step by one on whole-number fields
+  private parseBound(integer: boolean, unit?: () => number | null): Bound | null {
+    return this.attempt(() => {
+      const comparator = this.parseComparator()
+      const first = this.number()
+      if (!first) return null
+      const firstScale = unit?.() ?? null
+
+      if (comparator === 'between' || (!comparator && this.word() === 'to' && this.peek(1)?.type === 'number')) {
+        if (!this.accept('and', 'to')) return null
+        const second = this.number()
+        if (!second) return null
+        // "between 1 and 3 months": a unit after the second number covers both
+        const secondScale = unit?.() ?? firstScale ?? 1
+        const low = first.value! * (firstScale ?? secondScale)
+        const high = second.value! * secondScale
+        return { min: Math.min(low, high), max: Math.max(low, high) }
+      }
+
+      const value = first.value! * (firstScale ?? 1)
+      const step = integer ? 1 : 0
+      switch (comparator) {
+        case 'maxStrict': return { max: value - step }
+        case 'max': return { max: value }
+        case 'minStrict': return { min: value + step }
+        case 'min': return { min: value }
+        default: return { min: value, max: value }
+      }
+    })
   }
-  if (lowerQuery.match(/\b(slow|stagnant|declining)\b/)) {
-    filters.momentumMax = 30
+
+  private dayUnit = (): number | null => {
+    const days = lookup(DAY_UNITS, this.word())
+    if (days === undefined) return null
+    this.pos++
+    return days
   }
-  const momentumOver = lowerQuery.match(/momentum\s*(over|above|>)\s*(\d+)/i)
-  if (momentumOver) {
-    filters.momentumMin = parseInt(momentumOver[2])
+
+  // not .xyz, without hyphens, excluding "pay", not risky
+  private parseNegated(): QueryNode[] | null {
+    return this.attempt(() => {
+      const negation = this.accept(...NEGATIONS)
+      // "no more than" is a comparator
+      if (!negation || (negation === 'no' && ['more', 'less', 'fewer'].includes(this.word() || ''))) return null
+      this.accept('containing', 'contains', 'including', 'with', 'in', 'on', 'ending')
+
+      const tld = this.parseTld()
+      if (tld) return tld.map(node => node.type === 'tld' ? { ...node, negated: true } : node)
+
+      const charClass = this.parseCharClass(true)
+      if (charClass) return charClass
+
+      const pattern = this.parsePattern(true)
+      if (pattern) return pattern
+
+      // Only one-sided bands can be inverted: "not risky" is risk under 70
+      const level = this.attempt(() => this.parseLevel())
+      if (level) {
+        const [node] = level
+        if (level.length !== 1 || node.type !== 'range' || (node.min !== undefined) === (node.max !== undefined)) return null
+        return [{ type: 'range', field: node.field, ...(node.min !== undefined ? { max: node.min } : { min: node.max }) }]
+      }
+
+      const keyword = this.peek()
+      if (keyword && (keyword.type === 'quoted' || (keyword.type === 'word' && !FILLERS.has(keyword.text)))) {
+        this.pos++
+        return [{ type: 'keyword', keyword: keyword.text, negated: true }]
+      }
+      return null
+    })
   }
 
-  // Value patterns
-  const valueMatch = lowerQuery.match(/value\s*(over|above|under|below|>|<)\s*\$?(\d+)/i)
-  if (valueMatch) {
-    const amount = parseInt(valueMatch[2])
-    if (valueMatch[1].match(/over|above|>/)) {
-      filters.valueMin = amount
-    } else {
-      filters.valueMax = amount
-    }
+  private parseDomain(): QueryNode[] | null {
+    const token = this.peek()
+    if (token?.type !== 'domain') return null
+    this.pos++
+    return [{ type: 'term', term: token.text }]
+  }
+
+  private parseQuoted(): QueryNode[] | null {
+    const token = this.peek()
+    if (token?.type !== 'quoted') return null
+    this.pos++
+    return [{ type: 'keyword', keyword: token.text, negated: false }]
+  }
+
+  // .ai, .ai or .io, tld ai/io
+  private parseTld(): QueryNode[] | null {
+    return this.attempt(() => {
+      const tlds: string[] = []
+      if (this.peek()?.type === 'tld') {
+        tlds.push(this.peek()!.text)
+        this.pos++
+        while (this.peek(1)?.type === 'tld' && (this.peek()?.type === 'comma' || ['or', 'and'].includes(this.word() || ''))) {
+          tlds.push(this.peek(1)!.text)
+          this.pos += 2
+        }
+        return [{ type: 'tld', tlds, negated: false }]
+      }
+
+      if (!this.accept('tld', 'tlds', 'extension', 'extensions')) return null
+      this.accept('is', 'in', 'of')
+      if (this.peek()?.type === 'op' && this.peek()!.text === '=') this.pos++
+      while (this.peek()?.type === 'word' || this.peek()?.type === 'tld') {
+        tlds.push(this.peek()!.text)
+        this.pos++
+        const separator = this.peek()
+        const next = this.peek(1)
+        if (!separator || !next || (separator.type !== 'comma' && !['or', 'and'].includes(separator.text))) break
+        if (next.type !== 'word' && next.type !== 'tld') break
+        this.pos++
+      }
+      return tlds.length > 0 ? [{ type: 'tld', tlds, negated: false }] : null
+    })
   }
 
-  // Expiry patterns
-  // Match "expiring in X days", "expires in X days", "expiry in X days"
-  const expiryInMatch = lowerQuery.match(/expir(?:ing|es|y)?\s+in\s+(\d+)\s+days?/i)
-  if (expiryInMatch) {
-    const days = parseInt(expiryInMatch[1])
-    // Allow a small range around the target (e.g., 364 ± 7 days)
-    filters.expiryDaysMin = Math.max(0, days - 7)
-    filters.expiryDaysMax = days + 7
+  // expiring soon, expires in 30 days, expiry within 3 months, expiring between 30 and 90 days
+  private parseExpiry(): QueryNode[] | null {
+    return this.attempt(() => {
+      if (!this.accept('expiring', 'expires', 'expiry', 'expire', 'expiration')) return null
+      this.accept('date')
+
+      if (this.accept('soon')) return [{ type: 'range', field: 'expiry', max: 30 }]
+      if (this.accept('soonest', 'first')) return [{ type: 'sort', field: 'expiry', order: 'asc' }]
+
+      const within = this.accept('within')
+      const inWord = !within && this.accept('in')
+      if (inWord || within) this.accept('the')
+      if (this.accept('this')) {
+        const period = this.dayUnit()
+        return period ? [{ type: 'range', field: 'expiry', max: period }] : null
+      }
+      if (this.accept('next') || within) {
+        const days = this.number()
+        if (!days) return null
+        return [{ type: 'range', field: 'expiry', max: days.value! * (this.dayUnit() ?? 1) }]
+      }
+
+      // Day counts keep the inclusive reading saved searches were written against
+      const bound = this.parseBound(false, this.dayUnit)
+      if (!bound) return null
+      // "expiring in 365 days" allows a week either side
+      if (bound.min !== undefined && bound.min === bound.max) {
+        return [{ type: 'range', field: 'expiry', min: Math.max(0, bound.min - 7), max: bound.max + 7 }]
+      }
+      return [{ type: 'range', field: 'expiry', ...bound }]
+    })
   }
 
-  // Match "expiring within X days", "expires within X days"
-  const expiryWithinMatch = lowerQuery.match(/expir(?:ing|es|y)?\s+within\s+(\d+)\s+days?/i)
-  if (expiryWithinMatch) {
-    const days = parseInt(expiryWithinMatch[1])
-    filters.expiryDaysMax = days
+  // 4 letter, 3-5 char, 4L, under 6 characters, length 3 to 5, short
+  private parseLength(): QueryNode[] | null {
+    return this.attempt(() => {
+      if (this.accept('short')) return [{ type: 'range', field: 'length', max: 5 }]
+
+      if (this.accept('length', 'len')) {
+        this.accept('of', 'is')
+        const bound = this.parseBound(true)
+        return bound ? [{ type: 'range', field: 'length', ...bound }] : null
+      }
+
+      const seen: { unit: boolean; charClass: CharClass | null } = { unit: false, charClass: null }
+      const unit = (): number | null => {
+        const charClass = lookup(LENGTH_UNITS, this.word())
+        if (charClass === undefined) return null
+        this.pos++
+        seen.unit = true
+        seen.charClass = charClass
+        return 1
+      }
+      const bound = this.parseBound(true, unit)
+      // A length needs its unit, otherwise "top 5" would read as a length
+      if (!bound || !seen.unit) return null
+
+      // "5 letters or less", "3 chars or more"
+      if (this.word() === 'or' || this.word() === 'and') {
+        const direction = this.word(1)
+        if (['less', 'fewer', 'shorter', 'under', 'below'].includes(direction || '')) {
+          this.pos += 2
+          delete bound.min
+        } else if (['more', 'longer', 'over', 'above', 'up'].includes(direction || '')) {
+          this.pos += 2
+          delete bound.max
+        }
+      }
+
+      const nodes: QueryNode[] = [{ type: 'range', field: 'length', ...bound }]
+      if (seen.charClass) nodes.push({ type: 'charClass', charClass: seen.charClass })
+      return nodes
+    })
   }
 
-  // Match "expiry under/over X days", "expires in less than X days"
-  const expiryUnderMatch = lowerQuery.match(/expir(?:ing|es|y)?\s+(?:in\s+)?(?:under|below|less\s+than|<)\s+(\d+)\s+days?/i)
-  if (expiryUnderMatch) {
-    filters.expiryDaysMax = parseInt(expiryUnderMatch[1])
+  // risk under 20, rarity between 60 and 80, value over $10k, under $500, over 80 rarity
+  private parseComparison(): QueryNode[] | null {
+    return this.attempt(() => {
+      const field = lookup(SCORE_WORDS, this.word())
+      if (field) {
+        this.pos++
+        this.accept('score', 'is', 'of')
+        const bound = this.parseBound(false)
+        return bound ? [{ type: 'range', field, ...bound }] : null
+      }
+
+      const comparator = this.peek()
+      const bound = this.parseBound(false)
+      if (!bound || !comparator || comparator.type === 'number') return null
+      const trailing = lookup(SCORE_WORDS, this.word())
+      if (trailing) {
+        this.pos++
+        return [{ type: 'range', field: trailing, ...bound }]
+      }
+      // A bare amount is a value only when it looks like money
+      const amount = this.tokens[this.pos - 1]
+      if (amount.money || /[km]$/.test(amount.text) || this.accept('usd', 'dollars')) {
+        return [{ type: 'range', field: 'value', ...bound }]
+      }
+      return null
+    })
   }
 
-  const expiryOverMatch = lowerQuery.match(/expir(?:ing|es|y)?\s+(?:in\s+)?(?:over|above|more\s+than|>)\s+(\d+)\s+days?/i)
-  if (expiryOverMatch) {
-    filters.expiryDaysMin = parseInt(expiryOverMatch[1])
+  // containing pay, with the word "bank", including numbers
+  private parseKeyword(): QueryNode[] | null {
+    return this.attempt(() => {
+      const verb = this.accept('containing', 'contains', 'contain', 'including', 'includes', 'include', 'with')
+      if (!verb) return null
+
+      const charClass = this.parseCharClass(false, true)
+      if (charClass) return charClass
+
+      this.accept('the', 'a')
+      const pattern = this.parsePattern(false)
+      if (pattern) return pattern
+
+      const marked = this.accept('word', 'keyword', 'text', 'string')
+      // "with" is too common to take a bare word after it
+      if (verb === 'with' && !marked && this.peek()?.type !== 'quoted') return null
+
+      const keyword = this.peek()
+      if (!keyword || !['word', 'quoted', 'number'].includes(keyword.type)) return null
+      if (keyword.type === 'word' && FILLERS.has(keyword.text) && !marked) return null
+      this.pos++
+      return [{ type: 'keyword', keyword: keyword.text, negated: false }]
+    })
   }
 
-  // Match "expiring soon" - within 30 days
-  if (lowerQuery.match(/expir(?:ing|y)?\s+soon/i)) {
-    filters.expiryDaysMax = 30
+  // numeric, letters only, all digits, hyphenated; after a negation, numbers / hyphens
+  private parseCharClass(negated: boolean, afterVerb = false): QueryNode[] | null {
+    return this.attempt(() => {
+      const first = this.word()
+      if (!first) return null
+      this.pos++
+      const isDigits = ['numbers', 'number', 'digits', 'digit', 'numeric', 'numerical'].includes(first)
+      const isHyphen = ['hyphens', 'hyphen', 'dashes', 'dash', 'hyphenated'].includes(first)
+      const isLetters = ['letters', 'alphabetic', 'alpha'].includes(first)
+
+      if (negated || afterVerb) {
+        if (isDigits) return [{ type: 'charClass', charClass: negated ? 'no-digits' : 'has-digits' }]
+        if (isHyphen) return [{ type: 'charClass', charClass: negated ? 'no-hyphen' : 'has-hyphen' }]
+        return null
+      }
+
+      if (first === 'hyphenated') return [{ type: 'charClass', charClass: 'has-hyphen' }]
+      if (first === 'hyphen' && this.accept('free')) return [{ type: 'charClass', charClass: 'no-hyphen' }]
+      if (first === 'numeric' || first === 'numerical' || first === 'alphabetic') {
+        return [{ type: 'charClass', charClass: first === 'alphabetic' ? 'letters' : 'digits' }]
+      }
+      if (first === 'all' || first === 'only') {
+        const next = this.accept('numbers', 'digits', 'letters')
+        if (!next) return null
+        return [{ type: 'charClass', charClass: next === 'letters' ? 'letters' : 'digits' }]
+      }
+      if ((isDigits || isLetters) && this.accept('only')) {
+        return [{ type: 'charClass', charClass: isLetters ? 'letters' : 'digits' }]
+      }
+      return null
+    })
   }
 
-  // Sorting patterns
-  if (lowerQuery.match(/\b(newest|latest|recent|new)\b/)) {
-    filters.sortBy = 'newest'
-    filters.sortOrder = 'desc'
+  // palindromes, cvcv, dictionary words, two word compounds, emoji, premium prefix, leading hyphen
+  private parsePattern(negated: boolean): QueryNode[] | null {
+    return this.attempt(() => {
+      const first = this.word()
+      if (!first) return null
+      this.pos++
+
+      let pattern = lookup(PATTERN_WORDS, first)
+      if (first === 'two' && this.accept('word', 'words')) {
+        pattern = 'compound'
+      } else if (first === 'premium' && this.accept('prefix', 'prefixes', 'prefixed')) {
+        pattern = 'premium-prefix'
+      } else if ((first === 'leading' || first === 'trailing') && this.accept('hyphen', 'hyphens', 'dash', 'dashes')) {
+        pattern = first === 'leading' ? 'leading-hyphen' : 'trailing-hyphen'
+      }
+      if (!pattern) return null
+
+      if (pattern === 'dictionary') this.accept('word', 'words')
+      if (pattern === 'compound') this.accept('compound', 'compounds')
+      return [{ type: 'pattern', pattern, negated }]
+    })
   }
-  if (lowerQuery.match(/\b(oldest|earliest|old)\b/)) {
-    filters.sortBy = 'oldest'
-    filters.sortOrder = 'asc'
+
+  // top 10, first 5, limit 20, 10 newest, 25 domains
+  private parseLimit(): QueryNode[] | null {
+    return this.attempt(() => {
+      const lead = this.accept('top', 'first', 'limit')
+      if (!lead) this.accept('only')
+      const count = this.number()
+      if (!count || count.money || !Number.isInteger(count.value)) return null
+
+      const next = this.word()
+      if (lookup(DAY_UNITS, next) !== undefined || lookup(LENGTH_UNITS, next) !== undefined) return null
+      if (!lead && !(next && (RESULT_NOUNS.has(next) || lookup(SORT_WORDS, next) || lookup(SUPERLATIVES, next)))) return null
+      return [{ type: 'limit', count: count.value! }]
+    })
   }
-  // Handle "most rare", "rarest", etc. - sort by rarity
-  if (lowerQuery.match(/\b(most|very|extremely)?\s*(rare|rarest)\b/)) {
-    filters.sortBy = 'rarity'
-    filters.sortOrder = 'desc'
+
+  // most valuable, largest offers, rarest, sorted by momentum descending
+  private parseSort(): QueryNode[] | null {
+    return this.attempt(() => {
+      const first = this.word()
+      if (!first) return null
+
+      if (first === 'sort' || first === 'sorted' || first === 'order' || first === 'ordered') {
+        this.pos++
+        this.accept('by')
+        const field = this.word()
+        const sortField = lookup(SORTABLE_WORDS, field) || lookup(SORT_WORDS, field)?.field
+        if (!sortField) return null
+        this.pos++
+        let order: 'asc' | 'desc' = sortField === 'expiry' || sortField === 'oldest' ? 'asc' : 'desc'
+        const direction = this.accept('asc', 'ascending', 'desc', 'descending', 'low', 'high')
+        if (direction) {
+          order = direction.startsWith('asc') || direction === 'low' ? 'asc' : 'desc'
+          // "low to high"
+          if ((direction === 'low' || direction === 'high') && this.accept('to')) this.accept('high', 'low')
+        }
+        return [{ type: 'sort', field: sortField, order }]
+      }
+
+      const sort = lookup(SORT_WORDS, first)
+      if (sort) {
+        this.pos++
+        // "soonest expiring"
+        if (first === 'soonest') this.accept('expiring', 'expiry')
+        return [{ type: 'sort', ...sort }]
+      }
+
+      const order = lookup(SUPERLATIVES, first)
+      if (!order) return null
+      this.pos++
+      // "most" with nothing rankable after it is not a sort
+      const sortField = lookup(SORTABLE_WORDS, this.word())
+      if (!sortField) return null
+      this.pos++
+      return [{ type: 'sort', field: sortField, order }]
+    })
   }
-  if (lowerQuery.match(/\b(highest|largest|biggest|most|expensive|valuable)\s*(risk|value|momentum|rarity|price)?\b/)) {
-    const metric = lowerQuery.match(/\b(risk|value|momentum|rarity|price)\b/)
-    if (metric) {
-      // Map 'price' to 'value'
-      filters.sortBy = (metric[0] === 'price' ? 'value' : metric[0]) as any
-    } else if (lowerQuery.includes('offer')) {
-      filters.sortBy = 'offers'
-    } else if (lowerQuery.match(/\b(expensive|price|valuable)\b/)) {
-      filters.sortBy = 'value'
-    } else {
-      filters.sortBy = 'value'
-    }
-    filters.sortOrder = 'desc'
-  }
-  if (lowerQuery.match(/\b(lowest|smallest|least|cheapest)\s*(risk|value|momentum|rarity|price)?\b/)) {
-    const metric = lowerQuery.match(/\b(risk|value|momentum|rarity|price)\b/)
-    if (metric) {
-      // Map 'price' to 'value'
-      filters.sortBy = (metric[0] === 'price' ? 'value' : metric[0]) as any
-    } else if (lowerQuery.match(/\b(cheapest|price)\b/)) {
-      filters.sortBy = 'value'
-    } else {
-      filters.sortBy = 'risk'
+
+  // low risk, high rarity, rare, hot, fast growing, high value
+  private parseLevel(): QueryNode[] | null {
+    return this.attempt(() => {
+      const first = this.word()
+      if (!first) return null
+      this.pos++
+
+      if (first === 'fast' && this.accept('growing')) return [{ type: 'range', field: 'momentum', ...LEVELS.high }]
+
+      const level = lookup(LEVEL_WORDS, first)
+      const field = lookup(SCORE_WORDS, this.word())
+      if (level && field) {
+        this.pos++
+        // Value has no fixed scale, so "high value" ranks instead of filtering
+        if (field === 'value') {
+          return level === 'medium' ? null : [{ type: 'sort', field: 'value', order: level === 'low' ? 'asc' : 'desc' }]
+        }
+        return [{ type: 'range', field, ...(field === 'forecast' ? FORECAST_LEVELS : LEVELS)[level] }]
+      }
+
+      const adjective = lookup(ADJECTIVES, first)
+      return adjective ? [{ type: 'range', field: adjective.field, ...adjective.bound }] : null
+    })
+  }
+}
+
+const CONFLICTING_CLASSES: Array<[CharClass, CharClass]> = [
+  ['letters', 'digits'],
+  ['letters', 'has-digits'],
+  ['letters', 'has-hyphen'],
+  ['digits', 'no-digits'],
+  ['digits', 'has-hyphen'],
+  ['has-digits', 'no-digits'],
+  ['has-hyphen', 'no-hyphen']
+]
+
+// Merge clauses into one range per field, one sort, one limit; later contradictions are dropped
+function normalize(parsed: ParsedClause[]): { clauses: QueryNode[]; conflicts: string[] } {
+  const clauses: QueryNode[] = []
+  const conflicts: string[] = []
+  const ranges = new Map<RangeField, Extract<QueryNode, { type: 'range' }>>()
+
+  for (const { node, text } of parsed) {
+    switch (node.type) {
+      case 'range': {
+        const existing = ranges.get(node.field)
+        if (!existing) {
+          const range = { ...node }
+          ranges.set(node.field, range)
+          clauses.push(range)
+          break
+        }
+        const min = Math.max(existing.min ?? -Infinity, node.min ?? -Infinity)
+        const max = Math.min(existing.max ?? Infinity, node.max ?? Infinity)
+        if (min > max) {
+          conflicts.push(`ignored "${text}", which contradicts an earlier ${node.field} filter`)
+          break
+        }
+        if (Number.isFinite(min)) existing.min = min
+        if (Number.isFinite(max)) existing.max = max
+        break
+      }
+      case 'tld': {
+        const opposite = clauses.find(c => c.type === 'tld' && c.negated !== node.negated) as Extract<QueryNode, { type: 'tld' }> | undefined
+        const clash = node.tlds.filter(tld => opposite?.tlds.includes(tld))
+        if (clash.length > 0) conflicts.push(`ignored "${text}", which contradicts an earlier TLD filter`)
+        const tlds = node.tlds.filter(tld => !clash.includes(tld))
+        if (tlds.length === 0) break
+        const same = clauses.find(c => c.type === 'tld' && c.negated === node.negated) as Extract<QueryNode, { type: 'tld' }> | undefined
+        if (same) same.tlds = [...new Set([...same.tlds, ...tlds])]
+        else clauses.push({ ...node, tlds })
+        break
+      }
+      case 'keyword': {
+        const existing = clauses.find(c => c.type === 'keyword' && c.keyword === node.keyword) as Extract<QueryNode, { type: 'keyword' }> | undefined
+        if (existing && existing.negated !== node.negated) {
+          conflicts.push(`ignored "${text}", which contradicts an earlier keyword filter`)
+        } else if (!existing) {
+          clauses.push(node)
+        }
+        break
+      }
+      case 'charClass': {
+        const held = clauses.filter(c => c.type === 'charClass').map(c => (c as Extract<QueryNode, { type: 'charClass' }>).charClass)
+        if (held.includes(node.charClass)) break
+        if (CONFLICTING_CLASSES.some(([a, b]) => (a === node.charClass && held.includes(b)) || (b === node.charClass && held.includes(a)))) {
+          conflicts.push(`ignored "${text}", which contradicts an earlier character filter`)
+          break
+        }
+        clauses.push(node)
+        break
+      }
+      case 'pattern': {
+        const existing = clauses.find(c => c.type === 'pattern' && c.pattern === node.pattern) as Extract<QueryNode, { type: 'pattern' }> | undefined
+        if (existing && existing.negated !== node.negated) {
+          conflicts.push(`ignored "${text}", which contradicts an earlier pattern filter`)
+        } else if (!existing) {
+          clauses.push(node)
+        }
+        break
+      }
+      case 'sort':
+      case 'limit':
+      case 'term': {
+        const existing = clauses.find(c => c.type === node.type)
+        if (!existing) clauses.push(node)
+        else if (JSON.stringify(existing) !== JSON.stringify(node)) conflicts.push(`ignored "${text}", only one ${node.type} applies`)
+        break
+      }
     }
-    filters.sortOrder = 'asc'
   }
 
-  // Offer patterns
-  if (lowerQuery.match(/\b(offer|offers|bid|bids)\b/) && lowerQuery.match(/\b(large|big|high|most)\b/)) {
-    filters.sortBy = 'offers'
-    filters.sortOrder = 'desc'
+  return { clauses, conflicts }
+}
+
+export function parseQuery(query: string): QueryAst {
+  const { clauses: parsed, ignored } = new QueryParser(tokenize(query)).parse()
+  const { clauses, conflicts } = normalize(parsed)
+
+  // Nothing recognised: search names for the words instead
+  if (clauses.length === 0 && ignored.length > 0) {
+    return { clauses: [{ type: 'term', term: ignored.join(' ') }], ignored: [], conflicts }
   }
+  return { clauses, ignored, conflicts }
+}
 
-  // Limit patterns (top N, first N, show me N domains/results)
-  // More specific pattern to avoid matching "N days" or other numbers
-  const limitMatch = lowerQuery.match(/\b(top|first|show\s*me|give\s*me)\s+(\d+)\s*(domains?|results?)?(?!\s*days?)\b/i)
-  if (limitMatch) {
-    filters.limit = parseInt(limitMatch[2])
+// The numeric min/max fields of SearchFilters
+export type RangeFilterKey = {
+  [K in keyof SearchFilters]-?: NonNullable<SearchFilters[K]> extends number ? (K extends 'limit' ? never : K) : never
+}[keyof SearchFilters]
+
+export function compileQuery(ast: QueryAst): SearchFilters {
+  const filters: SearchFilters = {}
+  const bounds: Record<RangeField, [RangeFilterKey, RangeFilterKey]> = {
+    risk: ['riskMin', 'riskMax'],
+    rarity: ['rarityMin', 'rarityMax'],
+    momentum: ['momentumMin', 'momentumMax'],
+    forecast: ['forecastMin', 'forecastMax'],
+    value: ['valueMin', 'valueMax'],
+    expiry: ['expiryDaysMin', 'expiryDaysMax'],
+    length: ['lengthMin', 'lengthMax']
+  }
+  const push = <K extends 'tlds' | 'excludeTlds' | 'contains' | 'excludes' | 'charClasses' | 'patterns' | 'excludePatterns'>(key: K, values: NonNullable<SearchFilters[K]>) => {
+    filters[key] = [...(filters[key] || []), ...values] as SearchFilters[K]
   }
 
-  // If no specific filters but contains keywords, add as search term
-  if (Object.keys(filters).length === 0 && lowerQuery.length > 0) {
-    filters.searchTerm = query
+  for (const node of ast.clauses) {
+    switch (node.type) {
+      case 'range': {
+        const [minKey, maxKey] = bounds[node.field]
+        if (node.min !== undefined) filters[minKey] = node.min
+        if (node.max !== undefined) filters[maxKey] = node.max
+        break
+      }
+      case 'tld':
+        push(node.negated ? 'excludeTlds' : 'tlds', node.tlds)
+        break
+      case 'keyword':
+        push(node.negated ? 'excludes' : 'contains', [node.keyword])
+        break
+      case 'charClass':
+        push('charClasses', [node.charClass])
+        break
+      case 'pattern':
+        push(node.negated ? 'excludePatterns' : 'patterns', [node.pattern])
+        break
+      case 'sort':
+        filters.sortBy = node.field
+        filters.sortOrder = node.order
+        break
+      case 'limit':
+        filters.limit = node.count
+        break
+      case 'term':
+        filters.searchTerm = node.term
+        break
+    }
   }
 
   return filters
 }
 
+// The AST a set of filters compiles from, for explaining filters that didn't come from a query
+export function queryFromFilters(filters: SearchFilters): QueryAst {
+  const clauses: QueryNode[] = []
+  const range = (field: RangeField, min?: number, max?: number) => {
+    if (min !== undefined || max !== undefined) clauses.push({ type: 'range', field, min, max })
+  }
+
+  range('risk', filters.riskMin, filters.riskMax)
+  range('rarity', filters.rarityMin, filters.rarityMax)
+  range('momentum', filters.momentumMin, filters.momentumMax)
+  range('forecast', filters.forecastMin, filters.forecastMax)
+  range('value', filters.valueMin, filters.valueMax)
+  range('expiry', filters.expiryDaysMin, filters.expiryDaysMax)
+  range('length', filters.lengthMin, filters.lengthMax)
+  if (filters.tlds?.length) clauses.push({ type: 'tld', tlds: filters.tlds, negated: false })
+  if (filters.excludeTlds?.length) clauses.push({ type: 'tld', tlds: filters.excludeTlds, negated: true })
+  filters.contains?.forEach(keyword => clauses.push({ type: 'keyword', keyword, negated: false }))
+  filters.excludes?.forEach(keyword => clauses.push({ type: 'keyword', keyword, negated: true }))
+  filters.charClasses?.forEach(charClass => clauses.push({ type: 'charClass', charClass }))
+  filters.patterns?.forEach(pattern => clauses.push({ type: 'pattern', pattern, negated: false }))
+  filters.excludePatterns?.forEach(pattern => clauses.push({ type: 'pattern', pattern, negated: true }))
+  if (filters.sortBy) clauses.push({ type: 'sort', field: filters.sortBy, order: filters.sortOrder || 'desc' })
+  if (filters.limit) clauses.push({ type: 'limit', count: filters.limit })
+  if (filters.searchTerm) clauses.push({ type: 'term', term: filters.searchTerm })
+
+  return { clauses, ignored: [], conflicts: [] }
+}
+
+export function parseNaturalLanguageQuery(query: string): SearchFilters {
+  return compileQuery(parseQuery(query))
+}
+
 export function getSearchSuggestions(query: string): string[] {
   if (!query || query.length < 2) return []
 
@@ -192,6 +1046,16 @@ export function getSearchSuggestions(query: string): string[] {
     'value over $10000',
     'hot trending domains',
     'rare domains',
+    'rare .ai names',
+    '4 letter domains',
+    '3-5 character .io names',
+    'containing pay',
+    'not .xyz',
+    'numeric names without hyphens',
+    'palindromes',
+    'cvcv names',
+    'two word compounds on .com',
+    'dictionary words not .xyz',
     'safe investments',
     'high momentum',
     'top 5 domains',
@@ -204,57 +1068,75 @@ export function getSearchSuggestions(query: string): string[] {
   return suggestions.filter(s => s.includes(lowerQuery))
 }
 
-export function explainFilters(filters: SearchFilters): string {
-  const parts: string[] = []
-
-  if (filters.riskMin !== undefined || filters.riskMax !== undefined) {
-    if (filters.riskMin && filters.riskMax) {
-      parts.push(`risk between ${filters.riskMin}-${filters.riskMax}`)
-    } else if (filters.riskMin) {
-      parts.push(`risk over ${filters.riskMin}`)
-    } else if (filters.riskMax) {
-      parts.push(`risk under ${filters.riskMax}`)
-    }
-  }
+const CHAR_CLASS_LABELS: Record<CharClass, string> = {
+  letters: 'letters only',
+  digits: 'digits only',
+  'has-digits': 'with digits',
+  'no-digits': 'no digits',
+  'has-hyphen': 'with hyphens',
+  'no-hyphen': 'no hyphens'
+}
 
-  if (filters.rarityMin !== undefined) {
-    parts.push(`rarity over ${filters.rarityMin}`)
-  }
+function explainRange({ field, min, max }: Extract<QueryNode, { type: 'range' }>): string {
+  const amount = (n: number) => field === 'value' ? `$${n.toLocaleString()}` : String(n)
 
-  if (filters.momentumMin !== undefined) {
-    parts.push(`momentum over ${filters.momentumMin}`)
+  if (field === 'expiry') {
+    if (min !== undefined && max !== undefined) return `expiring in ${min}-${max} days`
+    if (max !== undefined) return `expiring within ${max} days`
+    return `expiring in ${min}+ days`
   }
-
-  if (filters.valueMin !== undefined || filters.valueMax !== undefined) {
-    if (filters.valueMin) {
-      parts.push(`value over $${filters.valueMin.toLocaleString()}`)
-    } else if (filters.valueMax) {
-      parts.push(`value under $${filters.valueMax.toLocaleString()}`)
-    }
+  if (field === 'length') {
+    if (min !== undefined && min === max) return `${min} characters`
+    if (min !== undefined && max !== undefined) return `${min}-${max} characters`
+    if (max !== undefined) return `at most ${max} characters`
+    return `at least ${min} characters`
   }
-
-  if (filters.expiryDaysMin !== undefined || filters.expiryDaysMax !== undefined) {
-    if (filters.expiryDaysMin && filters.expiryDaysMax) {
-      parts.push(`expiring in ${filters.expiryDaysMin}-${filters.expiryDaysMax} days`)
-    } else if (filters.expiryDaysMin) {
-      parts.push(`expiring in more than ${filters.expiryDaysMin} days`)
-    } else if (filters.expiryDaysMax) {
-      parts.push(`expiring in less than ${filters.expiryDaysMax} days`)
-    }
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `${field} ${amount(min)}` : `${field} between ${amount(min)} and ${amount(max)}`
   }
+  if (max !== undefined) return `${field} at most ${amount(max)}`
+  return `${field} at least ${amount(min!)}`
+}
 
-  if (filters.sortBy) {
-    const orderText = filters.sortOrder === 'asc' ? 'lowest' : 'highest'
-    parts.push(`sorted by ${orderText} ${filters.sortBy}`)
+function explainSort({ field, order }: Extract<QueryNode, { type: 'sort' }>): string {
+  switch (field) {
+    case 'newest':
+    case 'oldest':
+      return `sorted by ${field}`
+    case 'expiry':
+      return order === 'asc' ? 'soonest expiring first' : 'latest expiring first'
+    case 'length':
+      return order === 'asc' ? 'shortest first' : 'longest first'
+    case 'name':
+      return order === 'asc' ? 'sorted A-Z' : 'sorted Z-A'
+    case 'offers':
+      return `sorted by ${order === 'asc' ? 'fewest' : 'most'} offers`
+    default:
+      return `sorted by ${order === 'asc' ? 'lowest' : 'highest'} ${field}`
   }
+}
 
-  if (filters.limit) {
-    parts.push(`showing ${filters.limit} results`)
+function explainNode(node: QueryNode): string {
+  switch (node.type) {
+    case 'range': return explainRange(node)
+    case 'tld': return `${node.negated ? 'excluding ' : ''}${node.tlds.map(tld => `.${tld}`).join(node.negated ? ', ' : ' or ')}`
+    case 'keyword': return `${node.negated ? 'not containing' : 'containing'} "${node.keyword}"`
+    case 'charClass': return CHAR_CLASS_LABELS[node.charClass]
+    case 'pattern': return `${node.negated ? 'not ' : ''}${PATTERN_LABELS[node.pattern]}`
+    case 'sort': return explainSort(node)
+    case 'limit': return `showing ${node.count} results`
+    case 'term': return `matching "${node.term}"`
   }
+}
 
-  if (filters.searchTerm) {
-    parts.push(`matching "${filters.searchTerm}"`)
-  }
+export function explainQuery(ast: QueryAst): string {
+  const parts = ast.clauses.map(explainNode)
+  let text = parts.length > 0 ? `Filtering: ${parts.join(', ')}` : 'No filters applied'
+  if (ast.ignored.length > 0) text += ` (didn't understand: ${ast.ignored.join(', ')})`
+  if (ast.conflicts.length > 0) text += `; ${ast.conflicts.join('; ')}`
+  return text
+}
 
-  return parts.length > 0 ? `Filtering: ${parts.join(', ')}` : 'No filters applied'
+export function explainFilters(filters: SearchFilters): string {
+  return explainQuery(queryFromFilters(filters))
 }
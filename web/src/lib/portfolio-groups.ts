@@ -0,0 +1,267 @@
+/**
+ * Portfolio groups for Dometrics
+ * Named sets of wallets (stored in the PortfolioGroup table) reported as one
+ * portfolio: consolidated valuation, risk distribution, expiry calendar and a
+ * per-wallet drill-down, exportable as JSON, CSV or text.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { portfolioService, isValidOwner, toCaip10, toAddress } from './portfolio'
+import type { Portfolio, PortfolioHolding, PortfolioSummary } from './portfolio'
+import type { ScoringOptions } from './domain-scoring'
+
+export interface PortfolioGroup {
+  id: string
+  userAddress: string
+  name: string
+  description: string | null
+  wallets: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ExpiryMonth {
+  month: string // YYYY-MM
+  count: number
+  value: number
+  domains: Array<Pick<PortfolioHolding, 'tokenId' | 'name' | 'expiresAt' | 'price'> & { wallet: string }>
+}
+
+export interface WalletBreakdown {
+  wallet: string
+  summary: PortfolioSummary
+}
+
+export interface PortfolioGroupReport extends Portfolio {
+  group: PortfolioGroup
+  wallets: WalletBreakdown[]
+  expiryCalendar: ExpiryMonth[]
+  generatedAt: string
+}
+
+export type ReportFormat = 'json' | 'csv' | 'text'
+
+const MAX_WALLETS = 25
+// Months of expiries shown in the calendar, starting with the current one
+const CALENDAR_MONTHS = 12
+
+const walletSchema = z.string().trim().refine(isValidOwner, { message: 'must be an address or CAIP-10 account id' })
+
+export const createGroupSchema = z.object({
+  userAddress: walletSchema,
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  wallets: z.array(walletSchema).min(1).max(MAX_WALLETS)
+})
+
+export const updateGroupSchema = createGroupSchema.omit({ userAddress: true }).partial()
+
+export type CreateGroupInput = z.infer<typeof createGroupSchema>
+export type UpdateGroupInput = z.infer<typeof updateGroupSchema>
+
+// Same wallet given twice in different forms only counts once
+function normalizeWallets(wallets: string[]): string[] {
+  const byAddress = new Map<string, string>()
+  for (const wallet of wallets) {
+    const address = toAddress(wallet)
+    if (!byAddress.has(address)) byAddress.set(address, toCaip10(wallet))
+  }
+  return Array.from(byAddress.values())
+}
+
+function toGroup(row: any): PortfolioGroup {
+  return {
+    id: row.id,
+    userAddress: row.userAddress,
+    name: row.name,
+    description: row.description ?? null,
+    wallets: row.wallets,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString()
+  }
+}
+
+// Quote cells the way the domain page export does
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export class PortfolioGroupService {
+  /**
+   * Groups created by a user, newest first
+   */
+  async list(userAddress: string): Promise<PortfolioGroup[]> {
+    const rows: any[] = await prisma.portfolioGroup.findMany({
+      where: { userAddress: toCaip10(userAddress) },
+      orderBy: { createdAt: 'desc' }
+    })
+    return rows.map(toGroup)
+  }
+
+  async get(id: string): Promise<PortfolioGroup | null> {
+    const row = await prisma.portfolioGroup.findUnique({ where: { id } })
+    return row ? toGroup(row) : null
+  }
+
+  async create(input: CreateGroupInput): Promise<PortfolioGroup> {
+    const row = await prisma.portfolioGroup.create({
+      data: {
+        userAddress: toCaip10(input.userAddress),
+        name: input.name,
+        description: input.description || null,
+        wallets: normalizeWallets(input.wallets)
+      }
+    })
+    return toGroup(row)
+  }
+
+  /**
+   * Apply a partial update; null when the group does not exist
+   */
+  async update(id: string, input: UpdateGroupInput): Promise<PortfolioGroup | null> {
+    if (!(await this.get(id))) return null
+    const row = await prisma.portfolioGroup.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.wallets !== undefined ? { wallets: normalizeWallets(input.wallets) } : {})
+      }
+    })
+    return toGroup(row)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await prisma.portfolioGroup.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Consolidated report across every wallet in the group
+   */
+  async report(group: PortfolioGroup, options: ScoringOptions = {}): Promise<PortfolioGroupReport> {
+    const portfolio = await portfolioService.getPortfolio(group.wallets, options)
+    const walletOf = (holding: PortfolioHolding) =>
+      group.wallets.find(wallet => toAddress(wallet) === toAddress(holding.owner)) || holding.owner
+
+    return {
+      ...portfolio,
+      group,
+      wallets: group.wallets.map(wallet => ({
+        wallet,
+        summary: portfolioService.summarize(portfolio.holdings.filter(h => walletOf(h) === wallet))
+      })),
+      expiryCalendar: this.buildExpiryCalendar(portfolio.holdings, walletOf),
+      generatedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Serialize a report for download
+   */
+  format(report: PortfolioGroupReport, format: ReportFormat): { body: string; mimeType: string; extension: string } {
+    switch (format) {
+      case 'json':
+        return { body: JSON.stringify(report, null, 2), mimeType: 'application/json', extension: 'json' }
+      case 'csv':
+        return { body: this.toCsv(report), mimeType: 'text/csv', extension: 'csv' }
+      case 'text':
+        return { body: this.toText(report), mimeType: 'text/plain', extension: 'txt' }
+    }
+  }
+
+  // Expiries bucketed by calendar month (UTC) over the next CALENDAR_MONTHS months
+  private buildExpiryCalendar(
+    holdings: PortfolioHolding[],
+    walletOf: (holding: PortfolioHolding) => string
+  ): ExpiryMonth[] {
+    const now = new Date()
+    const months: ExpiryMonth[] = []
+    for (let i = 0; i < CALENDAR_MONTHS; i++) {
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + i, 1))
+      months.push({ month: date.toISOString().slice(0, 7), count: 0, value: 0, domains: [] })
+    }
+
+    for (const holding of [...holdings].sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)) {
+      const bucket = months.find(m => m.month === holding.expiresAt.slice(0, 7))
+      if (!bucket) continue
+      bucket.count++
+      bucket.value += holding.price
+      bucket.domains.push({
+        tokenId: holding.tokenId,
+        name: holding.name,
+        expiresAt: holding.expiresAt,
+        price: holding.price,
+        wallet: walletOf(holding)
+      })
+    }
+    return months
+  }
+
+  private toCsv(report: PortfolioGroupReport): string {
+    const header = [
+      'Wallet', 'Domain', 'Token ID', 'TLD', 'Value', 'Risk Score', 'Rarity Score', 'Momentum Score',
+      'Forecast Score', 'Acquired Price', 'Acquired Date', 'Unrealized P&L', 'Expires', 'Days Until Expiry',
+      'Weights Version'
+    ]
+    const rows = report.holdings.map(h => [
+      h.owner, h.name, h.tokenId, h.tld, h.price, h.scores.risk, h.scores.rarity, h.scores.momentum,
+      h.scores.forecast, h.acquisition?.priceUsd ?? null, h.acquisition?.date ?? null, h.unrealizedPnl,
+      h.expiresAt, h.daysUntilExpiry, h.weightsVersion
+    ])
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n')
+  }
+
+  private toText(report: PortfolioGroupReport): string {
+    const { group, summary } = report
+    const usd = (value: number) => `$${Math.round(value).toLocaleString()}`
+    const lines = [
+      'Portfolio Group Report',
+      '========================',
+      `Group: ${group.name}`,
+      ...(group.description ? [`Description: ${group.description}`] : []),
+      `Wallets: ${group.wallets.length}`,
+      `Profile: ${report.profile} (weights ${report.weightsVersion || 'v1'})`,
+      '',
+      'Summary',
+      '-------',
+      `Names: ${summary.count}`,
+      `Estimated Value: ${usd(summary.totalValue)}`,
+      `Weighted Risk: ${summary.weightedRisk}`,
+      `Weighted Forecast: ${summary.weightedForecast}`,
+      `Cost Basis: ${usd(summary.costBasis)} (${summary.pricedCount} of ${summary.count} priced)`,
+      `Unrealized P&L: ${usd(summary.unrealizedPnl)}${summary.unrealizedPnlPct !== null ? ` (${summary.unrealizedPnlPct}%)` : ''}`,
+      `Risk Distribution: ${summary.riskDistribution.low} low / ${summary.riskDistribution.medium} medium / ${summary.riskDistribution.high} high`,
+      '',
+      'By Wallet',
+      '---------',
+      ...report.wallets.map(w =>
+        `${w.wallet}: ${w.summary.count} names, ${usd(w.summary.totalValue)}, risk ${w.summary.weightedRisk}`
+      ),
+      '',
+      'Concentration by TLD',
+      '--------------------',
+      ...summary.concentration.map(c => `.${c.tld}: ${c.count} names, ${usd(c.value)} (${(c.share * 100).toFixed(1)}%)`),
+      '',
+      'Expiry Calendar',
+      '---------------',
+      ...report.expiryCalendar
+        .filter(m => m.count > 0)
+        .map(m => `${m.month}: ${m.domains.map(d => d.name).join(', ')} (${usd(m.value)})`),
+      '',
+      'Holdings',
+      '--------',
+      ...report.holdings.map(h =>
+        `${h.name} | ${usd(h.price)} | risk ${h.scores.risk} | forecast ${h.scores.forecast} | expires ${h.expiresAt.slice(0, 10)} | ${h.owner}`
+      ),
+      '',
+      `Exported: ${new Date(report.generatedAt).toLocaleString()}`
+    ]
+    return lines.join('\n') + '\n'
+  }
+}
+
+export const portfolioGroupService = new PortfolioGroupService()
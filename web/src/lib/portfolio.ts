@@ -0,0 +1,211 @@
+/**
+ * Wallet portfolios for Dometrics
+ * Every name held by one or more addresses, scored through the shared pipeline,
+ * with aggregate value, value-weighted risk, upcoming expiries, TLD
+ * concentration and unrealized P&L against PURCHASED acquisition prices.
+ */
+
+import { domaClient, collectAll } from './doma-client'
+import { domainScoringService } from './domain-scoring'
+import type { DomainEntry, ScoredDomain, ScoringOptions } from './domain-scoring'
+
+export interface Acquisition {
+  priceUsd: number
+  date: string
+  txHash: string
+}
+
+export interface PortfolioHolding extends ScoredDomain {
+  acquisition: Acquisition | null
+  unrealizedPnl: number | null
+  unrealizedPnlPct: number | null
+}
+
+export interface TldConcentration {
+  tld: string
+  count: number
+  value: number
+  share: number
+}
+
+export interface PortfolioSummary {
+  count: number
+  totalValue: number
+  weightedRisk: number
+  weightedForecast: number
+  // Cost basis and P&L only cover holdings with a known purchase price
+  costBasis: number
+  unrealizedPnl: number
+  unrealizedPnlPct: number | null
+  pricedCount: number
+  riskDistribution: { low: number; medium: number; high: number }
+  upcomingExpiries: Array<Pick<ScoredDomain, 'tokenId' | 'name' | 'expiresAt' | 'daysUntilExpiry' | 'price'>>
+  concentration: TldConcentration[]
+}
+
+export interface Portfolio {
+  owners: string[]
+  profile: string
+  weightsVersion: string | null
+  summary: PortfolioSummary
+  holdings: PortfolioHolding[]
+}
+
+// Plain 0x address or CAIP-10 (eip155:<chainId>:0x...)
+const OWNER_PATTERN = /^(eip155:\d+:)?0x[a-fA-F0-9]{40}$/
+const UPCOMING_EXPIRY_DAYS = 90
+const ACTIVITY_CONCURRENCY = 5
+
+/**
+ * Whether a string is a plain or CAIP-10 EVM address
+ */
+export function isValidOwner(owner: string): boolean {
+  return OWNER_PATTERN.test(owner)
+}
+
+/**
+ * CAIP-10 account id; plain addresses are taken to be on the Doma testnet
+ */
+export function toCaip10(owner: string): string {
+  return owner.startsWith('eip155:') ? owner : `eip155:97476:${owner}`
+}
+
+/**
+ * Lower-cased 0x address, whichever form it was given in
+ */
+export function toAddress(owner: string): string {
+  return owner.split(':').pop()!.toLowerCase()
+}
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+export class PortfolioService {
+  /**
+   * Scored holdings and aggregates for the given owner addresses
+   */
+  async getPortfolio(owners: string[], options: ScoringOptions = {}): Promise<Portfolio> {
+    const entries = await this.getHoldings(owners)
+    const scored = await domainScoringService.scoreDomains(entries, { profile: options.profile })
+    const acquisitions = await this.getAcquisitions(scored.map(d => d.tokenId), owners)
+
+    const holdings: PortfolioHolding[] = scored.map(domain => {
+      const acquisition = acquisitions.get(domain.tokenId) || null
+      const unrealizedPnl = acquisition ? domain.price - acquisition.priceUsd : null
+      return {
+        ...domain,
+        acquisition,
+        unrealizedPnl: unrealizedPnl !== null ? Math.round(unrealizedPnl) : null,
+        unrealizedPnlPct: unrealizedPnl !== null && acquisition!.priceUsd > 0
+          ? round((unrealizedPnl / acquisition!.priceUsd) * 100, 1)
+          : null
+      }
+    })
+    holdings.sort((a, b) => b.price - a.price)
+
+    return {
+      owners,
+      profile: scored[0]?.profile || options.profile || 'default',
+      weightsVersion: scored[0]?.weightsVersion || null,
+      summary: this.summarize(holdings),
+      holdings
+    }
+  }
+
+  /**
+   * Aggregates over a set of holdings
+   */
+  summarize(holdings: PortfolioHolding[]): PortfolioSummary {
+    const totalValue = holdings.reduce((sum, h) => sum + h.price, 0)
+    // Weighted by value so a pile of cheap names doesn't drown out the big positions
+    const weighted = (pick: (h: PortfolioHolding) => number) =>
+      totalValue > 0 ? round(holdings.reduce((sum, h) => sum + pick(h) * h.price, 0) / totalValue, 1) : 0
+
+    const priced = holdings.filter(h => h.acquisition)
+    const costBasis = priced.reduce((sum, h) => sum + h.acquisition!.priceUsd, 0)
+    const pricedValue = priced.reduce((sum, h) => sum + h.price, 0)
+
+    const byTld = new Map<string, { count: number; value: number }>()
+    for (const holding of holdings) {
+      const group = byTld.get(holding.tld) || { count: 0, value: 0 }
+      group.count++
+      group.value += holding.price
+      byTld.set(holding.tld, group)
+    }
+
+    return {
+      count: holdings.length,
+      totalValue: Math.round(totalValue),
+      weightedRisk: weighted(h => h.scores.risk),
+      weightedForecast: weighted(h => h.scores.forecast),
+      costBasis: Math.round(costBasis),
+      unrealizedPnl: Math.round(pricedValue - costBasis),
+      unrealizedPnlPct: costBasis > 0 ? round(((pricedValue - costBasis) / costBasis) * 100, 1) : null,
+      pricedCount: priced.length,
+      riskDistribution: {
+        low: holdings.filter(h => h.scores.risk < 34).length,
+        medium: holdings.filter(h => h.scores.risk >= 34 && h.scores.risk < 67).length,
+        high: holdings.filter(h => h.scores.risk >= 67).length
+      },
+      upcomingExpiries: holdings
+        .filter(h => h.daysUntilExpiry <= UPCOMING_EXPIRY_DAYS)
+        .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)
+        .map(({ tokenId, name, expiresAt, daysUntilExpiry, price }) => ({ tokenId, name, expiresAt, daysUntilExpiry, price })),
+      concentration: Array.from(byTld.entries())
+        .map(([tld, group]) => ({
+          tld,
+          count: group.count,
+          value: Math.round(group.value),
+          share: totalValue > 0 ? round(group.value / totalValue, 3) : 0
+        }))
+        .sort((a, b) => b.value - a.value)
+    }
+  }
+
+  /**
+   * Tokens currently held by any of the owners (a name can have tokens on other chains)
+   */
+  async getHoldings(owners: string[]): Promise<DomainEntry[]> {
+    const addresses = new Set(owners.map(toAddress))
+    const names = await collectAll(domaClient.iterateNamesByOwner(owners))
+    const entries: DomainEntry[] = []
+    const seen = new Set<string>()
+
+    for (const name of names) {
+      for (const token of name.tokens || []) {
+        if (seen.has(token.tokenId) || !addresses.has(toAddress(token.ownerAddress))) continue
+        seen.add(token.tokenId)
+        entries.push({ name, token })
+      }
+    }
+    return entries
+  }
+
+  // Latest PURCHASED activity where one of the owners was the buyer
+  private async getAcquisitions(tokenIds: string[], owners: string[]): Promise<Map<string, Acquisition>> {
+    const addresses = new Set(owners.map(toAddress))
+    const result = new Map<string, Acquisition>()
+
+    for (let i = 0; i < tokenIds.length; i += ACTIVITY_CONCURRENCY) {
+      const batch = tokenIds.slice(i, i + ACTIVITY_CONCURRENCY)
+      const activities = await Promise.all(batch.map(tokenId => domaClient.getTokenActivities(tokenId, 100)))
+
+      batch.forEach((tokenId, index) => {
+        const purchase = (activities[index] as any[])
+          .filter(a => a.type === 'PURCHASED' && a.payment?.price && a.buyer && addresses.has(toAddress(a.buyer)))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0]
+        if (!purchase) return
+        result.set(tokenId, {
+          priceUsd: Math.round(parseFloat(purchase.payment.price) * (purchase.payment.usdExchangeRate || 1)),
+          date: purchase.createdAt,
+          txHash: purchase.txHash
+        })
+      })
+    }
+    return result
+  }
+}
+
+export const portfolioService = new PortfolioService()
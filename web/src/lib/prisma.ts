@@ -0,0 +1,14 @@
+/**
+ * Shared Prisma client for server-side persistence
+ * Reuses a single instance across hot reloads in development
+ */
+
+import { PrismaClient } from '@prisma/client'
+
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient }
+
+export const prisma: PrismaClient = globalForPrisma.prisma ?? new PrismaClient()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma
+}
@@ -0,0 +1,199 @@
+/**
+ * Renewal calendar for Dometrics
+ * Expiry dates of owned and tracked domains as calendar entries and as an
+ * iCalendar (RFC 5545) feed. Reminders fire at the critical, urgent and warning
+ * boundaries of the expiryBuffer risk tiers, so a calendar alarm lines up with
+ * the point where the risk score steps up.
+ */
+
+import { domainScoringService } from './domain-scoring'
+import type { ScoredDomain, ScoringOptions } from './domain-scoring'
+import { portfolioService, toAddress } from './portfolio'
+import { getWeightProfile } from './weight-profiles'
+
+export type ReminderTierName = 'critical' | 'urgent' | 'warning'
+
+export interface ReminderTier {
+  tier: ReminderTierName
+  days: number
+}
+
+export interface RenewalEntry {
+  tokenId: string
+  name: string
+  owner: string
+  expiresAt: string
+  daysUntilExpiry: number
+  // Tightest reminder tier the domain is already inside, if any
+  tier: ReminderTierName | null
+  source: 'owned' | 'tracked'
+  risk: number
+  value: number
+}
+
+export interface RenewalCalendar {
+  owner: string
+  profile: string
+  tiers: ReminderTier[]
+  entries: RenewalEntry[]
+}
+
+const REMINDER_TIERS: ReminderTierName[] = ['critical', 'urgent', 'warning']
+const MAX_TRACKED = 100
+const TRACKED_CONCURRENCY = 5
+
+// RFC 5545 text escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8')
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + size > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Reminder offsets (days before expiry) from a profile's expiryBuffer tiers
+ */
+export function getReminderTiers(profile?: string | null): ReminderTier[] {
+  const tiers = (getWeightProfile(profile) || getWeightProfile())!.weights.riskScore.weights.expiryBuffer.tiers
+  return REMINDER_TIERS.map(tier => ({ tier, days: tiers[tier].days }))
+}
+
+export class RenewalCalendarService {
+  /**
+   * Expiries of everything the owner holds plus any tracked token ids, soonest first
+   */
+  async getCalendar(
+    owner: string,
+    options: ScoringOptions & { trackedTokenIds?: string[] } = {}
+  ): Promise<RenewalCalendar> {
+    const tiers = getReminderTiers(options.profile)
+    const entries = await portfolioService.getHoldings([owner])
+    const owned = await domainScoringService.scoreDomains(entries, { profile: options.profile })
+    const ownedIds = new Set(owned.map(d => d.tokenId))
+
+    const trackedIds = (options.trackedTokenIds || [])
+      .filter(id => !ownedIds.has(id))
+      .slice(0, MAX_TRACKED)
+    const tracked: ScoredDomain[] = []
+    for (let i = 0; i < trackedIds.length; i += TRACKED_CONCURRENCY) {
+      const batch = await Promise.all(
+        trackedIds.slice(i, i + TRACKED_CONCURRENCY).map(tokenId =>
+          domainScoringService.getDomain(tokenId, { profile: options.profile }).catch(() => null)
+        )
+      )
+      batch.forEach(domain => domain && tracked.push(domain))
+    }
+
+    const ownerAddress = toAddress(owner)
+    const toEntry = (domain: ScoredDomain, source: RenewalEntry['source']): RenewalEntry => ({
+      tokenId: domain.tokenId,
+      name: domain.name,
+      owner: domain.owner,
+      expiresAt: domain.expiresAt,
+      daysUntilExpiry: domain.daysUntilExpiry,
+      tier: tiers.find(t => domain.daysUntilExpiry <= t.days)?.tier || null,
+      // A tracked name that turns out to be the owner's still counts as owned
+      source: toAddress(domain.owner) === ownerAddress ? 'owned' : source,
+      risk: domain.scores.risk,
+      value: domain.price
+    })
+
+    return {
+      owner,
+      profile: owned[0]?.profile || tracked[0]?.profile || options.profile || 'default',
+      tiers,
+      entries: [...owned.map(d => toEntry(d, 'owned')), ...tracked.map(d => toEntry(d, 'tracked'))]
+        .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)
+    }
+  }
+
+  /**
+   * iCalendar feed: one all-day VEVENT per expiry with a VALARM per reminder tier
+   * that is still ahead. `baseUrl` is used for links back to the domain pages.
+   */
+  toIcs(calendar: RenewalCalendar, options: { baseUrl: string; now?: Date }): string {
+    const stamp = formatDateTime(options.now || new Date())
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Dometrics//Renewal Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(`Domain renewals (${calendar.owner.split(':').pop()})`)}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT12H',
+      'X-PUBLISHED-TTL:PT12H'
+    ]
+
+    for (const entry of calendar.entries) {
+      const expiresAt = new Date(entry.expiresAt)
+      const end = new Date(expiresAt.getTime() + 24 * 60 * 60 * 1000)
+      const url = `${options.baseUrl}/domain/${entry.tokenId}`
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:expiry-${entry.tokenId}@dometrics`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(expiresAt)}`,
+        `DTEND;VALUE=DATE:${formatDate(end)}`,
+        `SUMMARY:${escapeText(`${entry.name} expires`)}`,
+        `DESCRIPTION:${escapeText(
+          `${entry.name} (${entry.source}) expires ${expiresAt.toUTCString()}.\n` +
+          `Risk ${entry.risk}, estimated value $${entry.value.toLocaleString()}.\n${url}`
+        )}`,
+        `URL:${url}`,
+        'TRANSP:TRANSPARENT',
+        `CATEGORIES:${entry.source === 'owned' ? 'Owned' : 'Tracked'}`
+      )
+
+      for (const { tier, days } of calendar.tiers) {
+        if (days >= entry.daysUntilExpiry) continue
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `TRIGGER:-P${days}D`,
+          `DESCRIPTION:${escapeText(`${entry.name} expires in ${days} days (${tier})`)}`,
+          'END:VALARM'
+        )
+      }
+
+      lines.push('END:VEVENT')
+    }
+
+    lines.push('END:VCALENDAR')
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+  }
+}
+
+export const renewalCalendarService = new RenewalCalendarService()
@@ -0,0 +1,447 @@
+/**
+ * Saved searches for Dometrics
+ * A search is the dashboard's natural-language query plus its advanced filter
+ * panel. The dashboard and the alert engine's SAVED_FILTER rules both run it
+ * through runSearch, so a subscribed search alerts on exactly the domains the
+ * dashboard would list. Browser copies are kept in localStorage with the token
+ * ids seen last time, to show what started or stopped matching since.
+ *
+ * The query is natural language or, when it uses field terms, a structured
+ * query (search-query.ts). The panel maps to SearchFilters too, which is how
+ * the dashboard keeps it in the URL as `?q=`.
+ */
+
+import { parseQuery, compileQuery, queryFromFilters, HIGH_GROWTH_FORECAST } from './natural-language-search'
+import type { SearchFilters, CharClass, QueryAst, RangeFilterKey } from './natural-language-search'
+import { isStructuredQuery, parseSearchQuery, formatSearchQuery } from './search-query'
+import type { SearchQueryIssue } from './search-query'
+import { getNamePatterns, PATTERN_LABELS } from './name-patterns'
+import type { NamePattern } from './name-patterns'
+import { graphemeLength, toUnicodeLabel, toUnicodeName } from './idn'
+
+export const EXPIRY_BUCKETS = ['all', '<30', '30-90', '90-180', '>180'] as const
+export const SEARCH_SORT_FIELDS = ['risk', 'rarity', 'momentum', 'value', 'newest', 'oldest', 'offers', 'expiry', 'length', 'name'] as const
+
+export type ExpiryBucket = typeof EXPIRY_BUCKETS[number]
+export type SearchSortField = typeof SEARCH_SORT_FIELDS[number]
+
+// Advanced filter panel state, as the dashboard form holds it
+export interface SearchPanelFilters {
+  tld: string
+  minLength: string
+  maxLength: string
+  riskRange: [number, number]
+  rarityRange: [number, number]
+  momentumRange: [number, number]
+  minValue: string
+  maxValue: string
+  daysUntilExpiry: ExpiryBucket
+  highGrowth: boolean
+  pattern: NamePattern | 'all'
+  sortBy: SearchSortField
+  sortOrder: 'asc' | 'desc'
+}
+
+export const DEFAULT_PANEL_FILTERS: SearchPanelFilters = {
+  tld: 'all',
+  minLength: '',
+  maxLength: '',
+  riskRange: [0, 100],
+  rarityRange: [0, 100],
+  momentumRange: [0, 100],
+  minValue: '',
+  maxValue: '',
+  daysUntilExpiry: 'all',
+  highGrowth: false,
+  pattern: 'all',
+  sortBy: 'risk',
+  sortOrder: 'desc'
+}
+
+export interface SearchDefinition {
+  query: string
+  filters: SearchPanelFilters
+}
+
+// Fields the matcher reads; ScoredDomain and the dashboard's rows both fit
+export interface SearchableDomain {
+  tokenId: string
+  name: string
+  namePart: string
+  tld: string
+  price: number
+  daysUntilExpiry: number
+  expiresAt: string | Date
+  tokenizedAt?: string | null
+  offerCount?: number
+  // Computed from the name when missing
+  patterns?: NamePattern[]
+  scores?: {
+    risk: number
+    rarity: number
+    momentum: number
+    forecast: number
+    currentValue: number
+  }
+}
+
+export interface SavedSearch extends SearchDefinition {
+  id: string
+  name: string
+  createdAt: string
+  // Token ids matching when the search was last opened
+  seenTokenIds: string[]
+  seenAt: string
+  // Server-side SAVED_FILTER rule when the user subscribed
+  ruleId?: string
+}
+
+const EXPIRY_BUCKET_DAYS: Record<Exclude<ExpiryBucket, 'all'>, { min?: number; max?: number }> = {
+  '<30': { max: 29 },
+  '30-90': { min: 30, max: 90 },
+  '90-180': { min: 91, max: 180 },
+  '>180': { min: 181 }
+}
+const SAVED_SEARCHES_KEY = 'dometrics-saved-searches'
+
+// To the cent, the precision value bounds are written in (see search-query.ts)
+function getValue(domain: SearchableDomain): number {
+  return Math.round((domain.scores?.currentValue || domain.price) * 100) / 100
+}
+
+function hasCharClass(label: string, charClass: CharClass): boolean {
+  switch (charClass) {
+    case 'letters': return /^[a-z]+$/.test(label)
+    case 'digits': return /^[0-9]+$/.test(label)
+    case 'has-digits': return /[0-9]/.test(label)
+    case 'no-digits': return !/[0-9]/.test(label)
+    case 'has-hyphen': return label.includes('-')
+    case 'no-hyphen': return !label.includes('-')
+  }
+}
+
+// Typos a search term may contain, by its length; short terms must match exactly
+function allowedTypos(length: number): number {
+  return length < 4 ? 0 : length < 8 ? 1 : 2
+}
+
+// Fewest edits that turn the term into some substring of the text (Sellers' algorithm)
+function substringDistance(term: string, text: string): number {
+  let previous: number[] = new Array(text.length + 1).fill(0)
+  for (let i = 1; i <= term.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= text.length; j++) {
+      const substitution = previous[j - 1] + (term[i - 1] === text[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+    }
+    previous = current
+  }
+  return Math.min(...previous)
+}
+
+/**
+ * Whether a domain name contains the search term, allowing a typo or two in longer terms
+ */
+export function matchesName(name: string, term: string): boolean {
+  const text = name.toLowerCase()
+  const needle = term.trim().toLowerCase()
+  if (text.includes(needle)) return true
+  const typos = allowedTypos(needle.length)
+  return typos > 0 && substringDistance(needle, text) <= typos
+}
+
+/**
+ * Whether a domain passes a set of filters (sorting and limit aside)
+ */
+export function matchesFilters(domain: SearchableDomain, filters: SearchFilters): boolean {
+  const scores = domain.scores
+  const value = getValue(domain)
+  const label = domain.namePart.toLowerCase()
+  // IDN names match in their punycode or their Unicode form
+  const unicodeLabel = toUnicodeLabel(label)
+  const labels = unicodeLabel === label ? [label] : [label, unicodeLabel]
+  const names = unicodeLabel === label ? [domain.name] : [domain.name, toUnicodeName(domain.name)]
+  const searchTerm = filters.searchTerm
+  const length = graphemeLength(unicodeLabel)
+  const score = (metric: 'risk' | 'rarity' | 'momentum' | 'forecast', min?: number, max?: number) => {
+    if (min === undefined && max === undefined) return true
+    // Unscored domains fail any score bound
+    if (!scores) return false
+    return (min === undefined || scores[metric] >= min) && (max === undefined || scores[metric] <= max)
+  }
+
+  if (searchTerm && !names.some(name => matchesName(name, searchTerm))) return false
+  if (!score('risk', filters.riskMin, filters.riskMax)) return false
+  if (!score('rarity', filters.rarityMin, filters.rarityMax)) return false
+  if (!score('momentum', filters.momentumMin, filters.momentumMax)) return false
+  if (!score('forecast', filters.forecastMin, filters.forecastMax)) return false
+  if (filters.valueMin !== undefined && !(value >= filters.valueMin)) return false
+  if (filters.valueMax !== undefined && !(value <= filters.valueMax)) return false
+  if (filters.expiryDaysMin !== undefined && domain.daysUntilExpiry < filters.expiryDaysMin) return false
+  if (filters.expiryDaysMax !== undefined && domain.daysUntilExpiry > filters.expiryDaysMax) return false
+  if (filters.lengthMin !== undefined && length < filters.lengthMin) return false
+  if (filters.lengthMax !== undefined && length > filters.lengthMax) return false
+  if (filters.tlds?.length && !filters.tlds.includes(domain.tld.toLowerCase())) return false
+  if (filters.excludeTlds?.includes(domain.tld.toLowerCase())) return false
+  if (filters.contains && !filters.contains.every(keyword => labels.some(form => form.includes(keyword.toLowerCase())))) return false
+  if (filters.excludes?.some(keyword => labels.some(form => form.includes(keyword.toLowerCase())))) return false
+  if (filters.charClasses && !filters.charClasses.every(charClass => hasCharClass(label, charClass))) return false
+  if (filters.patterns?.length || filters.excludePatterns?.length) {
+    const patterns = domain.patterns || getNamePatterns(unicodeLabel)
+    if (filters.patterns && !filters.patterns.every(pattern => patterns.includes(pattern))) return false
+    if (filters.excludePatterns?.some(pattern => patterns.includes(pattern))) return false
+  }
+
+  return true
+}
+
+/**
+ * The filter panel as SearchFilters; the default sort is left out
+ */
+export function panelToFilters(panel: Partial<SearchPanelFilters>): SearchFilters {
+  const p = { ...DEFAULT_PANEL_FILTERS, ...panel }
+  const filters: SearchFilters = {}
+  // An untouched slider (0-100) doesn't filter, so unscored domains pass it
+  const range = (minKey: RangeFilterKey, maxKey: RangeFilterKey, [min, max]: [number, number]) => {
+    if (min > 0) filters[minKey] = min
+    if (max < 100) filters[maxKey] = max
+  }
+
+  if (p.tld !== 'all') filters.tlds = [p.tld.replace(/^\./, '').toLowerCase()]
+  if (p.minLength) filters.lengthMin = parseInt(p.minLength)
+  if (p.maxLength) filters.lengthMax = parseInt(p.maxLength)
+  range('riskMin', 'riskMax', p.riskRange)
+  range('rarityMin', 'rarityMax', p.rarityRange)
+  range('momentumMin', 'momentumMax', p.momentumRange)
+  if (p.minValue) filters.valueMin = parseInt(p.minValue)
+  if (p.maxValue) filters.valueMax = parseInt(p.maxValue)
+  if (p.daysUntilExpiry !== 'all') {
+    const { min, max } = EXPIRY_BUCKET_DAYS[p.daysUntilExpiry]
+    if (min !== undefined) filters.expiryDaysMin = min
+    if (max !== undefined) filters.expiryDaysMax = max
+  }
+  if (p.highGrowth) filters.forecastMin = HIGH_GROWTH_FORECAST
+  if (p.pattern !== 'all') filters.patterns = [p.pattern]
+  if (p.sortBy !== DEFAULT_PANEL_FILTERS.sortBy || p.sortOrder !== DEFAULT_PANEL_FILTERS.sortOrder) {
+    filters.sortBy = p.sortBy
+    filters.sortOrder = p.sortOrder
+  }
+
+  return filters
+}
+
+/**
+ * Splits filters into what the panel can hold and the rest, which stays a query
+ */
+export function filtersToPanel(filters: SearchFilters): { panel: SearchPanelFilters; rest: SearchFilters } {
+  const panel: SearchPanelFilters = { ...DEFAULT_PANEL_FILTERS }
+  const rest: SearchFilters = { ...filters }
+  const isWhole = (n: number | undefined) => n === undefined || (Number.isInteger(n) && n >= 0)
+  const range = (minKey: RangeFilterKey, maxKey: RangeFilterKey): [number, number] | null => {
+    const min = filters[minKey]
+    const max = filters[maxKey]
+    if (min === undefined && max === undefined) return null
+    if (!isWhole(min) || !isWhole(max) || (min ?? 0) > 100 || (max ?? 100) > 100) return null
+    // 0-100 on the panel means "no filter", which would also let unscored domains through
+    if ((min ?? 0) === 0 && (max ?? 100) === 100) return null
+    delete rest[minKey]
+    delete rest[maxKey]
+    return [min ?? 0, max ?? 100]
+  }
+
+  if (filters.tlds?.length === 1) {
+    panel.tld = filters.tlds[0]
+    delete rest.tlds
+  }
+  if (isWhole(filters.lengthMin) && isWhole(filters.lengthMax)) {
+    if (filters.lengthMin !== undefined) panel.minLength = String(filters.lengthMin)
+    if (filters.lengthMax !== undefined) panel.maxLength = String(filters.lengthMax)
+    delete rest.lengthMin
+    delete rest.lengthMax
+  }
+  panel.riskRange = range('riskMin', 'riskMax') || panel.riskRange
+  panel.rarityRange = range('rarityMin', 'rarityMax') || panel.rarityRange
+  panel.momentumRange = range('momentumMin', 'momentumMax') || panel.momentumRange
+  if (isWhole(filters.valueMin) && isWhole(filters.valueMax)) {
+    if (filters.valueMin !== undefined) panel.minValue = String(filters.valueMin)
+    if (filters.valueMax !== undefined) panel.maxValue = String(filters.valueMax)
+    delete rest.valueMin
+    delete rest.valueMax
+  }
+  const bucket = (Object.keys(EXPIRY_BUCKET_DAYS) as Array<keyof typeof EXPIRY_BUCKET_DAYS>).find(key =>
+    EXPIRY_BUCKET_DAYS[key].min === filters.expiryDaysMin && EXPIRY_BUCKET_DAYS[key].max === filters.expiryDaysMax)
+  if (bucket) {
+    panel.daysUntilExpiry = bucket
+    delete rest.expiryDaysMin
+    delete rest.expiryDaysMax
+  }
+  if (filters.forecastMin === HIGH_GROWTH_FORECAST && filters.forecastMax === undefined) {
+    panel.highGrowth = true
+    delete rest.forecastMin
+  }
+  if (filters.patterns?.length === 1) {
+    panel.pattern = filters.patterns[0]
+    delete rest.patterns
+  }
+  if (filters.sortBy) {
+    panel.sortBy = filters.sortBy
+    panel.sortOrder = filters.sortOrder || 'desc'
+    delete rest.sortBy
+    delete rest.sortOrder
+  }
+
+  return { panel, rest }
+}
+
+/**
+ * Filters for the search box: a structured query when the text uses field terms, natural language otherwise
+ */
+export function parseSearchText(text: string): { filters: SearchFilters; query: QueryAst; error: SearchQueryIssue | null } {
+  if (!isStructuredQuery(text)) {
+    const query = parseQuery(text)
+    return { filters: compileQuery(query), query, error: null }
+  }
+  const parsed = parseSearchQuery(text)
+  if (!parsed.success) {
+    return { filters: {}, query: { clauses: [], ignored: [], conflicts: [] }, error: parsed.error }
+  }
+  return { filters: parsed.filters, query: queryFromFilters(parsed.filters), error: null }
+}
+
+export function getSortValue(domain: SearchableDomain, sortBy: SearchSortField): number | string {
+  switch (sortBy) {
+    case 'rarity': return domain.scores?.rarity || 0
+    case 'momentum': return domain.scores?.momentum || 0
+    case 'value': return getValue(domain)
+    case 'newest':
+    case 'oldest':
+      return new Date(domain.tokenizedAt || domain.expiresAt).getTime()
+    case 'offers': return domain.offerCount || 0
+    case 'expiry': return domain.daysUntilExpiry
+    case 'length': return graphemeLength(toUnicodeLabel(domain.namePart))
+    case 'name': return domain.name
+    default: return domain.scores?.risk || 0
+  }
+}
+
+/**
+ * Orders two sort values; names compare alphabetically, everything else numerically
+ */
+export function compareSortValues(a: number | string, b: number | string, order: 'asc' | 'desc'): number {
+  if (typeof a === 'string' || typeof b === 'string') {
+    return order === 'desc' ? String(b).localeCompare(String(a)) : String(a).localeCompare(String(b))
+  }
+  return order === 'desc' ? b - a : a - b
+}
+
+/**
+ * Matching domains in display order, cut to the query's limit
+ */
+export function runSearch<T extends SearchableDomain>(
+  domains: T[],
+  search: SearchDefinition
+): { results: T[]; filters: SearchFilters; query: QueryAst; error: SearchQueryIssue | null } {
+  const { filters: nl, query, error } = parseSearchText(search.query)
+  // A query that doesn't parse matches nothing rather than everything
+  if (error) return { results: [], filters: nl, query, error }
+
+  const panel = { ...DEFAULT_PANEL_FILTERS, ...search.filters }
+  const panelFilters = panelToFilters(panel)
+  const sortBy = nl.sortBy || panel.sortBy
+  const sortOrder = nl.sortOrder || panel.sortOrder
+
+  let results = domains.filter(domain => matchesFilters(domain, nl) && matchesFilters(domain, panelFilters))
+  results.sort((a, b) => compareSortValues(getSortValue(a, sortBy), getSortValue(b, sortBy), sortOrder))
+  if (nl.limit) {
+    results = results.slice(0, nl.limit)
+  }
+
+  return { results, filters: nl, query, error: null }
+}
+
+/**
+ * URL parameters for a search: `q` is the filter panel as a structured query
+ * (the same `q` GET /api/domains takes) and `search` the search box text
+ */
+export function searchToParams(search: SearchDefinition): URLSearchParams {
+  const params = new URLSearchParams()
+  const q = formatSearchQuery(panelToFilters(search.filters))
+  if (q) params.set('q', q)
+  if (search.query.trim()) params.set('search', search.query.trim())
+  return params
+}
+
+/**
+ * The search a URL describes. Parts of `q` the panel can't hold go to the search box
+ */
+export function searchFromParams(params: URLSearchParams): SearchDefinition {
+  const q = params.get('q') || ''
+  const text = params.get('search') || ''
+  const parsed = parseSearchQuery(q)
+  if (!parsed.success) {
+    // Leave the broken query in the search box, where its error is shown
+    return { query: text || q, filters: { ...DEFAULT_PANEL_FILTERS } }
+  }
+  const { panel, rest } = filtersToPanel(parsed.filters)
+  return { query: text || formatSearchQuery(rest), filters: panel }
+}
+
+/**
+ * Panel settings that differ from the defaults, e.g. "tld .ai, length ≤ 5"
+ */
+export function describePanelFilters(panel: Partial<SearchPanelFilters>): string[] {
+  const filters = { ...DEFAULT_PANEL_FILTERS, ...panel }
+  const parts: string[] = []
+  const range = (label: string, [min, max]: [number, number]) => {
+    if (min > 0 || max < 100) parts.push(`${label} ${min}-${max}`)
+  }
+
+  if (filters.tld !== 'all') parts.push(`tld .${filters.tld.replace(/^\./, '')}`)
+  if (filters.minLength && filters.maxLength) parts.push(`length ${filters.minLength}-${filters.maxLength}`)
+  else if (filters.minLength) parts.push(`length ≥ ${filters.minLength}`)
+  else if (filters.maxLength) parts.push(`length ≤ ${filters.maxLength}`)
+  range('risk', filters.riskRange)
+  range('rarity', filters.rarityRange)
+  range('momentum', filters.momentumRange)
+  if (filters.minValue) parts.push(`value ≥ $${parseInt(filters.minValue).toLocaleString()}`)
+  if (filters.maxValue) parts.push(`value ≤ $${parseInt(filters.maxValue).toLocaleString()}`)
+  if (filters.daysUntilExpiry !== 'all') parts.push(`expiry ${filters.daysUntilExpiry} days`)
+  if (filters.highGrowth) parts.push('high growth')
+  if (filters.pattern !== 'all') parts.push(PATTERN_LABELS[filters.pattern])
+
+  return parts
+}
+
+/**
+ * One-line summary of a search for lists and alert messages
+ */
+export function describeSearch(search: { query: string; filters?: Partial<SearchPanelFilters> }): string {
+  const query = search.query.trim()
+  const parts = [...(query ? [`"${query}"`] : []), ...describePanelFilters(search.filters || {})]
+  return parts.length > 0 ? parts.join(', ') : 'all domains'
+}
+
+/**
+ * Token ids that started and stopped matching since the search was last opened
+ */
+export function diffSearchResults(seenTokenIds: string[], tokenIds: string[]): { entered: string[]; exited: string[] } {
+  const seen = new Set(seenTokenIds)
+  const current = new Set(tokenIds)
+  return {
+    entered: tokenIds.filter(id => !seen.has(id)),
+    exited: seenTokenIds.filter(id => !current.has(id))
+  }
+}
+
+export function loadSavedSearches(): SavedSearch[] {
+  if (typeof window === 'undefined') return []
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_SEARCHES_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+export function storeSavedSearches(searches: SavedSearch[]): void {
+  localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(searches))
+}
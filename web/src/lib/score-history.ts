@@ -0,0 +1,225 @@
+/**
+ * Score history for Dometrics
+ * Snapshots DomainScores into the versioned Score table and reads back time series
+ */
+
+import { prisma } from './prisma'
+import { domaClient } from './doma-client'
+import type { NameModel, TokenModel } from './doma-client'
+import { scoringEngine } from './scoring'
+import { domainScoringService } from './domain-scoring'
+import { DEFAULT_PROFILE, getScoringEngine } from './weight-profiles'
+import type { DomainEntry } from './domain-scoring'
+import type { DomainScores, ScoreFactor } from './scoring'
+
+// What a Json column accepts (Prisma's InputJsonValue), written out so this
+// compiles whether or not the client has been generated
+type JsonValue = string | number | boolean | JsonValue[] | { [key: string]: JsonValue | undefined }
+
+// A Score row as read back (Prisma's Score model); the *Factors columns hold what toFactorJson wrote
+interface ScoreRow {
+  version: string
+  riskScore: number
+  rarityScore: number
+  momentumScore: number
+  forecastValue: number | null
+  forecastCi80Low: number | null
+  forecastCi80High: number | null
+  currentValue: number | null
+  projectedValue: number | null
+  valueConfidence: number | null
+  riskFactors: ScoreFactor[] | null
+  rarityFactors: ScoreFactor[] | null
+  momentumFactors: ScoreFactor[] | null
+  forecastFactors: ScoreFactor[] | null
+  valueFactors: ScoreFactor[] | null
+  asOf: Date
+}
+
+export interface ScoreSnapshot {
+  asOf: string
+  version: string
+  risk: number
+  rarity: number
+  momentum: number
+  forecast: number | null
+  forecastLow: number | null
+  forecastHigh: number | null
+  currentValue: number | null
+  projectedValue: number | null
+  valueConfidence: number | null
+  explainers: {
+    risk: ScoreFactor[]
+    rarity: ScoreFactor[]
+    momentum: ScoreFactor[]
+    forecast: ScoreFactor[]
+    value: ScoreFactor[]
+  }
+}
+
+export interface SnapshotRunResult {
+  asOf: string
+  version: string
+  domains: number
+  snapshots: number
+  failed: number
+}
+
+// Factors as plain JSON objects for the *Factors columns
+function toFactorJson(factors: ScoreFactor[]): JsonValue {
+  return factors.map(factor => ({ ...factor }))
+}
+
+export class ScoreHistoryService {
+  /**
+   * Create or refresh the Domain row for a tokenized name
+   */
+  async upsertDomain(name: NameModel, token: TokenModel): Promise<{ id: string }> {
+    const parts = name.name.split('.')
+    const namePart = parts[0]
+    const tld = parts.slice(1).join('.') || 'com'
+    const ownerCaip10 = token.ownerAddress.startsWith('eip155:')
+      ? token.ownerAddress
+      : `eip155:97476:${token.ownerAddress}`
+
+    const data = {
+      name: namePart,
+      tld,
+      tokenAddress: token.tokenAddress,
+      ownerCaip10,
+      registrarIanaId: name.registrar?.ianaId ? parseInt(name.registrar.ianaId) : null,
+      expiresAt: new Date(token.expiresAt),
+      lockStatus: name.transferLock || false
+    }
+
+    return prisma.domain.upsert({
+      where: { tokenId: token.tokenId },
+      create: { tokenId: token.tokenId, ...data },
+      update: data,
+      select: { id: true }
+    })
+  }
+
+  /**
+   * Persist one scoring result as a Score row
+   */
+  async recordSnapshot(
+    domainId: string,
+    scores: DomainScores,
+    version: string = scoringEngine.version,
+    asOf: Date = new Date()
+  ): Promise<void> {
+    await prisma.score.create({
+      data: {
+        domainId,
+        version,
+        riskScore: scores.risk,
+        rarityScore: scores.rarity,
+        momentumScore: scores.momentum,
+        forecastValue: scores.forecast,
+        forecastCi80Low: scores.forecastLow,
+        forecastCi80High: scores.forecastHigh,
+        currentValue: scores.currentValue,
+        projectedValue: scores.projectedValue,
+        valueConfidence: scores.valueConfidence,
+        riskFactors: toFactorJson(scores.explainers.risk),
+        rarityFactors: toFactorJson(scores.explainers.rarity),
+        momentumFactors: toFactorJson(scores.explainers.momentum),
+        forecastFactors: toFactorJson(scores.explainers.forecast),
+        valueFactors: toFactorJson(scores.explainers.value),
+        asOf
+      }
+    })
+  }
+
+  /**
+   * Score every tokenized name and write one snapshot per token.
+   * All rows from a run share the same asOf so series line up across domains.
+   */
+  async snapshotAll(maxNames?: number): Promise<SnapshotRunResult> {
+    const asOf = new Date()
+    const entries: DomainEntry[] = []
+    for await (const name of domaClient.iterateAllNames({ maxItems: maxNames })) {
+      for (const token of name.tokens || []) {
+        entries.push({ name, token })
+      }
+    }
+
+    // Same enrichment and scoring the dashboard and API use, under the default
+    // profile, whose weights version labels every row and the run
+    const { version } = getScoringEngine(DEFAULT_PROFILE)
+    const scored = await domainScoringService.scoreDomains(entries, { profile: DEFAULT_PROFILE })
+    let snapshots = 0
+    let failed = 0
+
+    for (let i = 0; i < entries.length; i++) {
+      const { name, token } = entries[i]
+      try {
+        const domain = await this.upsertDomain(name, token)
+        await this.recordSnapshot(domain.id, scored[i].scores, version, asOf)
+        snapshots++
+      } catch (error) {
+        console.error(`Error snapshotting scores for token ${token.tokenId}:`, error)
+        failed++
+      }
+    }
+
+    return {
+      asOf: asOf.toISOString(),
+      version,
+      domains: entries.length,
+      snapshots,
+      failed
+    }
+  }
+
+  /**
+   * Read a domain's score time series, oldest first.
+   * Returns null when the token has never been snapshotted.
+   */
+  async getHistory(
+    tokenId: string,
+    options: { from?: Date; to?: Date; version?: string; limit?: number } = {}
+  ): Promise<ScoreSnapshot[] | null> {
+    const domain = await prisma.domain.findUnique({
+      where: { tokenId },
+      select: { id: true }
+    })
+    if (!domain) return null
+
+    const rows: ScoreRow[] = await prisma.score.findMany({
+      where: {
+        domainId: domain.id,
+        ...(options.version ? { version: options.version } : {}),
+        ...(options.from || options.to
+          ? { asOf: { ...(options.from ? { gte: options.from } : {}), ...(options.to ? { lte: options.to } : {}) } }
+          : {})
+      },
+      orderBy: { asOf: 'desc' },
+      take: options.limit ?? 365
+    })
+
+    return rows.reverse().map(row => ({
+      asOf: new Date(row.asOf).toISOString(),
+      version: row.version,
+      risk: row.riskScore,
+      rarity: row.rarityScore,
+      momentum: row.momentumScore,
+      forecast: row.forecastValue,
+      forecastLow: row.forecastCi80Low,
+      forecastHigh: row.forecastCi80High,
+      currentValue: row.currentValue,
+      projectedValue: row.projectedValue,
+      valueConfidence: row.valueConfidence,
+      explainers: {
+        risk: row.riskFactors || [],
+        rarity: row.rarityFactors || [],
+        momentum: row.momentumFactors || [],
+        forecast: row.forecastFactors || [],
+        value: row.valueFactors || []
+      }
+    }))
+  }
+}
+
+export const scoreHistoryService = new ScoreHistoryService()
@@ -4,6 +4,9 @@
  */
 
 import { aiValuationService } from './ai-valuation'
+import { analyzeName, PATTERN_LABELS } from './name-patterns'
+import { analyzeScripts, graphemeLength, toUnicodeLabel } from './idn'
+import type { NamePattern } from './name-patterns'
 
 export interface DomainScores {
   risk: number
@@ -30,6 +33,73 @@ export interface ScoreFactor {
   weight: number
   contribution: number
   description: string
+  // Arithmetic behind the contribution, e.g. "85 × 0.35"
+  formula?: string
+}
+
+export interface ScoringInput {
+  name: string
+  tld: string
+  expiresAt: string | Date
+  lockStatus?: boolean
+  registrarId?: number
+  renewalCount?: number
+  offerCount?: number
+  activity7d?: number
+  activity30d?: number
+  recentEvents?: Array<{ type: string; timestamp: Date }>
+  tokenizedAt?: string | Date
+  trendsPopularity?: number
+  trendsTrend?: string
+  // Comparable-sales value; replaces the length/keyword multipliers when present
+  comps?: { value: number; low: number; high: number; confidence: number; sampleSize: number }
+}
+
+/**
+ * Every factor behind one score plus the arithmetic that produced it
+ */
+export interface ScoreExplanation {
+  score: number
+  raw: number
+  clamped: boolean
+  factors: ScoreFactor[]
+  steps: string[]
+}
+
+/**
+ * What a score would be if one input changed
+ */
+export interface Counterfactual {
+  scenario: string
+  score: 'risk' | 'rarity' | 'momentum' | 'forecast'
+  from: number
+  to: number
+  description: string
+}
+
+export interface DomainExplanation {
+  version: string
+  risk: ScoreExplanation
+  rarity: ScoreExplanation
+  momentum: ScoreExplanation
+  forecast: ScoreExplanation & { low: number; high: number }
+  counterfactuals: Counterfactual[]
+}
+
+type ScoreResult = { score: number; raw: number; factors: ScoreFactor[] }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SCORE_LABELS: Record<Counterfactual['score'], string> = {
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  forecast: 'the 6-month forecast'
+}
+
+// Trim floating point noise for display in formulas
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
 }
 
 export interface ScoringWeights {
@@ -123,16 +193,18 @@ export interface ScoringWeights {
     weights: {
       activityDelta: { weight: number; periods: { recent: number; baseline: number } }
       recentEvents: { weight: number; timeWindow: number }
+      searchPopularity: { weight: number }
     }
   }
   forecastScore: {
+    baseGrowthRate: number
     weights: { momentum: number; rarity: number; risk: number }
     confidenceInterval: { base: number; riskMultiplier: number }
   }
 }
 
-// Default weights (can be overridden by fetching from /config/weights.v1.json)
-const DEFAULT_WEIGHTS: ScoringWeights = {
+// Built-in v1 weights (mirrors /config/weights.v1.json; named profiles live in weight-profiles.ts)
+export const DEFAULT_WEIGHTS: ScoringWeights = {
   version: 'v1',
   riskScore: {
     weights: {
@@ -216,13 +288,15 @@ const DEFAULT_WEIGHTS: ScoringWeights = {
   },
   momentumScore: {
     weights: {
-      activityDelta: { weight: 0.70, periods: { recent: 7, baseline: 30 } },
-      recentEvents: { weight: 0.30, timeWindow: 72 }
+      activityDelta: { weight: 0.50, periods: { recent: 7, baseline: 30 } },
+      recentEvents: { weight: 0.25, timeWindow: 72 },
+      searchPopularity: { weight: 0.25 }
     }
   },
   forecastScore: {
-    weights: { momentum: 0.5, rarity: 0.3, risk: -0.4 },
-    confidenceInterval: { base: 0.10, riskMultiplier: 0.10 }
+    baseGrowthRate: 0.15,
+    weights: { momentum: 0.2, rarity: 0.5, risk: -0.3 },
+    confidenceInterval: { base: 8, riskMultiplier: 0 }
   }
 }
 
@@ -244,12 +318,36 @@ const MEDIUM_VALUE_KEYWORDS = new Set([
 ])
 
 // Dictionary words for brandability check
-const DICTIONARY_WORDS = new Set([
+export const DICTIONARY_WORDS = new Set([
   ...HIGH_VALUE_KEYWORDS,
   ...MEDIUM_VALUE_KEYWORDS,
   'get', 'make', 'find', 'search', 'go', 'come', 'free', 'new', 'old', 'big', 'small'
 ])
 
+// Rarity points per collector pattern (name-patterns.ts). Dictionary words and
+// compounds count under Brandability instead
+const PATTERN_RARITY: Partial<Record<NamePattern, number>> = {
+  numeric: 5,
+  nnn: 10,
+  nnnn: 6,
+  lll: 10,
+  llll: 6,
+  cvc: 6,
+  cvcv: 8,
+  lnln: 4,
+  nlnl: 4,
+  palindrome: 6,
+  repeating: 6,
+  'premium-prefix': 5,
+  emoji: 8,
+  idn: 2,
+  'leading-hyphen': -15,
+  'trailing-hyphen': -15
+}
+
+// Overlapping patterns ("888" is numeric, NNN, a palindrome and a repeat) stop adding up here
+const MAX_PATTERN_BONUS = 20
+
 // TLD scarcity buckets
 const TLD_SCARCITY: Record<string, 'ultra' | 'rare' | 'common' | 'abundant'> = {
   'com': 'common',
@@ -271,27 +369,17 @@ export class ScoringEngine {
     this.weights = weights
   }
 
+  /**
+   * Version of the weights this engine scores with
+   */
+  get version(): string {
+    return this.weights.version
+  }
+
   /**
    * Calculate all scores for a domain
    */
-  async calculateScores(
-    domain: {
-      name: string
-      tld: string
-      expiresAt: string | Date
-      lockStatus?: boolean
-      registrarId?: number
-      renewalCount?: number
-      offerCount?: number
-      activity7d?: number
-      activity30d?: number
-      recentEvents?: Array<{ type: string; timestamp: Date }>
-      registrar?: string
-      tokenizedAt?: string | Date
-      trendsPopularity?: number
-      trendsTrend?: string
-    }
-  ): Promise<DomainScores> {
+  async calculateScores(domain: ScoringInput & { registrar?: string }): Promise<DomainScores> {
     const riskScore = this.calculateRiskScore(domain)
     const rarityScore = this.calculateRarityScore(domain)
     const momentumScore = this.calculateMomentumScore(domain)
@@ -322,10 +410,10 @@ export class ScoringEngine {
       projectedValue: Math.round(aiValuation.projectedValue),
       valueConfidence: Math.round(aiValuation.confidence),
       explainers: {
-        risk: riskScore.factors,
-        rarity: rarityScore.factors,
-        momentum: momentumScore.factors,
-        forecast: forecastScore.factors,
+        risk: riskScore.factors.slice(0, 3),
+        rarity: rarityScore.factors.slice(0, 3),
+        momentum: momentumScore.factors.slice(0, 3),
+        forecast: forecastScore.factors.slice(0, 2),
         value: aiValuation.factors
       }
     }
@@ -334,23 +422,7 @@ export class ScoringEngine {
   /**
    * Calculate all scores for a domain (synchronous version for fallback)
    */
-  calculateScoresSync(
-    domain: {
-      name: string
-      tld: string
-      expiresAt: string | Date
-      lockStatus?: boolean
-      registrarId?: number
-      renewalCount?: number
-      offerCount?: number
-      activity7d?: number
-      activity30d?: number
-      recentEvents?: Array<{ type: string; timestamp: Date }>
-      tokenizedAt?: string | Date
-      trendsPopularity?: number
-      trendsTrend?: string
-    }
-  ): DomainScores {
+  calculateScoresSync(domain: ScoringInput): DomainScores {
     const riskScore = this.calculateRiskScore(domain)
     const rarityScore = this.calculateRarityScore(domain)
     const momentumScore = this.calculateMomentumScore(domain)
@@ -368,20 +440,49 @@ export class ScoringEngine {
       projectedValue: Math.round(valueEstimation.projectedValue),
       valueConfidence: Math.round(valueEstimation.confidence),
       explainers: {
-        risk: riskScore.factors,
-        rarity: rarityScore.factors,
-        momentum: momentumScore.factors,
-        forecast: forecastScore.factors,
+        risk: riskScore.factors.slice(0, 3),
+        rarity: rarityScore.factors.slice(0, 3),
+        momentum: momentumScore.factors.slice(0, 3),
+        forecast: forecastScore.factors.slice(0, 2),
         value: valueEstimation.factors
       }
     }
   }
 
+  /**
+   * Explain mode: every factor of each score, the arithmetic from factors to the
+   * displayed number, and counterfactuals for the inputs an owner can change.
+   * Explainers on DomainScores keep only the top factors; these add up exactly.
+   */
+  explainScores(domain: ScoringInput): DomainExplanation {
+    const risk = this.calculateRiskScore(domain)
+    const rarity = this.calculateRarityScore(domain)
+    const momentum = this.calculateMomentumScore(domain)
+    const forecast = this.calculateForecastScore(risk.score, rarity.score, momentum.score)
+
+    return {
+      version: this.version,
+      risk: this.explainSum(risk),
+      rarity: this.explainSum(rarity),
+      momentum: this.explainSum(momentum),
+      forecast: {
+        score: Math.round(forecast.value),
+        raw: forecast.value,
+        clamped: false,
+        factors: forecast.factors,
+        steps: forecast.steps,
+        low: Math.round(forecast.low),
+        high: Math.round(forecast.high)
+      },
+      counterfactuals: this.buildCounterfactuals(domain)
+    }
+  }
+
   /**
    * Calculate risk score (0-100, higher = riskier)
    * Improved algorithm with granular tiers and intelligent factors
    */
-  private calculateRiskScore(domain: any): { score: number; factors: ScoreFactor[] } {
+  private calculateRiskScore(domain: any): ScoreResult {
     const factors: ScoreFactor[] = []
     let score = 0
 
@@ -423,7 +524,8 @@ export class ScoringEngine {
       value: daysUntilExpiry,
       weight: expiryWeight.weight,
       contribution: expiryContribution,
-      description: `${daysUntilExpiry} days (${expiryTier})`
+      description: `${daysUntilExpiry} days (${expiryTier})`,
+      formula: `${expiryRisk} × ${expiryWeight.weight}`
     })
 
     // 2. Lock Status (15%) - Locked = SAFER (reduces risk)
@@ -438,7 +540,8 @@ export class ScoringEngine {
       value: domain.lockStatus ? 1 : 0,
       weight: lockWeight.weight,
       contribution: lockContribution,
-      description: domain.lockStatus ? 'Locked (safer)' : 'Unlocked (riskier)'
+      description: domain.lockStatus ? 'Locked (safer)' : 'Unlocked (riskier)',
+      formula: `${lockAdjustment} × ${lockWeight.weight}`
     })
 
     // 3. Ownership Stability (20%)
@@ -495,7 +598,8 @@ export class ScoringEngine {
       value: domainAge,
       weight: stabilityWeight.weight,
       contribution: ageContribution + renewalContribution,
-      description: `${Math.floor(domainAge)} days old (${ageTier}), ${renewalCount} renewals (${renewalTier})`
+      description: `${Math.floor(domainAge)} days old (${ageTier}), ${renewalCount} renewals (${renewalTier})`,
+      formula: `(${ageRisk} × ${stabilityWeight.factors.domainAge.weight} + ${renewalRisk} × ${stabilityWeight.factors.renewalRate.weight}) × ${stabilityWeight.weight}`
     })
 
     // 4. Market Activity (20%)
@@ -561,7 +665,8 @@ export class ScoringEngine {
       value: offerCount,
       weight: activityWeight.weight,
       contribution: offerContribution + recencyContribution,
-      description: `${offerCount} offers (${offerTier}), last activity ${recencyTier}`
+      description: `${offerCount} offers (${offerTier}), last activity ${recencyTier}`,
+      formula: `(${offerRisk} × ${activityWeight.factors.offerActivity.weight} + ${recencyRisk} × ${activityWeight.factors.activityRecency.weight}) × ${activityWeight.weight}`
     })
 
     // 5. Registrar Trust (10%)
@@ -588,12 +693,14 @@ export class ScoringEngine {
       value: registrarId,
       weight: registrarWeight.weight,
       contribution: registrarContribution,
-      description: `${registrarTier} registrar`
+      description: `${registrarTier} registrar`,
+      formula: `${registrarRisk} × ${registrarWeight.weight}`
     })
 
     // 6. Name Quality Risk Adjustment (adds variation based on domain desirability)
     // Less desirable domains (long names, obscure TLDs) have higher abandonment risk
-    const nameLength = domain.name?.length || 10
+    const unicodeName = domain.name ? toUnicodeLabel(domain.name) : ''
+    const nameLength = unicodeName ? graphemeLength(unicodeName) : 10
     let qualityAdjustment = 0
 
     if (nameLength <= 4) {
@@ -619,32 +726,57 @@ export class ScoringEngine {
 
     score += qualityAdjustment
 
-    if (Math.abs(qualityAdjustment) > 3) {
-      factors.push({
-        name: 'Name Quality',
-        value: nameLength,
-        weight: 0.15,
-        contribution: qualityAdjustment,
-        description: `${nameLength} chars, .${domain.tld} TLD`
-      })
+    factors.push({
+      name: 'Name Quality',
+      value: nameLength,
+      weight: 0.15,
+      contribution: qualityAdjustment,
+      description: `${nameLength} chars, .${domain.tld} TLD`,
+      formula: `${qualityAdjustment} (flat adjustment)`
+    })
+
+    // 7. Script Mixing (IDN names that pass for an ASCII name, or mix alphabets)
+    const scripts = analyzeScripts(unicodeName)
+    let scriptAdjustment = 0
+    let scriptDescription = scripts.scripts.length > 0 ? `${scripts.scripts.join(', ')} script` : 'No letters'
+
+    if (scripts.lookalike) {
+      scriptAdjustment = 25 // Homograph: likely to be disputed or delisted
+      scriptDescription = `Homograph of "${scripts.lookalike}"`
+    } else if (scripts.mixedScript) {
+      scriptAdjustment = 15 // Mixed alphabets read as spoofing
+      scriptDescription = `Mixes ${scripts.scripts.join(' and ')}`
     }
 
+    score += scriptAdjustment
+
+    factors.push({
+      name: 'Script Mixing',
+      value: scripts.scripts.length,
+      weight: 0.1,
+      contribution: scriptAdjustment,
+      description: scriptDescription,
+      formula: `${scriptAdjustment} (flat adjustment)`
+    })
+
     // Sort factors by contribution
     factors.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
 
-    return { score: Math.max(0, Math.min(100, score)), factors: factors.slice(0, 3) }
+    return { score: Math.max(0, Math.min(100, score)), raw: score, factors }
   }
 
   /**
    * Calculate rarity score (0-100, higher = rarer)
    */
-  private calculateRarityScore(domain: any): { score: number; factors: ScoreFactor[] } {
+  private calculateRarityScore(domain: any): ScoreResult {
     const factors: ScoreFactor[] = []
+    const unicodeName = toUnicodeLabel(domain.name)
+    const analysis = analyzeName(unicodeName)
     let score = 0
 
-    // Name length (40%)
+    // Name length (40%), counted in characters as displayed
     const lengthWeight = this.weights.rarityScore.weights.nameLength
-    const nameLength = domain.name.length
+    const nameLength = graphemeLength(unicodeName)
     let lengthRarity = 0
     
     if (nameLength <= lengthWeight.thresholds.maxRarity) {
@@ -664,15 +796,18 @@ export class ScoringEngine {
       value: nameLength,
       weight: lengthWeight.weight,
       contribution: lengthContribution,
-      description: `${nameLength} characters`
+      description: `${nameLength} characters`,
+      formula: `${formatNumber(lengthRarity)} × ${lengthWeight.weight}`
     })
 
     // Dictionary/Brandable (25%)
     const brandWeight = this.weights.rarityScore.weights.dictionaryBrandable
-    const brandBonus = this.isDictionaryWord(domain.name) 
+    const isDictionary = analysis.patterns.includes('dictionary')
+    const isCompound = analysis.patterns.includes('compound')
+    const brandBonus = isDictionary
       ? brandWeight.bonuses.dictionary
-      : this.isBrandable(domain.name) 
-        ? brandWeight.bonuses.brandable 
+      : isCompound || this.isBrandable(domain.name)
+        ? brandWeight.bonuses.brandable
         : brandWeight.bonuses.random
     const brandContribution = brandBonus * brandWeight.weight
     score += brandContribution
@@ -681,8 +816,10 @@ export class ScoringEngine {
       value: brandBonus,
       weight: brandWeight.weight,
       contribution: brandContribution,
-      description: this.isDictionaryWord(domain.name) ? 'Dictionary word' : 
-                   this.isBrandable(domain.name) ? 'Brandable' : 'Random string'
+      description: isDictionary ? 'Dictionary word' :
+                   isCompound ? `Compound: ${analysis.words.join(' + ')}` :
+                   this.isBrandable(domain.name) ? 'Brandable' : 'Random string',
+      formula: `${brandBonus} × ${brandWeight.weight}`
     })
 
     // TLD scarcity (25%)
@@ -696,7 +833,8 @@ export class ScoringEngine {
       value: tldBonus,
       weight: tldWeight.weight,
       contribution: tldContribution,
-      description: `.${domain.tld} is ${tldBucket}`
+      description: `.${domain.tld} is ${tldBucket}`,
+      formula: `${tldBonus} × ${tldWeight.weight}`
     })
 
     // Historic demand (10%)
@@ -709,30 +847,56 @@ export class ScoringEngine {
       value: domain.offerCount || 0,
       weight: demandWeight.weight,
       contribution: demandContribution,
-      description: `${domain.offerCount || 0} unique bidders`
+      description: `${domain.offerCount || 0} unique bidders`,
+      formula: `min(${demandWeight.baseValue}, ${domain.offerCount || 0} × 2) × ${demandWeight.weight}`
+    })
+
+    // Collector patterns (flat adjustment): bonuses are capped, hyphen penalties are not
+    const patternPoints = analysis.patterns
+      .map(pattern => ({ pattern, points: PATTERN_RARITY[pattern] || 0 }))
+      .filter(({ points }) => points !== 0)
+    const bonuses = patternPoints.filter(({ points }) => points > 0).map(({ points }) => points)
+    const penalties = patternPoints.filter(({ points }) => points < 0).map(({ points }) => points)
+    const bonusTotal = Math.min(MAX_PATTERN_BONUS, bonuses.reduce((sum, points) => sum + points, 0))
+    const patternContribution = bonusTotal + penalties.reduce((sum, points) => sum + points, 0)
+    score += patternContribution
+    factors.push({
+      name: 'Name Pattern',
+      value: patternPoints.length,
+      weight: 1,
+      contribution: patternContribution,
+      description: patternPoints.length > 0
+        ? patternPoints.map(({ pattern }) => PATTERN_LABELS[pattern]).join(', ')
+        : 'No collector pattern',
+      formula: (bonuses.length > 0 ? `min(${MAX_PATTERN_BONUS}, ${bonuses.join(' + ')})` : '0') +
+        penalties.map(points => ` - ${-points}`).join('')
     })
 
     // Sort factors by contribution
     factors.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
 
-    return { score: Math.max(0, Math.min(100, score)), factors: factors.slice(0, 3) }
+    return { score: Math.max(0, Math.min(100, score)), raw: score, factors }
   }
 
   /**
    * Calculate momentum score (0-100, higher = more momentum)
    */
-  private calculateMomentumScore(domain: any): { score: number; factors: ScoreFactor[] } {
+  private calculateMomentumScore(domain: any): ScoreResult {
     const factors: ScoreFactor[] = []
     let score = 0
 
-    // Activity delta (50% - reduced from 70%)
-    const deltaWeight = 0.50
+    const momentumWeights = this.weights.momentumScore.weights
+
+    // Activity delta
+    const deltaWeight = momentumWeights.activityDelta.weight
+    const periods = momentumWeights.activityDelta.periods
     const recent = domain.activity7d || 0
     const baseline = domain.activity30d || 0
     let delta = 0
 
     if (baseline > 0) {
-      delta = ((recent * 4.3) - baseline) / baseline * 100 // 4.3 to normalize 7d to 30d
+      // Scale the recent window up to the baseline window before comparing
+      delta = ((recent * (periods.baseline / periods.recent)) - baseline) / baseline * 100
     }
 
     const deltaScore = Math.max(0, Math.min(100, 50 + delta / 2))
@@ -743,12 +907,14 @@ export class ScoringEngine {
       value: delta,
       weight: deltaWeight,
       contribution: deltaContribution,
-      description: `${delta > 0 ? '+' : ''}${Math.round(delta)}% vs 30d average`
+      description: `${delta > 0 ? '+' : ''}${Math.round(delta)}% vs 30d average`,
+      formula: `clamp(50 + ${formatNumber(delta)} / 2) × ${deltaWeight}`
     })
 
-    // Recent events (25% - reduced from 30%)
-    const eventWeight = 0.25
-    const recentEventCount = this.countRecentEvents(domain.recentEvents, 72)
+    // Recent events
+    const eventWeight = momentumWeights.recentEvents.weight
+    const eventWindow = momentumWeights.recentEvents.timeWindow
+    const recentEventCount = this.countRecentEvents(domain.recentEvents, eventWindow)
     const eventScore = Math.min(100, recentEventCount * 33)
     const eventContribution = eventScore * eventWeight
     score += eventContribution
@@ -757,11 +923,12 @@ export class ScoringEngine {
       value: recentEventCount,
       weight: eventWeight,
       contribution: eventContribution,
-      description: `${recentEventCount} events in 72h`
+      description: `${recentEventCount} events in ${eventWindow}h`,
+      formula: `min(100, ${recentEventCount} × 33) × ${eventWeight}`
     })
 
-    // Google Trends Popularity (25% - new!)
-    const trendsWeight = 0.25
+    // Google Trends Popularity
+    const trendsWeight = momentumWeights.searchPopularity.weight
     const trendsScore = domain.trendsPopularity || 50 // Default to neutral if not available
     const trendsTrend = domain.trendsTrend || 'stable'
 
@@ -780,13 +947,14 @@ export class ScoringEngine {
       value: trendsScore,
       weight: trendsWeight,
       contribution: trendsContribution,
-      description: `${trendsScore}/100 interest (${trendsTrend})`
+      description: `${trendsScore}/100 interest (${trendsTrend})`,
+      formula: `${formatNumber(trendsAdjusted)} × ${trendsWeight}`
     })
 
     // Sort factors by contribution
     factors.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
 
-    return { score: Math.max(0, Math.min(100, score)), factors: factors.slice(0, 3) }
+    return { score: Math.max(0, Math.min(100, score)), raw: score, factors }
   }
 
   /**
@@ -796,21 +964,23 @@ export class ScoringEngine {
     risk: number,
     rarity: number,
     momentum: number
-  ): { value: number; low: number; high: number; factors: ScoreFactor[] } {
-    const weights = this.weights.forecastScore.weights
+  ): { value: number; low: number; high: number; factors: ScoreFactor[]; steps: string[] } {
+    const forecastWeights = this.weights.forecastScore
+    const weights = forecastWeights.weights
 
     // Normalize scores to 0-1
     const riskNorm = risk / 100
     const rarityNorm = rarity / 100
+    const momentumNorm = momentum / 100
     
     // Calculate 6-month growth potential based on domain characteristics
     // This matches the logic in the chart generation for consistency
-    const baseGrowthRate = 0.15 // 15% annual base growth
+    const baseGrowthRate = forecastWeights.baseGrowthRate
     
-    // Apply score-based multipliers
-    const rarityBoost = rarityNorm * 0.5 // Up to 50% boost for rare domains
-    const momentumBoost = (momentum - 50) / 500 // -10% to +10% based on momentum
-    const riskPenalty = riskNorm * 0.3 // Up to 30% penalty for high risk
+    // Apply score-based multipliers (v1: +50% rarity boost, ±10% momentum, -30% risk)
+    const rarityBoost = rarityNorm * weights.rarity
+    const momentumBoost = (momentumNorm - 0.5) * weights.momentum
+    const riskPenalty = riskNorm * -weights.risk
     
     // Calculate effective annual growth rate
     const annualGrowthRate = baseGrowthRate * (1 + rarityBoost) + momentumBoost - riskPenalty
@@ -822,8 +992,8 @@ export class ScoringEngine {
     // 0% growth = 40 score, 25% growth = 70 score, 50% growth = 100 score
     const forecast = 40 + Math.min(sixMonthGrowth * 120, 60)
     
-    // Calculate confidence interval (60% confidence at 6 months)
-    const interval = 8 // Fixed interval for 60% confidence
+    // Calculate confidence interval (60% confidence at 6 months), widened by risk
+    const interval = forecastWeights.confidenceInterval.base + riskNorm * forecastWeights.confidenceInterval.riskMultiplier
     
     const factors: ScoreFactor[] = [
       {
@@ -857,12 +1027,20 @@ export class ScoringEngine {
     ]
     
     factors.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+
+    const steps = [
+      `Annual growth: ${baseGrowthRate} × (1 + ${formatNumber(rarityNorm)} × ${weights.rarity}) + (${formatNumber(momentumNorm)} - 0.5) × ${weights.momentum} - ${formatNumber(riskNorm)} × ${-weights.risk} = ${formatNumber(annualGrowthRate)}`,
+      `6-month growth: √(1 + max(0, ${formatNumber(annualGrowthRate)})) - 1 = ${formatNumber(sixMonthGrowth)}`,
+      `Forecast: 40 + min(${formatNumber(sixMonthGrowth)} × 120, 60) = ${formatNumber(forecast)}`,
+      `Interval: ±(${forecastWeights.confidenceInterval.base} + ${formatNumber(riskNorm)} × ${forecastWeights.confidenceInterval.riskMultiplier}) = ±${formatNumber(interval)}`
+    ]
     
     return {
       value: forecast,
       low: forecast - interval,
       high: forecast + interval,
-      factors: factors.slice(0, 2)
+      factors,
+      steps
     }
   }
 
@@ -875,13 +1053,30 @@ export class ScoringEngine {
     rarityScore: number,
     momentumScore: number
   ): { currentValue: number; projectedValue: number; confidence: number; factors: ScoreFactor[] } {
+    if (domain.comps) {
+      const comps = domain.comps
+      const currentValue = Math.max(100, comps.value)
+      return {
+        currentValue,
+        projectedValue: currentValue * (1 + this.getProjectedGrowth(riskScore, rarityScore, momentumScore)),
+        confidence: comps.confidence,
+        factors: [{
+          name: 'Comparable Sales',
+          value: comps.sampleSize,
+          weight: 1,
+          contribution: currentValue,
+          description: `Weighted median of ${comps.sampleSize} comparable sales and listings ($${comps.low.toLocaleString()}-$${comps.high.toLocaleString()})`
+        }]
+      }
+    }
+
     const factors: ScoreFactor[] = []
     
     // Base value calculation
     const baseValue = 100 // Minimum base value
     
     // 1. Length-based value (shorter = more valuable)
-    const nameLength = domain.name.length
+    const nameLength = graphemeLength(toUnicodeLabel(domain.name))
     let lengthMultiplier = 1
     if (nameLength <= 3) {
       lengthMultiplier = 50 // Ultra premium
@@ -1002,24 +1197,8 @@ export class ScoringEngine {
     const currentValue = Math.max(100, riskAdjustedValue)
 
     // 6. Projected value (6 months) using momentum and market trends
-    // More nuanced growth model based on domain scores
-    const baseGrowthRate = 0.075 // 7.5% base 6-month growth (15% annual)
-
-    // Momentum-based growth adjustment (-10% to +30%)
-    const momentumAdjustment = ((momentumScore - 50) / 100) * 0.4 // -20% to +20%
-
-    // Rarity-based growth adjustment (0% to +25%)
-    const rarityAdjustment = (rarityScore / 100) * 0.25
-
-    // Risk penalty (0% to -15%)
-    const riskPenalty = (riskScore / 100) * 0.15
-
-    // Calculate total growth rate
-    const totalGrowthRate = baseGrowthRate + momentumAdjustment + rarityAdjustment - riskPenalty
-
     // Apply growth to current value (which is already at minimum $100)
-    const projectionMultiplier = 1 + totalGrowthRate
-    const projectedValue = currentValue * projectionMultiplier
+    const projectedValue = currentValue * (1 + this.getProjectedGrowth(riskScore, rarityScore, momentumScore))
     
     // 7. Confidence score based on data quality
     let confidence = 70 // Base confidence
@@ -1043,6 +1222,117 @@ export class ScoringEngine {
     }
   }
 
+  /**
+   * Arithmetic for scores that are a clamped sum of factor contributions
+   */
+  private explainSum(result: ScoreResult): ScoreExplanation {
+    const steps = result.factors.map(factor =>
+      `${factor.name}: ${factor.formula ?? formatNumber(factor.contribution)} = ${formatNumber(factor.contribution)}`
+    )
+    steps.push(`Sum: ${result.factors.map(f => formatNumber(f.contribution)).join(' + ').replace(/\+ -/g, '- ')} = ${formatNumber(result.raw)}`)
+
+    const clamped = result.score !== result.raw
+    if (clamped) {
+      steps.push(`Clamped to 0-100: ${formatNumber(result.score)}`)
+    }
+    steps.push(`Rounded: ${Math.round(result.score)}`)
+
+    return {
+      score: Math.round(result.score),
+      raw: result.raw,
+      clamped,
+      factors: result.factors,
+      steps
+    }
+  }
+
+  /**
+   * Rescore with one input changed and report the scores that move
+   */
+  private buildCounterfactuals(domain: ScoringInput): Counterfactual[] {
+    const expiresAt = typeof domain.expiresAt === 'string' ? new Date(domain.expiresAt) : domain.expiresAt
+    const scenarios: Array<{ scenario: string; input: ScoringInput }> = [
+      {
+        scenario: 'Renewing for 1 year',
+        input: {
+          ...domain,
+          expiresAt: new Date(Math.max(expiresAt.getTime(), Date.now()) + 365 * DAY_MS),
+          renewalCount: (domain.renewalCount || 0) + 1
+        }
+      },
+      {
+        scenario: domain.lockStatus ? 'Removing the transfer lock' : 'Enabling the transfer lock',
+        input: { ...domain, lockStatus: !domain.lockStatus }
+      },
+      {
+        scenario: 'Receiving 3 more offers',
+        input: {
+          ...domain,
+          offerCount: (domain.offerCount || 0) + 3,
+          activity7d: (domain.activity7d || 0) + 3,
+          activity30d: (domain.activity30d || 0) + 3
+        }
+      }
+    ]
+    if ((domain.activity30d || 0) > 0) {
+      scenarios.push({
+        scenario: 'No activity for 30 days',
+        input: { ...domain, activity7d: 0, activity30d: 0, recentEvents: [] }
+      })
+    }
+
+    const current = this.scoreSummary(domain)
+    const counterfactuals: Counterfactual[] = []
+    for (const { scenario, input } of scenarios) {
+      const changed = this.scoreSummary(input)
+      for (const score of Object.keys(SCORE_LABELS) as Counterfactual['score'][]) {
+        const from = current[score]
+        const to = changed[score]
+        if (from === to) continue
+        counterfactuals.push({
+          scenario,
+          score,
+          from,
+          to,
+          description: `${scenario} would ${to < from ? 'lower' : 'raise'} ${SCORE_LABELS[score]} from ${from} to ${to}`
+        })
+      }
+    }
+    return counterfactuals
+  }
+
+  private scoreSummary(domain: ScoringInput): Record<Counterfactual['score'], number> {
+    const risk = this.calculateRiskScore(domain).score
+    const rarity = this.calculateRarityScore(domain).score
+    const momentum = this.calculateMomentumScore(domain).score
+    const forecast = this.calculateForecastScore(risk, rarity, momentum).value
+    return {
+      risk: Math.round(risk),
+      rarity: Math.round(rarity),
+      momentum: Math.round(momentum),
+      forecast: Math.round(forecast)
+    }
+  }
+
+  /**
+   * 6-month value growth rate from the domain's scores
+   */
+  private getProjectedGrowth(riskScore: number, rarityScore: number, momentumScore: number): number {
+    // More nuanced growth model based on domain scores
+    const baseGrowthRate = 0.075 // 7.5% base 6-month growth (15% annual)
+
+    // Momentum-based growth adjustment (-10% to +30%)
+    const momentumAdjustment = ((momentumScore - 50) / 100) * 0.4 // -20% to +20%
+
+    // Rarity-based growth adjustment (0% to +25%)
+    const rarityAdjustment = (rarityScore / 100) * 0.25
+
+    // Risk penalty (0% to -15%)
+    const riskPenalty = (riskScore / 100) * 0.15
+
+    return baseGrowthRate + momentumAdjustment + rarityAdjustment - riskPenalty
+  }
+
   // Helper methods
   private getDaysUntilExpiry(expiresAt: string | Date): number {
     const expiry = typeof expiresAt === 'string' ? new Date(expiresAt) : expiresAt
@@ -1069,10 +1359,6 @@ export class ScoringEngine {
     return registrarId ? knownRegistrars.includes(registrarId) : false
   }
 
-  private isDictionaryWord(name: string): boolean {
-    return DICTIONARY_WORDS.has(name.toLowerCase())
-  }
-
   private isBrandable(name: string): boolean {
     // Simple brandability check: pronounceable, 4-8 chars, contains vowels
     if (name.length < 4 || name.length > 8) return false
@@ -0,0 +1,397 @@
+/**
+ * Structured search queries for Dometrics
+ * An exact alternative to natural-language search, for the dashboard search
+ * box and `GET /api/domains?q=`:
+ *
+ *   tld:ai risk<30 rarity>=70 len:3..5 expiry<90d sort:-momentum
+ *
+ * Queries compile to the same SearchFilters as natural-language ones, and
+ * formatSearchQuery turns filters back into a query that parses to the same
+ * filters, so the dashboard can keep its filter panel in the URL.
+ *
+ * Grammar (terms are separated by whitespace and ANDed; fields are case-insensitive):
+ *   term   := '-'? field op value             tld:ai, risk<30, -tld:xyz, -has:hyphen, pattern:cvcv
+ *           | '-'? word | '-'? '"' text '"'   name contains (or lacks) the text
+ *   field  := tld | risk | rarity | momentum | forecast | value | expiry | len
+ *           | is | has | pattern | name | sort | limit
+ *   op     := ':' | '=' | '<' | '<=' | '>' | '>='
+ *   value  := number | number? '..' number?  30, $5k, 90d, 3..5, 70..
+ *           | word (',' word)*                ai,io
+ *
+ * Expiry takes d (default), w, m or y; value takes $ and k or m. SearchFilters
+ * bounds are inclusive and every numeric field is whole-numbered except value,
+ * which is compared to the cent, so a strict bound becomes an inclusive one a
+ * step inside: risk<30 is risk<=29 and value>$5k is value>=$5,000.01. Amounts
+ * outside a field's range (scores and forecast 0-100, value from $0,
+ * len from 1) are errors. pattern takes one collector pattern from
+ * name-patterns.ts per term; repeat it to require several.
+ */
+
+import type { SearchFilters, SortField, CharClass, RangeFilterKey } from './natural-language-search'
+import { NAME_PATTERNS } from './name-patterns'
+import type { NamePattern } from './name-patterns'
+
+export interface SearchQueryIssue {
+  message: string
+  // Character offset into the source
+  position: number
+}
+
+export type SearchQueryParseResult =
+  | { success: true; filters: SearchFilters }
+  | { success: false; error: SearchQueryIssue }
+
+export const MAX_SEARCH_QUERY_LENGTH = 1000
+
+type NumericField = 'risk' | 'rarity' | 'momentum' | 'forecast' | 'value' | 'expiry' | 'len'
+type Operator = ':' | '=' | '<' | '<=' | '>' | '>='
+
+const NUMERIC_FIELDS: Record<NumericField, [RangeFilterKey, RangeFilterKey]> = {
+  risk: ['riskMin', 'riskMax'],
+  rarity: ['rarityMin', 'rarityMax'],
+  momentum: ['momentumMin', 'momentumMax'],
+  forecast: ['forecastMin', 'forecastMax'],
+  value: ['valueMin', 'valueMax'],
+  expiry: ['expiryDaysMin', 'expiryDaysMax'],
+  len: ['lengthMin', 'lengthMax']
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+  length: 'len',
+  price: 'value',
+  expires: 'expiry',
+  days: 'expiry'
+}
+
+const SORT_FIELDS: Record<string, SortField> = {
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  value: 'value',
+  price: 'value',
+  newest: 'newest',
+  oldest: 'oldest',
+  offers: 'offers',
+  expiry: 'expiry',
+  len: 'length',
+  length: 'length',
+  name: 'name'
+}
+
+const SORT_NAMES: Record<SortField, string> = {
+  risk: 'risk',
+  rarity: 'rarity',
+  momentum: 'momentum',
+  value: 'value',
+  newest: 'newest',
+  oldest: 'oldest',
+  offers: 'offers',
+  expiry: 'expiry',
+  length: 'len',
+  name: 'name'
+}
+
+// is:<class> and has:<class>, with what a leading '-' turns has:<class> into
+const IS_CLASSES: Record<string, CharClass> = {
+  letters: 'letters',
+  alpha: 'letters',
+  digits: 'digits',
+  numeric: 'digits'
+}
+const HAS_CLASSES: Record<string, [CharClass, CharClass]> = {
+  digits: ['has-digits', 'no-digits'],
+  digit: ['has-digits', 'no-digits'],
+  numbers: ['has-digits', 'no-digits'],
+  hyphen: ['has-hyphen', 'no-hyphen'],
+  hyphens: ['has-hyphen', 'no-hyphen']
+}
+
+const DAY_UNITS: Record<string, number> = { '': 1, d: 1, w: 7, m: 30, y: 365 }
+
+// Smallest and largest amount each field can take; expiry goes negative once a name has expired
+const FIELD_RANGES: Record<NumericField, [number, number]> = {
+  risk: [0, 100],
+  rarity: [0, 100],
+  momentum: [0, 100],
+  forecast: [0, 100],
+  value: [0, Infinity],
+  expiry: [-Infinity, Infinity],
+  len: [1, Infinity]
+}
+const FIELD_PATTERN = /^([a-z]+)(<=|>=|<|>|:|=)/i
+const STRUCTURED_PATTERN = /(^|\s)-?(tld|risk|rarity|momentum|forecast|value|price|expiry|len|length|is|has|pattern|name|sort|limit)(<=|>=|<|>|:|=)/i
+
+class SearchQuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message)
+  }
+}
+
+function own<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined
+}
+
+/**
+ * Whether the text uses the structured syntax (any field term) rather than natural language
+ */
+export function isStructuredQuery(source: string): boolean {
+  return STRUCTURED_PATTERN.test(source)
+}
+
+// Whitespace-separated terms with their offsets; quoted text stays in one term
+function splitTerms(source: string): Array<{ text: string; position: number }> {
+  const terms: Array<{ text: string; position: number }> = []
+  let i = 0
+  while (i < source.length) {
+    if (/\s/.test(source[i])) {
+      i++
+      continue
+    }
+    const start = i
+    while (i < source.length && !/\s/.test(source[i])) {
+      if (source[i] === '"') {
+        const end = source.indexOf('"', i + 1)
+        if (end < 0) throw new SearchQuerySyntaxError('Unterminated quote', i)
+        i = end
+      }
+      i++
+    }
+    terms.push({ text: source.slice(start, i), position: start })
+  }
+  return terms
+}
+
+function parseAmount(field: NumericField, raw: string, position: number): number {
+  const pattern = field === 'value'
+    ? /^\$?(-?\d+(?:\.\d+)?)([km]?)$/i
+    : field === 'expiry'
+      ? /^(-?\d+)([dwmy]?)$/i
+      : /^(-?\d+)()$/
+  const match = raw.match(pattern)
+  if (!match) {
+    const expected = field === 'value' ? 'an amount like 500 or $5k' : field === 'expiry' ? 'a number of days like 90 or 3m' : 'a whole number'
+    throw new SearchQuerySyntaxError(`Expected ${expected} for ${field}, got "${raw}"`, position)
+  }
+  const suffix = match[2].toLowerCase()
+  const amount = field === 'value'
+    ? Math.round(parseFloat(match[1]) * (suffix === 'k' ? 1000 : suffix === 'm' ? 1000000 : 1) * 100) / 100
+    : field === 'expiry' ? parseFloat(match[1]) * DAY_UNITS[suffix] : parseFloat(match[1])
+
+  const [min, max] = FIELD_RANGES[field]
+  if (amount < min || amount > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`
+    throw new SearchQuerySyntaxError(`${field} must be ${range}, got "${raw}"`, position)
+  }
+  return amount
+}
+
+function parseNumericTerm(
+  field: NumericField,
+  operator: Operator,
+  raw: string,
+  position: number
+): { min?: number; max?: number } {
+  const step = field === 'value' ? 0.01 : 1
+
+  const range = raw.indexOf('..')
+  if (range >= 0) {
+    if (operator !== ':' && operator !== '=') {
+      throw new SearchQuerySyntaxError(`Ranges take ":" (${field}:a..b), not "${operator}"`, position - operator.length)
+    }
+    const low = raw.slice(0, range)
+    const high = raw.slice(range + 2)
+    if (!low && !high) throw new SearchQuerySyntaxError(`Empty range for ${field}`, position)
+    const min = low ? parseAmount(field, low, position) : undefined
+    const max = high ? parseAmount(field, high, position + range + 2) : undefined
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new SearchQuerySyntaxError(`Range start ${low} is above its end ${high}`, position)
+    }
+    return { min, max }
+  }
+
+  const amount = parseAmount(field, raw, position)
+  switch (operator) {
+    case '<': return { max: Math.round((amount - step) * 100) / 100 }
+    case '<=': return { max: amount }
+    case '>': return { min: Math.round((amount + step) * 100) / 100 }
+    case '>=': return { min: amount }
+    default: return { min: amount, max: amount }
+  }
+}
+
+function pushUnique<K extends 'tlds' | 'excludeTlds' | 'contains' | 'excludes' | 'charClasses' | 'patterns' | 'excludePatterns'>(
+  filters: SearchFilters,
+  key: K,
+  values: NonNullable<SearchFilters[K]>
+): void {
+  const current = (filters[key] || []) as string[]
+  filters[key] = [...current, ...(values as string[]).filter(v => !current.includes(v))] as SearchFilters[K]
+}
+
+function parseTerm(filters: SearchFilters, text: string, position: number): void {
+  const negated = text.startsWith('-') && text.length > 1
+  const body = negated ? text.slice(1) : text
+  const bodyPosition = negated ? position + 1 : position
+
+  // Free text: quoted or a bare word
+  const field = body.match(FIELD_PATTERN)
+  if (!field) {
+    const quoted = body.startsWith('"')
+    if (quoted && (body.length < 2 || !body.endsWith('"'))) {
+      throw new SearchQuerySyntaxError('Text after a closing quote', bodyPosition + body.indexOf('"', 1) + 1)
+    }
+    const keyword = (quoted ? body.slice(1, -1) : body).trim().toLowerCase()
+    if (!keyword) throw new SearchQuerySyntaxError('Empty text term', position)
+    if (!quoted && /["<>]/.test(keyword)) {
+      throw new SearchQuerySyntaxError(`Unexpected "${keyword.match(/["<>]/)![0]}"`, bodyPosition + keyword.search(/["<>]/))
+    }
+    pushUnique(filters, negated ? 'excludes' : 'contains', [keyword])
+    return
+  }
+
+  const rawName = field[1].toLowerCase()
+  const name = own(FIELD_ALIASES, rawName) || rawName
+  const operator = field[2] as Operator
+  const valuePosition = bodyPosition + field[0].length
+  const value = body.slice(field[0].length).replace(/^"(.*)"$/, '$1')
+  if (!value) throw new SearchQuerySyntaxError(`Missing value for ${rawName}`, valuePosition)
+
+  const numeric = own(NUMERIC_FIELDS, name)
+  if (!numeric && operator !== ':' && operator !== '=') {
+    throw new SearchQuerySyntaxError(`${rawName} takes ":", not "${operator}"`, valuePosition - operator.length)
+  }
+  if (negated && !['tld', 'has', 'pattern'].includes(name)) {
+    throw new SearchQuerySyntaxError(`Only tld, has, pattern and text terms can be negated`, position)
+  }
+
+  if (numeric) {
+    const bound = parseNumericTerm(name as NumericField, operator, value, valuePosition)
+    const [minKey, maxKey] = numeric
+    const min = Math.max(filters[minKey] ?? -Infinity, bound.min ?? -Infinity)
+    const max = Math.min(filters[maxKey] ?? Infinity, bound.max ?? Infinity)
+    if (min > max) throw new SearchQuerySyntaxError(`Contradicts an earlier ${rawName} term`, position)
+    if (Number.isFinite(min)) filters[minKey] = min
+    if (Number.isFinite(max)) filters[maxKey] = max
+    return
+  }
+
+  switch (name) {
+    case 'tld': {
+      const tlds = value.toLowerCase().split(',').map(t => t.trim().replace(/^\./, ''))
+      const bad = tlds.findIndex(t => !/^[a-z0-9-]+$/.test(t))
+      if (bad >= 0) {
+        const offset = value.split(',').slice(0, bad).join(',').length + (bad > 0 ? 1 : 0)
+        throw new SearchQuerySyntaxError(`Invalid TLD "${tlds[bad]}"`, valuePosition + offset)
+      }
+      pushUnique(filters, negated ? 'excludeTlds' : 'tlds', tlds)
+      return
+    }
+    case 'is': {
+      const charClass = own(IS_CLASSES, value.toLowerCase())
+      if (!charClass) throw new SearchQuerySyntaxError(`is: takes letters or digits, got "${value}"`, valuePosition)
+      pushUnique(filters, 'charClasses', [charClass])
+      return
+    }
+    case 'has': {
+      const classes = own(HAS_CLASSES, value.toLowerCase())
+      if (!classes) throw new SearchQuerySyntaxError(`has: takes digits or hyphen, got "${value}"`, valuePosition)
+      pushUnique(filters, 'charClasses', [classes[negated ? 1 : 0]])
+      return
+    }
+    case 'pattern': {
+      const pattern = value.toLowerCase() as NamePattern
+      if (!NAME_PATTERNS.includes(pattern)) {
+        throw new SearchQuerySyntaxError(`Unknown pattern "${value}"; expected one of ${NAME_PATTERNS.join(', ')}`, valuePosition)
+      }
+      const opposite = negated ? filters.patterns : filters.excludePatterns
+      if (opposite?.includes(pattern)) throw new SearchQuerySyntaxError(`Contradicts an earlier pattern term`, position)
+      pushUnique(filters, negated ? 'excludePatterns' : 'patterns', [pattern])
+      return
+    }
+    case 'name':
+      if (filters.searchTerm) throw new SearchQuerySyntaxError('Only one name term is allowed', position)
+      filters.searchTerm = value.toLowerCase()
+      return
+    case 'sort': {
+      if (filters.sortBy) throw new SearchQuerySyntaxError('Only one sort term is allowed', position)
+      const descending = value.startsWith('-')
+      const sortField = own(SORT_FIELDS, value.replace(/^[-+]/, '').toLowerCase())
+      if (!sortField) throw new SearchQuerySyntaxError(`Unknown sort field "${value.replace(/^[-+]/, '')}"`, valuePosition)
+      filters.sortBy = sortField
+      filters.sortOrder = descending ? 'desc' : 'asc'
+      return
+    }
+    case 'limit': {
+      const count = Number(value)
+      if (!Number.isInteger(count) || count < 1) throw new SearchQuerySyntaxError(`limit takes a positive whole number, got "${value}"`, valuePosition)
+      filters.limit = count
+      return
+    }
+    default:
+      throw new SearchQuerySyntaxError(`Unknown field "${rawName}"`, position)
+  }
+}
+
+export function parseSearchQuery(source: string): SearchQueryParseResult {
+  try {
+    if (source.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new SearchQuerySyntaxError(`Query is longer than ${MAX_SEARCH_QUERY_LENGTH} characters`, MAX_SEARCH_QUERY_LENGTH)
+    }
+    const filters: SearchFilters = {}
+    for (const term of splitTerms(source)) {
+      parseTerm(filters, term.text, term.position)
+    }
+    return { success: true, filters }
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return { success: false, error: { message: error.message, position: error.position } }
+    }
+    throw error
+  }
+}
+
+function formatText(text: string): string {
+  return /^[a-z0-9][a-z0-9.-]*$/.test(text) && !FIELD_PATTERN.test(text) ? text : `"${text.replace(/"/g, '')}"`
+}
+
+function formatNumber(field: NumericField, amount: number): string {
+  return field === 'expiry' ? `${amount}d` : String(amount)
+}
+
+/**
+ * The query for a set of filters; parseSearchQuery(formatSearchQuery(f)) gives f back
+ */
+export function formatSearchQuery(filters: SearchFilters): string {
+  const terms: string[] = []
+
+  if (filters.searchTerm) terms.push(`name:${formatText(filters.searchTerm.toLowerCase())}`)
+  filters.contains?.forEach(keyword => terms.push(formatText(keyword.toLowerCase())))
+  filters.excludes?.forEach(keyword => terms.push(`-${formatText(keyword.toLowerCase())}`))
+  if (filters.tlds?.length) terms.push(`tld:${filters.tlds.join(',')}`)
+  if (filters.excludeTlds?.length) terms.push(`-tld:${filters.excludeTlds.join(',')}`)
+  for (const charClass of filters.charClasses || []) {
+    const is = Object.keys(IS_CLASSES).find(key => IS_CLASSES[key] === charClass)
+    const has = Object.keys(HAS_CLASSES).find(key => HAS_CLASSES[key].includes(charClass))
+    if (is) terms.push(`is:${is}`)
+    else if (has) terms.push(`${HAS_CLASSES[has][1] === charClass ? '-' : ''}has:${has}`)
+  }
+  filters.patterns?.forEach(pattern => terms.push(`pattern:${pattern}`))
+  filters.excludePatterns?.forEach(pattern => terms.push(`-pattern:${pattern}`))
+
+  for (const [field, [minKey, maxKey]] of Object.entries(NUMERIC_FIELDS) as Array<[NumericField, [RangeFilterKey, RangeFilterKey]]>) {
+    const min = filters[minKey]
+    const max = filters[maxKey]
+    if (min !== undefined && max !== undefined) {
+      terms.push(min === max ? `${field}:${formatNumber(field, min)}` : `${field}:${formatNumber(field, min)}..${formatNumber(field, max)}`)
+    } else if (min !== undefined) {
+      terms.push(`${field}>=${formatNumber(field, min)}`)
+    } else if (max !== undefined) {
+      terms.push(`${field}<=${formatNumber(field, max)}`)
+    }
+  }
+
+  if (filters.sortBy) terms.push(`sort:${filters.sortOrder === 'asc' ? '' : '-'}${SORT_NAMES[filters.sortBy]}`)
+  if (filters.limit) terms.push(`limit:${filters.limit}`)
+
+  return terms.join(' ')
+}
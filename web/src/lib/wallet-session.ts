@@ -0,0 +1,111 @@
+/**
+ * Wallet sign-in sessions for Dometrics
+ * Owner-scoped APIs (alert rules, watchlists) act for the wallet that signed
+ * in, never for an address a request merely names. The server hands out a
+ * short-lived challenge, the wallet signs it, and a valid signature earns an
+ * HMAC-signed session cookie for that address. Stateless: no session table,
+ * only `SESSION_SECRET`.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { verifyMessage } from 'viem'
+import type { NextRequest } from 'next/server'
+
+export const SESSION_COOKIE = 'dometrics_session'
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+// A challenge has to be signed within this long
+const CHALLENGE_TTL_MS = 10 * 60 * 1000
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/
+const CHALLENGE_PATTERN = /^(\S+) wants you to sign in to Dometrics with your wallet\.\n\nAddress: (0x[a-fA-F0-9]{40})\nIssued At: (\S+)\nNonce: ([a-f0-9]{64})$/
+
+// Lower-cased 0x address from a plain or CAIP-10 owner (as toAddress in portfolio.ts,
+// without pulling the scoring pipeline into every route that checks a session)
+function toAddress(owner: string): string {
+  return owner.split(':').pop()!.toLowerCase()
+}
+
+export function isSessionConfigured(): boolean {
+  return Boolean(process.env.SESSION_SECRET)
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', process.env.SESSION_SECRET || '').update(value).digest('hex')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * The message a wallet signs to sign in. The nonce ties it to this server, the
+ * address, the host and the time, so it can't be made up or reused elsewhere.
+ */
+export function createChallenge(address: string, host: string, now: Date = new Date()): string {
+  const normalized = toAddress(address)
+  const issuedAt = now.toISOString()
+  const nonce = sign(`challenge:${host}:${normalized}:${issuedAt}`)
+  return `${host} wants you to sign in to Dometrics with your wallet.\n\nAddress: ${normalized}\nIssued At: ${issuedAt}\nNonce: ${nonce}`
+}
+
+/**
+ * The lower-cased address that signed a challenge this server issued for this
+ * host, or null when the challenge, its age or the signature doesn't check out
+ */
+export async function verifyChallenge(
+  message: string,
+  signature: string,
+  host: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const match = CHALLENGE_PATTERN.exec(message)
+  if (!match || !/^0x[a-fA-F0-9]+$/.test(signature)) return null
+  const [, messageHost, address, issuedAt, nonce] = match
+
+  const issued = new Date(issuedAt).getTime()
+  if (messageHost !== host || isNaN(issued)) return null
+  if (issued > now.getTime() + 60_000 || now.getTime() - issued > CHALLENGE_TTL_MS) return null
+  if (!safeEqual(nonce, sign(`challenge:${host}:${address}:${issuedAt}`))) return null
+
+  try {
+    const valid = await verifyMessage({ address: address as `0x${string}`, message, signature: signature as `0x${string}` })
+    return valid ? address : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Cookie value for a signed-in address: `<address>.<expires>.<hmac>`
+ */
+export function createSessionToken(address: string, now: Date = new Date()): string {
+  const expires = Math.floor(now.getTime() / 1000) + SESSION_TTL_SECONDS
+  const value = `${toAddress(address)}.${expires}`
+  return `${value}.${sign(`session:${value}`)}`
+}
+
+export function readSessionToken(token: string, now: Date = new Date()): string | null {
+  const [address, expires, mac] = token.split('.')
+  if (!address || !expires || !mac || !ADDRESS_PATTERN.test(address)) return null
+  if (!safeEqual(mac, sign(`session:${address}.${expires}`))) return null
+  if (parseInt(expires) * 1000 <= now.getTime()) return null
+  return address
+}
+
+/**
+ * Lower-cased 0x address of the signed-in wallet, or null
+ */
+export function getSessionAddress(request: NextRequest): string | null {
+  if (!isSessionConfigured()) return null
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  return token ? readSessionToken(token) : null
+}
+
+/**
+ * Whether the signed-in wallet is the given owner (plain or CAIP-10)
+ */
+export function isSessionOwner(session: string | null, owner: string): boolean {
+  return session !== null && toAddress(owner) === session
+}
@@ -0,0 +1,370 @@
+/**
+ * Watchlists for Dometrics
+ * Named lists of domains (stored in the Watchlist table) with aggregate scores
+ * for the whole list, JSON/CSV import and export, and read-only share links.
+ * Lists are referenced by name from composite alert expressions, so a name is
+ * unique per user regardless of case.
+ */
+
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { domainScoringService } from './domain-scoring'
+import type { ScoredDomain, ScoringOptions } from './domain-scoring'
+import { portfolioService, isValidOwner, toCaip10, toAddress } from './portfolio'
+import type { PortfolioSummary } from './portfolio'
+
+export interface Watchlist {
+  id: string
+  userAddress: string
+  name: string
+  description: string | null
+  tokenIds: string[]
+  isPublic: boolean
+  // Only set while the list is public
+  shareToken: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type WatchlistSummary = Omit<PortfolioSummary, 'costBasis' | 'unrealizedPnl' | 'unrealizedPnlPct' | 'pricedCount'> & {
+  averageRarity: number
+  averageMomentum: number
+}
+
+export interface WatchlistReport {
+  watchlist: Watchlist
+  profile: string
+  weightsVersion: string | null
+  summary: WatchlistSummary
+  // Highest value first
+  domains: ScoredDomain[]
+  // Token ids on the list that no longer resolve to a domain
+  missing: string[]
+  generatedAt: string
+}
+
+// What a share link shows: the report without the owner's address
+export type SharedWatchlistReport = Omit<WatchlistReport, 'watchlist'> & {
+  watchlist: Omit<Watchlist, 'userAddress'>
+}
+
+// Portable file produced by export and accepted by import
+export interface WatchlistDocument {
+  version: 1
+  name: string
+  description: string | null
+  domains: Array<{ tokenId: string; name: string | null }>
+  exportedAt: string
+}
+
+export type WatchlistFormat = 'json' | 'csv'
+
+export const MAX_WATCHLIST_DOMAINS = 500
+const MAX_IMPORT_LENGTH = 200_000
+
+// Token id, or a domain name such as "crypto.ai" to be looked up
+const entrySchema = z.string().trim().min(1).max(253)
+
+export const createWatchlistSchema = z.object({
+  userAddress: z.string().trim().refine(isValidOwner, { message: 'must be an address or CAIP-10 account id' }),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  domains: z.array(entrySchema).max(MAX_WATCHLIST_DOMAINS).default([]),
+  isPublic: z.boolean().default(false)
+})
+
+export const updateWatchlistSchema = z.object({
+  name: createWatchlistSchema.shape.name,
+  description: z.string().trim().max(500).nullable(),
+  // Replaces the list; `add` and `remove` edit it in place
+  domains: z.array(entrySchema).max(MAX_WATCHLIST_DOMAINS),
+  add: z.array(entrySchema).max(MAX_WATCHLIST_DOMAINS),
+  remove: z.array(entrySchema).max(MAX_WATCHLIST_DOMAINS),
+  isPublic: z.boolean()
+}).partial()
+
+export const importWatchlistSchema = z.object({
+  userAddress: createWatchlistSchema.shape.userAddress,
+  // Defaults to the name in an exported JSON file
+  name: createWatchlistSchema.shape.name.optional(),
+  description: createWatchlistSchema.shape.description,
+  content: z.string().min(1).max(MAX_IMPORT_LENGTH)
+})
+
+export type CreateWatchlistInput = z.infer<typeof createWatchlistSchema>
+export type CreateWatchlistRequest = z.input<typeof createWatchlistSchema>
+export type UpdateWatchlistInput = z.infer<typeof updateWatchlistSchema>
+export type ImportWatchlistInput = z.infer<typeof importWatchlistSchema>
+
+const documentSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  domains: z.array(z.union([
+    entrySchema,
+    z.object({ tokenId: z.string().optional(), name: z.string().nullable().optional() })
+  ]))
+})
+
+function generateShareToken(): string {
+  return randomBytes(18).toString('base64url')
+}
+
+function toWatchlist(row: any): Watchlist {
+  return {
+    id: row.id,
+    userAddress: row.userAddress,
+    name: row.name,
+    description: row.description ?? null,
+    tokenIds: row.domains,
+    isPublic: row.isPublic,
+    shareToken: row.isPublic ? row.shareToken ?? null : null,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString()
+  }
+}
+
+function round(value: number, digits = 1): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+// Quote cells the way the domain page export does
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Name, description and entries from an exported JSON file, or a CSV or plain
+ * list with one token id or domain name at the start of each line
+ */
+export function parseWatchlistImport(content: string): { name?: string; description?: string | null; entries: string[] } {
+  const trimmed = content.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown
+    try {
+      json = JSON.parse(trimmed)
+    } catch {
+      throw new Error('Import is not valid JSON')
+    }
+    const parsed = documentSchema.safeParse(Array.isArray(json) ? { domains: json } : json)
+    if (!parsed.success) {
+      throw new Error('JSON import must be an exported watchlist or an array of domains')
+    }
+    const entries = parsed.data.domains
+      .map(entry => typeof entry === 'string' ? entry : entry.tokenId || entry.name || '')
+      .filter(Boolean)
+    return { name: parsed.data.name, description: parsed.data.description, entries }
+  }
+
+  const entries = trimmed.split(/\r?\n/)
+    .map(line => line.split(',')[0].trim().replace(/^"|"$/g, ''))
+    // Skip a header row such as "Domain,Token ID,..."
+    .filter((cell, index) => cell && !(index === 0 && /^(domain|name|token ?id)$/i.test(cell)))
+  return { entries }
+}
+
+export class WatchlistService {
+  /**
+   * Lists created by a user, newest first
+   */
+  async list(userAddress: string): Promise<Watchlist[]> {
+    const rows: any[] = await prisma.watchlist.findMany({
+      where: { userAddress: { in: [toCaip10(userAddress), toAddress(userAddress)] } },
+      orderBy: { createdAt: 'desc' }
+    })
+    return rows.map(row => toWatchlist(row))
+  }
+
+  async get(id: string): Promise<Watchlist | null> {
+    const row = await prisma.watchlist.findUnique({ where: { id } })
+    return row ? toWatchlist(row) : null
+  }
+
+  /**
+   * A public list by its share token; null once it is made private
+   */
+  async getShared(shareToken: string): Promise<Watchlist | null> {
+    const row = await prisma.watchlist.findUnique({ where: { shareToken } })
+    return row && row.isPublic ? toWatchlist(row) : null
+  }
+
+  /**
+   * Another list of the user's with this name, ignoring case
+   */
+  async findByName(userAddress: string, name: string, excludeId?: string): Promise<Watchlist | null> {
+    const row = await prisma.watchlist.findFirst({
+      where: {
+        userAddress: { in: [toCaip10(userAddress), toAddress(userAddress)] },
+        name: { equals: name.trim(), mode: 'insensitive' },
+        ...(excludeId ? { id: { not: excludeId } } : {})
+      }
+    })
+    return row ? toWatchlist(row) : null
+  }
+
+  async create(input: CreateWatchlistInput): Promise<{ watchlist: Watchlist; unresolved: string[] }> {
+    const { tokenIds, unresolved } = await this.resolve(input.domains)
+    const row = await prisma.watchlist.create({
+      data: {
+        userAddress: toCaip10(input.userAddress),
+        name: input.name,
+        description: input.description || null,
+        domains: tokenIds,
+        isPublic: input.isPublic,
+        shareToken: input.isPublic ? generateShareToken() : null
+      }
+    })
+    return { watchlist: toWatchlist(row), unresolved }
+  }
+
+  /**
+   * Apply a partial update; null when the list does not exist. Making a list
+   * private revokes its share link and making it public again issues a new one.
+   */
+  async update(id: string, input: UpdateWatchlistInput): Promise<{ watchlist: Watchlist; unresolved: string[] } | null> {
+    const existing = await this.get(id)
+    if (!existing) return null
+
+    const unresolved: string[] = []
+    let tokenIds: string[] | undefined
+    if (input.domains !== undefined || input.add !== undefined || input.remove !== undefined) {
+      const replaced = input.domains !== undefined ? await this.resolve(input.domains) : null
+      const added = await this.resolve(input.add || [])
+      const removed = await this.resolve(input.remove || [])
+      unresolved.push(...(replaced?.unresolved || []), ...added.unresolved)
+
+      const remove = new Set([...removed.tokenIds, ...(input.remove || [])])
+      tokenIds = Array.from(new Set([...(replaced?.tokenIds || existing.tokenIds), ...added.tokenIds]))
+        .filter(tokenId => !remove.has(tokenId))
+        .slice(0, MAX_WATCHLIST_DOMAINS)
+    }
+
+    const shareToken = input.isPublic === undefined ? undefined
+      : input.isPublic ? (existing.shareToken || generateShareToken())
+      : null
+
+    const row = await prisma.watchlist.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(tokenIds !== undefined ? { domains: tokenIds } : {}),
+        ...(input.isPublic !== undefined ? { isPublic: input.isPublic, shareToken } : {})
+      }
+    })
+    return { watchlist: toWatchlist(row), unresolved }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await prisma.watchlist.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Scored domains on the list with aggregates across them
+   */
+  async report(watchlist: Watchlist, options: ScoringOptions = {}): Promise<WatchlistReport> {
+    const wanted = new Set(watchlist.tokenIds)
+    const catalogue = await domainScoringService.getCatalogue({ profile: options.profile })
+    const domains = catalogue.filter(d => wanted.has(d.tokenId))
+
+    // Names outside the cached catalogue are looked up one by one
+    const found = new Set(domains.map(d => d.tokenId))
+    const missing: string[] = []
+    for (const tokenId of watchlist.tokenIds) {
+      if (found.has(tokenId)) continue
+      const domain = await domainScoringService.getDomain(tokenId, { profile: options.profile })
+      if (domain) domains.push(domain)
+      else missing.push(tokenId)
+    }
+    domains.sort((a, b) => b.price - a.price)
+
+    // Watched names aren't necessarily held, so there is no cost basis to report
+    const portfolio = portfolioService.summarize(
+      domains.map(d => ({ ...d, acquisition: null, unrealizedPnl: null, unrealizedPnlPct: null }))
+    )
+    const average = (pick: (d: ScoredDomain) => number) =>
+      domains.length > 0 ? round(domains.reduce((sum, d) => sum + pick(d), 0) / domains.length) : 0
+
+    return {
+      watchlist,
+      profile: domains[0]?.profile || options.profile || 'default',
+      weightsVersion: domains[0]?.weightsVersion || null,
+      summary: {
+        count: portfolio.count,
+        totalValue: portfolio.totalValue,
+        weightedRisk: portfolio.weightedRisk,
+        weightedForecast: portfolio.weightedForecast,
+        riskDistribution: portfolio.riskDistribution,
+        upcomingExpiries: portfolio.upcomingExpiries,
+        concentration: portfolio.concentration,
+        averageRarity: average(d => d.scores.rarity),
+        averageMomentum: average(d => d.scores.momentum)
+      },
+      domains,
+      missing,
+      generatedAt: new Date().toISOString()
+    }
+  }
+
+  toShared(report: WatchlistReport): SharedWatchlistReport {
+    const { id, name, description, tokenIds, isPublic, shareToken, createdAt, updatedAt } = report.watchlist
+    return { ...report, watchlist: { id, name, description, tokenIds, isPublic, shareToken, createdAt, updatedAt } }
+  }
+
+  /**
+   * Serialize a report for download; the JSON form can be imported again
+   */
+  format(report: WatchlistReport, format: WatchlistFormat): { body: string; mimeType: string; extension: string } {
+    if (format === 'json') {
+      const document: WatchlistDocument = {
+        version: 1,
+        name: report.watchlist.name,
+        description: report.watchlist.description,
+        domains: report.watchlist.tokenIds.map(tokenId => ({
+          tokenId,
+          name: report.domains.find(d => d.tokenId === tokenId)?.name ?? null
+        })),
+        exportedAt: report.generatedAt
+      }
+      return { body: JSON.stringify(document, null, 2), mimeType: 'application/json', extension: 'json' }
+    }
+
+    const header = [
+      'Domain', 'Token ID', 'TLD', 'Value', 'Risk Score', 'Rarity Score', 'Momentum Score', 'Forecast Score',
+      'Expires', 'Days Until Expiry', 'Weights Version'
+    ]
+    const rows = report.domains.map(d => [
+      d.name, d.tokenId, d.tld, d.price, d.scores.risk, d.scores.rarity, d.scores.momentum, d.scores.forecast,
+      d.expiresAt, d.daysUntilExpiry, d.weightsVersion
+    ])
+    const body = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n')
+    return { body, mimeType: 'text/csv', extension: 'csv' }
+  }
+
+  /**
+   * Token ids for a mix of token ids and domain names, in the order given
+   */
+  private async resolve(entries: string[]): Promise<{ tokenIds: string[]; unresolved: string[] }> {
+    const names = entries.filter(entry => !/^\d+$/.test(entry))
+    const byName = new Map<string, string>()
+    if (names.length > 0) {
+      const catalogue = await domainScoringService.getCatalogue()
+      for (const domain of catalogue) byName.set(domain.name.toLowerCase(), domain.tokenId)
+    }
+
+    const tokenIds: string[] = []
+    const unresolved: string[] = []
+    for (const entry of entries) {
+      const tokenId = /^\d+$/.test(entry) ? entry : byName.get(entry.toLowerCase())
+      if (tokenId) tokenIds.push(tokenId)
+      else unresolved.push(entry)
+    }
+    return { tokenIds: Array.from(new Set(tokenIds)), unresolved }
+  }
+}
+
+export const watchlistService = new WatchlistService()
@@ -0,0 +1,201 @@
+/**
+ * Webhook delivery channel for Dometrics alerts
+ * POSTs each fired alert event as JSON to the rule's webhookUrl. Requests are
+ * signed with HMAC-SHA256 over `<timestamp>.<body>` using the rule's secret, so
+ * receivers can check both origin and freshness. URLs come from users, so only
+ * public https hosts are reached: every address a host resolves to is checked
+ * at connect time, and redirects are not followed.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { lookup as dnsLookup } from 'dns'
+import type { LookupAddress, LookupOptions } from 'dns'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP } from 'net'
+import type { AlertChannelSender, AlertEventRecord, AlertRule } from './alert-engine'
+
+export const SIGNATURE_HEADER = 'X-Dometrics-Signature'
+export const TIMESTAMP_HEADER = 'X-Dometrics-Timestamp'
+export const DELIVERY_HEADER = 'X-Dometrics-Delivery'
+
+export interface WebhookPayload {
+  id: string
+  type: 'alert.fired'
+  occurredAt: string
+  rule: Pick<AlertRule, 'id' | 'name' | 'type'>
+  alert: AlertEventRecord['payload']
+}
+
+const REQUEST_TIMEOUT_MS = 10_000
+// Receivers should reject signatures older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// Loopback, private, link-local, shared, reserved and multicast ranges; IPv4-mapped
+// IPv6 addresses are matched against the IPv4 ranges too
+const PRIVATE_NETWORKS = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6')
+}
+
+// For a local receiver during development only
+function allowPrivateNetworks(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true'
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 0) return true
+  return PRIVATE_NETWORKS.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it can. Hostnames are checked
+ * again, after resolving, on every delivery.
+ */
+export function checkWebhookUrl(url: string, allowPrivate: boolean = allowPrivateNetworks()): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'must be a valid URL'
+  }
+  if (parsed.protocol !== 'https:' && !(allowPrivate && parsed.protocol === 'http:')) return 'must be an https URL'
+  if (parsed.username || parsed.password) return 'must not contain credentials'
+  if (allowPrivate) return null
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'must be a public host'
+  }
+  if (isIP(host) && isPrivateAddress(host)) return 'must be a public host'
+  return null
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+
+// dns.lookup that refuses hosts resolving to any private address; used as the socket lookup,
+// so the address checked is the address connected to
+function publicLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address))
+    if (blocked) {
+      return callback(Object.assign(new Error(`Webhook host ${hostname} resolves to a private address (${blocked.address})`), { code: 'EPRIVATE' }), [])
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Check a `sha256=<hex>` signature header; receivers can use this as-is
+ */
+export function verifySignature(
+  secret: string,
+  signatureHeader: string,
+  timestamp: number,
+  body: string,
+  now: Date = new Date()
+): boolean {
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+  const expected = Buffer.from(`sha256=${signPayload(secret, timestamp, body)}`)
+  const given = Buffer.from(signatureHeader)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+export function toWebhookPayload(rule: AlertRule, event: AlertEventRecord): WebhookPayload {
+  return {
+    id: event.id,
+    type: 'alert.fired',
+    occurredAt: event.occurredAt,
+    rule: { id: rule.id, name: rule.name, type: rule.type },
+    alert: event.payload
+  }
+}
+
+export class WebhookSender implements AlertChannelSender {
+  constructor(private options: { allowPrivateNetworks?: boolean } = {}) {}
+
+  /**
+   * One signed POST per event; any non-2xx response counts as a failure
+   */
+  async send(rule: AlertRule, events: AlertEventRecord[]): Promise<Record<string, string | null>> {
+    if (!rule.webhookUrl || !rule.webhookSecret) {
+      throw new Error('Rule has no webhook URL configured')
+    }
+
+    const results: Record<string, string | null> = {}
+    for (const event of events) {
+      try {
+        await this.post(rule.webhookUrl, rule.webhookSecret, event.id, toWebhookPayload(rule, event))
+        results[event.id] = null
+      } catch (error) {
+        results[event.id] = error instanceof Error ? error.message : String(error)
+      }
+    }
+    return results
+  }
+
+  private async post(url: string, secret: string, deliveryId: string, payload: WebhookPayload): Promise<void> {
+    const allowPrivate = this.options.allowPrivateNetworks ?? allowPrivateNetworks()
+    const problem = checkWebhookUrl(url, allowPrivate)
+    if (problem) throw new Error(`Webhook URL ${problem}`)
+
+    const body = JSON.stringify(payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const target = new URL(url)
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest
+
+    // http(s).request rather than fetch: it takes a lookup hook and never follows redirects
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = send(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'Dometrics-Webhooks/1.0',
+          [DELIVERY_HEADER]: deliveryId,
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: `sha256=${signPayload(secret, timestamp, body)}`
+        },
+        lookup: allowPrivate ? undefined : publicLookup,
+        timeout: REQUEST_TIMEOUT_MS
+      }, response => {
+        response.resume()
+        resolve(response.statusCode || 0)
+      })
+      request.on('timeout', () => request.destroy(new Error(`Webhook timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)))
+      request.on('error', reject)
+      request.end(body)
+    })
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with HTTP ${status}`)
+    }
+  }
+}
+
+export const webhookSender = new WebhookSender()
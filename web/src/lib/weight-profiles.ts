@@ -0,0 +1,235 @@
+/**
+ * Scoring weight profiles for Dometrics
+ * Named weight sets (conservative, speculative, lender) layered over the v1
+ * weights in /config/weights.v1.json. Every profile is validated with zod
+ * before an engine is built from it.
+ */
+
+import { z } from 'zod'
+import { ScoringEngine, DEFAULT_WEIGHTS } from './scoring'
+import type { ScoringWeights } from './scoring'
+import baseWeights from '../../public/config/weights.v1.json'
+import conservativeProfile from '../../public/config/profiles/conservative.json'
+import speculativeProfile from '../../public/config/profiles/speculative.json'
+import lenderProfile from '../../public/config/profiles/lender.json'
+
+export const DEFAULT_PROFILE = 'default'
+
+export interface WeightProfile {
+  name: string
+  label: string
+  description: string
+  version: string
+  weights: ScoringWeights
+}
+
+const dayTier = z.object({ days: z.number(), risk: z.number() })
+const countTier = z.object({ count: z.number(), risk: z.number() })
+const offerTier = z.object({ offers: z.number(), risk: z.number() })
+const unitWeight = z.number().min(0).max(1)
+
+// Top-level factor weights of a score must add up to 1
+const sumsToOne = (weights: Record<string, { weight: number }>) =>
+  Math.abs(Object.values(weights).reduce((sum, w) => sum + w.weight, 0) - 1) < 0.001
+
+const scoringWeightsSchema = z.object({
+  version: z.string().min(1),
+  riskScore: z.object({
+    weights: z.object({
+      expiryBuffer: z.object({
+        weight: unitWeight,
+        tiers: z.object({
+          critical: dayTier,
+          urgent: dayTier,
+          warning: dayTier,
+          moderate: dayTier,
+          stable: dayTier,
+          safe: dayTier,
+          veryLow: dayTier
+        })
+      }),
+      lockStatus: z.object({
+        weight: unitWeight,
+        adjustments: z.object({ locked: z.number(), unlocked: z.number() })
+      }),
+      ownershipStability: z.object({
+        weight: unitWeight,
+        factors: z.object({
+          domainAge: z.object({
+            weight: unitWeight,
+            tiers: z.object({ new: dayTier, young: dayTier, established: dayTier, mature: dayTier })
+          }),
+          renewalRate: z.object({
+            weight: unitWeight,
+            tiers: z.object({ never: countTier, rare: countTier, normal: countTier, frequent: countTier })
+          })
+        })
+      }),
+      marketActivity: z.object({
+        weight: unitWeight,
+        factors: z.object({
+          offerActivity: z.object({
+            weight: unitWeight,
+            tiers: z.object({
+              none: offerTier,
+              low: offerTier,
+              moderate: offerTier,
+              high: offerTier,
+              veryHigh: offerTier
+            })
+          }),
+          activityRecency: z.object({
+            weight: unitWeight,
+            tiers: z.object({ stale: dayTier, quiet: dayTier, moderate: dayTier, active: dayTier, hot: dayTier })
+          })
+        })
+      }),
+      registrarTrust: z.object({
+        weight: unitWeight,
+        tiers: z.object({ verified: z.number(), known: z.number(), unknown: z.number(), suspicious: z.number() })
+      })
+    }).refine(sumsToOne, { message: 'risk weights must sum to 1' })
+  }),
+  rarityScore: z.object({
+    weights: z.object({
+      nameLength: z.object({
+        weight: unitWeight,
+        thresholds: z.object({ maxRarity: z.number(), minRarity: z.number() })
+      }),
+      dictionaryBrandable: z.object({
+        weight: unitWeight,
+        bonuses: z.object({ dictionary: z.number(), brandable: z.number(), random: z.number() })
+      }),
+      tldScarcity: z.object({ weight: unitWeight, buckets: z.record(z.number()) }),
+      historicDemand: z.object({ weight: unitWeight, baseValue: z.number() })
+    }).refine(sumsToOne, { message: 'rarity weights must sum to 1' })
+  }),
+  momentumScore: z.object({
+    weights: z.object({
+      activityDelta: z.object({
+        weight: unitWeight,
+        periods: z.object({ recent: z.number().positive(), baseline: z.number().positive() })
+      }),
+      recentEvents: z.object({ weight: unitWeight, timeWindow: z.number().positive() }),
+      searchPopularity: z.object({ weight: unitWeight })
+    }).refine(sumsToOne, { message: 'momentum weights must sum to 1' })
+  }),
+  forecastScore: z.object({
+    baseGrowthRate: z.number().min(-1).max(1),
+    weights: z.object({
+      momentum: z.number().min(-1).max(1),
+      rarity: z.number().min(-1).max(1),
+      risk: z.number().min(-1).max(1)
+    }),
+    confidenceInterval: z.object({ base: z.number().min(0), riskMultiplier: z.number().min(0) })
+  })
+})
+
+const profileFileSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/),
+  label: z.string().min(1),
+  description: z.string().default(''),
+  version: z.string().min(1),
+  extends: z.literal('v1'),
+  weights: z.record(z.unknown())
+})
+
+type PlainObject = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Profile files only list the values they change; everything else comes from v1
+function deepMerge(base: PlainObject, overrides: PlainObject): PlainObject {
+  const merged: PlainObject = { ...base }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key])
+      ? deepMerge(base[key] as PlainObject, value)
+      : value
+  }
+  return merged
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+}
+
+function loadProfiles(): Map<string, WeightProfile> {
+  const profiles = new Map<string, WeightProfile>()
+
+  const base = scoringWeightsSchema.safeParse(baseWeights)
+  if (!base.success) {
+    // The engine still has its built-in copy of v1, so keep serving with that
+    console.error(`Invalid weights.v1.json, using built-in weights: ${formatIssues(base.error)}`)
+  }
+  const baseParsed = base.success ? (base.data as ScoringWeights) : DEFAULT_WEIGHTS
+  profiles.set(DEFAULT_PROFILE, {
+    name: DEFAULT_PROFILE,
+    label: 'Balanced',
+    description: 'Reference v1 weights',
+    version: baseParsed.version,
+    weights: baseParsed
+  })
+
+  for (const raw of [conservativeProfile, speculativeProfile, lenderProfile] as unknown[]) {
+    const file = profileFileSchema.safeParse(raw)
+    if (!file.success) {
+      console.error(`Skipping invalid weight profile: ${formatIssues(file.error)}`)
+      continue
+    }
+
+    const merged = deepMerge(baseParsed as unknown as PlainObject, {
+      ...file.data.weights,
+      version: file.data.version
+    })
+    const weights = scoringWeightsSchema.safeParse(merged)
+    if (!weights.success) {
+      console.error(`Skipping weight profile "${file.data.name}": ${formatIssues(weights.error)}`)
+      continue
+    }
+
+    profiles.set(file.data.name, {
+      name: file.data.name,
+      label: file.data.label,
+      description: file.data.description,
+      version: file.data.version,
+      weights: weights.data as ScoringWeights
+    })
+  }
+
+  return profiles
+}
+
+const profiles = loadProfiles()
+const engines = new Map<string, ScoringEngine>()
+
+/**
+ * All valid profiles, default first
+ */
+export function listWeightProfiles(): WeightProfile[] {
+  return Array.from(profiles.values())
+}
+
+/**
+ * Profile by name; undefined or empty selects the default
+ */
+export function getWeightProfile(name?: string | null): WeightProfile | null {
+  return profiles.get(name || DEFAULT_PROFILE) || null
+}
+
+/**
+ * Shared engine for a profile, created on first use
+ */
+export function getScoringEngine(name?: string | null): ScoringEngine {
+  const profile = getWeightProfile(name)
+  if (!profile) {
+    throw new Error(`Unknown weight profile: ${name}`)
+  }
+  let engine = engines.get(profile.name)
+  if (!engine) {
+    engine = new ScoringEngine(profile.weights)
+    engines.set(profile.name, engine)
+  }
+  return engine
+}
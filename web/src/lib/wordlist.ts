@@ -0,0 +1,19 @@
+/**
+ * Bundled English wordlist for Dometrics
+ * Common English words plus the crypto and tech vocabulary that turns up in
+ * domain names, used offline to recognise dictionary names and split
+ * compounds ("openbank" → open + bank). Only real words of two letters or
+ * more; short abbreviations are kept to the few collectors treat as words.
+ */
+
+const WORDS = `
+ai app art bar bat bay bed bee bet big bit box boy bug bus buy cab cam can cap car cat cow cry cup cut dad day den dew dig dog dot dry due ear eat egg ego end era eye fan far fat fax fee few fig fit fix fly fog fox fun fur gap gas gem get god gum gun guy gym hat hay hen hip hit hog hop hot hub hue hug ice ink inn jam jar jaw jet job joy key kid kit lab lap law lay leg let lid lip log lot low mad map mat max men mix mob mom mud mug net new nut oak odd off oil old one orb out owl own pad pal pan pat paw pay pea pen pet pie pig pin pit pod pop pot pro pub pun pup put ram ran rap rat raw ray red rib rid rig rim rip rod row rub rug run sad saw say sea see set sew sex shy sip sit six ski sky son soy spa spy sum sun tab tag tan tap tax tea ten tie tin tip toe ton top toy try tub two use van vet via vow war wax way web wet who why win wit wok won yak yes yet zen zip zoo
+go my up me we us to do be in on at it of no so ok tv
+able acid acre aero aged aide aqua arch area army atom aunt auto avid away axis baby back bake ball band bank barn base bath beam bean bear beat beef beer bell belt bend best bike bill bind bird bite blog blue boat body bold bolt bond bone book boom boot boss bowl buck bulk bull burn busy buzz cafe cage cake call calm camp card care cart case cash cast cave cell chat chef chip city clan clay clip club clue coal coat code coin cold comb come cook cool cope copy core corn cost cozy crab crew crop crow cube cure cute dare dark dash data date dawn deal dean dear debt deck deed deep deer demo desk dial dice diet dine dish disk dive dock doge doll dome door dose dove down draw drop drum duck dune dust duty each earn ease east easy echo edge epic euro even ever exam exit expo face fact fair fall fame farm fast fate fear feed feel file film find fine fire firm fish five flag flat flex flip flow foam folk fond font food fool foot ford fork form fort four free frog fuel full fund fury fuse gain gala game gate gaze gear gift girl give glad glow glue goal goat gold golf good grab gray grid grip grow gulf guru hack half hall halo hand hang hard harm hash have hawk head heal heap hear heat help herb hero hide high hike hill hint hire hive hold hole holy home hood hook hope horn host hour huge hunt hype icon idea idle inch info iron isle item jazz jobs join joke jump jury just keen keep kick kind king kiss kite knot know lady lake lamb lamp land lane last late lava lawn lead leaf lean leap left lend lens less life lift like lime line link lion list live load loan lock loft logo long look loop lord lose loss lost loud love luck lump lung lush made mail main make mall many mark mars mask mass mate maze meal meat meet mega melt memo menu mesh meta mild milk mill mind mine mint miss mode mojo mole mood moon more moss most moth move much muse must myth nail name navy near neat neck need nest news next nice nine node noon norm nose note nova oath odds okay omni once only onto open oval oven over pace pack page paid pain pair palm park part pass past path peak pear peer pick pier pile pine pink pipe plan play plot plug plus poem poet pole poll pond pony pool poor port pose post pour pray prey prop pull pulp pump punk pure push quiz race rack raft rage raid rail rain ramp rank rare rate read real rear reef rely rent rest rice rich ride ring rise risk road roam rock role roll roof room root rope rose ruby rule rush rust safe saga sage sail sale salt same sand save scan seal seat seed seek self sell send ship shoe shop shot show shut sick side sign silk sing sink site size skin slim slot slow snap snow soap soar sock soda sofa soft soil sold solo some song soon sort soul soup spin spot star stay stem step stop such suit sure surf swap swim tail take tale talk tall tank tape task taxi team tear tech tell tent term test text than that them then they thin this tide tidy tile time tiny tire toad told toll tone tool tops tour town trap tray tree trek trim trio trip true tube tuna tune turn twin type unit upon urge used user vale vast vibe view vine visa void vote wage wait wake walk wall want ward warm wash wave weak wear week well west what when whip wide wife wild will wind wine wing wire wise wish with wolf wood wool word work worm wrap yard yarn year yoga your zero zone zoom
+about above actor adapt admin adopt adult after again agent agree ahead alarm album alert alien align alive alley allow alloy alone alpha amber amigo among angel anger angle angry apple apply arena argue arise armor array arrow asset atlas audio audit avoid award aware bacon badge baker basic basin basis batch beach beast begin being below bench berry bingo birth black blade blame blank blast blaze blend bless blind blink bliss block bloom blues board boast bonus boost booth bound brain brand brave bread break breed brick bride brief bring broad broker brook brown brush buddy build built bunch burst buyer cabin cable camel candy canoe canvas cargo carry catch cause cedar chain chair chalk champ chaos charm chart chase cheap check cheer chess chest chief child chill chord civic civil claim class clean clear clerk click cliff climb clock close cloth cloud coach coast cobra cocoa color comet comic coral couch count court cover craft crane crash crazy cream creek crest crisp cross crowd crown crush crypt curve cyber cycle daily dairy dance delta dense depot depth derby diary digit diner disco ditch dizzy dodge donor doubt dough draft drake drama dream dress drift drill drink drive drone dwell eager eagle early earth easel elite ember empty enjoy enter entry equal equip error essay event every exact exist extra fable faith false fancy feast fence ferry fiber field fiery fifth fifty fight final first flame flash fleet flesh float flock flood floor flora flour fluid flute focus force forge forum found frame fresh front frost fruit funny fuzzy gamer giant given glass gleam globe glory glove grace grade grain grand grant grape graph grasp grass great green greet grill gross group grove guard guess guest guide habit happy harsh haven heart heavy hedge hello hobby honey honor horse hotel house human humor hurry ideal image index inner input intro issue ivory jelly jewel joint judge juice jumbo karma kayak knife knock label labor laser later laugh layer learn lease least legal lemon level lever light limit linen liner liquid lobby local lodge logic loose lotus lover loyal lucky lunar lunch magic major maker mango manor maple march match mayor medal media mercy merit metal meter metro micro might mimic minor minus mirth mixer model money month moral motor mount mouse mouth movie music naive nerve never night ninja noble noise north novel nurse oasis ocean offer often olive omega onion opera orbit order organ other outer owner oxide ozone paint panel paper party pasta patch pause peace peach pearl pedal penny perch phase phone photo piano piece pilot pitch pixel pizza place plain plane plant plate plaza point polar porch pouch pound power press price pride prime print prior prism prize probe proof proud prove proxy pulse punch pupil puppy purse queen query quest quick quiet quilt quota quote radar radio rally ranch range rapid ratio razor reach ready realm rebel refer relax relay renew reply rider ridge rifle right rigid rival river roast robin robot rocky rogue roman rough round route royal rural salad salon sauce scale scene scent scope score scout scrap sense serve setup seven shade shake shape share shark sharp sheep sheet shelf shell shift shine shirt shock shore short shout sight sigma silly since sixth skill slate sleep slice slide slope smart smile smoke snack snake solar solid solve sonic sound south space spare spark speak speed spell spend spice spike spine spoon sport spray squad stack staff stage stake stamp stand start state steam steel steep stick still stock stone stool storm story stove strap straw strip study stuff style sugar suite sunny super surge swamp swarm sweet swift swing sword table taste teach teddy teeth tempo thank theme thick thing think third three throw thumb tiger tight timer title toast today token topic total touch tough tower toxic trace track trade trail train trait treat trend trial tribe trick troop truck truly trust truth tulip turbo tutor twist ultra uncle under union unity until upper urban usage usual valid value valve vapor vault venom venue verse video vigor villa vinyl viral virus visit vista vital vivid vocal voice voter wagon waste watch water wheat wheel where while white whole widow width witch woman world worry worth wrist write yacht young youth zebra
+access across action active actual advice advise affair afford agency agenda almost always amount animal annual answer anyone appeal appear arctic around arrive artist aspect assist assume attach attack attend august author autumn avenue backup bakery ballet banana banner barber barrel basket battle beauty become before behind belief better beyond bigger bishop bitter blanket blonde bottle bottom bounce branch breath breeze bridge bright broken bronze bubble bucket budget buffer bundle burger butter button bypass camera campus candle canyon carbon career carpet castle casual cattle center centre chance change charge cherry choice choose chosen church circle claims client clinic closet coffee collar colony column combat comedy comment common copper corner cosmic costly cotton county couple course cousin create credit crisis critic cruise custom damage dancer danger dealer debate decade decide deeper defend degree demand dental deploy desert design desire detail detect device dinner direct doctor dollar domain donate double dragon drawer driver during easily eating editor effect effort eighty either eleven emerge empire enable energy engine enough ensure entire equity escape estate ethics euro evolve exceed except excess expand expect expert export expose extend fabric facial factor fallen family famous farmer father faucet fellow female figure filter finger finish fiscal flight flower flying follow forest forget formal format former foster fourth freeze friend frozen future galaxy gallery garage garden garlic gather gender gentle gifted ginger global golden govern growth guitar hammer handle happen harbor hazard health heaven height helmet hidden hockey holder honest hunter hybrid impact import income indoor infant inform injury insect inside insure intent invest island itself jacket jersey jungle junior kernel kidney kitten ladder launch lawyer leader league legacy legend lesson letter liquor listen little lively living locker lounge luxury magnet mainly manage manner marble margin marine market master matter meadow medium member memory mentor method middle mighty mining minute mirror mobile modern modest moment monkey mostly mother motion moving museum mutual myself narrow nation native nature nearby nearly needle nickel nobody normal notice number object obtain office online option orange orchid origin outfit output oxygen packet palace parade parent parrot partly patent patrol patron peanut pencil people pepper period permit person phrase picnic pillow planet player pledge plenty pocket poetry police policy polish portal poster potato powder praise prefer pretty prince prison profit prompt proper public puzzle rabbit racing radius random rarely rather rating reader really reason recipe record reduce reform refuge region relief remote rental repair report rescue resort result retail retire return reveal review reward rhythm ribbon ridden riding rocket rubber runner safari safety salary salmon sample saving scheme school screen script search season second secret secure seller senior sensor series server settle shadow shield shower signal silent silver simple single sister sketch skiing slogan smooth soccer social socket solely source speech sphere spider spirit splash spring square stable status steady stereo sticky stream street stress strike string strong studio submit summer summit supply surely survey switch symbol system tablet talent target temple tender tennis thanks theory thirty thread threat throne ticket timber tissue toggle tomato tongue toward travel treaty trophy tunnel turkey twelve twenty unique united unlock update uplink useful valley vector velvet vendor verify vessel victim viking violet virgin vision visual volume voyage wallet walnut wealth weapon weekly weight window winner winter wisdom within wizard wonder wooden worker writer yellow zombie
+academy account achieve address advance airline airport alchemy already amazing ancient another anxiety anybody anymore archive arrival article athlete attempt average balance bandana banking barrier battery bedroom believe benefit between bicycle billion biology blanket blossom booking borough bracket brother builder burning cabinet caliber capital captain capture careful carrier catalog central century certain chamber channel chapter charity charter chicken circuit citizen classic climate closing cluster coastal cockpit collect college combine comfort command commons company compare compass complex compute concept concert conduct confirm connect consent console contact content contest context control convert cooking correct costume cottage council counter country courage cousins crystal culture curious current cushion custody customer dancing dealing decimal decline default defense deliver density deposit desktop destiny develop digital dignity discord dispute distant diverse dolphin drawing driving dynamic eastern economy edition elegant element emerald emperor enforce engaged english enhance evening exactly example excited exhibit explore express extreme factory faculty failure fantasy fashion feature federal feeling fiction fifteen finance fishing fitness flowers focused foreign forever formula fortune forward founder freedom fullest funding gallery garment general genetic genuine gesture glimpse granite graphic gravity grocery growing habitat halfway harmony harvest healthy hearing heavenly helpful herself highway himself history holiday horizon housing however hundred hunting husband illegal imagine improve include initial insight inspire install instant instead integer interim interns invoice journal journey justice kingdom kitchen landing largely laundry lawsuit leading learner leather lecture liberal liberty library license limited machine mailbox manager mansion marking massive maximum meaning measure medical meeting mention message million mindful mineral minimum mission mixture monitor monster morning mystery natural network neutral nuclear nursing obvious october offline ongoing opinion organic outdoor outlook overall pacific package painter parking partner passage passion patient pattern payment penalty pension percent perfect perform perhaps phoenix picture pioneer pivotal plastic popular portion poverty precise predict premier premium prepare present prevent primary printer privacy private problem process produce product profile program project promise protect protein proven provide publish pumpkin purpose pyramid qualify quality quantum quarter radical railway rainbow reality receipt receive recover reflect regular related release remains removal replace request reserve resolve respect respond restore revenue revenge routine royalty sailing satisfy science scratch section segment serious service session setting several shelter shining shopper silence similar society soldier someone speaker special sponsor stadium station storage strange stretch student subject success suggest summary support supreme surface surgeon surplus survive suspect sustain teacher tension theater thought thunder tonight totally tourism tourist traffic trainer trigger trouble tuesday typical unicorn uniform unknown unusual upgrade utility vacancy variety vehicle venture version veteran victory village vintage virtual visitor volcano warrior weather website wedding weekend welcome welfare western whisper whoever willing winning without witness working workout worship writing
+ethereum bitcoin blockchain crypto defi nft dao web3 metaverse cloud online finance invest store sell hotel education play dating medical estate car job help tips review expert international city usa america forum community make free small
+`
+
+export const WORDLIST: ReadonlySet<string> = new Set(WORDS.split(/\s+/).filter(word => word.length > 0))